@@ -2,21 +2,27 @@ import React, { useState, useEffect } from 'react'; // Import useState and useEf
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
+import { queryClient } from "@/data/queryClient";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
-import { supabase } from '@/integrations/supabase/client'; // Import supabase client
+import { useOutboxSync } from "@/hooks/usePlankOutbox";
+import { useSupabase } from '@/integrations/supabase/context';
 
 import Index from "./pages/Index";
 import Profile from "./pages/Profile";
 import Challenges from "./pages/Challenges";
 import AdminChallenges from "./pages/admin/Challenges";
+import AdminReview from "./pages/admin/Review";
 import NotFound from "./pages/NotFound";
 import Auth from "./pages/Auth";
 import RedirectToSelf from "./components/RedirectToSelf";
 import Home from "./pages/Home";
-
-const queryClient = new QueryClient();
+import PlankLive from "./pages/PlankLive";
+import LeaderboardLive from "./pages/LeaderboardLive";
+import Groups from "./pages/Groups";
+import Group from "./pages/Group";
+import GroupJoin from "./pages/GroupJoin";
 
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
   const { user, loading } = useAuth();
@@ -30,6 +36,7 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
 
 // --- Modified AdminProtectedRoute ---
 const AdminProtectedRoute = ({ children }: { children: React.ReactNode }) => {
+  const supabase = useSupabase();
   const { user, loading: authLoading } = useAuth();
   const [isAdmin, setIsAdmin] = useState<boolean | null>(null); // Use state for async check
   const [loading, setLoading] = useState(true);
@@ -72,7 +79,7 @@ const AdminProtectedRoute = ({ children }: { children: React.ReactNode }) => {
     };
 
     checkAdminRole();
-  }, [user, authLoading]); // Re-run if user or auth loading state changes
+  }, [supabase, user, authLoading]); // Re-run if user or auth loading state changes
 
   if (loading || authLoading) {
     // Show loading state while checking auth or fetching profile
@@ -85,6 +92,9 @@ const AdminProtectedRoute = ({ children }: { children: React.ReactNode }) => {
 // --- End of Modified AdminProtectedRoute ---
 
 const App = () => {
+  // push planks that were logged while offline
+  useOutboxSync();
+
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
@@ -128,6 +138,14 @@ const App = () => {
                 </AdminProtectedRoute>
               }
                       />
+            <Route
+              path="/admin/review"
+              element={
+                <AdminProtectedRoute>
+                  <AdminReview />
+                </AdminProtectedRoute>
+              }
+            />
             <Route
               path="/home"
               element={
@@ -136,6 +154,46 @@ const App = () => {
                 </ProtectedRoute>
               }
               />
+            <Route
+              path="/plank/live"
+              element={
+                <ProtectedRoute>
+                  <PlankLive />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/leaderboard/live"
+              element={
+                <ProtectedRoute>
+                  <LeaderboardLive />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/groups"
+              element={
+                <ProtectedRoute>
+                  <Groups />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/groups/:id"
+              element={
+                <ProtectedRoute>
+                  <Group />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/groups/join/:code"
+              element={
+                <ProtectedRoute>
+                  <GroupJoin />
+                </ProtectedRoute>
+              }
+            />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
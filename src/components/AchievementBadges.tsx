@@ -1,7 +1,8 @@
 // src/components/AchievementBadges.tsx
 
 import React, { useState, useEffect, useCallback } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useSupabase } from "@/integrations/supabase/context";
+import { Tables } from "@/integrations/supabase/types";
 import {
     Card,
     CardContent,
@@ -19,18 +20,8 @@ import { toast } from "@/components/ui/sonner";
 //
 // Raw row coming back from badges joined to user_badges
 //
-type RawBadgeRow = {
-    id: number;
-    name: string;
-    icon_url: string;          // your emoji/icon string
-    description: string;
-    criteria: { [key: string]: any };
-    user_badges: {
-        progress: number;
-        max_progress: number;
-        earned_at: string | null;
-        user_id: string;
-    }[];
+type RawBadgeRow = Tables<"badges"> & {
+    user_badges: Pick<Tables<"user_badges">, "progress" | "max_progress" | "earned_at" | "user_id">[];
 };
 
 //
@@ -45,6 +36,7 @@ interface AchievementBadgesProps {
 }
 
 const AchievementBadges: React.FC<AchievementBadgesProps> = ({ userId }) => {
+    const supabase = useSupabase();
     const [badges, setBadges] = useState<BadgeRow[]>([]);
     const [loading, setLoading] = useState(true);
 
@@ -53,7 +45,7 @@ const AchievementBadges: React.FC<AchievementBadgesProps> = ({ userId }) => {
 
         // grab only this user's badges
         const { data, error } = await supabase
-            .from<RawBadgeRow>("badges")
+            .from("badges")
             .select(`
         id,
         name,
@@ -86,7 +78,7 @@ const AchievementBadges: React.FC<AchievementBadgesProps> = ({ userId }) => {
 
         setBadges(flattened);
         setLoading(false);
-    }, [userId]);
+    }, [supabase, userId]);
 
     useEffect(() => {
         loadBadges();
@@ -0,0 +1,162 @@
+// src/components/ActivityFeed.tsx
+
+import React, { useEffect, useRef } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Clock, Flag, Trophy, Users } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { FeedItem, FeedKind, useActivityFeed } from "@/data/activity";
+import PlankDetailDialog from "./PlankDetailDialog";
+
+interface ActivityFeedProps {
+    userId: string;
+}
+
+// ?plank=<id> opens that plank's details, so feed items can be linked to
+const PLANK_PARAM = "plank";
+
+const formatTime = (t: number) => {
+    const m = Math.floor(t / 60);
+    const s = t % 60;
+    return `${m}:${s < 10 ? "0" + s : s}`;
+};
+
+const describe = (item: FeedItem) => {
+    switch (item.kind as FeedKind) {
+        case "plank":
+            return <>planked for <strong>{formatTime(item.duration_s ?? 0)}</strong></>;
+        case "personal_best":
+            return <>set a new personal best of <strong>{formatTime(item.duration_s ?? 0)}</strong></>;
+        case "badge":
+            return <>earned the <strong>{item.badge_icon} {item.badge_name}</strong> badge</>;
+        case "challenge_joined":
+            return <>joined <strong>{item.challenge_title}</strong></>;
+        case "challenge_completed":
+            return <>completed <strong>{item.challenge_title}</strong></>;
+        default:
+            return null;
+    }
+};
+
+const icon = (kind: string) => {
+    switch (kind as FeedKind) {
+        case "personal_best":
+            return <Trophy className="h-4 w-4 text-yellow-500" />;
+        case "challenge_joined":
+            return <Users className="h-4 w-4 text-plank-blue" />;
+        case "challenge_completed":
+            return <Flag className="h-4 w-4 text-plank-green" />;
+        default:
+            return <Clock className="h-4 w-4 text-gray-400" />;
+    }
+};
+
+const ActivityFeed: React.FC<ActivityFeedProps> = ({ userId }) => {
+    const feed = useActivityFeed(userId);
+    const items = feed.data?.pages.flat() ?? [];
+    const loading = feed.isFetching;
+    const hasMore = feed.hasNextPage;
+    const loadMore = () => {
+        if (!feed.isFetchingNextPage) feed.fetchNextPage();
+    };
+    const [searchParams, setSearchParams] = useSearchParams();
+    const openPlankId = Number(searchParams.get(PLANK_PARAM)) || null;
+
+    // 1) load the next page as the bottom of the list scrolls into view
+    const sentinelRef = useRef<HTMLDivElement>(null);
+    const loadMoreRef = useRef(loadMore);
+    loadMoreRef.current = loadMore;
+
+    useEffect(() => {
+        const el = sentinelRef.current;
+        if (!el || typeof IntersectionObserver === "undefined") return;
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some((e) => e.isIntersecting)) loadMoreRef.current();
+        }, { rootMargin: "200px" });
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, [hasMore, loading]);
+
+    // 2) closing the dialog drops the deep link again
+    const closePlank = (open: boolean) => {
+        if (open) return;
+        const next = new URLSearchParams(searchParams);
+        next.delete(PLANK_PARAM);
+        setSearchParams(next, { replace: true });
+    };
+
+    const plankLink = (plankId: number) => {
+        const next = new URLSearchParams(searchParams);
+        next.set(PLANK_PARAM, String(plankId));
+        return `?${next.toString()}`;
+    };
+
+    return (
+        <Card className="plank-card">
+            <CardHeader className="pb-2 border-b">
+                <CardTitle className="text-lg font-poppins">Activity</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+                {items.length === 0 && !loading ? (
+                    <p className="p-6 text-center text-gray-500">
+                        Nothing here yet. Follow people from their profiles or the
+                        leaderboard to see their planks, bests and badges.
+                    </p>
+                ) : (
+                    <ul className="divide-y">
+                        {items.map((item) => (
+                            <li key={item.item_id} className="p-4 flex items-start gap-3">
+                                <Link to={`/profile/${item.actor_id}`} className="h-10 w-10 shrink-0 rounded-full overflow-hidden">
+                                    <img
+                                        src={item.actor_image ?? ""}
+                                        alt={item.actor_name ?? ""}
+                                        className="h-full w-full object-cover"
+                                    />
+                                </Link>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm">
+                                        <Link to={`/profile/${item.actor_id}`} className="font-medium hover:underline">
+                                            {item.actor_name ?? "Someone"}
+                                        </Link>{" "}
+                                        {describe(item)}
+                                    </p>
+                                    <p className="mt-1 flex items-center gap-1 text-xs text-gray-500">
+                                        {icon(item.kind)}
+                                        {formatDistanceToNow(new Date(item.occurred_at), { addSuffix: true })}
+                                    </p>
+                                </div>
+                                {item.plank_id != null && (
+                                    <Button variant="outline" size="sm" asChild>
+                                        <Link to={plankLink(item.plank_id)}>View</Link>
+                                    </Button>
+                                )}
+                                {item.challenge_id != null && (
+                                    <Button variant="outline" size="sm" asChild>
+                                        <Link to="/challenges">Challenges</Link>
+                                    </Button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {loading && <p className="p-4 text-center text-sm text-gray-500">Loading…</p>}
+
+                {hasMore && items.length > 0 && !loading && (
+                    <div ref={sentinelRef} className="p-4 text-center">
+                        <Button variant="ghost" size="sm" onClick={loadMore}>
+                            Load more
+                        </Button>
+                    </div>
+                )}
+            </CardContent>
+
+            {openPlankId && (
+                <PlankDetailDialog plankId={openPlankId} open onOpenChange={closePlank} />
+            )}
+        </Card>
+    );
+};
+
+export default ActivityFeed;
@@ -0,0 +1,211 @@
+// src/components/ApiTokens.tsx
+
+import React, { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Copy, KeyRound } from "lucide-react";
+import { useSupabase } from "@/integrations/supabase/context";
+import { Tables } from "@/integrations/supabase/types";
+import { toast } from "@/components/ui/sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type ApiToken = Omit<Tables<"api_tokens">, "token_hash">;
+
+interface ApiTokensProps {
+    userId: string;
+}
+
+const SCOPES = [
+    { value: "planks:write", label: "Log planks" },
+    { value: "stats:read", label: "Read my stats" },
+];
+
+// supabase/functions/api on the project the app is configured for
+const API_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/api`;
+const CURL_EXAMPLE = `curl -X POST ${API_URL}/planks -H "Authorization: Bearer $TOKEN" -d '{"time":"1:30"}'`;
+
+// Personal access tokens for the HTTP API. A new token is only shown once;
+// the server keeps a hash of it.
+const ApiTokens: React.FC<ApiTokensProps> = ({ userId }) => {
+    const supabase = useSupabase();
+    const [tokens, setTokens] = useState<ApiToken[]>([]);
+    const [name, setName] = useState("");
+    const [scopes, setScopes] = useState<string[]>(SCOPES.map((s) => s.value));
+    const [created, setCreated] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const load = useCallback(async () => {
+        const { data, error } = await supabase
+            .from("api_tokens")
+            .select("id, user_id, name, token_prefix, scopes, created_at, last_used_at, revoked_at")
+            .eq("user_id", userId)
+            .order("created_at", { ascending: false });
+        if (error) {
+            console.error("Could not load tokens:", error);
+            toast.error("Could not load your API tokens.");
+            return;
+        }
+        setTokens(data || []);
+    }, [supabase, userId]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim() || scopes.length === 0) return;
+        setBusy(true);
+        const { data, error } = await supabase.rpc("create_api_token", { p_name: name.trim(), p_scopes: scopes });
+        setBusy(false);
+        if (error) {
+            console.error(error);
+            toast.error("Could not create the token.");
+            return;
+        }
+        setCreated(data);
+        setName("");
+        load();
+    };
+
+    const handleRevoke = async (token: ApiToken) => {
+        if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+        const { error } = await supabase.rpc("revoke_api_token", { p_token_id: token.id });
+        if (error) {
+            console.error(error);
+            toast.error("Could not revoke the token.");
+            return;
+        }
+        load();
+    };
+
+    const handleDelete = async (token: ApiToken) => {
+        const { error } = await supabase.from("api_tokens").delete().eq("id", token.id);
+        if (error) {
+            console.error(error);
+            toast.error("Could not delete the token.");
+            return;
+        }
+        setTokens((cur) => cur.filter((t) => t.id !== token.id));
+    };
+
+    const copy = async (text: string) => {
+        try {
+            await navigator.clipboard.writeText(text);
+            toast.success("Copied!");
+        } catch (err) {
+            console.error(err);
+            toast.error("Could not copy.");
+        }
+    };
+
+    const toggleScope = (value: string, on: boolean) =>
+        setScopes((cur) => (on ? [...cur, value] : cur.filter((s) => s !== value)));
+
+    return (
+        <Card className="plank-card">
+            <CardHeader className="pb-2 border-b">
+                <CardTitle className="text-lg font-poppins flex items-center gap-2">
+                    <KeyRound className="h-5 w-5" />
+                    API Tokens
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 space-y-6">
+                <p className="text-sm text-gray-600">
+                    Log planks from a terminal or an editor hook while your build runs, e.g.{" "}
+                    <code className="break-all text-xs">{CURL_EXAMPLE}</code>
+                </p>
+
+                {created && (
+                    <div className="rounded-md border border-plank-green bg-green-50 p-3 space-y-2">
+                        <p className="text-sm font-medium">Copy your new token now. You won't be able to see it again.</p>
+                        <div className="flex gap-2">
+                            <Input readOnly value={created} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                            <Button variant="outline" size="icon" onClick={() => copy(created)} aria-label="Copy token">
+                                <Copy className="h-4 w-4" />
+                            </Button>
+                        </div>
+                        <Button variant="link" size="sm" className="px-0" onClick={() => setCreated(null)}>
+                            Done
+                        </Button>
+                    </div>
+                )}
+
+                <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-4">
+                    <div className="flex-1 min-w-[12rem]">
+                        <Label htmlFor="token-name">Token name</Label>
+                        <Input
+                            id="token-name"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="e.g. Work laptop"
+                            maxLength={60}
+                            required
+                        />
+                    </div>
+                    <div className="flex gap-4 pb-2">
+                        {SCOPES.map((s) => (
+                            <label key={s.value} className="flex items-center gap-2 text-sm">
+                                <Checkbox
+                                    checked={scopes.includes(s.value)}
+                                    onCheckedChange={(on) => toggleScope(s.value, on === true)}
+                                />
+                                {s.label}
+                            </label>
+                        ))}
+                    </div>
+                    <Button type="submit" className="plank-btn-primary" disabled={busy || scopes.length === 0}>
+                        Create Token
+                    </Button>
+                </form>
+
+                {tokens.length === 0 ? (
+                    <p className="text-sm text-gray-500">No tokens yet.</p>
+                ) : (
+                    <ul className="divide-y border rounded-md">
+                        {tokens.map((t) => (
+                            <li key={t.id} className={`p-3 flex flex-wrap items-center gap-3 ${t.revoked_at ? "opacity-60" : ""}`}>
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-medium flex items-center gap-2">
+                                        {t.name}
+                                        <span className="font-mono text-xs text-gray-500">{t.token_prefix}…</span>
+                                    </p>
+                                    <p className="text-xs text-gray-500">
+                                        Created {formatDistanceToNow(new Date(t.created_at), { addSuffix: true })}
+                                        {" · "}
+                                        {t.last_used_at
+                                            ? `last used ${formatDistanceToNow(new Date(t.last_used_at), { addSuffix: true })}`
+                                            : "never used"}
+                                    </p>
+                                </div>
+                                <div className="flex gap-1">
+                                    {t.scopes.map((s) => (
+                                        <Badge key={s} variant="outline">{s}</Badge>
+                                    ))}
+                                </div>
+                                {t.revoked_at ? (
+                                    <>
+                                        <Badge variant="secondary">Revoked</Badge>
+                                        <Button size="sm" variant="ghost" onClick={() => handleDelete(t)}>
+                                            Delete
+                                        </Button>
+                                    </>
+                                ) : (
+                                    <Button size="sm" variant="outline" className="text-red-600" onClick={() => handleRevoke(t)}>
+                                        Revoke
+                                    </Button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+export default ApiTokens;
@@ -11,7 +11,10 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Calendar, Users, Clock as ClockIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { supabase } from "@/integrations/supabase/client";
+import { useSupabase } from "@/integrations/supabase/context";
+import { toast } from "@/components/ui/sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useJoinChallenge, useJoinedChallenges, useLeaveChallenge } from "@/data/challenges";
 import styles from "@/pages/style/Challenges.module.css";
 
 export interface Challenge {
@@ -29,10 +32,11 @@ export interface Challenge {
 
 interface ChallengeCardProps {
     challenge: Challenge;
-    onJoin: (id: number) => Promise<void>;
 }
 
-const ChallengeCard: React.FC<ChallengeCardProps> = ({ challenge, onJoin }) => {
+const ChallengeCard: React.FC<ChallengeCardProps> = ({ challenge }) => {
+    const supabase = useSupabase();
+    const { user } = useAuth();
     const {
         id,
         title,
@@ -45,32 +49,15 @@ const ChallengeCard: React.FC<ChallengeCardProps> = ({ challenge, onJoin }) => {
         meeting_url,
     } = challenge;
 
-    const [joined, setJoined] = useState(false);
-    const [checking, setChecking] = useState(true);
     const [isExpired, setIsExpired] = useState(false);
 
-    // 1) Check if current user already joined
-    useEffect(() => {
-        let isMounted = true;
-        (async () => {
-            const { data: { user } } = await supabase.auth.getUser();
-            if (!user) {
-                setChecking(false);
-                return;
-            }
-            const { data, error } = await supabase
-                .from("challenge_participants")
-                .select("id", { count: 'exact' })
-                .eq("user_id", user.id)
-                .eq("challenge_id", id)
-                .single();
-            if (!error && data && isMounted) {
-                setJoined(true);
-            }
-            setChecking(false);
-        })();
-        return () => { isMounted = false; };
-    }, [id]);
+    // 1) Whether the current user is in (one query shared by every card)
+    const { data: joinedChallenges = [], isPending: loadingJoined } = useJoinedChallenges(user?.id);
+    const joined = joinedChallenges.some((c) => c.id === id);
+    const checking = !!user && loadingJoined;
+    const joinChallenge = useJoinChallenge();
+    const leaveChallenge = useLeaveChallenge();
+    const busy = joinChallenge.isPending || leaveChallenge.isPending;
 
     // 2) Schedule “completed” watermark after start +10min, and deletion at day's end
     useEffect(() => {
@@ -111,12 +98,26 @@ const ChallengeCard: React.FC<ChallengeCardProps> = ({ challenge, onJoin }) => {
             if (completeTimer) clearTimeout(completeTimer);
             if (deleteTimer) clearTimeout(deleteTimer);
         };
-    }, [startDate, startTime, id]);
+    }, [supabase, startDate, startTime, id]);
 
-    // 3) Join handler
-    const handleJoin = async () => {
-        await onJoin(id);
-        setJoined(true);
+    // 3) Join / leave toggle; the database keeps the participants count
+    const handleToggle = async () => {
+        if (!user) {
+            toast.error("You must be logged in.");
+            return;
+        }
+        try {
+            if (joined) {
+                await leaveChallenge.mutateAsync(id);
+                toast.success(`You left ${title}.`);
+            } else {
+                await joinChallenge.mutateAsync(id);
+                toast.success(`You joined ${title}!`);
+            }
+        } catch (err) {
+            console.error(err);
+            toast.error(joined ? "Could not leave the challenge." : "Could not join the challenge.");
+        }
     };
 
     // disable buttons when expired
@@ -170,18 +171,26 @@ const ChallengeCard: React.FC<ChallengeCardProps> = ({ challenge, onJoin }) => {
                 </CardContent>
 
                 <CardFooter className={`flex flex-col sm:flex-row justify-between items-center ${styles.cardFooter}`}>
-                    <Button
-                        onClick={handleJoin}
-                        disabled={checking || joined || disableActions}
-                        className="w-full mb-2 sm:mb-0"
-                    >
-                        {checking
-                            ? "Checking…"
-                            : joined
-                                ? "You Are In"
-                                : "Join Challenge"
-                        }
-                    </Button>
+                    {joined ? (
+                        <div className="w-full flex items-center gap-2 mb-2 sm:mb-0">
+                            <span className="flex-1 text-center font-medium">You Are In</span>
+                            <Button
+                                onClick={handleToggle}
+                                disabled={busy || disableActions}
+                                variant="outline"
+                            >
+                                Leave
+                            </Button>
+                        </div>
+                    ) : (
+                        <Button
+                            onClick={handleToggle}
+                            disabled={checking || busy || disableActions}
+                            className="w-full mb-2 sm:mb-0"
+                        >
+                            {checking ? "Checking…" : "Join Challenge"}
+                        </Button>
+                    )}
                     {joined && meeting_url && (
                         <Button
                             onClick={() => window.open(meeting_url, "_blank")}
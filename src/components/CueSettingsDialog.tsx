@@ -0,0 +1,98 @@
+// src/components/CueSettingsDialog.tsx
+
+import React from "react";
+import {
+    Dialog,
+    DialogTrigger,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogClose,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectTrigger,
+    SelectValue,
+    SelectContent,
+    SelectItem,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Volume2, VolumeX } from "lucide-react";
+import { CueInterval, CuePreferences, hasAnyOutput } from "@/lib/plankCues";
+
+interface CueSettingsDialogProps {
+    prefs: CuePreferences;
+    onChange: (patch: Partial<CuePreferences>) => void;
+}
+
+type ToggleKey = Exclude<keyof CuePreferences, "intervalSeconds">;
+
+const OUTPUTS: { key: ToggleKey; label: string }[] = [
+    { key: "sound", label: "Beeps" },
+    { key: "speech", label: "Spoken milestones" },
+    { key: "vibration", label: "Vibration" },
+];
+
+const CUES: { key: ToggleKey; label: string }[] = [
+    { key: "startCountdown", label: "3-2-1 countdown before starting" },
+    { key: "halfway", label: "Halfway cue (timer)" },
+    { key: "finalCountdown", label: "Last 10 seconds (timer)" },
+];
+
+const CueSettingsDialog: React.FC<CueSettingsDialogProps> = ({ prefs, onChange }) => {
+    const renderToggle = ({ key, label }: { key: ToggleKey; label: string }) => (
+        <label key={key} className="flex items-center justify-between py-1 text-sm">
+            {label}
+            <Switch checked={prefs[key]} onCheckedChange={(checked) => onChange({ [key]: checked })} />
+        </label>
+    );
+
+    return (
+        <Dialog>
+            <DialogTrigger asChild>
+                <button
+                    type="button"
+                    className="p-1 rounded hover:bg-white/20"
+                    aria-label="Cue settings"
+                >
+                    {hasAnyOutput(prefs) ? <Volume2 className="h-5 w-5" /> : <VolumeX className="h-5 w-5" />}
+                </button>
+            </DialogTrigger>
+            <DialogContent className="max-w-sm">
+                <DialogHeader>
+                    <DialogTitle>Timer Cues</DialogTitle>
+                    <DialogClose />
+                </DialogHeader>
+                <div className="space-y-4">
+                    <div>
+                        <p className="text-xs uppercase text-gray-500 mb-1">Output</p>
+                        {OUTPUTS.map(renderToggle)}
+                    </div>
+                    <div>
+                        <p className="text-xs uppercase text-gray-500 mb-1">Cues</p>
+                        {CUES.map(renderToggle)}
+                        <div className="flex items-center justify-between py-1 text-sm">
+                            Interval beeps
+                            <Select
+                                value={String(prefs.intervalSeconds)}
+                                onValueChange={(v) => onChange({ intervalSeconds: Number(v) as CueInterval })}
+                            >
+                                <SelectTrigger className="w-32 h-8 text-sm" aria-label="Interval beeps">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="0">Off</SelectItem>
+                                    <SelectItem value="15">Every 15 s</SelectItem>
+                                    <SelectItem value="30">Every 30 s</SelectItem>
+                                    <SelectItem value="60">Every minute</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default CueSettingsDialog;
@@ -0,0 +1,195 @@
+// src/components/FollowListDialog.tsx
+
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { useSupabase } from "@/integrations/supabase/context";
+import { Tables } from "@/integrations/supabase/types";
+import { toast } from "@/components/ui/sonner";
+import {
+    Dialog,
+    DialogTrigger,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+
+interface FollowListDialogProps {
+    userId: string;
+    kind: "followers" | "following";
+    canManage: boolean;     // the list belongs to the logged-in user
+    trigger: React.ReactNode;
+    onChange?: () => void;  // a follow was accepted or removed
+}
+
+interface FollowPerson extends Pick<Tables<"profiles">, "id" | "full_name" | "profile_image"> {
+    status: string;
+}
+
+const FollowListDialog: React.FC<FollowListDialogProps> = ({ userId, kind, canManage, trigger, onChange }) => {
+    const supabase = useSupabase();
+    const [open, setOpen] = useState(false);
+    const [people, setPeople] = useState<FollowPerson[]>([]);
+    const [loading, setLoading] = useState(false);
+
+    // the other side of each follow row
+    const otherColumn = kind === "followers" ? "follower_id" : "following_id";
+    const ownColumn = kind === "followers" ? "following_id" : "follower_id";
+
+    const load = async () => {
+        setLoading(true);
+        try {
+            // 1) follow rows; RLS only returns pending ones to the two people involved
+            const { data: rows, error } = await supabase
+                .from("follows")
+                .select("follower_id, following_id, status, created_at")
+                .eq(ownColumn, userId)
+                .order("created_at", { ascending: false });
+            if (error) throw error;
+
+            // 2) profiles for everyone in the list, in one query
+            const ids = (rows || []).map((r) => r[otherColumn]);
+            const { data: profiles, error: profilesErr } = ids.length
+                ? await supabase.from("profiles").select("id, full_name, profile_image").in("id", ids)
+                : { data: [], error: null };
+            if (profilesErr) throw profilesErr;
+
+            setPeople(
+                (rows || []).map((r) => {
+                    const p = profiles?.find((pr) => pr.id === r[otherColumn]);
+                    return {
+                        id: r[otherColumn],
+                        full_name: p?.full_name ?? "Unknown",
+                        profile_image: p?.profile_image ?? "",
+                        status: r.status,
+                    };
+                })
+            );
+        } catch (err) {
+            console.error(err);
+            toast.error(`Could not load ${kind}.`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const respond = async (followerId: string, accept: boolean) => {
+        const { error } = await supabase.rpc("respond_follow_request", {
+            p_follower_id: followerId,
+            p_accept: accept,
+        });
+        if (error) {
+            console.error(error);
+            toast.error("Could not update the request.");
+            return;
+        }
+        setPeople((cur) =>
+            accept
+                ? cur.map((p) => (p.id === followerId ? { ...p, status: "accepted" } : p))
+                : cur.filter((p) => p.id !== followerId)
+        );
+        onChange?.();
+    };
+
+    // removing a follower or unfollowing someone
+    const remove = async (otherId: string) => {
+        const { error } = await supabase
+            .from("follows")
+            .delete()
+            .eq(ownColumn, userId)
+            .eq(otherColumn, otherId);
+        if (error) {
+            console.error(error);
+            toast.error("Could not update follows.");
+            return;
+        }
+        setPeople((cur) => cur.filter((p) => p.id !== otherId));
+        onChange?.();
+    };
+
+    const requests = people.filter((p) => p.status === "pending");
+    const accepted = people.filter((p) => p.status === "accepted");
+
+    const row = (p: FollowPerson, actions: React.ReactNode) => (
+        <div key={p.id} className="p-3 flex items-center gap-3">
+            <Link to={`/profile/${p.id}`} onClick={() => setOpen(false)} className="flex flex-1 items-center gap-3">
+                <div className="h-10 w-10 rounded-full overflow-hidden">
+                    <img src={p.profile_image} alt={p.full_name} className="h-full w-full object-cover" />
+                </div>
+                <span className="font-medium">{p.full_name}</span>
+            </Link>
+            {canManage && actions}
+        </div>
+    );
+
+    return (
+        <Dialog
+            open={open}
+            onOpenChange={(o) => {
+                setOpen(o);
+                if (o) load();
+            }}
+        >
+            <DialogTrigger asChild>{trigger}</DialogTrigger>
+            <DialogContent className="max-w-md w-full">
+                <DialogHeader>
+                    <DialogTitle>{kind === "followers" ? "Followers" : "Following"}</DialogTitle>
+                </DialogHeader>
+                <div className="max-h-96 overflow-y-auto">
+                    {loading ? (
+                        <p className="p-6 text-center text-gray-500">Loading…</p>
+                    ) : (
+                        <>
+                            {requests.length > 0 && (
+                                <>
+                                    <h3 className="px-3 pt-2 text-sm font-semibold text-gray-500">
+                                        {kind === "followers" ? "Requests" : "Requested"}
+                                    </h3>
+                                    <div className="divide-y border-b">
+                                        {requests.map((p) =>
+                                            row(
+                                                p,
+                                                kind === "followers" ? (
+                                                    <div className="flex gap-2">
+                                                        <Button size="sm" className="plank-btn-primary" onClick={() => respond(p.id, true)}>
+                                                            Accept
+                                                        </Button>
+                                                        <Button size="sm" variant="outline" onClick={() => respond(p.id, false)}>
+                                                            Decline
+                                                        </Button>
+                                                    </div>
+                                                ) : (
+                                                    <Button size="sm" variant="outline" onClick={() => remove(p.id)}>
+                                                        Cancel
+                                                    </Button>
+                                                )
+                                            )
+                                        )}
+                                    </div>
+                                </>
+                            )}
+                            {accepted.length === 0 && requests.length === 0 ? (
+                                <p className="p-6 text-center text-gray-500">
+                                    {kind === "followers" ? "No followers yet." : "Not following anyone yet."}
+                                </p>
+                            ) : (
+                                <div className="divide-y">
+                                    {accepted.map((p) =>
+                                        row(
+                                            p,
+                                            <Button size="sm" variant="outline" onClick={() => remove(p.id)}>
+                                                {kind === "followers" ? "Remove" : "Unfollow"}
+                                            </Button>
+                                        )
+                                    )}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default FollowListDialog;
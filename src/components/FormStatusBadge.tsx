@@ -0,0 +1,50 @@
+// src/components/FormStatusBadge.tsx
+
+import React from "react";
+import { FormAssessment, FormStatus } from "@/lib/poseGeometry";
+
+interface FormStatusBadgeProps {
+    ready: boolean;
+    error: string | null;
+    assessment: FormAssessment | null;
+}
+
+const LABELS: Record<FormStatus, string> = {
+    good: "Good form",
+    sag: "Hips sagging",
+    pike: "Hips too high",
+    "not-plank": "Get into plank position",
+    "no-pose": "Move fully into view",
+};
+
+const COLORS: Record<FormStatus, string> = {
+    good: "bg-plank-green",
+    sag: "bg-amber-500",
+    pike: "bg-amber-500",
+    "not-plank": "bg-gray-600",
+    "no-pose": "bg-gray-600",
+};
+
+// overlay on the camera preview with the live form verdict
+const FormStatusBadge: React.FC<FormStatusBadgeProps> = ({ ready, error, assessment }) => {
+    let label: string;
+    let color = "bg-gray-600";
+    if (error) label = "Form detection unavailable";
+    else if (!ready) label = "Loading form detection…";
+    else if (!assessment) label = LABELS["no-pose"];
+    else {
+        label = LABELS[assessment.status];
+        color = COLORS[assessment.status];
+    }
+
+    return (
+        <span className={`absolute left-2 top-2 rounded px-2 py-1 text-xs font-medium text-white ${color}`}>
+            {label}
+            {assessment?.bodyLineDeg != null && assessment.status !== "not-plank" && (
+                <> · {Math.round(assessment.bodyLineDeg)}°</>
+            )}
+        </span>
+    );
+};
+
+export default FormStatusBadge;
@@ -1,7 +1,6 @@
 // src/components/FullHistoryDialog.tsx
 
-import React, { useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import React, { useMemo } from "react";
 import { toast } from "@/components/ui/sonner";
 import {
     Dialog,
@@ -13,12 +12,16 @@ import {
 } from "@/components/ui/dialog";
 import { Clock, Trash2 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useDeletePlank, usePlanks } from "@/data/planks";
+import PlankSocialCounts from "./PlankSocialCounts";
 
 export interface PlankEntry {
     id: number;
     date: string;   // e.g. "April 22"
     day: string;    // "Today" | "Yesterday" | "Monday" | 
     time: number;   // seconds
+    kudos: number;
+    comments: number;
 }
 
 interface FullHistoryDialogProps {
@@ -34,60 +37,45 @@ const formatTime = (totalSeconds: number): string => {
 
 const FullHistoryDialog: React.FC<FullHistoryDialogProps> = ({ userId, trigger }) => {
     const { user } = useAuth();
-    const [entries, setEntries] = useState<PlankEntry[]>([]);
-    const [loading, setLoading] = useState(false);
+    const { data: rows, isPending: loading } = usePlanks(userId);
+    const deletePlank = useDeletePlank(userId);
 
-    // load full history
-    const loadAll = async () => {
-        setLoading(true);
-        try {
-            const { data: rows, error } = await supabase
-                .from<{ id: number; plank_date: string; duration_s: number; inserted_at: string }>("planks")
-                .select("id, plank_date, duration_s, inserted_at")
-                .eq("user_id", userId)
-                .order("inserted_at", { ascending: false });
-
-            if (error) throw error;
+    // full history, from the same query as the latest planks
+    const entries = useMemo<PlankEntry[]>(
+        () =>
+            (rows ?? []).map(r => {
+                const d = new Date(r.plank_date);
+                const today = new Date();
+                const yesterday = new Date(today);
+                yesterday.setDate(today.getDate() - 1);
 
-            setEntries(
-                (rows || []).map(r => {
-                    const d = new Date(r.plank_date);
-                    const today = new Date();
-                    const yesterday = new Date(today);
-                    yesterday.setDate(today.getDate() - 1);
+                let dayLabel: string;
+                if (d.toDateString() === today.toDateString()) dayLabel = "Today";
+                else if (d.toDateString() === yesterday.toDateString()) dayLabel = "Yesterday";
+                else {
+                    const wd = d.toLocaleDateString("en-US", { weekday: "long" });
+                    dayLabel = wd.charAt(0).toUpperCase() + wd.slice(1);
+                }
 
-                    let dayLabel: string;
-                    if (d.toDateString() === today.toDateString()) dayLabel = "Today";
-                    else if (d.toDateString() === yesterday.toDateString()) dayLabel = "Yesterday";
-                    else {
-                        const wd = d.toLocaleDateString("en-US", { weekday: "long" });
-                        dayLabel = wd.charAt(0).toUpperCase() + wd.slice(1);
-                    }
-
-                    return {
-                        id: r.id,
-                        date: d.toLocaleDateString("en-US", { day: "numeric", month: "long" }),
-                        day: dayLabel,
-                        time: r.duration_s,
-                    };
-                })
-            );
-        } catch (err: any) {
-            console.error(err);
-            toast.error("Could not load full history.");
-        } finally {
-            setLoading(false);
-        }
-    };
+                return {
+                    id: r.id,
+                    date: d.toLocaleDateString("en-US", { day: "numeric", month: "long" }),
+                    day: dayLabel,
+                    time: r.duration_s,
+                    kudos: r.plank_kudos[0]?.count ?? 0,
+                    comments: r.plank_comments[0]?.count ?? 0,
+                };
+            }),
+        [rows]
+    );
 
     // delete a plank
     const handleDelete = async (id: number) => {
         if (!confirm("Are you sure you want to delete this plank?")) return;
         try {
-            await supabase.from("planks").delete().eq("id", id);
+            await deletePlank.mutateAsync({ id });
             toast.success("Plank deleted");
-            loadAll();
-        } catch (err: any) {
+        } catch (err) {
             console.error(err);
             toast.error("Failed to delete plank.");
         }
@@ -96,11 +84,7 @@ const FullHistoryDialog: React.FC<FullHistoryDialogProps> = ({ userId, trigger }
     const isOwnProfile = user?.id === userId;
 
     return (
-        <Dialog
-            onOpenChange={(open) => {
-                if (open) loadAll();
-            }}
-        >
+        <Dialog>
             <DialogTrigger asChild>{trigger}</DialogTrigger>
             <DialogContent className="max-w-lg w-full">
                 <DialogHeader>
@@ -117,7 +101,10 @@ const FullHistoryDialog: React.FC<FullHistoryDialogProps> = ({ userId, trigger }
                                 className="p-4 flex items-center justify-between"
                             >
                                 <div>
-                                    <p className="font-medium">{e.day}</p>
+                                    <p className="font-medium flex items-center gap-2">
+                                        {e.day}
+                                        <PlankSocialCounts kudos={e.kudos} comments={e.comments} />
+                                    </p>
                                     <p className="text-sm text-gray-500">{e.date}</p>
                                 </div>
                                 <div className="flex items-center space-x-3">
@@ -0,0 +1,155 @@
+// src/components/GroupChallenges.tsx
+
+import React, { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useSupabase } from "@/integrations/supabase/context";
+import { toast } from "@/components/ui/sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Dialog,
+    DialogTrigger,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus } from "lucide-react";
+import ChallengeCard, { Challenge } from "./ChallengeCard";
+import { useGroupChallenges } from "@/data/challenges";
+import { queryKeys } from "@/data/keys";
+import styles from "@/pages/style/Challenges.module.css";
+
+interface GroupChallengesProps {
+    teamId: number;
+    canManage: boolean;  // owners and admins create group challenges
+}
+
+const EMPTY_FORM = {
+    title: "",
+    description: "",
+    image: "",
+    start_date: "",
+    start_time: "",
+    end_date: "",
+    type: "",
+    meeting_url: "",
+};
+
+const GroupChallenges: React.FC<GroupChallengesProps> = ({ teamId, canManage }) => {
+    const supabase = useSupabase();
+    const queryClient = useQueryClient();
+    const { data = [], isPending: loading } = useGroupChallenges(teamId);
+    const [isAddOpen, setIsAddOpen] = useState(false);
+    const [formData, setFormData] = useState(EMPTY_FORM);
+
+    const challenges: Challenge[] = data.map((c) => ({
+        id: c.id,
+        title: c.title,
+        description: c.description,
+        image: c.image,
+        startDate: c.start_date,
+        startTime: c.start_time || undefined,
+        endDate: c.end_date,
+        participants: c.participants,
+        type: c.type,
+        meeting_url: c.meeting_url || undefined,
+    }));
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const row = {
+            ...formData,
+            meeting_url: formData.meeting_url || null,
+            team_id: teamId,
+            is_active: true,
+        };
+        const { error } = await supabase.from("challenges").insert(row);
+        if (error) {
+            console.error(error);
+            toast.error("Could not create the challenge.");
+            return;
+        }
+        toast.success("Challenge created!");
+        setIsAddOpen(false);
+        setFormData(EMPTY_FORM);
+        queryClient.invalidateQueries({ queryKey: queryKeys.groupChallenges(teamId) });
+    };
+
+    const field = (id: keyof typeof EMPTY_FORM, label: string, type = "text", required = true) => (
+        <div>
+            <Label htmlFor={`group-${id}`}>{label}</Label>
+            <Input
+                id={`group-${id}`}
+                type={type}
+                value={formData[id]}
+                onChange={(e) => setFormData({ ...formData, [id]: e.target.value })}
+                required={required}
+            />
+        </div>
+    );
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold">Group Challenges</h2>
+                {canManage && (
+                    <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+                        <DialogTrigger asChild>
+                            <Button size="sm" className="plank-btn-primary">
+                                <Plus className="mr-1 h-4 w-4" />
+                                New Challenge
+                            </Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+                            <DialogHeader>
+                                <DialogTitle>New Group Challenge</DialogTitle>
+                            </DialogHeader>
+                            <form onSubmit={handleCreate} className="space-y-4">
+                                {field("title", "Title")}
+                                <div>
+                                    <Label htmlFor="group-description">Description</Label>
+                                    <Textarea
+                                        id="group-description"
+                                        value={formData.description}
+                                        onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                                        required
+                                    />
+                                </div>
+                                {field("image", "Image URL")}
+                                <div className="grid grid-cols-2 gap-4">
+                                    {field("start_date", "Start Date", "date")}
+                                    {field("start_time", "Start Time", "time")}
+                                </div>
+                                {field("end_date", "End Date", "date")}
+                                {field("type", "Type")}
+                                {field("meeting_url", "Meeting URL", "url", false)}
+                                <Button type="submit" className="w-full plank-btn-primary">
+                                    Create Challenge
+                                </Button>
+                            </form>
+                        </DialogContent>
+                    </Dialog>
+                )}
+            </div>
+
+            {loading ? (
+                <p className="text-center text-gray-500 py-6">Loading…</p>
+            ) : challenges.length === 0 ? (
+                <p className="text-center text-gray-500 py-6">
+                    No group challenges yet.
+                    {canManage && " Create one to get everyone planking together."}
+                </p>
+            ) : (
+                <div className={styles.grid}>
+                    {challenges.map((c) => (
+                        <ChallengeCard key={c.id} challenge={c} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default GroupChallenges;
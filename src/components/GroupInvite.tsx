@@ -0,0 +1,72 @@
+// src/components/GroupInvite.tsx
+
+import React from "react";
+import { useSupabase } from "@/integrations/supabase/context";
+import { toast } from "@/components/ui/sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Copy, RefreshCw } from "lucide-react";
+
+interface GroupInviteProps {
+    teamId: number;
+    inviteCode: string;
+    onChange: () => void;
+}
+
+const inviteLink = (code: string) => `${window.location.origin}/groups/join/${code}`;
+
+const GroupInvite: React.FC<GroupInviteProps> = ({ teamId, inviteCode, onChange }) => {
+    const supabase = useSupabase();
+    const copy = async (text: string, what: string) => {
+        try {
+            await navigator.clipboard.writeText(text);
+            toast.success(`${what} copied!`);
+        } catch (err) {
+            console.error(err);
+            toast.error(`Could not copy the ${what.toLowerCase()}.`);
+        }
+    };
+
+    // old links and codes stop working
+    const regenerate = async () => {
+        if (!confirm("Create a new invite code? The current link and code will stop working.")) return;
+        const { error } = await supabase.rpc("regenerate_team_invite", { p_team_id: teamId });
+        if (error) {
+            console.error(error);
+            toast.error("Could not create a new invite code.");
+            return;
+        }
+        onChange();
+    };
+
+    return (
+        <Card className="plank-card">
+            <CardHeader className="pb-2 border-b">
+                <CardTitle className="text-lg font-poppins">Invite People</CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 space-y-3">
+                <div className="flex gap-2">
+                    <Input readOnly value={inviteLink(inviteCode)} onFocus={(e) => e.target.select()} aria-label="Invite link" />
+                    <Button variant="outline" size="icon" onClick={() => copy(inviteLink(inviteCode), "Link")} aria-label="Copy invite link">
+                        <Copy className="h-4 w-4" />
+                    </Button>
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                    <span>
+                        Code: <span className="font-mono font-semibold">{inviteCode}</span>
+                        <Button variant="link" size="sm" onClick={() => copy(inviteCode, "Code")}>
+                            Copy
+                        </Button>
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={regenerate}>
+                        <RefreshCw className="mr-1 h-4 w-4" />
+                        New code
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default GroupInvite;
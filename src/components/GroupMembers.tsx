@@ -0,0 +1,111 @@
+// src/components/GroupMembers.tsx
+
+import React from "react";
+import { Link } from "react-router-dom";
+import { useSupabase } from "@/integrations/supabase/context";
+import { toast } from "@/components/ui/sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+    Select,
+    SelectTrigger,
+    SelectValue,
+    SelectContent,
+    SelectItem,
+} from "@/components/ui/select";
+import { TeamMember, TeamRole } from "@/hooks/useTeam";
+
+interface GroupMembersProps {
+    teamId: number;
+    members: TeamMember[];
+    myRole: TeamRole | null;
+    userId: string;
+    onChange: () => void;
+}
+
+const ROLE_LABELS: Record<TeamRole, string> = {
+    owner: "Owner",
+    admin: "Admin",
+    member: "Member",
+};
+
+const GroupMembers: React.FC<GroupMembersProps> = ({ teamId, members, myRole, userId, onChange }) => {
+    const supabase = useSupabase();
+    // owners remove anyone, admins remove plain members; nobody removes themselves here
+    const canRemove = (m: TeamMember) =>
+        m.user_id !== userId && (myRole === "owner" || (myRole === "admin" && m.role === "member"));
+
+    const changeRole = async (m: TeamMember, role: TeamRole) => {
+        if (role === "owner" && !confirm(`Hand the group over to ${m.full_name}? You will become an admin.`)) return;
+        const { error } = await supabase.rpc("set_team_role", {
+            p_team_id: teamId,
+            p_user_id: m.user_id,
+            p_role: role,
+        });
+        if (error) {
+            console.error(error);
+            toast.error("Could not change the role.");
+            return;
+        }
+        onChange();
+    };
+
+    const remove = async (m: TeamMember) => {
+        if (!confirm(`Remove ${m.full_name} from the group?`)) return;
+        const { error } = await supabase
+            .from("team_members")
+            .delete()
+            .eq("team_id", teamId)
+            .eq("user_id", m.user_id);
+        if (error) {
+            console.error(error);
+            toast.error("Could not remove the member.");
+            return;
+        }
+        onChange();
+    };
+
+    return (
+        <Card className="plank-card">
+            <CardHeader className="pb-2 border-b">
+                <CardTitle className="text-lg font-poppins">Members ({members.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+                <ul className="divide-y max-h-96 overflow-y-auto">
+                    {members.map((m) => (
+                        <li key={m.user_id} className="p-3 flex items-center gap-3">
+                            <Link to={`/profile/${m.user_id}`} className="flex flex-1 min-w-0 items-center gap-3">
+                                <div className="h-9 w-9 shrink-0 rounded-full overflow-hidden">
+                                    <img src={m.profile_image} alt={m.full_name} className="h-full w-full object-cover" />
+                                </div>
+                                <span className="font-medium truncate">{m.full_name}</span>
+                            </Link>
+                            {myRole === "owner" && m.user_id !== userId ? (
+                                <Select value={m.role} onValueChange={(v) => changeRole(m, v as TeamRole)}>
+                                    <SelectTrigger className="w-28 h-8 text-sm" aria-label={`Role of ${m.full_name}`}>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="member">Member</SelectItem>
+                                        <SelectItem value="admin">Admin</SelectItem>
+                                        <SelectItem value="owner">Owner</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            ) : (
+                                <Badge variant={m.role === "member" ? "outline" : "secondary"}>{ROLE_LABELS[m.role]}</Badge>
+                            )}
+                            {canRemove(m) && (
+                                <Button size="sm" variant="outline" onClick={() => remove(m)}>
+                                    Remove
+                                </Button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </CardContent>
+        </Card>
+    );
+};
+
+export default GroupMembers;
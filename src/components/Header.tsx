@@ -5,9 +5,11 @@ import { Link, useNavigate } from 'react-router-dom';
 import { Button } from "@/components/ui/button";
 import { Menu } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
-import { supabase } from "@/integrations/supabase/client";
+import { useSupabase } from "@/integrations/supabase/context";
+import NotificationBell from "./NotificationBell";
 
 const Header: React.FC = () => {
+    const supabase = useSupabase();
     const [isMenuOpen, setIsMenuOpen] = useState(false);
     const { user } = useAuth();
     const [isAdmin, setIsAdmin] = useState(false);
@@ -27,7 +29,7 @@ const Header: React.FC = () => {
             }
         };
         fetchProfile();
-    }, [user]);
+    }, [supabase, user]);
 
     const handleLogout = async () => {
         await supabase.auth.signOut();
@@ -63,6 +65,9 @@ const Header: React.FC = () => {
                     </Link>
                     {user ? (
                         <>
+                            <Link to="/groups" className="font-medium hover:text-plank-blue transition-colors">
+                                Groups
+                            </Link>
                             <Link to="/profile" className="font-medium hover:text-plank-blue transition-colors">
                                 My Profile
                             </Link>
@@ -74,6 +79,15 @@ const Header: React.FC = () => {
                                     Manage Challenges
                                 </Link>
                             )}
+                            {isAdmin && (
+                                <Link
+                                    to="/admin/review"
+                                    className="font-medium hover:text-plank-blue transition-colors"
+                                >
+                                    Review Planks
+                                </Link>
+                            )}
+                            <NotificationBell userId={user.id} />
                             <Button onClick={handleLogout} variant="outline">
                                 Log Out
                             </Button>
@@ -86,7 +100,8 @@ const Header: React.FC = () => {
                 </nav>
 
                 {/* Mobile Menu Button */}
-                <div className="md:hidden">
+                <div className="md:hidden flex items-center gap-2">
+                    {user && <NotificationBell userId={user.id} />}
                     <Button variant="ghost" size="icon" onClick={toggleMenu}>
                         <Menu className="h-6 w-6" />
                     </Button>
@@ -105,6 +120,9 @@ const Header: React.FC = () => {
                         </Link>
                         {user ? (
                             <>
+                                <Link to="/groups" className="font-medium hover:text-plank-blue transition-colors py-2" onClick={toggleMenu}>
+                                    Groups
+                                </Link>
                                 <Link to="/profile" className="font-medium hover:text-plank-blue transition-colors py-2" onClick={toggleMenu}>
                                     My Profile
                                 </Link>
@@ -117,6 +135,15 @@ const Header: React.FC = () => {
                                         Manage Challenges
                                     </Link>
                                 )}
+                                {isAdmin && (
+                                    <Link
+                                        to="/admin/review"
+                                        className="font-medium hover:text-plank-blue transition-colors py-2"
+                                        onClick={toggleMenu}
+                                    >
+                                        Review Planks
+                                    </Link>
+                                )}
                                 <Button onClick={handleLogout} variant="outline" className="w-full">
                                     Log Out
                                 </Button>
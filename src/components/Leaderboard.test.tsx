@@ -0,0 +1,124 @@
+// src/components/Leaderboard.test.tsx
+import { describe, expect, it, vi } from "vitest";
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import Leaderboard from "./Leaderboard";
+import { createFakeSupabase } from "@/test/fakeSupabase";
+import { renderWithProviders } from "@/test/render";
+import type { Database } from "@/integrations/supabase/types";
+
+type Functions = Database["public"]["Functions"];
+type LeaderboardArgs = Functions["leaderboard"]["Args"];
+type MyRankArgs = Functions["leaderboard_my_rank"]["Args"];
+
+const ME = { id: "u12", email: "me@example.com" };
+
+// A board the rpc handlers rank like the database: by value, best first.
+function createBoard(entries: { user_id: string; full_name: string; value: number }[]) {
+    const ranked = () =>
+        [...entries]
+            .sort((a, b) => b.value - a.value)
+            .map((e, i) => ({
+                ...e,
+                profile_image: null,
+                best_status: "unverified" as const,
+                plank_count: 1,
+                rank: i + 1,
+                entrants: entries.length,
+            }));
+
+    return {
+        entries,
+        leaderboard: vi.fn(({ p_limit = 50, p_offset = 0 }: LeaderboardArgs) =>
+            ranked().slice(p_offset, p_offset + p_limit)
+        ),
+        leaderboard_my_rank: vi.fn(({ p_user_id }: MyRankArgs) =>
+            ranked()
+                .filter((r) => r.user_id === p_user_id)
+                .map(({ value, rank, entrants }) => ({ value, rank, entrants }))
+        ),
+    };
+}
+
+// twelve people, one to twelve minutes; "Person 12" (me) is last
+const twelve = () =>
+    Array.from({ length: 12 }, (_, i) => ({
+        user_id: `u${i + 1}`,
+        full_name: `Person ${i + 1}`,
+        value: (12 - i) * 60,
+    }));
+
+const rowNames = () =>
+    screen.queryAllByRole("button").flatMap((li) => within(li).queryAllByRole("heading").map((h) => h.textContent));
+
+describe("Leaderboard", () => {
+    it("ranks the first page and shows where I stand below it", async () => {
+        const board = createBoard(twelve());
+        const fake = createFakeSupabase({ user: ME, rpc: board });
+
+        renderWithProviders(<Leaderboard />, fake);
+
+        expect(await screen.findByText("Person 1")).toBeInTheDocument();
+        expect(rowNames()).toHaveLength(10);
+        expect(await screen.findByText("You")).toBeInTheDocument();
+        expect(screen.getByText("12")).toBeInTheDocument();
+        expect(board.leaderboard).toHaveBeenCalledWith(
+            expect.objectContaining({ p_metric: "best", p_limit: 10, p_offset: 0, p_scope: "global" })
+        );
+    });
+
+    it("loads the next page and drops the row for me once I'm on it", async () => {
+        const user = userEvent.setup();
+        const board = createBoard(twelve());
+        const fake = createFakeSupabase({ user: ME, rpc: board });
+
+        renderWithProviders(<Leaderboard />, fake);
+
+        await user.click(await screen.findByRole("button", { name: "Show more" }));
+
+        expect(await screen.findByText("Person 12")).toBeInTheDocument();
+        expect(rowNames()).toHaveLength(12);
+        expect(screen.queryByText("You")).not.toBeInTheDocument();
+        expect(screen.queryByRole("button", { name: "Show more" })).not.toBeInTheDocument();
+        expect(board.leaderboard).toHaveBeenLastCalledWith(expect.objectContaining({ p_offset: 10 }));
+    });
+
+    it("asks for the metric picked in the tabs", async () => {
+        const user = userEvent.setup();
+        const board = createBoard(twelve());
+        const fake = createFakeSupabase({ user: ME, rpc: board });
+
+        renderWithProviders(<Leaderboard />, fake);
+
+        await screen.findByText("Person 1");
+        await user.click(screen.getByRole("tab", { name: "Total" }));
+
+        await waitFor(() =>
+            expect(board.leaderboard).toHaveBeenLastCalledWith(expect.objectContaining({ p_metric: "total" }))
+        );
+        expect(board.leaderboard_my_rank).toHaveBeenLastCalledWith(
+            expect.objectContaining({ p_metric: "total", p_user_id: ME.id })
+        );
+    });
+
+    it("re-ranks when a plank comes in and announces the overtake", async () => {
+        const board = createBoard([
+            { user_id: "u1", full_name: "Alice", value: 120 },
+            { user_id: "u2", full_name: "Bob", value: 90 },
+        ]);
+        const fake = createFakeSupabase({ user: ME, rpc: board });
+
+        renderWithProviders(<Leaderboard />, fake);
+
+        await screen.findByText("Bob");
+        expect(rowNames()).toEqual(["Alice", "Bob"]);
+
+        board.entries[1].value = 130;
+        fake.emit("planks", "INSERT");
+
+        expect(
+            await screen.findByText("Bob set a new best of 2:10, passing Alice", {}, { timeout: 3_000 })
+        ).toBeInTheDocument();
+        expect(rowNames()).toEqual(["Bob", "Alice"]);
+    });
+});
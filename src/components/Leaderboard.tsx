@@ -1,200 +1,283 @@
 // src/components/Leaderboard.tsx
 
-import React, { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import React, { useState, useEffect, useMemo } from "react";
 import { Card, CardHeader, CardContent, CardTitle } from "@/components/ui/card";
-import { TrendingUp } from "lucide-react";
-import { toast } from "@/components/ui/sonner";
-import { useNavigate } from "react-router-dom";
-
-type BestEntry = {
-    user_id: string;
-    full_name: string;
-    profile_image: string;
-    best_time: number;
-    rank: number;
-};
+import { TrendingUp, ArrowUp, ArrowDown, Tv, X } from "lucide-react";
+import { Link, useNavigate } from "react-router-dom";
+import { usePlankVariants } from "@/hooks/usePlankVariants";
+import VariantFilter from "./VariantFilter";
+import VerificationBadge from "./VerificationBadge";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/useAuth";
+import {
+    LeaderboardFilters,
+    LeaderboardMetric,
+    LEADERBOARD_METRICS,
+    LEADERBOARD_PAGE_SIZE,
+    AVERAGE_MIN_PLANKS,
+    metricInfo,
+    LeaderboardScope,
+    scopeArgs,
+    windowLabel,
+    windowRange,
+    WINDOW_PARAM,
+} from "@/lib/leaderboard";
+import { diffLeaderboard } from "@/lib/leaderboardDiff";
+import { useLeaderboardWindow } from "@/hooks/useLeaderboardWindow";
+import { useRealtimeRefresh } from "@/hooks/useRealtimeRefresh";
+import { useFlipAnimation } from "@/hooks/useFlipAnimation";
+import { useWakeLock } from "@/hooks/useWakeLock";
+import WindowSelect from "./WindowSelect";
+import ScopeSelect from "./ScopeSelect";
+import LeaderboardTicker, { TickerItem } from "./LeaderboardTicker";
+import { useMyTeams } from "@/hooks/useMyTeams";
+import { useLeaderboard, useMyRank } from "@/data/leaderboard";
 
-type TotalEntry = {
-    user_id: string;
-    full_name: string;
-    profile_image: string;
-    total_time: number;
-    rank: number;
-};
+interface LeaderboardProps {
+    layout?: "card" | "live";
+    initialMetric?: LeaderboardMetric;
+    initialScope?: LeaderboardScope;
+}
 
-const formatTime = (totalSeconds: number): string => {
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = totalSeconds % 60;
-    return `${minutes}:${seconds < 10 ? "0" + seconds : seconds}`;
-};
+const LIVE_PAGE_SIZE = 15;
+const MOVE_HIGHLIGHT_MS = 4_000;
+const TICKER_ITEM_MS = 20_000;
 
-const Leaderboard: React.FC = () => {
-    const [best, setBest] = useState<BestEntry[]>([]);
-    const [total, setTotal] = useState<TotalEntry[]>([]);
-    const [loading, setLoading] = useState(true);
+const Leaderboard: React.FC<LeaderboardProps> = ({
+    layout = "card",
+    initialMetric = "best",
+    initialScope = "global",
+}) => {
+    const live = layout === "live";
+    const [metric, setMetric] = useState<LeaderboardMetric>(initialMetric);
+    const [variantId, setVariantId] = useState<number | null>(null);
+    const [verifiedOnly, setVerifiedOnly] = useState(false);
+    const [scope, setScope] = useState<LeaderboardScope>(initialScope);
+    const [moves, setMoves] = useState<Record<string, number>>({});
+    const [ticker, setTicker] = useState<TickerItem[]>([]);
+    const { variants } = usePlankVariants();
+    const { user } = useAuth();
+    const { teams } = useMyTeams(user?.id);
     const navigate = useNavigate();
 
+    const { range, setRange } = useLeaderboardWindow();
+    const { since, until } = windowRange(range);
+    const info = metricInfo(metric);
+    const pageSize = live ? LIVE_PAGE_SIZE : LEADERBOARD_PAGE_SIZE;
+
+    const filters = useMemo<LeaderboardFilters>(
+        () => ({
+            p_metric: metric,
+            p_since: since,
+            p_until: until,
+            p_variant_id: variantId,
+            p_verified_only: verifiedOnly,
+            p_min_planks: AVERAGE_MIN_PLANKS,
+            ...scopeArgs(scope),
+        }),
+        [metric, since, until, variantId, verifiedOnly, scope]
+    );
+
+    useWakeLock(live);
+
+    // 1) the board, ranked in the database, one page at a time
+    const board = useLeaderboard(filters, pageSize);
+    const rows = useMemo(() => board.data?.pages.flat() ?? [], [board.data]);
+    const loading = board.isPending;
+
+    // 2) where the logged-in user stands, even if off the loaded pages
+    const { data: myRank, refetch: refetchMyRank } = useMyRank(filters, user?.id);
+
     useEffect(() => {
-        async function loadLeaderboard() {
-            setLoading(true);
-            try {
-                // 1) Compute the cutoff date (30 days ago)
-                const cutoff = new Date();
-                cutoff.setDate(cutoff.getDate() - 30);
-                const cutoffIso = cutoff.toISOString().split("T")[0]; // "YYYY-MM-DD"
-
-                // 2) Fetch planks in that window
-                const { data: planks, error: plankErr } = await supabase
-                    .from<{ user_id: string; duration_s: number }>("planks")
-                    .select("user_id, duration_s")
-                    .gte("plank_date", cutoffIso);
-
-                if (plankErr) throw plankErr;
-
-                // 3) Group durations by user
-                const stats: Record<string, number[]> = {};
-                planks!.forEach((p) => {
-                    stats[p.user_id] = stats[p.user_id] || [];
-                    stats[p.user_id].push(p.duration_s);
-                });
-
-                // 4) Build arrays and rank
-                const bestArr = Object.entries(stats)
-                    .map(([user_id, durations]) => ({
-                        user_id,
-                        best_time: Math.max(...durations),
-                    }))
-                    .sort((a, b) => b.best_time - a.best_time)
-                    .map((e, i) => ({ ...e, rank: i + 1 }));
-
-                const totalArr = Object.entries(stats)
-                    .map(([user_id, durations]) => ({
-                        user_id,
-                        total_time: durations.reduce((sum, d) => sum + d, 0),
-                    }))
-                    .sort((a, b) => b.total_time - a.total_time)
-                    .map((e, i) => ({ ...e, rank: i + 1 }));
-
-                // 5) Fetch profile info for all involved users
-                const userIds = [...new Set([...bestArr, ...totalArr].map((e) => e.user_id))];
-                const { data: profiles, error: profilesErr } = await supabase
-                    .from<{ id: string; full_name: string; profile_image: string }>("profiles")
-                    .select("id, full_name, profile_image")
-                    .in("id", userIds);
-
-                if (profilesErr) throw profilesErr;
-
-                // 6) Merge profile data
-                const bestWithProfile: BestEntry[] = bestArr.map((e) => {
-                    const p = profiles!.find((pr) => pr.id === e.user_id);
-                    return {
-                        ...e,
-                        full_name: p?.full_name ?? "Unknown",
-                        profile_image: p?.profile_image ?? "",
-                    };
-                });
-
-                const totalWithProfile: TotalEntry[] = totalArr.map((e) => {
-                    const p = profiles!.find((pr) => pr.id === e.user_id);
-                    return {
-                        ...e,
-                        full_name: p?.full_name ?? "Unknown",
-                        profile_image: p?.profile_image ?? "",
-                    };
-                });
-
-                setBest(bestWithProfile);
-                setTotal(totalWithProfile);
-            } catch (err) {
-                console.error(err);
-                toast.error("Could not load leaderboard.");
-            } finally {
-                setLoading(false);
-            }
+        setMoves({});
+        setTicker([]);
+    }, [filters, pageSize]);
+
+    // re-rank the rows already on screen when planks come in or go away
+    const refresh = async () => {
+        if (loading) return;
+        const { data, error } = await board.refetch();
+        if (error) {
+            console.error(error);
+            return;
+        }
+        const next = data?.pages.flat() ?? [];
+        const diff = diffLeaderboard(rows, next);
+
+        if (user?.id) refetchMyRank();
+
+        if (Object.keys(diff.moves).length > 0) {
+            setMoves(diff.moves);
+            window.setTimeout(() => setMoves({}), MOVE_HIGHLIGHT_MS);
+        }
+        if (diff.overtakes.length > 0) {
+            const items = diff.overtakes.map((o, i) => ({
+                id: Date.now() + i,
+                text:
+                    (o.improved && metric === "best"
+                        ? `${o.name} set a new best of ${info.format(o.value)}`
+                        : `${o.name} climbed to #${o.rank}`) + (o.passed ? `, passing ${o.passed}` : ""),
+            }));
+            setTicker((cur) => [...items, ...cur].slice(0, live ? 3 : 2));
+            window.setTimeout(() => {
+                const ids = new Set(items.map((t) => t.id));
+                setTicker((cur) => cur.filter((t) => !ids.has(t.id)));
+            }, TICKER_ITEM_MS);
         }
+    };
 
-        loadLeaderboard();
-    }, []);
-
-    if (loading) {
-        return (
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-                <Card className="plank-card">
-                    <CardContent className="p-6 text-center">Loading…</CardContent>
-                </Card>
-                <Card className="plank-card">
-                    <CardContent className="p-6 text-center">Loading…</CardContent>
-                </Card>
-            </div>
-        );
-    }
+    // visitors can't read planks, so no changes would ever reach them
+    const refreshMode = useRealtimeRefresh("planks", refresh, { realtime: !!user });
+    const listRef = useFlipAnimation<HTMLUListElement>(rows);
+
+    const loadMore = () => {
+        board.fetchNextPage();
+    };
+
+    const entrants = rows[0]?.entrants ?? 0;
+    const meShown = rows.some((r) => r.user_id === user?.id);
+
+    const liveParams = new URLSearchParams({ metric, scope, [WINDOW_PARAM]: range });
+
+    const filter = (
+        <div className="flex flex-wrap items-center justify-end gap-4 mb-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+                <Switch checked={verifiedOnly} onCheckedChange={setVerifiedOnly} />
+                Verified only
+            </label>
+            {user && <ScopeSelect teams={teams} value={scope} onChange={setScope} />}
+            <VariantFilter variants={variants} value={variantId} onChange={setVariantId} />
+            <WindowSelect value={range} onChange={setRange} />
+            {user && (
+                <Link to={`/leaderboard/live?${liveParams}`} title="Live mode for a big screen">
+                    <Button variant="ghost" size="icon" aria-label="Open live mode">
+                        <Tv className="h-5 w-5" />
+                    </Button>
+                </Link>
+            )}
+        </div>
+    );
+
+    const status = (
+        <span className="flex items-center gap-1 text-xs font-normal text-muted-foreground">
+            <span
+                className={`h-2 w-2 rounded-full ${
+                    refreshMode === "realtime" ? "bg-plank-green" : refreshMode === "polling" ? "bg-amber-400" : "bg-gray-300"
+                }`}
+            />
+            {refreshMode === "realtime" ? "Live" : refreshMode === "polling" ? "Auto-refresh" : "Connecting"}
+        </span>
+    );
 
     return (
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-            {/* Best single plank in last 30 days */}
-            <Card className="plank-card">
-                <CardHeader className="pb-2 border-b flex items-center justify-between">
-                    <CardTitle className="text-lg font-poppins flex items-center">
-                        <TrendingUp className="h-5 w-5 text-plank-blue mr-2" />
-                        Last 30 Days’ Best
-                    </CardTitle>
-                </CardHeader>
-                <CardContent className="p-0">
-                    <ul className="divide-y">
-                        {best.map((e) => (
-                            <li
-                                key={e.user_id}
-                                className="cursor-pointer flex items-center p-4 hover:bg-gray-50 transition-colors"
-                                onClick={() => navigate(`/profile/${e.user_id}`)}
-                                role="button"
-                                tabIndex={0}
-                                onKeyDown={(ev) => ev.key === "Enter" && navigate(`/profile/${e.user_id}`)}
-                            >
-                                <div className="w-8 text-center font-bold text-gray-500">{e.rank}</div>
-                                <div className="h-10 w-10 rounded-full overflow-hidden mr-3">
-                                    <img src={e.profile_image} alt={e.full_name} className="h-full w-full object-cover" />
-                                </div>
-                                <div className="flex-1">
-                                    <h3 className="font-medium">{e.full_name}</h3>
-                                </div>
-                                <div className="text-right font-semibold">{formatTime(e.best_time)}</div>
-                            </li>
-                        ))}
-                    </ul>
-                </CardContent>
-            </Card>
+        <div>
+            {live ? (
+                <div className="flex items-center justify-between mb-6">
+                    <h1 className="text-4xl font-poppins font-bold gradient-text">
+                        {info.label} · {windowLabel(range)}
+                    </h1>
+                    <div className="flex items-center gap-4">
+                        {status}
+                        <Link to="/home" aria-label="Leave live mode">
+                            <X className="h-8 w-8 text-gray-400" />
+                        </Link>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    {filter}
+                    <Tabs value={metric} onValueChange={(v) => setMetric(v as LeaderboardMetric)}>
+                        <TabsList className="mb-4 flex-wrap h-auto">
+                            {LEADERBOARD_METRICS.map((m) => (
+                                <TabsTrigger key={m.value} value={m.value}>
+                                    {m.label}
+                                </TabsTrigger>
+                            ))}
+                        </TabsList>
+                    </Tabs>
+                </>
+            )}
+
+            <LeaderboardTicker items={ticker} large={live} />
 
-            {/* Total plank time in last 30 days */}
             <Card className="plank-card">
-                <CardHeader className="pb-2 border-b flex items-center justify-between">
-                    <CardTitle className="text-lg font-poppins flex items-center">
-                        <TrendingUp className="h-5 w-5 text-plank-green mr-2" />
-                        Last 30 Days’ Total
-                    </CardTitle>
-                </CardHeader>
+                {!live && (
+                    <CardHeader className="pb-2 border-b">
+                        <CardTitle className="text-lg font-poppins flex items-center justify-between">
+                            <span className="flex items-center">
+                                <TrendingUp className="h-5 w-5 text-plank-blue mr-2" />
+                                {info.label} · {windowLabel(range)}
+                            </span>
+                            {status}
+                        </CardTitle>
+                        <p className="text-xs text-muted-foreground">{info.rule}</p>
+                    </CardHeader>
+                )}
                 <CardContent className="p-0">
-                    <ul className="divide-y">
-                        {total.map((e) => (
-                            <li
-                                key={e.user_id}
-                                className="cursor-pointer flex items-center p-4 hover:bg-gray-50 transition-colors"
-                                onClick={() => navigate(`/profile/${e.user_id}`)}
-                                role="button"
-                                tabIndex={0}
-                                onKeyDown={(ev) => ev.key === "Enter" && navigate(`/profile/${e.user_id}`)}
-                            >
-                                <div className="w-8 text-center font-bold text-gray-500">{e.rank}</div>
-                                <div className="h-10 w-10 rounded-full overflow-hidden mr-3">
-                                    <img src={e.profile_image} alt={e.full_name} className="h-full w-full object-cover" />
-                                </div>
-                                <div className="flex-1">
-                                    <h3 className="font-medium">{e.full_name}</h3>
-                                </div>
-                                <div className="text-right font-semibold">{formatTime(e.total_time)}</div>
-                            </li>
-                        ))}
-                    </ul>
+                    {loading ? (
+                        <div className="p-6 text-center">Loading…</div>
+                    ) : rows.length === 0 ? (
+                        <div className="p-6 text-center text-gray-500">No one on this board yet.</div>
+                    ) : (
+                        <ul ref={listRef} className="divide-y">
+                            {rows.map((e) => {
+                                const moved = moves[e.user_id] ?? 0;
+                                return (
+                                    <li
+                                        key={e.user_id}
+                                        data-flip-key={e.user_id}
+                                        className={`cursor-pointer flex items-center hover:bg-gray-50 transition-colors ${
+                                            live ? "p-5 text-2xl" : "p-4"
+                                        } ${moved > 0 ? "bg-green-50" : ""}`}
+                                        onClick={() => navigate(`/profile/${e.user_id}`)}
+                                        role="button"
+                                        tabIndex={0}
+                                        onKeyDown={(ev) => ev.key === "Enter" && navigate(`/profile/${e.user_id}`)}
+                                    >
+                                        <div className={`text-center font-bold text-gray-500 ${live ? "w-14" : "w-8"}`}>{e.rank}</div>
+                                        <div className={`rounded-full overflow-hidden mr-3 ${live ? "h-14 w-14" : "h-10 w-10"}`}>
+                                            <img src={e.profile_image ?? ""} alt={e.full_name ?? ""} className="h-full w-full object-cover" />
+                                        </div>
+                                        <div className="flex-1 flex items-center gap-2">
+                                            <h3 className="font-medium">{e.full_name ?? "Unknown"}</h3>
+                                            {moved > 0 && (
+                                                <span className="flex items-center text-xs text-plank-green">
+                                                    <ArrowUp className="h-3 w-3" />{moved}
+                                                </span>
+                                            )}
+                                            {moved < 0 && (
+                                                <span className="flex items-center text-xs text-red-500">
+                                                    <ArrowDown className="h-3 w-3" />{-moved}
+                                                </span>
+                                            )}
+                                        </div>
+                                        <div className="flex items-center gap-2 text-right font-semibold">
+                                            {metric === "best" && <VerificationBadge status={e.best_status} compact />}
+                                            {info.format(e.value)}
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+
+                    {/* "you" row when the user ranks below the loaded rows, then paging */}
+                    {!loading && myRank && !meShown && (
+                        <div className={`flex items-center border-t bg-plank-light-blue ${live ? "p-5 text-2xl" : "p-4"}`}>
+                            <div className={`text-center font-bold text-gray-500 ${live ? "w-14" : "w-8"}`}>{myRank.rank}</div>
+                            <div className="flex-1 font-medium">You</div>
+                            <div className="text-right font-semibold">{info.format(myRank.value)}</div>
+                        </div>
+                    )}
+                    {!live && !loading && rows.length < entrants && (
+                        <div className="p-2 border-t text-center">
+                            <Button variant="ghost" size="sm" onClick={loadMore}>
+                                Show more
+                            </Button>
+                        </div>
+                    )}
                 </CardContent>
             </Card>
         </div>
@@ -0,0 +1,37 @@
+// src/components/LeaderboardTicker.tsx
+
+import React from "react";
+import { Flame } from "lucide-react";
+
+export interface TickerItem {
+    id: number;
+    text: string;
+}
+
+interface LeaderboardTickerProps {
+    items: TickerItem[];
+    large?: boolean;
+}
+
+// Newest first; the parent drops items once they are stale.
+const LeaderboardTicker: React.FC<LeaderboardTickerProps> = ({ items, large = false }) => {
+    if (items.length === 0) return null;
+
+    return (
+        <ul className="mb-4 space-y-1" aria-live="polite">
+            {items.map((item, i) => (
+                <li
+                    key={item.id}
+                    className={`flex items-center rounded-md bg-plank-light-blue px-3 py-2 animate-slide-in-right ${
+                        large ? "text-2xl" : "text-sm"
+                    } ${i > 0 ? "opacity-60" : "font-semibold"}`}
+                >
+                    <Flame className={`mr-2 text-orange-500 ${large ? "h-7 w-7" : "h-4 w-4"}`} />
+                    {item.text}
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+export default LeaderboardTicker;
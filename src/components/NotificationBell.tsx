@@ -0,0 +1,53 @@
+// src/components/NotificationBell.tsx
+
+import React from "react";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useNotifications } from "@/hooks/useNotifications";
+
+interface NotificationBellProps {
+    userId: string;
+}
+
+const NotificationBell: React.FC<NotificationBellProps> = ({ userId }) => {
+    const { notifications, unread, markAllRead } = useNotifications(userId);
+
+    // opening the list counts as reading it
+    const handleOpenChange = (open: boolean) => {
+        if (open && unread > 0) markAllRead();
+    };
+
+    return (
+        <Popover onOpenChange={handleOpenChange}>
+            <PopoverTrigger asChild>
+                <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+                    <Bell className="h-5 w-5" />
+                    {unread > 0 && (
+                        <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-plank-blue text-white text-xs flex items-center justify-center">
+                            {unread}
+                        </span>
+                    )}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 p-0">
+                {notifications.length === 0 ? (
+                    <p className="p-4 text-sm text-gray-500 text-center">No notifications yet.</p>
+                ) : (
+                    <ul className="max-h-96 overflow-y-auto divide-y">
+                        {notifications.map((n) => (
+                            <li key={n.id} className={`p-3 text-sm ${n.read_at ? "" : "bg-plank-light-blue"}`}>
+                                <p>{n.body}</p>
+                                <p className="mt-1 text-xs text-gray-500">
+                                    {new Date(n.created_at).toLocaleString()}
+                                </p>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </PopoverContent>
+        </Popover>
+    );
+};
+
+export default NotificationBell;
@@ -1,7 +1,8 @@
 ﻿// src/components/PlankDetailDialog.tsx
 
 import React, { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useSupabase } from "@/integrations/supabase/context";
+import { publicUrl } from "@/integrations/supabase/storage";
 import { toast } from "@/components/ui/sonner";
 import {
     Dialog,
@@ -13,20 +14,44 @@ import {
 } from "@/components/ui/dialog";
 import { CardContent } from "@/components/ui/card";
 import { Clock } from "lucide-react";
+import { describeVariant } from "@/lib/plankVariants";
+import { VerificationStatus } from "@/lib/plankVerification";
+import VerificationBadge from "./VerificationBadge";
+import PlankInteractions from "./PlankInteractions";
 
 interface PlankDetailDialogProps {
     plankId: number;
-    trigger: React.ReactNode;
+    trigger?: React.ReactNode;
+    // pass both to open the dialog from outside, e.g. from a deep link
+    open?: boolean;
+    onOpenChange?: (open: boolean) => void;
+}
+
+interface SessionSet {
+    set_index: number;
+    duration_s: number;
+    target_s: number | null;
+    variant?: string;
 }
 
 interface PlankDetail {
     duration_s: number;
+    form_score: number | null;
     photos: string[];
     user_id: string;
+    verification_status: VerificationStatus;
+    evidence: {
+        captured_at: string[];
+        review_note: string | null;
+    } | null;
     author: {
         full_name: string;
         profile_image: string;
     };
+    session?: {
+        sets: SessionSet[];
+        total_rest_s: number;
+    };
 }
 
 const formatTime = (t: number) => {
@@ -38,8 +63,16 @@ const formatTime = (t: number) => {
 const PlankDetailDialog: React.FC<PlankDetailDialogProps> = ({
     plankId,
     trigger,
+    open: openProp,
+    onOpenChange,
 }) => {
-    const [open, setOpen] = useState(false);
+    const supabase = useSupabase();
+    const [openState, setOpenState] = useState(false);
+    const open = openProp ?? openState;
+    const setOpen = (o: boolean) => {
+        setOpenState(o);
+        onOpenChange?.(o);
+    };
     const [detail, setDetail] = useState<PlankDetail | null>(null);
     const [loading, setLoading] = useState(false);
 
@@ -51,7 +84,7 @@ const PlankDetailDialog: React.FC<PlankDetailDialogProps> = ({
             // 1) fetch the plank itself
             const { data: plank, error: plankErr } = await supabase
                 .from("planks")
-                .select("duration_s, photos, user_id")
+                .select("duration_s, form_score, photos, user_id, workout_session_id, verification_status")
                 .eq("id", plankId)
                 .single();
 
@@ -76,19 +109,65 @@ const PlankDetailDialog: React.FC<PlankDetailDialogProps> = ({
                 return;
             }
 
+            // 3) verification evidence, if the plank was submitted for review
+            const { data: evidence, error: evidenceErr } = await supabase
+                .from("plank_verifications")
+                .select("captured_at, review_note")
+                .eq("plank_id", plankId)
+                .maybeSingle();
+            if (evidenceErr) console.error("Error loading verification:", evidenceErr);
+
+            // 4) if it was part of a workout session, fetch the other sets
+            let session: PlankDetail["session"];
+            if (plank.workout_session_id) {
+                const [{ data: sets, error: setsErr }, { data: ws, error: wsErr }] = await Promise.all([
+                    supabase
+                        .from("planks")
+                        .select("set_index, duration_s, target_s, side, weight_kg, plank_variants(name)")
+                        .eq("workout_session_id", plank.workout_session_id)
+                        .order("set_index", { ascending: true }),
+                    supabase
+                        .from("workout_sessions")
+                        .select("total_rest_s")
+                        .eq("id", plank.workout_session_id)
+                        .single(),
+                ]);
+
+                if (setsErr || wsErr) {
+                    console.error("Error loading session:", setsErr ?? wsErr);
+                    toast.error("Could not load session details.");
+                } else {
+                    session = {
+                        sets: (sets || []).map((s) => ({
+                            set_index: s.set_index,
+                            duration_s: s.duration_s,
+                            target_s: s.target_s,
+                            variant: describeVariant(s.plank_variants?.name, s.side, s.weight_kg),
+                        })),
+                        total_rest_s: ws?.total_rest_s ?? 0,
+                    };
+                }
+            }
+
             setDetail({
-                duration_s: plank.duration_s,
+                duration_s: session
+                    ? session.sets.reduce((sum, s) => sum + s.duration_s, 0)
+                    : plank.duration_s,
+                form_score: plank.form_score ?? null,
                 photos: plank.photos || [],
                 user_id: plank.user_id,
+                verification_status: plank.verification_status,
+                evidence: evidence ?? null,
                 author,
+                session,
             });
             setLoading(false);
         })();
-    }, [open, plankId]);
+    }, [supabase, open, plankId]);
 
     return (
         <Dialog open={open} onOpenChange={setOpen}>
-            <DialogTrigger asChild>{trigger}</DialogTrigger>
+            {trigger && <DialogTrigger asChild>{trigger}</DialogTrigger>}
 
             <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
                 <DialogHeader>
@@ -108,46 +187,86 @@ const PlankDetailDialog: React.FC<PlankDetailDialogProps> = ({
                                     className="w-10 h-10 rounded-full object-cover"
                                 />
                                 <div>
-                                    <p className="font-medium">{detail.author.full_name}</p>
+                                    <p className="font-medium flex items-center gap-2">
+                                        {detail.author.full_name}
+                                        <VerificationBadge status={detail.verification_status} />
+                                    </p>
                                     <p className="flex items-center text-gray-600">
                                         <Clock className="mr-1 w-4 h-4" />
                                         {formatTime(detail.duration_s)}
+                                        {detail.session &&
+                                            ` over ${detail.session.sets.length} sets · ${formatTime(detail.session.total_rest_s)} rest`}
                                     </p>
+                                    {detail.form_score != null && (
+                                        <p className="text-sm text-gray-500">
+                                            Form score {detail.form_score}/100
+                                        </p>
+                                    )}
                                 </div>
                             </div>
 
+                            {detail.verification_status === "rejected" && detail.evidence?.review_note && (
+                                <p className="text-sm text-red-600">
+                                    Not verified: {detail.evidence.review_note}
+                                </p>
+                            )}
+
+                            {detail.session && (
+                                <div>
+                                    <p className="text-lg font-semibold mb-2">Sets</p>
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="text-left text-gray-500 border-b">
+                                                <th className="py-1">Set</th>
+                                                <th className="py-1">Variant</th>
+                                                <th className="py-1 text-right">Target</th>
+                                                <th className="py-1 text-right">Held</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {detail.session.sets.map((s) => (
+                                                <tr key={s.set_index} className="border-b last:border-0">
+                                                    <td className="py-1">{s.set_index + 1}</td>
+                                                    <td className="py-1">{s.variant ?? "Forearm"}</td>
+                                                    <td className="py-1 text-right">
+                                                        {s.target_s ? formatTime(s.target_s) : "–"}
+                                                    </td>
+                                                    <td className={`py-1 text-right font-medium ${s.target_s && s.duration_s < s.target_s
+                                                            ? "text-gray-500"
+                                                            : "text-plank-green"
+                                                        }`}>
+                                                        {formatTime(s.duration_s)}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+
                             {detail.photos.length > 0 && (
                                 <div>
                                     <p className="text-lg font-semibold mb-2">Plank Photos</p>
                                     <div className="space-y-4">
-                                        {detail.photos.map((path, i) => {
-                                            const { data, error } = supabase
-                                                .storage
-                                                .from("plank-photos")
-                                                .getPublicUrl(path);
-
-                                            if (error || !data) {
-                                                console.error(
-                                                    "Could not get public URL for",
-                                                    path,
-                                                    error
-                                                );
-                                                return null;
-                                            }
-
-                                            return (
+                                        {detail.photos.map((path, i) => (
                                                 <div key={i} className="overflow-auto">
                                                     <img
-                                                        src={data.publicUrl}
+                                                        src={publicUrl(supabase, "plank-photos", path)}
                                                         alt={`Snapshot ${i + 1}`}
                                                         className="max-w-full h-auto object-contain rounded"
                                                     />
+                                                    {detail.evidence?.captured_at[i] && (
+                                                        <p className="mt-1 text-xs text-gray-500">
+                                                            Captured {new Date(detail.evidence.captured_at[i]).toLocaleTimeString()}
+                                                        </p>
+                                                    )}
                                                 </div>
-                                            );
-                                        })}
+                                        ))}
                                     </div>
                                 </div>
                             )}
+
+                            <PlankInteractions plankId={plankId} ownerId={detail.user_id} />
                         </div>
                     )}
                 </CardContent>
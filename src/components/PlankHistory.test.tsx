@@ -0,0 +1,132 @@
+// src/components/PlankHistory.test.tsx
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import PlankHistory from "./PlankHistory";
+import { createFakeSupabase } from "@/test/fakeSupabase";
+import { renderWithProviders } from "@/test/render";
+
+const ME = { id: "a11ce000-0000-4000-8000-000000000001", email: "alice@example.com" };
+
+const plank = (id: number, plank_date: string, duration_s: number, extra = {}) => ({
+    id,
+    user_id: ME.id,
+    plank_date,
+    duration_s,
+    inserted_at: `${plank_date}T08:00:00Z`,
+    variant_id: 1,
+    side: null,
+    weight_kg: null,
+    workout_session_id: null,
+    set_index: null,
+    verification_status: "unverified" as const,
+    ...extra,
+});
+
+const variants = [{ id: 1, slug: "forearm", name: "Forearm", is_sided: false, user_id: null }];
+
+describe("PlankHistory", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("lists the five latest planks, newest first", async () => {
+        const fake = createFakeSupabase({
+            user: ME,
+            rows: {
+                plank_variants: variants,
+                planks: [
+                    plank(1, "2025-05-01", 30),
+                    plank(2, "2025-05-02", 45),
+                    plank(3, "2025-05-03", 60),
+                    plank(4, "2025-05-04", 75),
+                    plank(5, "2025-05-05", 90),
+                    plank(6, "2025-05-06", 125),
+                ],
+            },
+        });
+
+        renderWithProviders(<PlankHistory userId={ME.id} />, fake);
+
+        expect(await screen.findByText("2:05")).toBeInTheDocument();
+        const times = screen.getAllByText(/^\d+:\d{2}$/).map((el) => el.textContent);
+        expect(times).toEqual(["2:05", "1:30", "1:15", "1:00", "0:45"]);
+    });
+
+    it("shows a workout session as one entry with its holds summed", async () => {
+        const fake = createFakeSupabase({
+            user: ME,
+            rows: {
+                plank_variants: variants,
+                planks: [
+                    plank(1, "2025-05-01", 40, { workout_session_id: 7, set_index: 0 }),
+                    plank(2, "2025-05-01", 35, { workout_session_id: 7, set_index: 1 }),
+                ],
+            },
+        });
+
+        renderWithProviders(<PlankHistory userId={ME.id} />, fake);
+
+        expect(await screen.findByText("1:15")).toBeInTheDocument();
+        expect(screen.getByText(/Session · 2 sets/)).toBeInTheDocument();
+        expect(screen.getByRole("button", { name: "Delete session" })).toBeInTheDocument();
+    });
+
+    it("adds a plank and shows it once it reaches the server", async () => {
+        const user = userEvent.setup();
+        const fake = createFakeSupabase({ user: ME, rows: { plank_variants: variants, planks: [] } });
+
+        renderWithProviders(<PlankHistory userId={ME.id} />, fake);
+
+        await user.click(await screen.findByRole("button", { name: "Add New Plank" }));
+        const dialog = await screen.findByRole("dialog");
+        const [date, time] = [
+            dialog.querySelector<HTMLInputElement>('input[type="date"]')!,
+            dialog.querySelector<HTMLInputElement>('input[type="text"]')!,
+        ];
+        await user.type(date, "2025-05-03");
+        await user.clear(time);
+        await user.type(time, "1:35");
+        await user.click(screen.getByRole("button", { name: "Save" }));
+
+        expect(await screen.findByText("Plank added!")).toBeInTheDocument();
+        expect(fake.rows("planks")).toMatchObject([
+            { user_id: ME.id, plank_date: "2025-05-03", duration_s: 95 },
+        ]);
+        expect(await screen.findByText("1:35")).toBeInTheDocument();
+    });
+
+    it("deletes a plank and drops it from the list", async () => {
+        const user = userEvent.setup();
+        vi.spyOn(window, "confirm").mockReturnValue(true);
+        const fake = createFakeSupabase({
+            user: ME,
+            rows: {
+                plank_variants: variants,
+                planks: [plank(1, "2025-05-01", 30), plank(2, "2025-05-02", 45)],
+            },
+        });
+
+        renderWithProviders(<PlankHistory userId={ME.id} />, fake);
+
+        await screen.findByText("0:45");
+        await user.click(screen.getAllByRole("button", { name: "Delete plank" })[0]);
+
+        expect(await screen.findByText("Plank deleted")).toBeInTheDocument();
+        expect(fake.rows("planks").map((p) => p.id)).toEqual([1]);
+        await waitFor(() => expect(screen.queryByText("0:45")).not.toBeInTheDocument());
+    });
+
+    it("only lets the owner add or delete", async () => {
+        const fake = createFakeSupabase({
+            user: { id: "b0b00000-0000-4000-8000-000000000002" },
+            rows: { plank_variants: variants, planks: [plank(1, "2025-05-01", 30)] },
+        });
+
+        renderWithProviders(<PlankHistory userId={ME.id} />, fake);
+
+        expect(await screen.findByText("0:30")).toBeInTheDocument();
+        expect(screen.queryByRole("button", { name: "Add New Plank" })).not.toBeInTheDocument();
+        expect(screen.queryByRole("button", { name: "Delete plank" })).not.toBeInTheDocument();
+    });
+});
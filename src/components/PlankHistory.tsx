@@ -1,9 +1,8 @@
-﻿import React, { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+﻿import React, { useMemo, useState } from "react";
 import { toast } from "@/components/ui/sonner";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardContent, CardTitle } from "@/components/ui/card";
-import { Clock, Trash2 } from "lucide-react";
+import { Clock, Trash2, CloudOff, RefreshCw } from "lucide-react";
 import {
     Dialog,
     DialogTrigger,
@@ -15,12 +14,35 @@ import {
 import FullHistoryDialog from "./FullHistoryDialog";
 import PlankDetailDialog from "./PlankDetailDialog";
 import { useAuth } from "@/hooks/useAuth";
+import { useSupabase } from "@/integrations/supabase/context";
+import { usePlankOutbox } from "@/hooks/usePlankOutbox";
+import { retryQueuedPlank, discardQueuedPlank } from "@/lib/plankOutbox";
+import { PlankRow, useDeletePlank, usePlanks, useSavePlank } from "@/data/planks";
+import { validatePlankInput } from "@/lib/plankInput";
+import { toLocalDateString } from "@/lib/utils";
+import { usePlankVariants } from "@/hooks/usePlankVariants";
+import VariantPicker from "./VariantPicker";
+import VerificationBadge from "./VerificationBadge";
+import PlankSocialCounts from "./PlankSocialCounts";
+import { VerificationStatus } from "@/lib/plankVerification";
+import {
+    PlankVariantChoice,
+    DEFAULT_VARIANT_CHOICE,
+    variantColumns,
+    describeVariant,
+} from "@/lib/plankVariants";
 
 export interface PlankEntry {
     id: number;
     date: string;  // e.g. "April 22"
     day: string;   // "Today" | "Yesterday" | "Monday" | …
     time: number;  // seconds
+    variant?: string; // e.g. "Side (left) · +10 kg"
+    sessionId?: number; // set when the entry groups the holds of a workout session
+    sets?: number;
+    verification?: VerificationStatus;
+    kudos?: number;
+    comments?: number;
 }
 
 interface PlankHistoryProps {
@@ -33,100 +55,120 @@ const formatTime = (totalSeconds: number): string => {
     return `${minutes}:${seconds < 10 ? "0" + seconds : seconds}`;
 };
 
+// "Today" | "Yesterday" | weekday, plus "April 22"
+const describeDate = (plankDate: string): Pick<PlankEntry, "day" | "date"> => {
+    const d = new Date(plankDate);
+    const today = new Date();
+    const yesterday = new Date(today);
+    yesterday.setDate(today.getDate() - 1);
+
+    let dayLabel: string;
+    if (d.toDateString() === today.toDateString()) dayLabel = "Today";
+    else if (d.toDateString() === yesterday.toDateString()) dayLabel = "Yesterday";
+    else {
+        const wd = d.toLocaleDateString("en-US", { weekday: "long" });
+        dayLabel = wd.charAt(0).toUpperCase() + wd.slice(1);
+    }
+
+    return {
+        date: d.toLocaleDateString("en-US", { day: "numeric", month: "long" }),
+        day: dayLabel,
+    };
+};
+
+// latest 5 entries from the newest 20 planks; a workout session counts as
+// one entry, with its holds summed
+const latestEntries = (rows: PlankRow[]): PlankEntry[] => {
+    const entries: PlankEntry[] = [];
+    for (const r of rows.slice(0, 20)) {
+        const session = r.workout_session_id
+            ? entries.find(e => e.sessionId === r.workout_session_id)
+            : undefined;
+        if (session) {
+            session.time += r.duration_s;
+            session.sets = (session.sets ?? 1) + 1;
+            // the detail dialog opens on the first set, which carries the evidence
+            // and the kudos and comments
+            if (r.set_index === 0) {
+                session.id = r.id;
+                session.verification = r.verification_status;
+                session.kudos = r.plank_kudos[0]?.count ?? 0;
+                session.comments = r.plank_comments[0]?.count ?? 0;
+            }
+            continue;
+        }
+        entries.push({
+            id: r.id,
+            ...describeDate(r.plank_date),
+            time: r.duration_s,
+            variant: r.workout_session_id
+                ? undefined
+                : describeVariant(r.plank_variants?.name, r.side, r.weight_kg),
+            sessionId: r.workout_session_id ?? undefined,
+            sets: r.workout_session_id ? 1 : undefined,
+            verification: r.verification_status,
+            kudos: r.plank_kudos[0]?.count ?? 0,
+            comments: r.plank_comments[0]?.count ?? 0,
+        });
+    }
+    return entries.slice(0, 5);
+};
+
 const PlankHistory: React.FC<PlankHistoryProps> = ({ userId }) => {
+    const supabase = useSupabase();
     const { user } = useAuth();
-    const [recent, setRecent] = useState<PlankEntry[]>([]);
-    const [loadingRecent, setLoadingRecent] = useState(true);
+    const { data: rows, isPending: loadingRecent } = usePlanks(userId);
+    const recent = useMemo(() => latestEntries(rows ?? []), [rows]);
+    const savePlank = useSavePlank();
+    const deletePlank = useDeletePlank(userId);
 
     // Add-new dialog
     const [isAddOpen, setIsAddOpen] = useState(false);
     const [newDate, setNewDate] = useState("");
     const [newTime, setNewTime] = useState("00:00");
+    const [newVariant, setNewVariant] = useState<PlankVariantChoice>(DEFAULT_VARIANT_CHOICE);
+    const { variants, createVariant } = usePlankVariants();
 
     const isOwnProfile = user?.id === userId;
 
-    // load latest 5 planks
-    const loadRecent = async () => {
-        setLoadingRecent(true);
-        try {
-            const { data: rows, error } = await supabase
-                .from<{ id: number; plank_date: string; duration_s: number }>("planks")
-                .select("id, plank_date, duration_s, inserted_at")
-                .eq("user_id", userId)
-                .order("inserted_at", { ascending: false })
-                .limit(5);
-
-            if (error) throw error;
-
-            setRecent(
-                (rows || []).map(r => {
-                    const d = new Date(r.plank_date);
-                    const today = new Date();
-                    const yesterday = new Date(today);
-                    yesterday.setDate(today.getDate() - 1);
-
-                    let dayLabel: string;
-                    if (d.toDateString() === today.toDateString()) dayLabel = "Today";
-                    else if (d.toDateString() === yesterday.toDateString()) dayLabel = "Yesterday";
-                    else {
-                        const wd = d.toLocaleDateString("en-US", { weekday: "long" });
-                        dayLabel = wd.charAt(0).toUpperCase() + wd.slice(1);
-                    }
-
-                    return {
-                        id: r.id,
-                        date: d.toLocaleDateString("en-US", { day: "numeric", month: "long" }),
-                        day: dayLabel,
-                        time: r.duration_s,
-                    };
-                })
-            );
-        } catch (err: any) {
-            console.error(err);
-            toast.error("Could not load plank history.");
-        } finally {
-            setLoadingRecent(false);
-        }
-    };
-
-    useEffect(() => {
-        loadRecent();
-    }, [userId]);
+    // planks logged on this device that haven't reached the server yet
+    const queued = usePlankOutbox(userId);
 
     // handle adding
     const handleAddPlank = async (e: React.FormEvent) => {
         e.preventDefault();
-        const [m, s] = newTime.split(":").map(v => parseInt(v, 10));
-        if (isNaN(m) || isNaN(s)) {
-            toast.error("Invalid time format");
+        const input = validatePlankInput({ plank_date: newDate, time: newTime }, toLocalDateString());
+        if (input.ok === false) {
+            toast.error(input.error);
             return;
         }
-        const duration_s = m * 60 + s;
         try {
-            await supabase.from("planks").insert({
+            const result = await savePlank.mutateAsync({
                 user_id: userId,
-                plank_date: newDate,
-                duration_s,
+                plank_date: input.plank_date,
+                duration_s: input.duration_s,
+                ...variantColumns(newVariant, variants),
             });
-            toast.success("Plank added!");
+            if (result === "synced") toast.success("Plank added!");
+            else toast.info("Couldn't reach the server. The plank will sync automatically.");
             setIsAddOpen(false);
             setNewDate("");
             setNewTime("00:00");
-            loadRecent();
-        } catch (err: any) {
+            setNewVariant(DEFAULT_VARIANT_CHOICE);
+        } catch (err) {
             console.error(err);
             toast.error("Failed to add plank.");
         }
     };
 
-    // handle deletion
-    const handleDelete = async (id: number) => {
-        if (!confirm("Are you sure you want to delete this plank?")) return;
+    // handle deletion (deleting a session removes all of its holds)
+    const handleDelete = async (entry: PlankEntry) => {
+        const what = entry.sessionId ? "session" : "plank";
+        if (!confirm(`Are you sure you want to delete this ${what}?`)) return;
         try {
-            await supabase.from("planks").delete().eq("id", id);
-            toast.success("Plank deleted");
-            loadRecent();
-        } catch (err: any) {
+            await deletePlank.mutateAsync({ id: entry.id, sessionId: entry.sessionId });
+            toast.success(entry.sessionId ? "Session deleted" : "Plank deleted");
+        } catch (err) {
             console.error(err);
             toast.error("Failed to delete plank.");
         }
@@ -173,6 +215,12 @@ const PlankHistory: React.FC<PlankHistoryProps> = ({ userId }) => {
                                         className="w-full border rounded px-2 py-1"
                                     />
                                 </div>
+                                <VariantPicker
+                                    value={newVariant}
+                                    onChange={setNewVariant}
+                                    variants={variants}
+                                    onCreateVariant={createVariant}
+                                />
                                 <div className="flex justify-end">
                                     <Button type="submit">Save</Button>
                                 </div>
@@ -187,15 +235,63 @@ const PlankHistory: React.FC<PlankHistoryProps> = ({ userId }) => {
                     <div className="p-6 text-center text-gray-500">Loading…</div>
                 ) : (
                     <ul className="divide-y">
+                        {isOwnProfile && queued.map(q => {
+                            const { day, date } = describeDate(q.plank_date);
+                            return (
+                                <li key={q.id} className="p-4 flex items-center justify-between bg-gray-50">
+                                    <div>
+                                        <p className="font-medium">{day}</p>
+                                        <p className="text-sm text-gray-500 flex items-center">
+                                            <CloudOff className="h-3 w-3 mr-1" />
+                                            {q.status === "syncing"
+                                                ? "Syncing…"
+                                                : q.status === "failed"
+                                                    ? "Sync failed"
+                                                    : `${date} · waiting to sync`}
+                                            {q.kind === "workout" && ` · Session · ${q.sets?.length ?? 0} sets`}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center space-x-3">
+                                        <span className="font-semibold text-gray-500">{formatTime(q.duration_s)}</span>
+                                        {q.status === "failed" && (
+                                            <button
+                                                onClick={() => retryQueuedPlank(supabase, q.id)}
+                                                aria-label="Retry sync"
+                                                className="p-1 hover:bg-gray-200 rounded"
+                                            >
+                                                <RefreshCw className="h-5 w-5 text-plank-blue" />
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => {
+                                                if (confirm("Discard this unsynced plank?")) discardQueuedPlank(q.id);
+                                            }}
+                                            aria-label="Discard plank"
+                                            className="p-1 hover:bg-red-100 rounded"
+                                        >
+                                            <Trash2 className="h-5 w-5 text-red-500" />
+                                        </button>
+                                    </div>
+                                </li>
+                            );
+                        })}
                         {recent.map(e => (
                             <PlankDetailDialog
-                                key={e.id}
+                                key={e.sessionId ? `s${e.sessionId}` : e.id}
                                 plankId={e.id}
                                 trigger={
                                     <li className="p-4 flex items-center justify-between hover:bg-gray-50 transition-colors cursor-pointer">
                                         <div>
-                                            <p className="font-medium">{e.day}</p>
-                                            <p className="text-sm text-gray-500">{e.date}</p>
+                                            <p className="font-medium flex items-center gap-2">
+                                                {e.day}
+                                                <VerificationBadge status={e.verification} />
+                                                <PlankSocialCounts kudos={e.kudos} comments={e.comments} />
+                                            </p>
+                                            <p className="text-sm text-gray-500">
+                                                {e.date}
+                                                {e.sessionId && ` · Session · ${e.sets} ${e.sets === 1 ? "set" : "sets"}`}
+                                                {e.variant && ` · ${e.variant}`}
+                                            </p>
                                         </div>
                                         <div className="flex items-center space-x-3">
                                             <div className="h-8 w-8 bg-plank-light-blue rounded-full flex items-center justify-center">
@@ -204,8 +300,8 @@ const PlankHistory: React.FC<PlankHistoryProps> = ({ userId }) => {
                                             <span className="font-semibold">{formatTime(e.time)}</span>
                                             {isOwnProfile && (
                                                 <button
-                                                    onClick={() => handleDelete(e.id)}
-                                                    aria-label="Delete plank"
+                                                    onClick={() => handleDelete(e)}
+                                                    aria-label={e.sessionId ? "Delete session" : "Delete plank"}
                                                     className="p-1 hover:bg-red-100 rounded"
                                                 >
                                                     <Trash2 className="h-5 w-5 text-red-500" />
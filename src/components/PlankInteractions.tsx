@@ -0,0 +1,225 @@
+// src/components/PlankInteractions.tsx
+
+import React, { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Heart, MessageCircle } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAuth } from "@/hooks/useAuth";
+import { PlankComment, usePlankInteractions } from "@/hooks/usePlankInteractions";
+
+interface PlankInteractionsProps {
+    plankId: number;
+    ownerId: string;
+}
+
+// deeper replies stop indenting so long threads stay readable
+const MAX_INDENT = 3;
+
+interface CommentFormProps {
+    initial?: string;
+    submitLabel: string;
+    onSubmit: (body: string) => Promise<boolean>;
+    onCancel?: () => void;
+}
+
+const CommentForm: React.FC<CommentFormProps> = ({ initial = "", submitLabel, onSubmit, onCancel }) => {
+    const [body, setBody] = useState(initial);
+    const [busy, setBusy] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!body.trim()) return;
+        setBusy(true);
+        const ok = await onSubmit(body);
+        setBusy(false);
+        if (ok) setBody("");
+        else toast.error("Could not save your comment.");
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-2">
+            <Textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                maxLength={1000}
+                rows={2}
+                placeholder="Write a comment…"
+            />
+            <div className="flex justify-end gap-2">
+                {onCancel && (
+                    <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+                        Cancel
+                    </Button>
+                )}
+                <Button type="submit" size="sm" className="plank-btn-primary" disabled={busy || !body.trim()}>
+                    {submitLabel}
+                </Button>
+            </div>
+        </form>
+    );
+};
+
+const PlankInteractions: React.FC<PlankInteractionsProps> = ({ plankId, ownerId }) => {
+    const { user } = useAuth();
+    const {
+        kudos,
+        comments,
+        loading,
+        hasKudos,
+        toggleKudos,
+        addComment,
+        editComment,
+        deleteComment,
+        canDelete,
+    } = usePlankInteractions(plankId, ownerId, user?.id);
+
+    // at most one reply or edit form open at a time
+    const [replyTo, setReplyTo] = useState<number | null>(null);
+    const [editing, setEditing] = useState<number | null>(null);
+
+    const handleKudos = async () => {
+        if (!(await toggleKudos())) toast.error("Could not update kudos.");
+    };
+
+    const handleDelete = async (c: PlankComment) => {
+        const replies = comments.some((r) => r.parent_id === c.id);
+        if (!confirm(replies ? "Delete this comment and its replies?" : "Delete this comment?")) return;
+        if (!(await deleteComment(c.id))) toast.error("Could not delete the comment.");
+    };
+
+    const renderThread = (parentId: number | null, depth: number): React.ReactNode => {
+        const level = comments.filter((c) => c.parent_id === parentId);
+        if (level.length === 0) return null;
+
+        return (
+            <ul className={`space-y-3 ${depth > 0 && depth <= MAX_INDENT ? "ml-6 mt-3 border-l pl-3" : ""}`}>
+                {level.map((c) => (
+                    <li key={c.id}>
+                        <div className="flex items-start gap-2">
+                            <img
+                                src={c.author.profile_image}
+                                alt={c.author.full_name}
+                                className="h-8 w-8 rounded-full object-cover"
+                            />
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm">
+                                    <span className="font-medium">{c.author.full_name}</span>{" "}
+                                    <span className="text-xs text-gray-500">
+                                        {formatDistanceToNow(new Date(c.created_at), { addSuffix: true })}
+                                        {c.edited_at && " · edited"}
+                                    </span>
+                                </p>
+                                {editing === c.id ? (
+                                    <CommentForm
+                                        initial={c.body}
+                                        submitLabel="Save"
+                                        onSubmit={async (body) => {
+                                            const ok = await editComment(c.id, body);
+                                            if (ok) setEditing(null);
+                                            return ok;
+                                        }}
+                                        onCancel={() => setEditing(null)}
+                                    />
+                                ) : (
+                                    <p className="text-sm whitespace-pre-wrap break-words">{c.body}</p>
+                                )}
+                                {user && editing !== c.id && (
+                                    <div className="mt-1 flex gap-3 text-xs text-gray-500">
+                                        <button onClick={() => { setReplyTo(c.id); setEditing(null); }} className="hover:underline">
+                                            Reply
+                                        </button>
+                                        {c.user_id === user.id && (
+                                            <button onClick={() => { setEditing(c.id); setReplyTo(null); }} className="hover:underline">
+                                                Edit
+                                            </button>
+                                        )}
+                                        {canDelete(c) && (
+                                            <button onClick={() => handleDelete(c)} className="text-red-500 hover:underline">
+                                                Delete
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                                {replyTo === c.id && (
+                                    <div className="mt-2">
+                                        <CommentForm
+                                            submitLabel="Reply"
+                                            onSubmit={async (body) => {
+                                                const ok = await addComment(body, c.id);
+                                                if (ok) setReplyTo(null);
+                                                return ok;
+                                            }}
+                                            onCancel={() => setReplyTo(null)}
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                        {renderThread(c.id, depth + 1)}
+                    </li>
+                ))}
+            </ul>
+        );
+    };
+
+    if (loading) {
+        return <p className="text-center text-gray-500 py-2">Loading comments…</p>;
+    }
+
+    return (
+        <div className="space-y-4 border-t pt-4">
+            <div className="flex items-center gap-3">
+                <Button
+                    variant={hasKudos ? "default" : "outline"}
+                    size="sm"
+                    className={hasKudos ? "plank-btn-primary" : ""}
+                    onClick={handleKudos}
+                    disabled={!user || user.id === ownerId}
+                >
+                    <Heart className={`mr-1 h-4 w-4 ${hasKudos ? "fill-current" : ""}`} />
+                    Kudos
+                </Button>
+                {kudos.length > 0 ? (
+                    <Popover>
+                        <PopoverTrigger asChild>
+                            <button className="text-sm text-gray-600 hover:underline">
+                                {kudos.length} {kudos.length === 1 ? "kudo" : "kudos"}
+                            </button>
+                        </PopoverTrigger>
+                        <PopoverContent align="start" className="w-64 p-0">
+                            <ul className="max-h-64 overflow-y-auto divide-y">
+                                {kudos.map((k) => (
+                                    <li key={k.id} className="p-2 flex items-center gap-2 text-sm">
+                                        <img src={k.profile_image} alt={k.full_name} className="h-6 w-6 rounded-full object-cover" />
+                                        {k.full_name}
+                                    </li>
+                                ))}
+                            </ul>
+                        </PopoverContent>
+                    </Popover>
+                ) : (
+                    <span className="text-sm text-gray-500">No kudos yet</span>
+                )}
+            </div>
+
+            <div>
+                <p className="text-lg font-semibold mb-2 flex items-center gap-2">
+                    <MessageCircle className="h-5 w-5" />
+                    Comments{comments.length > 0 && ` (${comments.length})`}
+                </p>
+                {comments.length === 0 && <p className="text-sm text-gray-500 mb-3">Be the first to comment.</p>}
+                {renderThread(null, 0)}
+                {user && (
+                    <div className="mt-4">
+                        <CommentForm submitLabel="Comment" onSubmit={(body) => addComment(body)} />
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PlankInteractions;
@@ -0,0 +1,33 @@
+// src/components/PlankSocialCounts.tsx
+
+import React from "react";
+import { Heart, MessageCircle } from "lucide-react";
+
+interface PlankSocialCountsProps {
+    kudos?: number;
+    comments?: number;
+}
+
+// Kudos and comment counts for a history row; nothing when both are zero.
+const PlankSocialCounts: React.FC<PlankSocialCountsProps> = ({ kudos = 0, comments = 0 }) => {
+    if (!kudos && !comments) return null;
+
+    return (
+        <span className="inline-flex items-center gap-2 text-xs text-gray-500">
+            {kudos > 0 && (
+                <span className="inline-flex items-center" aria-label={`${kudos} kudos`}>
+                    <Heart className="mr-0.5 h-3 w-3" />
+                    {kudos}
+                </span>
+            )}
+            {comments > 0 && (
+                <span className="inline-flex items-center" aria-label={`${comments} comments`}>
+                    <MessageCircle className="mr-0.5 h-3 w-3" />
+                    {comments}
+                </span>
+            )}
+        </span>
+    );
+};
+
+export default PlankSocialCounts;
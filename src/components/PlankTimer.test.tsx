@@ -0,0 +1,93 @@
+// src/components/PlankTimer.test.tsx
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import PlankTimer from "./PlankTimer";
+import { createFakeSupabase } from "@/test/fakeSupabase";
+import { renderWithProviders } from "@/test/render";
+
+const ME = { id: "a11ce000-0000-4000-8000-000000000001", email: "alice@example.com" };
+
+const variants = [{ id: 1, slug: "forearm", name: "Forearm", is_sided: false, user_id: null }];
+
+// the clock reads performance.now(), so it is faked along with the timers
+const advance = (ms: number) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+describe("PlankTimer", () => {
+    beforeEach(() => {
+        vi.useFakeTimers({
+            shouldAdvanceTime: true,
+            toFake: ["setTimeout", "clearTimeout", "setInterval", "clearInterval", "Date", "performance"],
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const setup = (user: typeof ME | null = ME, layout: "card" | "live" = "card") => {
+        const fake = createFakeSupabase({ user, rows: { plank_variants: variants, planks: [] } });
+        const events = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+        renderWithProviders(<PlankTimer layout={layout} />, fake);
+        return { fake, events };
+    };
+
+    it("won't start until the no-cheating vow is ticked", async () => {
+        const { events } = setup();
+
+        await events.click(screen.getByRole("button", { name: "Start" }));
+
+        expect(await screen.findByText("You must swear you won’t cheat before you start!")).toBeInTheDocument();
+        expect(screen.queryByRole("button", { name: "Pause" })).not.toBeInTheDocument();
+    });
+
+    it("times a plank after the countdown and saves it", async () => {
+        const { fake, events } = setup();
+
+        await events.click(screen.getByLabelText("I solemnly swear my plank is real."));
+        await events.click(screen.getByRole("button", { name: "Start" }));
+        await advance(3_000);
+        expect(screen.getByRole("button", { name: "Pause" })).toBeInTheDocument();
+
+        await advance(42_000);
+        expect(screen.getByText("00:42")).toBeInTheDocument();
+        await events.click(screen.getByRole("button", { name: "Pause" }));
+        await events.click(screen.getByRole("button", { name: "Save plank" }));
+
+        expect(await screen.findByText("Plank saved!")).toBeInTheDocument();
+        expect(fake.rows("planks")).toMatchObject([{ user_id: ME.id, duration_s: 42, variant_id: 1 }]);
+    });
+
+    it("stops and resets on Esc in live mode, without saving", async () => {
+        const { fake, events } = setup(ME, "live");
+
+        await events.click(screen.getByLabelText("I solemnly swear my plank is real."));
+        // shortcuts leave form fields alone
+        (document.activeElement as HTMLElement).blur();
+        await events.keyboard(" ");
+        await advance(3_000 + 20_000);
+        expect(screen.getByText("00:20")).toBeInTheDocument();
+
+        await events.keyboard("{Escape}");
+
+        expect(screen.getByText("00:00")).toBeInTheDocument();
+        expect(screen.getByRole("button", { name: "Start" })).toBeInTheDocument();
+        expect(screen.queryByRole("button", { name: "Save plank" })).not.toBeInTheDocument();
+        await advance(5_000);
+        expect(screen.getByText("00:00")).toBeInTheDocument();
+        expect(fake.rows("planks")).toEqual([]);
+    });
+
+    it("asks to log in instead of saving when signed out", async () => {
+        const { fake, events } = setup(null);
+
+        await events.click(screen.getByLabelText("I solemnly swear my plank is real."));
+        await events.click(screen.getByRole("button", { name: "Start" }));
+        await advance(13_000);
+        await events.click(screen.getByRole("button", { name: "Pause" }));
+        await events.click(screen.getByRole("button", { name: "Save plank" }));
+
+        expect(await screen.findByText("You must be logged in.")).toBeInTheDocument();
+        expect(fake.rows("planks")).toEqual([]);
+    });
+});
@@ -1,31 +1,118 @@
 // src/components/PlankTimer.tsx
 
 import React, { useState, useEffect, useRef } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { Link } from "react-router-dom";
+import { useSupabase } from "@/integrations/supabase/context";
 import { toast } from "@/components/ui/sonner";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Play, Pause, RotateCcw, CheckCircle } from "lucide-react";
+import { Play, Pause, RotateCcw, CheckCircle, SkipForward, Maximize2, X } from "lucide-react";
+import { usePlankClock } from "@/hooks/usePlankClock";
+import { useWakeLock } from "@/hooks/useWakeLock";
+import { usePoseDetection, PoseDetectionResult } from "@/hooks/usePoseDetection";
+import FormStatusBadge from "@/components/FormStatusBadge";
+import {
+    FormMonitorState,
+    initialFormMonitor,
+    updateFormMonitor,
+    formScore,
+    resetFormScore,
+} from "@/lib/formMonitor";
+import { usePlankVariants } from "@/hooks/usePlankVariants";
+import VariantPicker from "@/components/VariantPicker";
+import {
+    PlankVariantChoice,
+    DEFAULT_VARIANT_CHOICE,
+    variantColumns,
+} from "@/lib/plankVariants";
+import ResumeSessionDialog from "@/components/ResumeSessionDialog";
+import CueSettingsDialog from "@/components/CueSettingsDialog";
+import { useCuePreferences } from "@/hooks/useCuePreferences";
+import { usePlankCues } from "@/hooks/usePlankCues";
+import { unlockCueAudio } from "@/lib/cuePlayer";
+import WorkoutPlanEditor from "@/components/WorkoutPlanEditor";
+import { useSavePlank, useSaveWorkout } from "@/data/planks";
+import {
+    WorkoutSet,
+    WorkoutPhase,
+    WorkoutHold,
+    FIRST_PHASE,
+    createWorkoutPlan,
+    phaseSeconds,
+    nextPhase,
+    isValidPlan,
+    totalHoldSeconds,
+} from "@/lib/workout";
+import { toLocalDateString } from "@/lib/utils";
+import {
+    StoredPlankSession,
+    SessionFreshness,
+    SessionLimits,
+    DEFAULT_SESSION_LIMITS,
+    saveActiveSession,
+    loadActiveSession,
+    clearActiveSession,
+    classifySession,
+    restoredClock,
+    sessionDurationSeconds,
+    sessionPlankDate,
+    sessionWorkoutHolds,
+} from "@/lib/plankSession";
 
-const PlankTimer: React.FC = () => {
+interface PlankTimerProps {
+    // how old an interrupted session may be before it can no longer be resumed
+    sessionLimits?: SessionLimits;
+    // "live" fills the screen with a large clock and enables keyboard shortcuts
+    layout?: "card" | "live";
+}
+
+const SESSION_HEARTBEAT_MS = 5_000;
+
+const PlankTimer: React.FC<PlankTimerProps> = ({
+    sessionLimits = DEFAULT_SESSION_LIMITS,
+    layout = "card",
+}) => {
+    const supabase = useSupabase();
     const videoRef = useRef<HTMLVideoElement>(null);
+    const live = layout === "live";
+    const { mutateAsync: savePlank } = useSavePlank();
+    const { mutateAsync: saveWorkout } = useSaveWorkout();
 
     // --- camera switch state ---
     const [useCamera, setUseCamera] = useState(false);
     const [stream, setStream] = useState<MediaStream | null>(null);
 
+    // --- form detection on the camera feed ---
+    const [autoForm, setAutoForm] = useState(true);
+    const formRef = useRef<FormMonitorState>(initialFormMonitor);
+
     // --- plank/timer state ---
-    const [mode, setMode] = useState<"stopwatch" | "timer">("stopwatch");
-    const [seconds, setSeconds] = useState(0);
+    const [mode, setMode] = useState<"stopwatch" | "timer" | "session">("stopwatch");
     const [initialSeconds, setInitialSeconds] = useState(0);
     const [inputMin, setInputMin] = useState(0);
     const [inputSec, setInputSec] = useState(0);
-    const [isActive, setIsActive] = useState(false);
     const [isCompleted, setIsCompleted] = useState(false);
+    const [savedSeconds, setSavedSeconds] = useState(0);
     const [vowCheat, setVowCheat] = useState(false);
+    const [savedFormScore, setSavedFormScore] = useState<number | null>(null);
+
+    // --- plank variant ---
+    const { variants, createVariant } = usePlankVariants();
+    const [variant, setVariant] = useState<PlankVariantChoice>(DEFAULT_VARIANT_CHOICE);
+
+    // --- multi-set session ---
+    const [workoutPlan, setWorkoutPlan] = useState<WorkoutSet[]>(() => createWorkoutPlan());
+    const [phase, setPhase] = useState<WorkoutPhase>(FIRST_PHASE);
+    const [holds, setHolds] = useState<WorkoutHold[]>([]);
+    const [restTaken, setRestTaken] = useState(0);
 
     // --- snapshot storage ---
     const [snapshots, setSnapshots] = useState<Blob[]>([]);
+    const [snapshotTimes, setSnapshotTimes] = useState<number[]>([]); // capture time of each, epoch ms
+
+    // --- interrupted session waiting for the user's decision ---
+    const [pendingSession, setPendingSession] = useState<StoredPlankSession | null>(null);
+    const [pendingFreshness, setPendingFreshness] = useState<SessionFreshness>("resumable");
 
     // 1) start/stop camera only on useCamera toggle
     useEffect(() => {
@@ -49,26 +136,96 @@ const PlankTimer: React.FC = () => {
         };
     }, [useCamera]);
 
-    // 2) timer / stopwatch
+    // 2) timer / stopwatch, derived from timestamps rather than interval ticks
+    // (in session mode the clock times one hold or rest at a time)
+    const clockTarget =
+        mode === "timer"
+            ? initialSeconds
+            : mode === "session"
+                ? phaseSeconds(workoutPlan, phase)
+                : undefined;
+    const clock = usePlankClock({
+        targetSeconds: clockTarget,
+        onFinish: (duration) =>
+            mode === "session" ? handlePhaseEnd(duration) : handleComplete(duration),
+    });
+
+    // --- audio / haptic cues ---
+    const { prefs: cuePrefs, updatePrefs: updateCuePrefs } = useCuePreferences();
+    const cues = usePlankCues({
+        elapsedMs: clock.elapsedMs,
+        status: clock.status,
+        targetSeconds: clockTarget,
+        prefs: cuePrefs,
+    });
+
+    const isActive = clock.isRunning;
+
+    // keep the screen from dimming and locking mid-plank
+    useWakeLock(isActive || cues.countdown !== null);
+
+    const pose = usePoseDetection({ videoRef, enabled: useCamera && !isCompleted });
+    const seconds =
+        mode === "timer"
+            ? clock.status === "idle" ? 0 : clock.remainingSeconds
+            : mode === "session"
+                ? clock.status === "idle" ? phaseSeconds(workoutPlan, FIRST_PHASE) : clock.remainingSeconds
+                : clock.elapsedSeconds;
+
+    // 3) look for a session interrupted by a reload or crash
     useEffect(() => {
-        if (!isActive) return;
-        const timerId = window.setInterval(() => {
-            setSeconds((s) => {
-                if (mode === "timer") {
-                    if (s <= 1) {
-                        clearInterval(timerId);
-                        handleComplete();
-                        return 0;
-                    }
-                    return s - 1;
+        loadActiveSession()
+            .then((saved) => {
+                if (!saved) return;
+                const freshness = classifySession(saved, Date.now(), sessionLimits);
+                if (freshness === "expired") {
+                    return clearActiveSession();
                 }
-                return s + 1;
-            });
-        }, 1000);
-        return () => clearInterval(timerId);
-    }, [isActive, mode]);
+                setPendingSession(saved);
+                setPendingFreshness(freshness);
+            })
+            .catch((err) => console.error("Could not load saved plank session:", err));
+    }, [sessionLimits]);
+
+    // 4) persist the running session on every change and on a heartbeat
+    const persistSession = () => {
+        saveActiveSession({
+            mode,
+            targetSeconds: mode === "timer" ? initialSeconds : 0,
+            clock: clock.state,
+            vowCheat,
+            variant,
+            workout:
+                mode === "session"
+                    ? { plan: workoutPlan, phase, holds, restSeconds: restTaken }
+                    : undefined,
+            snapshots,
+            snapshotTimes,
+            lastSeenAt: Date.now(),
+            clockSeenAt: clock.now(),
+        }).catch((err) => console.error("Could not save plank session:", err));
+    };
+    const persistRef = useRef(persistSession);
+    persistRef.current = persistSession;
+
+    useEffect(() => {
+        if (clock.status === "idle" || clock.status === "stopped") return;
+        persistRef.current();
+        if (clock.status !== "running") return;
+
+        const heartbeatId = window.setInterval(() => persistRef.current(), SESSION_HEARTBEAT_MS);
+        const onPageHide = () => persistRef.current();
+        window.addEventListener("pagehide", onPageHide);
+        return () => {
+            clearInterval(heartbeatId);
+            window.removeEventListener("pagehide", onPageHide);
+        };
+    }, [
+        clock.state, clock.status, mode, initialSeconds, vowCheat, variant,
+        workoutPlan, phase, holds, restTaken, snapshots, snapshotTimes,
+    ]);
 
-    // 3) snapshots: once on start + every 10 seconds
+    // 5) snapshots: once on start + every 10 seconds
     useEffect(() => {
         if (!isActive || !useCamera) return;
         captureSnapshot();
@@ -89,15 +246,27 @@ const PlankTimer: React.FC = () => {
         canvas.height = video.videoHeight;
         const ctx = canvas.getContext("2d")!;
         ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        // the capture time goes into the verification evidence
+        const capturedAt = Date.now();
         canvas.toBlob((blob) => {
             if (blob) {
                 console.log("📸 captured blob:", blob);
                 setSnapshots((cur) => [...cur, blob].slice(0, 3));
+                setSnapshotTimes((cur) => [...cur, capturedAt].slice(0, 3));
             }
         }, "image/png");
     }
 
-    const handleStart = () => {
+    const handleStart = () => startPlank(true);
+
+    // the auto-start from form detection skips the 3-2-1: the user is already holding
+    const startPlank = (withCountdown: boolean) => {
+        if (cues.countdown !== null) return;
+        unlockCueAudio();
+        if (clock.status === "paused") {
+            clock.resume();
+            return;
+        }
         if (!vowCheat) {
             toast.error("You must swear you won’t cheat before you start!");
             return;
@@ -107,98 +276,356 @@ const PlankTimer: React.FC = () => {
             toast.error("Please set a positive timer.");
             return;
         }
-        if (mode === "timer") {
-            setInitialSeconds(total);
-            setSeconds(total);
-        } else {
-            setSeconds(0);
+        if (mode === "session" && !isValidPlan(workoutPlan)) {
+            toast.error("Every set needs a positive hold time.");
+            return;
         }
+        if (mode === "timer") setInitialSeconds(total);
+        setPhase(FIRST_PHASE);
+        setHolds([]);
+        setRestTaken(0);
         setSnapshots([]);
-        setIsActive(true);
+        setSnapshotTimes([]);
         setIsCompleted(false);
+        formRef.current = initialFormMonitor;
+        clock.reset();
+        if (withCountdown) cues.runStartCountdown(() => clock.start());
+        else clock.start();
+    };
+
+    const handlePause = () => clock.pause();
+
+    // session mode: the holds and rest total once the current phase ends
+    const recordPhase = (duration: number) => {
+        const nextHolds =
+            phase.kind === "hold"
+                ? [
+                    ...holds,
+                    {
+                        setIndex: phase.setIndex,
+                        durationSeconds: duration,
+                        targetSeconds: phaseSeconds(workoutPlan, phase),
+                        variant: workoutPlan[phase.setIndex].variant,
+                        formScore: formScore(formRef.current),
+                    },
+                ]
+                : holds;
+        // every hold gets its own form score
+        formRef.current = resetFormScore(formRef.current);
+        const nextRest = phase.kind === "rest" ? restTaken + duration : restTaken;
+        return { nextHolds, nextRest };
+    };
+
+    // session mode: record the finished hold or rest and move on to the next phase
+    const handlePhaseEnd = (duration: number) => {
+        const { nextHolds, nextRest } = recordPhase(duration);
+        setHolds(nextHolds);
+        setRestTaken(nextRest);
+
+        const next = nextPhase(workoutPlan, phase);
+        if (!next) {
+            handleCompleteWorkout(nextHolds, nextRest);
+            return;
+        }
+        setPhase(next);
+        clock.reset();
+        clock.start();
     };
 
-    const handlePause = () => setIsActive(false);
+    // save what has been held so far (Save buttons and the S shortcut)
+    const handleSaveNow = () => {
+        if (isCompleted || clock.status === "idle") return;
+        if (mode === "session") {
+            const { nextHolds, nextRest } = recordPhase(clock.stop());
+            setHolds(nextHolds);
+            setRestTaken(nextRest);
+            handleCompleteWorkout(nextHolds, nextRest);
+            return;
+        }
+        if (clock.elapsedSeconds <= 0) return;
+        handleComplete(clock.stop());
+    };
+
+    // 6) keyboard shortcuts for desk planks: space start/pause, Esc stop, S save
+    const shortcutRef = useRef<(e: KeyboardEvent) => void>();
+    shortcutRef.current = (e: KeyboardEvent) => {
+        if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+        const target = e.target as HTMLElement | null;
+        if (target?.closest("input, textarea, select, [contenteditable='true'], [role='dialog']")) return;
+
+        if (e.key === " ") {
+            e.preventDefault();
+            if (isActive) handlePause();
+            else handleStart();
+        } else if (e.key === "Escape") {
+            // stop: drop the countdown, or end the plank without saving it
+            if (cues.countdown !== null) cues.cancelCountdown();
+            else if (clock.status !== "idle") handleReset();
+        } else if (e.key === "s" || e.key === "S") {
+            e.preventDefault();
+            handleSaveNow();
+        }
+    };
+
+    // 7) form detection: score the hold, and auto start / stop on it
+    // (sessions move between holds and rests on their own clock, so only score them)
+    const poseRef = useRef<(result: PoseDetectionResult) => void>();
+    poseRef.current = ({ assessment, timestamp }: PoseDetectionResult) => {
+        const holding = isActive && !(mode === "session" && phase.kind === "rest");
+        const { state, event } = updateFormMonitor(formRef.current, assessment, timestamp, holding);
+        formRef.current = state;
+        if (!autoForm || mode === "session" || isCompleted) return;
+
+        if (event === "start" && (clock.status === "idle" || clock.status === "paused")) {
+            if (clock.status === "paused") clock.resume();
+            else if (vowCheat) startPlank(false);
+        } else if (event === "stop" && isActive) {
+            toast.info("Form broke for too long, so the plank was stopped.");
+            handleSaveNow();
+        }
+    };
+
+    useEffect(() => {
+        if (pose.result) poseRef.current?.(pose.result);
+    }, [pose.result]);
+
+    useEffect(() => {
+        if (!live) return;
+        const onKeyDown = (e: KeyboardEvent) => shortcutRef.current?.(e);
+        window.addEventListener("keydown", onKeyDown);
+        return () => window.removeEventListener("keydown", onKeyDown);
+    }, [live]);
 
     const handleReset = () => {
-        setIsActive(false);
+        cues.cancelCountdown();
+        clock.reset();
+        formRef.current = initialFormMonitor;
         setIsCompleted(false);
-        setSeconds(0);
+        setSavedSeconds(0);
+        setSavedFormScore(null);
         setInputMin(0);
         setInputSec(0);
         setVowCheat(false);
         setUseCamera(false);
         setSnapshots([]);
+        setSnapshotTimes([]);
+        setPhase(FIRST_PHASE);
+        setHolds([]);
+        setRestTaken(0);
+        clearActiveSession().catch(console.error);
     };
 
-    const handleComplete = async (): Promise<void> => {
-        const duration = mode === "timer" ? initialSeconds : seconds;
-        setIsActive(false);
+    const applySession = (saved: StoredPlankSession) => {
+        setMode(saved.mode);
+        setInitialSeconds(saved.targetSeconds);
+        setVowCheat(saved.vowCheat);
+        setVariant(saved.variant ?? DEFAULT_VARIANT_CHOICE);
+        if (saved.workout) {
+            setWorkoutPlan(saved.workout.plan);
+            setPhase(saved.workout.phase);
+            setHolds(saved.workout.holds);
+            setRestTaken(saved.workout.restSeconds);
+        }
+        setSnapshots(saved.snapshots);
+        setSnapshotTimes(saved.snapshotTimes ?? []);
+        setPendingSession(null);
+    };
+
+    const handleResumeSession = () => {
+        if (!pendingSession) return;
+        applySession(pendingSession);
+        clock.restore(restoredClock(pendingSession));
+    };
+
+    // saves the interrupted plank on the day it was started
+    const handleSaveSession = () => {
+        if (!pendingSession) return;
+        applySession(pendingSession);
+        if (pendingSession.mode === "session") {
+            handleCompleteWorkout(
+                sessionWorkoutHolds(pendingSession),
+                pendingSession.workout?.restSeconds ?? 0,
+                {
+                    snapshots: pendingSession.snapshots,
+                    snapshotTimes: pendingSession.snapshotTimes ?? [],
+                    plankDate: sessionPlankDate(pendingSession),
+                }
+            );
+            return;
+        }
+        handleComplete(sessionDurationSeconds(pendingSession), {
+            snapshots: pendingSession.snapshots,
+            snapshotTimes: pendingSession.snapshotTimes ?? [],
+            plankDate: sessionPlankDate(pendingSession),
+            variant: pendingSession.variant ?? DEFAULT_VARIANT_CHOICE,
+            formScore: null,
+        });
+    };
+
+    const handleDiscardSession = () => {
+        setPendingSession(null);
+        clearActiveSession().catch(console.error);
+    };
+
+    // duration comes from the clock: the target in timer mode, the measured time otherwise
+    const handleComplete = async (
+        duration: number,
+        options: {
+            snapshots?: Blob[];
+            snapshotTimes?: number[];
+            plankDate?: string;
+            variant?: PlankVariantChoice;
+            formScore?: number | null;
+        } = {}
+    ): Promise<void> => {
+        const shots = options.snapshots ?? snapshots;
+        const chosenVariant = options.variant ?? variant;
+        const score = options.formScore !== undefined ? options.formScore : formScore(formRef.current);
         setIsCompleted(true);
-        setSeconds(duration);
+        setSavedSeconds(duration);
+        setSavedFormScore(score);
+        clearActiveSession().catch(console.error);
 
-        // 1) make sure we're logged in
+        // 1) make sure we're logged in (from the stored session, which also works offline)
         const {
-            data: { user },
-            error: userErr,
-        } = await supabase.auth.getUser();
-        if (userErr || !user) {
+            data: { session },
+        } = await supabase.auth.getSession();
+        const user = session?.user;
+        if (!user) {
             toast.error("You must be logged in.");
             return;
         }
 
-        // 2) insert new plank and get its id back
-        const { data: plankArr, error: plankErr } = await supabase
-            .from("planks")
-            .insert({ user_id: user.id, duration_s: duration })
-            .select("id")
-            .limit(1);
-        if (plankErr || !plankArr?.length) {
-            console.error(plankErr);
-            toast.error("Could not save plank.");
-            return;
-        }
-        const plankId = plankArr[0].id;
-
-        // 3) upload up to three camera snapshots
-        const photoPaths: string[] = [];
-        for (let i = 0; i < snapshots.length; i++) {
-            const fileName = `${user.id}_${plankId}_${i}.png`;
-            const { data: uploadData, error: uploadErr } = await supabase.storage
-                .from("plank-photos")
-                .upload(fileName, snapshots[i], { cacheControl: "3600", upsert: false });
-
-            if (uploadErr) {
-                console.error("Storage upload error:", uploadErr);
-                toast.error("Could not upload photo. " + uploadErr.message);
+        // 2) queue the plank with its snapshots and try to sync it right away
+        try {
+            const result = await savePlank({
+                user_id: user.id,
+                duration_s: duration,
+                plank_date: options.plankDate ?? toLocalDateString(),
+                ...variantColumns(chosenVariant, variants),
+                form_score: score,
+                snapshots: shots,
+                snapshot_times: options.snapshotTimes ?? snapshotTimes,
+            });
+            if (result === "synced") {
+                toast.success("Plank saved!");
             } else {
-                photoPaths.push(uploadData.path);
+                toast.info("Couldn't reach the server. Your plank is stored on this device and will sync automatically.");
             }
+        } catch (err) {
+            console.error(err);
+            toast.error("Could not save plank.");
         }
+    };
 
-        // 4) save the photo paths array back on the plank record
-        if (photoPaths.length) {
-            const { error: updateErr } = await supabase
-                .from("planks")
-                .update({ photos: photoPaths })
-                .eq("id", plankId);
+    // saves a multi-set session as one record linking its holds
+    const handleCompleteWorkout = async (
+        doneHolds: WorkoutHold[],
+        restSeconds: number,
+        options: { snapshots?: Blob[]; snapshotTimes?: number[]; plankDate?: string } = {}
+    ): Promise<void> => {
+        const scored = doneHolds.filter((h) => h.formScore != null);
+        setIsCompleted(true);
+        setSavedSeconds(totalHoldSeconds(doneHolds));
+        setSavedFormScore(
+            scored.length
+                ? Math.round(scored.reduce((sum, h) => sum + (h.formScore ?? 0), 0) / scored.length)
+                : null
+        );
+        clearActiveSession().catch(console.error);
 
-            if (updateErr) {
-                console.error("Failed to attach photos to plank:", updateErr);
-            }
+        const finished = doneHolds.filter((h) => h.durationSeconds > 0);
+        if (!finished.length) {
+            toast.error("No completed sets to save.");
+            return;
+        }
+
+        const {
+            data: { session },
+        } = await supabase.auth.getSession();
+        const user = session?.user;
+        if (!user) {
+            toast.error("You must be logged in.");
+            return;
         }
 
-        toast.success("Plank saved!");
+        try {
+            const result = await saveWorkout({
+                user_id: user.id,
+                plank_date: options.plankDate ?? toLocalDateString(),
+                sets: finished.map((h) => ({
+                    set_index: h.setIndex,
+                    duration_s: h.durationSeconds,
+                    target_s: h.targetSeconds,
+                    form_score: h.formScore ?? null,
+                    ...variantColumns(h.variant, variants),
+                })),
+                rest_s: restSeconds,
+                snapshots: options.snapshots ?? snapshots,
+                snapshot_times: options.snapshotTimes ?? snapshotTimes,
+            });
+            if (result === "synced") {
+                toast.success("Session saved!");
+            } else {
+                toast.info("Couldn't reach the server. Your session is stored on this device and will sync automatically.");
+            }
+        } catch (err) {
+            console.error(err);
+            toast.error("Could not save session.");
+        }
     };
 
+    // the live layout scales the clock and buttons up for reading from the floor
+    const faceSize = live ? "w-64 h-64 sm:w-80 sm:h-80" : "w-36 h-36";
+    const digitSize = live ? "text-6xl sm:text-7xl" : "text-3xl";
+    const tapSize = live ? " h-16 text-lg" : "";
+
     return (
-        <Card className="plank-card w-full max-w-md mx-auto overflow-hidden">
-            <div className="bg-gradient-to-r from-plank-blue to-plank-green p-4 text-white">
+        <Card className={live
+            ? "relative w-full min-h-screen rounded-none border-0 shadow-none"
+            : "plank-card relative w-full max-w-md mx-auto overflow-hidden"
+        }>
+            <div className="relative bg-gradient-to-r from-plank-blue to-plank-green p-4 text-white">
+                {live ? (
+                    <Link
+                        to="/home"
+                        className="absolute left-4 top-1/2 -translate-y-1/2 p-1 rounded hover:bg-white/20"
+                        aria-label="Leave live mode"
+                    >
+                        <X className="h-5 w-5" />
+                    </Link>
+                ) : clock.status === "idle" && (
+                    <Link
+                        to="/plank/live"
+                        className="absolute left-4 top-1/2 -translate-y-1/2 p-1 rounded hover:bg-white/20"
+                        aria-label="Open fullscreen plank mode"
+                    >
+                        <Maximize2 className="h-5 w-5" />
+                    </Link>
+                )}
                 <h2 className="text-xl font-bold font-poppins text-center">
-                    Today's Plank
+                    {live ? "Live Plank" : "Today's Plank"}
                 </h2>
+                <div className="absolute right-4 top-1/2 -translate-y-1/2">
+                    <CueSettingsDialog prefs={cuePrefs} onChange={updateCuePrefs} />
+                </div>
             </div>
-            <CardContent className="p-6">
+
+            {/* 3-2-1 before the clock starts */}
+            {cues.countdown !== null && (
+                <div className="absolute inset-0 z-10 flex items-center justify-center bg-white/80">
+                    <span className="text-7xl font-bold text-plank-blue animate-pulse">{cues.countdown}</span>
+                </div>
+            )}
+            <CardContent className={live ? "p-6 max-w-xl mx-auto" : "p-6"}>
+                <ResumeSessionDialog
+                    session={pendingSession}
+                    freshness={pendingFreshness}
+                    onResume={handleResumeSession}
+                    onSave={handleSaveSession}
+                    onDiscard={handleDiscardSession}
+                />
+
                 {/* mode tabs */}
                 {!isCompleted && (
                     <div className="flex mb-4 border-b">
@@ -222,6 +649,29 @@ const PlankTimer: React.FC = () => {
                         >
                             Timer
                         </button>
+                        <button
+                            onClick={() => !isActive && setMode("session")}
+                            disabled={isActive}
+                            className={`flex-1 py-2 text-center ${mode === "session"
+                                    ? "border-b-2 border-white font-semibold"
+                                    : "text-gray-500"
+                                } ${isActive ? "cursor-not-allowed opacity-50" : ""}`}
+                        >
+                            Session
+                        </button>
+                    </div>
+                )}
+
+                {/* variant (sessions pick one per set) */}
+                {!isCompleted && mode !== "session" && (
+                    <div className="mb-4">
+                        <VariantPicker
+                            value={variant}
+                            onChange={setVariant}
+                            variants={variants}
+                            onCreateVariant={createVariant}
+                            disabled={clock.status !== "idle"}
+                        />
                     </div>
                 )}
 
@@ -245,19 +695,35 @@ const PlankTimer: React.FC = () => {
                         <p className="mt-2 text-xs text-gray-500">
                             To get a verified plank you need to use the camera.
                         </p>
+                        {useCamera && mode !== "session" && (
+                            <label className="mt-2 flex items-center text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    className="h-4 w-4 mr-2"
+                                    checked={autoForm}
+                                    onChange={(e) => setAutoForm(e.target.checked)}
+                                />
+                                Start and stop automatically from my form
+                            </label>
+                        )}
                     </div>
                 )}
 
 
                 {/* camera preview */}
                 {useCamera && !isCompleted && (
-                    <div className="flex justify-center mb-4">
+                    <div className="relative flex justify-center mb-4">
+                        <FormStatusBadge
+                            ready={pose.ready}
+                            error={pose.error}
+                            assessment={pose.result?.assessment ?? null}
+                        />
                         <video
                             ref={videoRef}
                             autoPlay
                             playsInline
                             muted
-                            className="w-full h-48 object-cover rounded-md border"
+                            className={`w-full ${live ? "h-64 sm:h-80" : "h-48"} object-cover rounded-md border`}
                         />
                     </div>
                 )}
@@ -268,8 +734,15 @@ const PlankTimer: React.FC = () => {
                         <CheckCircle className="inline-block w-16 h-16 text-plank-green mb-4" />
                         <h3 className="text-2xl font-bold mb-2">Well done!</h3>
                         <p className="text-gray-600 mb-4">
-                            You planked for {formatTime(seconds)}
+                            {mode === "session"
+                                ? `You held ${holds.length} ${holds.length === 1 ? "set" : "sets"} for ${formatTime(savedSeconds)}`
+                                : `You planked for ${formatTime(savedSeconds)}`}
                         </p>
+                        {savedFormScore != null && (
+                            <p className="text-sm text-gray-600 mb-4">
+                                Form score: <span className="font-semibold">{savedFormScore}/100</span>
+                            </p>
+                        )}
                         <Button
                             className="plank-btn-outline hover:text-white hover:scale-105"
                             onClick={handleReset}
@@ -278,6 +751,77 @@ const PlankTimer: React.FC = () => {
                             New plank
                         </Button>
                     </div>
+                ) : mode === "session" ? (
+                    <>
+                        {clock.status === "idle" && (
+                            <div className="mb-4">
+                                <WorkoutPlanEditor
+                                    plan={workoutPlan}
+                                    onChange={setWorkoutPlan}
+                                    variants={variants}
+                                />
+                            </div>
+                        )}
+                        <div className="flex flex-col justify-center items-center my-8">
+                            <div className="relative">
+                                {isActive && (
+                                    <span className="absolute inset-0 rounded-full animate-pulse-ring bg-plank-blue opacity-30" />
+                                )}
+                                <div className={`${faceSize} rounded-full flex items-center justify-center ${!isActive
+                                        ? "bg-gray-100"
+                                        : phase.kind === "rest" ? "bg-plank-green" : "bg-plank-blue"
+                                    }`}>
+                                    <span className={`${digitSize} font-bold ${isActive ? "text-white" : "text-gray-700"
+                                        }`}>
+                                        {formatTime(seconds)}
+                                    </span>
+                                </div>
+                            </div>
+                            <p className="mt-3 text-sm text-gray-600">
+                                Set {phase.setIndex + 1} of {workoutPlan.length} ·{" "}
+                                {phase.kind === "rest" ? "Rest" : "Hold"}
+                            </p>
+                        </div>
+                        {!isActive && (
+                            <div className="flex items-center justify-center mb-4">
+                                <input
+                                    id="no-cheat-session"
+                                    type="checkbox"
+                                    className="h-4 w-4"
+                                    checked={vowCheat}
+                                    onChange={(e) => setVowCheat(e.target.checked)}
+                                />
+                                <label htmlFor="no-cheat-session" className="ml-2 text-sm text-gray-700">
+                                    I solemnly swear my plank is real.
+                                </label>
+                            </div>
+                        )}
+                        <div className="flex flex-wrap justify-center gap-3 mt-6">
+                            {!isActive ? (
+                                <Button className={`plank-btn-primary flex-grow${tapSize}`} onClick={handleStart}>
+                                    <Play className="mr-2 h-4 w-4" /> {clock.status === "paused" ? "Resume" : "Start"}
+                                </Button>
+                            ) : (
+                                <Button className={`plank-btn-outline flex-grow${tapSize}`} onClick={handlePause}>
+                                    <Pause className="mr-2 h-4 w-4" /> Pause
+                                </Button>
+                            )}
+                            {clock.status !== "idle" && (
+                                <Button
+                                    className={`plank-btn-outline flex-grow${tapSize}`}
+                                    onClick={() => handlePhaseEnd(clock.stop())}
+                                >
+                                    <SkipForward className="mr-2 h-4 w-4" />
+                                    {phase.kind === "rest" ? "Skip rest" : "End set"}
+                                </Button>
+                            )}
+                            {clock.status !== "idle" && !isActive && (
+                                <Button className={`plank-btn-outline flex-grow${tapSize}`} onClick={handleReset}>
+                                    <RotateCcw className="mr-2 h-4 w-4" /> Reset
+                                </Button>
+                            )}
+                        </div>
+                    </>
                 ) : mode === "stopwatch" ? (
                     <>
                         <div className="flex justify-center items-center my-8">
@@ -285,9 +829,9 @@ const PlankTimer: React.FC = () => {
                                 {isActive && (
                                     <span className="absolute inset-0 rounded-full animate-pulse-ring bg-plank-blue opacity-30" />
                                 )}
-                                <div className={`w-36 h-36 rounded-full flex items-center justify-center ${isActive ? "bg-plank-blue" : "bg-gray-100"
+                                <div className={`${faceSize} rounded-full flex items-center justify-center ${isActive ? "bg-plank-blue" : "bg-gray-100"
                                     }`}>
-                                    <span className={`text-3xl font-bold ${isActive ? "text-white" : "text-gray-700"
+                                    <span className={`${digitSize} font-bold ${isActive ? "text-white" : "text-gray-700"
                                         }`}>
                                         {formatTime(seconds)}
                                     </span>
@@ -310,21 +854,21 @@ const PlankTimer: React.FC = () => {
                         )}
                         <div className="flex flex-wrap justify-center gap-3 mt-6">
                             {!isActive ? (
-                                <Button className="plank-btn-primary flex-grow" onClick={handleStart}>
-                                    <Play className="mr-2 h-4 w-4" /> Start
+                                <Button className={`plank-btn-primary flex-grow${tapSize}`} onClick={handleStart}>
+                                    <Play className="mr-2 h-4 w-4" /> {clock.status === "paused" ? "Resume" : "Start"}
                                 </Button>
                             ) : (
-                                <Button className="plank-btn-outline flex-grow" onClick={handlePause}>
+                                <Button className={`plank-btn-outline flex-grow${tapSize}`} onClick={handlePause}>
                                     <Pause className="mr-2 h-4 w-4" /> Pause
                                 </Button>
                             )}
                             {seconds > 0 && (
                                 <>
-                                    <Button className="plank-btn-outline flex-grow" onClick={handleReset}>
+                                    <Button className={`plank-btn-outline flex-grow${tapSize}`} onClick={handleReset}>
                                         <RotateCcw className="mr-2 h-4 w-4" /> Reset
                                     </Button>
                                     {!isActive && (
-                                        <Button className="plank-btn-secondary flex-grow" onClick={handleComplete}>
+                                        <Button className={`plank-btn-secondary flex-grow${tapSize}`} onClick={handleSaveNow}>
                                             <CheckCircle className="mr-2 h-4 w-4" /> Save plank
                                         </Button>
                                     )}
@@ -364,9 +908,9 @@ const PlankTimer: React.FC = () => {
                                 {isActive && (
                                     <span className="absolute inset-0 rounded-full animate-pulse-ring bg-plank-blue opacity-30" />
                                 )}
-                                <div className={`w-36 h-36 rounded-full flex items-center justify-center ${isActive ? "bg-plank-blue" : "bg-gray-100"
+                                <div className={`${faceSize} rounded-full flex items-center justify-center ${isActive ? "bg-plank-blue" : "bg-gray-100"
                                     }`}>
-                                    <span className={`text-3xl font-bold ${isActive ? "text-white" : "text-gray-700"
+                                    <span className={`${digitSize} font-bold ${isActive ? "text-white" : "text-gray-700"
                                         }`}>
                                         {formatTime(seconds)}
                                     </span>
@@ -389,22 +933,33 @@ const PlankTimer: React.FC = () => {
                         )}
                         <div className="flex flex-wrap justify-center gap-3 mt-6">
                             {!isActive ? (
-                                <Button className="plank-btn-primary flex-grow" onClick={handleStart}>
-                                    <Play className="mr-2 h-4 w-4" /> Start
+                                <Button className={`plank-btn-primary flex-grow${tapSize}`} onClick={handleStart}>
+                                    <Play className="mr-2 h-4 w-4" /> {clock.status === "paused" ? "Resume" : "Start"}
                                 </Button>
                             ) : (
-                                <Button className="plank-btn-outline flex-grow" onClick={handlePause}>
+                                <Button className={`plank-btn-outline flex-grow${tapSize}`} onClick={handlePause}>
                                     <Pause className="mr-2 h-4 w-4" /> Pause
                                 </Button>
                             )}
                             {(inputMin > 0 || inputSec > 0) && !isActive && (
-                                <Button className="plank-btn-outline flex-grow" onClick={handleReset}>
+                                <Button className={`plank-btn-outline flex-grow${tapSize}`} onClick={handleReset}>
                                     <RotateCcw className="mr-2 h-4 w-4" /> Reset
                                 </Button>
                             )}
+                            {clock.status === "paused" && clock.elapsedSeconds > 0 && (
+                                <Button className={`plank-btn-secondary flex-grow${tapSize}`} onClick={handleSaveNow}>
+                                    <CheckCircle className="mr-2 h-4 w-4" /> Save plank
+                                </Button>
+                            )}
                         </div>
                     </>
                 )}
+
+                {live && !isCompleted && (
+                    <p className="hidden sm:block mt-8 text-center text-xs text-gray-400">
+                        <kbd>Space</kbd> start / pause · <kbd>Esc</kbd> stop · <kbd>S</kbd> save
+                    </p>
+                )}
             </CardContent>
         </Card>
     );
@@ -1,6 +1,5 @@
 ﻿// src/components/ProgressGraph.tsx
-import React, { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import React, { useMemo, useState } from "react";
 import {
     Card,
     CardHeader,
@@ -20,6 +19,9 @@ import {
     Legend,
 } from "chart.js";
 import { Line } from "react-chartjs-2";
+import { usePlankVariants } from "@/hooks/usePlankVariants";
+import { usePlanks } from "@/data/planks";
+import VariantFilter from "./VariantFilter";
 
 ChartJS.register(
     CategoryScale,
@@ -31,11 +33,6 @@ ChartJS.register(
     Legend
 );
 
-interface PlankRow {
-    plank_date: string;
-    duration_s: number;
-}
-
 interface DataPoint {
     date: string;      // YYYY-MM-DD
     bestTime: number;  // seconds
@@ -46,62 +43,45 @@ interface ProgressGraphProps {
 }
 
 const ProfileGraph: React.FC<ProgressGraphProps> = ({ userId }) => {
-    const [dataPoints, setDataPoints] = useState<DataPoint[]>([]);
-    const [loading, setLoading] = useState(true);
-
-    useEffect(() => {
-        if (!userId) {
-            setLoading(false);
-            return;
-        }
-
-        async function load() {
-            setLoading(true);
-
-            // fetch all planks for the given userId
-            const { data, error } = await supabase
-                .from<PlankRow>("planks")
-                .select("plank_date, duration_s")
-                .eq("user_id", userId);
-
-            if (error) {
-                console.error(error);
-                setLoading(false);
-                return;
-            }
-
-            // group by date and pick max(duration_s)
-            const grouped: Record<string, number[]> = {};
-            (data || []).forEach((row) => {
+    const [variantId, setVariantId] = useState<number | null>(null);
+    const { variants } = usePlankVariants();
+    const { data: rows, isPending } = usePlanks(userId);
+    const loading = !!userId && isPending;
+
+    // best time per day, optionally for one variant
+    const dataPoints = useMemo<DataPoint[]>(() => {
+        const grouped: Record<string, number[]> = {};
+        (rows ?? [])
+            .filter((row) => variantId == null || row.variant_id === variantId)
+            .forEach((row) => {
                 grouped[row.plank_date] = grouped[row.plank_date] || [];
                 grouped[row.plank_date].push(row.duration_s);
             });
 
-            const points: DataPoint[] = Object.entries(grouped)
-                .map(([date, durations]) => ({
-                    date,
-                    bestTime: Math.max(...durations),
-                }))
-                .sort(
-                    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-                );
-
-            setDataPoints(points);
-            setLoading(false);
-        }
-
-        load();
-    }, [userId]);
+        return Object.entries(grouped)
+            .map(([date, durations]) => ({
+                date,
+                bestTime: Math.max(...durations),
+            }))
+            .sort(
+                (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+            );
+    }, [rows, variantId]);
+
+    const header = (
+        <CardHeader className="border-b pb-3 flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-lg flex items-center">
+                <TrendingUp className="h-5 w-5 text-plank-green mr-2" />
+                Plank Development
+            </CardTitle>
+            <VariantFilter variants={variants} value={variantId} onChange={setVariantId} />
+        </CardHeader>
+    );
 
     if (loading) {
         return (
             <Card>
-                <CardHeader className="border-b pb-3">
-                    <CardTitle className="text-lg flex items-center">
-                        <TrendingUp className="h-5 w-5 text-plank-green mr-2" />
-                        Plank Development
-                    </CardTitle>
-                </CardHeader>
+                {header}
                 <CardContent className="p-6 text-center text-gray-500">
                     Loading data...
                 </CardContent>
@@ -144,12 +124,7 @@ const ProfileGraph: React.FC<ProgressGraphProps> = ({ userId }) => {
 
     return (
         <Card>
-            <CardHeader className="border-b pb-3">
-                <CardTitle className="text-lg flex items-center">
-                    <TrendingUp className="h-5 w-5 text-plank-green mr-2" />
-                    Plank Development
-                </CardTitle>
-            </CardHeader>
+            {header}
             <CardContent className="p-6">
                 <div className="h-60">
                     <Line data={chartData} options={options} />
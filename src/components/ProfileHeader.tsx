@@ -5,12 +5,16 @@ import React, {
     FormEvent,
     useEffect,
 } from "react";
-import { Calendar, User } from "lucide-react";
+import { Calendar, User, UserPlus, UserCheck, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { supabase } from "@/integrations/supabase/client";
+import { Switch } from "@/components/ui/switch";
+import { useSupabase } from "@/integrations/supabase/context";
+import { publicUrl, storageBucket } from "@/integrations/supabase/storage";
 import { toast } from "@/components/ui/sonner";
+import { useFollow } from "@/hooks/useFollow";
+import FollowListDialog from "./FollowListDialog";
 
 export interface ProfileData {
     name: string;
@@ -19,18 +23,42 @@ export interface ProfileData {
     bio: string;
     joinDate: string;
     followersCount: number;
+    followingCount: number;
+    approveFollowers: boolean;
 }
 
 interface ProfileHeaderProps {
     data: ProfileData;
     onSave: (updated: Partial<ProfileData>) => Promise<void>;
+    canEdit?: boolean;
+    profileId?: string;
+    viewerId?: string;
+    onFollowChange?: () => void;   // reload the counts after a follow change
 }
 
-const ProfileHeader: React.FC<ProfileHeaderProps> = ({ data, onSave }) => {
+const ProfileHeader: React.FC<ProfileHeaderProps> = ({
+    data,
+    onSave,
+    canEdit = true,
+    profileId,
+    viewerId,
+    onFollowChange,
+}) => {
+    const supabase = useSupabase();
     const [isEditing, setIsEditing] = useState(false);
     const [form, setForm] = useState<Partial<ProfileData>>({});
     const [uploading, setUploading] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const { status: followStatus, busy: followBusy, follow, unfollow } = useFollow(
+        canEdit ? undefined : profileId,
+        viewerId,
+        onFollowChange
+    );
+
+    async function handleFollowClick() {
+        const ok = followStatus === "none" ? await follow() : await unfollow();
+        if (!ok) toast.error("Could not update follow.");
+    }
 
     // make sure form.profileImage has initial value when entering edit mode
     useEffect(() => {
@@ -40,6 +68,7 @@ const ProfileHeader: React.FC<ProfileHeaderProps> = ({ data, onSave }) => {
                 name: data.name,
                 username: data.username,
                 bio: data.bio,
+                approveFollowers: data.approveFollowers,
             });
         }
     }, [isEditing, data]);
@@ -70,21 +99,14 @@ const ProfileHeader: React.FC<ProfileHeaderProps> = ({ data, onSave }) => {
             const fileName = `${user.id}_${Date.now()}${ext ? "." + ext : ""}`;
 
             // 3) Upload to the 'avatars' bucket
-            const { error: uploadErr } = await supabase.storage
-                .from("avatars")
+            const { error: uploadErr } = await storageBucket(supabase, "avatars")
                 .upload(fileName, file, { upsert: true });
             if (uploadErr) throw uploadErr;
 
-            // 4) Retrieve the public URL
-            const { data: urlData, error: urlErr } = supabase.storage
-                .from("avatars")
-                .getPublicUrl(fileName);
-            if (urlErr) throw urlErr;
-
-            // 5) Update your form state so the new avatar previews immediately
+            // 4) Update your form state so the new avatar previews immediately
             setForm((f) => ({
                 ...f,
-                profileImage: urlData.publicUrl,
+                profileImage: publicUrl(supabase, "avatars", fileName),
             }));
             toast.success("Profile picture uploaded!");
         } catch (err: any) {
@@ -127,17 +149,59 @@ const ProfileHeader: React.FC<ProfileHeaderProps> = ({ data, onSave }) => {
                                         Member since {data.joinDate}
                                     </span>
                                 </div>
-                                <div className="flex items-center">
-                                    <User className="h-4 w-4 mr-1 opacity-70" />
-                                    <span className="text-sm">
-                                        {data.followersCount} Followers
-                                    </span>
-                                </div>
+                                {profileId && (
+                                    <FollowListDialog
+                                        userId={profileId}
+                                        kind="followers"
+                                        canManage={canEdit}
+                                        onChange={onFollowChange}
+                                        trigger={
+                                            <button className="flex items-center hover:underline">
+                                                <User className="h-4 w-4 mr-1 opacity-70" />
+                                                <span className="text-sm">
+                                                    {data.followersCount} Followers
+                                                </span>
+                                            </button>
+                                        }
+                                    />
+                                )}
+                                {profileId && (
+                                    <FollowListDialog
+                                        userId={profileId}
+                                        kind="following"
+                                        canManage={canEdit}
+                                        onChange={onFollowChange}
+                                        trigger={
+                                            <button className="flex items-center hover:underline">
+                                                <span className="text-sm">
+                                                    {data.followingCount} Following
+                                                </span>
+                                            </button>
+                                        }
+                                    />
+                                )}
                             </div>
                         </div>
-                        <Button variant="secondary" onClick={() => setIsEditing(true)}>
-                            Edit Profile
-                        </Button>
+                        {canEdit ? (
+                            <Button variant="secondary" onClick={() => setIsEditing(true)}>
+                                Edit Profile
+                            </Button>
+                        ) : viewerId && (
+                            <Button
+                                variant={followStatus === "none" ? "secondary" : "outline"}
+                                className={followStatus === "none" ? "" : "bg-transparent text-white"}
+                                disabled={followBusy}
+                                onClick={handleFollowClick}
+                            >
+                                {followStatus === "accepted" ? (
+                                    <><UserCheck className="h-4 w-4 mr-2" /> Following</>
+                                ) : followStatus === "pending" ? (
+                                    <><Clock className="h-4 w-4 mr-2" /> Requested</>
+                                ) : (
+                                    <><UserPlus className="h-4 w-4 mr-2" /> Follow</>
+                                )}
+                            </Button>
+                        )}
                     </div>
                 ) : (
                     <form
@@ -186,6 +250,13 @@ const ProfileHeader: React.FC<ProfileHeaderProps> = ({ data, onSave }) => {
                             onChange={handleChange}
                             rows={3}
                         />
+                        <label className="flex items-center gap-2 text-white">
+                            <Switch
+                                checked={!!form.approveFollowers}
+                                onCheckedChange={(v) => setForm({ ...form, approveFollowers: v })}
+                            />
+                            Approve new followers
+                        </label>
 
                         <div className="flex gap-2">
                             <Button type="submit">Save</Button>
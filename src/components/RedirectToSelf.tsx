@@ -1,8 +1,9 @@
 import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { useSupabase } from "@/integrations/supabase/context";
 
 export default function RedirectToSelf() {
+    const supabase = useSupabase();
     const navigate = useNavigate();
 
     useEffect(() => {
@@ -13,7 +14,7 @@ export default function RedirectToSelf() {
                 navigate(`/profile/${user.id}`, { replace: true });
             }
         });
-    }, [navigate]);
+    }, [supabase, navigate]);
 
     return null;  // nothing to render
 }
\ No newline at end of file
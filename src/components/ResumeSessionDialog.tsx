@@ -0,0 +1,79 @@
+// src/components/ResumeSessionDialog.tsx
+
+import React from "react";
+import {
+    AlertDialog,
+    AlertDialogContent,
+    AlertDialogHeader,
+    AlertDialogFooter,
+    AlertDialogTitle,
+    AlertDialogDescription,
+    AlertDialogAction,
+    AlertDialogCancel,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+    StoredPlankSession,
+    SessionFreshness,
+    sessionDurationSeconds,
+} from "@/lib/plankSession";
+
+interface ResumeSessionDialogProps {
+    session: StoredPlankSession | null;
+    freshness: SessionFreshness;
+    onResume: () => void;
+    onSave: () => void;
+    onDiscard: () => void;
+}
+
+const formatTime = (t: number) =>
+    `${Math.floor(t / 60)
+        .toString()
+        .padStart(2, "0")}:${(t % 60).toString().padStart(2, "0")}`;
+
+const ResumeSessionDialog: React.FC<ResumeSessionDialogProps> = ({
+    session,
+    freshness,
+    onResume,
+    onSave,
+    onDiscard,
+}) => {
+    if (!session) return null;
+
+    const duration = sessionDurationSeconds(session);
+    const lastSeen = new Date(session.lastSeenAt).toLocaleString("en-US", {
+        day: "numeric",
+        month: "long",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+    const canResume = freshness === "resumable";
+
+    return (
+        <AlertDialog open>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <AlertDialogTitle>Unfinished plank</AlertDialogTitle>
+                    <AlertDialogDescription>
+                        {canResume
+                            ? `You have a ${formatTime(duration)} plank that was interrupted. Resume it or save what you have?`
+                            : `You left a ${formatTime(duration)} plank unfinished on ${lastSeen}. Log it as a plank for that day?`}
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                    <AlertDialogCancel onClick={onDiscard}>Discard</AlertDialogCancel>
+                    {canResume && (
+                        <Button variant="outline" onClick={onResume}>
+                            Resume
+                        </Button>
+                    )}
+                    <AlertDialogAction onClick={onSave} disabled={duration <= 0}>
+                        {canResume ? "Save plank" : "Log plank"}
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+};
+
+export default ResumeSessionDialog;
@@ -0,0 +1,39 @@
+// src/components/ScopeSelect.tsx
+
+import React from "react";
+import {
+    Select,
+    SelectTrigger,
+    SelectValue,
+    SelectContent,
+    SelectItem,
+    SelectSeparator,
+} from "@/components/ui/select";
+import { LeaderboardScope } from "@/lib/leaderboard";
+import { MyTeam } from "@/hooks/useMyTeams";
+
+interface ScopeSelectProps {
+    teams: MyTeam[];
+    value: LeaderboardScope;
+    onChange: (scope: LeaderboardScope) => void;
+}
+
+const ScopeSelect: React.FC<ScopeSelectProps> = ({ teams, value, onChange }) => (
+    <Select value={value} onValueChange={(v) => onChange(v as LeaderboardScope)}>
+        <SelectTrigger className="w-40 h-8 text-sm" aria-label="Leaderboard scope">
+            <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+            <SelectItem value="global">Everyone</SelectItem>
+            <SelectItem value="following">People I follow</SelectItem>
+            {teams.length > 0 && <SelectSeparator />}
+            {teams.map((t) => (
+                <SelectItem key={t.id} value={`team:${t.id}`}>
+                    {t.name}
+                </SelectItem>
+            ))}
+        </SelectContent>
+    </Select>
+);
+
+export default ScopeSelect;
@@ -1,16 +1,25 @@
 // src/components/UserStats.tsx
 
-import React, { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
-import { toast } from "@/components/ui/sonner";
+import React, { useState } from "react";
+import { useQueries, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { CalendarCheck, Clock, Calendar, TrendingUp } from "lucide-react";
-
-interface UserStatsRow {
-    current_streak: number;
-    best_time_seconds: number | null;
-    best_time_date: string | null;
-    total_planks: number;
+import { CalendarCheck, Clock, Calendar, TrendingUp, Medal, Users } from "lucide-react";
+import { usePlankVariants } from "@/hooks/usePlankVariants";
+import VariantFilter from "./VariantFilter";
+import { LeaderboardFilters, LeaderboardScope, scopeArgs, windowLabel, windowRange } from "@/lib/leaderboard";
+import { useAuth } from "@/hooks/useAuth";
+import { useMyTeams } from "@/hooks/useMyTeams";
+import { useLeaderboardWindow } from "@/hooks/useLeaderboardWindow";
+import WindowSelect from "./WindowSelect";
+import { useUserStats, useVariantRecords } from "@/data/stats";
+import { myRankQuery } from "@/data/leaderboard";
+import { useSupabase } from "@/integrations/supabase/context";
+
+interface ScopeRank {
+    scope: LeaderboardScope;
+    label: string;
+    rank: number | null;
+    entrants: number | null;
 }
 
 interface UserStatsProps {
@@ -18,123 +27,69 @@ interface UserStatsProps {
 }
 
 const UserStats: React.FC<UserStatsProps> = ({ userId }) => {
-    const [stats, setStats] = useState<UserStatsRow | null>(null);
-    const [loadingStats, setLoadingStats] = useState(true);
-
-    const [monthlyRank, setMonthlyRank] = useState<number | null>(null);
-    const [monthlyPercentile, setMonthlyPercentile] = useState<number | null>(
-        null
-    );
-    const [loadingRank, setLoadingRank] = useState(true);
-
-    // 1) load the base stats (streak, best-ever, total planks)
-    useEffect(() => {
-        async function fetchStats() {
-            setLoadingStats(true);
-            try {
-                let uid = userId;
-                if (!uid) {
-                    const {
-                        data: { user },
-                        error: userErr,
-                    } = await supabase.auth.getUser();
-                    if (userErr || !user) throw userErr || new Error("No user");
-                    uid = user.id;
-                }
-
-                const { data, error } = await supabase
-                    .from<UserStatsRow>("user_stats")
-                    .select(
-                        "current_streak, best_time_seconds, best_time_date, total_planks"
-                    )
-                    .eq("user_id", uid)
-                    .single();
-
-                if (error && error.code !== "PGRST116") throw error;
-                setStats(data);
-            } catch (err: any) {
-                console.error(err);
-                toast.error("Could not load statistics.");
-            } finally {
-                setLoadingStats(false);
-            }
-        }
-
-        fetchStats();
-    }, [userId]);
-
-    // 2) fetch last-30-day leaderboard, extract this user’s rank & percentile
-    useEffect(() => {
-        async function fetchRank() {
-            setLoadingRank(true);
-            try {
-                let uid = userId;
-                if (!uid) {
-                    const {
-                        data: { user },
-                        error: userErr,
-                    } = await supabase.auth.getUser();
-                    if (userErr || !user) throw userErr || new Error("No user");
-                    uid = user.id;
-                }
-
-                // compute 30-day cutoff
-                const cutoff = new Date();
-                cutoff.setDate(cutoff.getDate() - 30);
-                const cutoffIso = cutoff.toISOString().slice(0, 10); // "YYYY-MM-DD"
-
-                // fetch all planks in last 30 days
-                const { data: planks, error: plankErr } = await supabase
-                    .from<{ user_id: string; duration_s: number }>("planks")
-                    .select("user_id, duration_s")
-                    .gte("plank_date", cutoffIso);
-
-                if (plankErr) throw plankErr;
-
-                // aggregate total durations per user
-                const totals: Record<string, number> = {};
-                (planks || []).forEach((p) => {
-                    totals[p.user_id] = (totals[p.user_id] || 0) + p.duration_s;
-                });
-
-                // build sorted array
-                const sorted = Object.entries(totals)
-                    .map(([user_id, total_time]) => ({ user_id, total_time }))
-                    .sort((a, b) => b.total_time - a.total_time);
-
-                // find this user’s position
-                const totalCount = sorted.length;
-                const myIndex = sorted.findIndex((e) => e.user_id === uid);
-
-                if (myIndex >= 0) {
-                    const rank = myIndex + 1;
-                    setMonthlyRank(rank);
-                    setMonthlyPercentile((rank / totalCount) * 100);
-                } else {
-                    setMonthlyRank(null);
-                    setMonthlyPercentile(null);
-                }
-            } catch (err) {
-                console.error(err);
-                toast.error("Could not load 30-day ranking.");
-            } finally {
-                setLoadingRank(false);
-            }
-        }
-
-        fetchRank();
-    }, [userId]);
-
-    if (loadingStats || loadingRank) {
+    const supabase = useSupabase();
+    const [variantId, setVariantId] = useState<number | null>(null);
+    const { range, setRange } = useLeaderboardWindow();
+    const { since, until } = windowRange(range);
+    const { variants } = usePlankVariants();
+
+    // scoped ranks are seen from the viewer, so only shown on their own stats
+    const { user } = useAuth();
+    const uid = userId || user?.id;
+    const isOwn = !userId || userId === user?.id;
+    const { teams } = useMyTeams(isOwn ? user?.id : undefined);
+
+    // 1) the base stats (streak, best-ever, total planks) and the personal
+    //    record for every variant this user has planked
+    const { data: stats, isPending: loadingStats } = useUserStats(uid);
+    const { data: records = [] } = useVariantRecords(uid);
+
+    // 2) this user’s rank & percentile in the selected leaderboard window,
+    //    by total time, computed server-side
+    const filters: LeaderboardFilters = {
+        p_metric: "total",
+        p_since: since,
+        p_until: until,
+        p_variant_id: variantId,
+    };
+    const { data: mine, isPending: loadingRank } = useQuery({
+        ...myRankQuery(supabase, filters, uid),
+        meta: { errorMessage: "Could not load ranking." },
+    });
+    const monthlyRank = mine ? mine.rank : null;
+    const monthlyPercentile = mine ? (mine.rank / mine.entrants) * 100 : null;
+
+    // 3) the same rank among the people this user follows and in each team
+    const scopes: { scope: LeaderboardScope; label: string }[] =
+        isOwn && user?.id
+            ? [
+                  { scope: "following", label: "People I follow" },
+                  ...teams.map((t) => ({ scope: `team:${t.id}` as LeaderboardScope, label: t.name })),
+              ]
+            : [];
+    const scopeResults = useQueries({
+        queries: scopes.map(({ scope }) => myRankQuery(supabase, { ...filters, ...scopeArgs(scope) }, user?.id)),
+    });
+    const scopeRanks: ScopeRank[] = scopes.map((s, i) => {
+        const mine = scopeResults[i]?.data;
+        return { ...s, rank: mine?.rank ?? null, entrants: mine?.entrants ?? null };
+    });
+
+    if (uid && (loadingStats || loadingRank)) {
         return <div className="text-center py-8">Loading statistics…</div>;
     }
 
-    const {
-        current_streak = 0,
-        best_time_seconds = 0,
-        best_time_date,
-        total_planks = 0,
-    } = stats || {};
+    const { current_streak = 0, total_planks = 0 } = stats || {};
+
+    // with a variant selected, the best time comes from that variant's record
+    const variantRecord =
+        variantId != null ? records.find((r) => r.variant_id === variantId) : null;
+    const best_time_seconds =
+        variantId != null ? variantRecord?.best_duration_s ?? 0 : stats?.best_time_seconds ?? 0;
+    const best_time_date =
+        variantId != null ? variantRecord?.plank_date ?? null : stats?.best_time_date ?? null;
+    const variantName = (id: number) =>
+        variants.find((v) => v.id === id)?.name ?? "Custom";
 
     const formatTime = (sec: number) => {
         const m = Math.floor(sec / 60);
@@ -155,72 +110,132 @@ const UserStats: React.FC<UserStatsProps> = ({ userId }) => {
             : "–";
 
     return (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 animate-fade-in">
-            {/* Current Streak */}
-            <Card className="plank-card">
-                <CardHeader className="pb-2">
-                    <CardTitle className="text-sm font-medium text-muted-foreground flex items-center">
-                        <CalendarCheck className="h-4 w-4 text-plank-blue mr-2" />
-                        Current Streak
-                    </CardTitle>
-                </CardHeader>
-                <CardContent>
-                    <div className="text-2xl font-bold">{current_streak} days</div>
-                    <p className="text-xs text-muted-foreground mt-1">
-                        {current_streak > 5 ? "Impressive streak!" : "Keep it up!"}
-                    </p>
-                </CardContent>
-            </Card>
-
-            {/* Best Time */}
-            <Card className="plank-card">
-                <CardHeader className="pb-2">
-                    <CardTitle className="text-sm font-medium text-muted-foreground flex items-center">
-                        <Clock className="h-4 w-4 text-plank-green mr-2" />
-                        Best Time
-                    </CardTitle>
-                </CardHeader>
-                <CardContent>
-                    <div className="text-2xl font-bold">
-                        {formatTime(best_time_seconds)}
-                    </div>
-                    <p className="text-xs text-muted-foreground mt-1">
-                        Achieved on {formattedBestDate}
-                    </p>
-                </CardContent>
-            </Card>
-
-            {/* Total Planks */}
-            <Card className="plank-card">
-                <CardHeader className="pb-2">
-                    <CardTitle className="text-sm font-medium text-muted-foreground flex items-center">
-                        <Calendar className="h-4 w-4 text-plank-blue mr-2" />
-                        Total Planks
-                    </CardTitle>
-                </CardHeader>
-                <CardContent>
-                    <div className="text-2xl font-bold">{total_planks}</div>
-                    <p className="text-xs text-muted-foreground mt-1">
-                        Since you started
-                    </p>
-                </CardContent>
-            </Card>
-
-            {/* 30-Day Ranking */}
-            <Card className="plank-card">
-                <CardHeader className="pb-2">
-                    <CardTitle className="text-sm font-medium text-muted-foreground flex items-center">
-                        <TrendingUp className="h-4 w-4 text-plank-green mr-2" />
-                        30-Day Ranking
-                    </CardTitle>
-                </CardHeader>
-                <CardContent>
-                    <div className="text-2xl font-bold">
-                        {monthlyRank != null ? `#${monthlyRank}` : "–"}
-                    </div>
-                    <p className="text-xs text-muted-foreground mt-1">{pctText}</p>
-                </CardContent>
-            </Card>
+        <div className="space-y-4 animate-fade-in">
+            <div className="flex flex-wrap justify-end gap-4">
+                <VariantFilter variants={variants} value={variantId} onChange={setVariantId} />
+                <WindowSelect value={range} onChange={setRange} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                {/* Current Streak */}
+                <Card className="plank-card">
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium text-muted-foreground flex items-center">
+                            <CalendarCheck className="h-4 w-4 text-plank-blue mr-2" />
+                            Current Streak
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="text-2xl font-bold">{current_streak} days</div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                            {current_streak > 5 ? "Impressive streak!" : "Keep it up!"}
+                        </p>
+                    </CardContent>
+                </Card>
+
+                {/* Best Time */}
+                <Card className="plank-card">
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium text-muted-foreground flex items-center">
+                            <Clock className="h-4 w-4 text-plank-green mr-2" />
+                            Best Time
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="text-2xl font-bold">
+                            {formatTime(best_time_seconds)}
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                            Achieved on {formattedBestDate}
+                        </p>
+                    </CardContent>
+                </Card>
+
+                {/* Total Planks */}
+                <Card className="plank-card">
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium text-muted-foreground flex items-center">
+                            <Calendar className="h-4 w-4 text-plank-blue mr-2" />
+                            Total Planks
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="text-2xl font-bold">{total_planks}</div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                            Since you started
+                        </p>
+                    </CardContent>
+                </Card>
+
+                {/* Ranking in the selected window */}
+                <Card className="plank-card">
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium text-muted-foreground flex items-center">
+                            <TrendingUp className="h-4 w-4 text-plank-green mr-2" />
+                            Ranking · {windowLabel(range)}
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="text-2xl font-bold">
+                            {monthlyRank != null ? `#${monthlyRank}` : "–"}
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">{pctText}</p>
+                    </CardContent>
+                </Card>
+            </div>
+
+            {/* Rank within each scope */}
+            {scopeRanks.length > 0 && (
+                <Card className="plank-card">
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium text-muted-foreground flex items-center">
+                            <Users className="h-4 w-4 text-plank-green mr-2" />
+                            Ranking by Group · {windowLabel(range)}
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <ul className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            {scopeRanks.map((r) => (
+                                <li key={r.scope} className="rounded border p-2">
+                                    <p className="text-xs text-muted-foreground">{r.label}</p>
+                                    <p className="text-lg font-bold">
+                                        {r.rank != null ? `#${r.rank}` : "–"}
+                                        {r.entrants != null && (
+                                            <span className="ml-1 text-xs font-normal text-muted-foreground">
+                                                of {r.entrants}
+                                            </span>
+                                        )}
+                                    </p>
+                                </li>
+                            ))}
+                        </ul>
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* Personal records per variant */}
+            {records.length > 0 && (
+                <Card className="plank-card">
+                    <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium text-muted-foreground flex items-center">
+                            <Medal className="h-4 w-4 text-plank-blue mr-2" />
+                            Personal Records
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <ul className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            {records.map((r) => (
+                                <li key={r.variant_id} className="rounded border p-2">
+                                    <p className="text-xs text-muted-foreground">
+                                        {variantName(r.variant_id)}
+                                        {r.weight_kg ? ` · +${r.weight_kg} kg` : ""}
+                                    </p>
+                                    <p className="text-lg font-bold">{formatTime(r.best_duration_s)}</p>
+                                </li>
+                            ))}
+                        </ul>
+                    </CardContent>
+                </Card>
+            )}
         </div>
     );
 };
@@ -0,0 +1,41 @@
+// src/components/VariantFilter.tsx
+
+import React from "react";
+import {
+    Select,
+    SelectTrigger,
+    SelectValue,
+    SelectContent,
+    SelectItem,
+} from "@/components/ui/select";
+import { PlankVariant } from "@/lib/plankVariants";
+
+interface VariantFilterProps {
+    variants: PlankVariant[];
+    value: number | null;   // null = all variants
+    onChange: (variantId: number | null) => void;
+    className?: string;
+}
+
+const ALL = "all";
+
+const VariantFilter: React.FC<VariantFilterProps> = ({ variants, value, onChange, className }) => (
+    <Select
+        value={value == null ? ALL : String(value)}
+        onValueChange={(v) => onChange(v === ALL ? null : Number(v))}
+    >
+        <SelectTrigger className={className ?? "w-40 h-8 text-sm"} aria-label="Plank variant">
+            <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+            <SelectItem value={ALL}>All variants</SelectItem>
+            {variants.map((v) => (
+                <SelectItem key={v.id} value={String(v.id)}>
+                    {v.name}
+                </SelectItem>
+            ))}
+        </SelectContent>
+    </Select>
+);
+
+export default VariantFilter;
@@ -0,0 +1,171 @@
+// src/components/VariantPicker.tsx
+
+import React, { useState } from "react";
+import {
+    Select,
+    SelectTrigger,
+    SelectValue,
+    SelectContent,
+    SelectItem,
+    SelectSeparator,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/components/ui/sonner";
+import { PlankVariant, PlankVariantChoice } from "@/lib/plankVariants";
+
+interface VariantPickerProps {
+    value: PlankVariantChoice;
+    onChange: (value: PlankVariantChoice) => void;
+    variants: PlankVariant[];
+    onCreateVariant: (name: string, isSided: boolean) => Promise<PlankVariant | null>;
+    disabled?: boolean;
+}
+
+const CUSTOM = "__custom";
+
+const VariantPicker: React.FC<VariantPickerProps> = ({
+    value,
+    onChange,
+    variants,
+    onCreateVariant,
+    disabled,
+}) => {
+    const [adding, setAdding] = useState(false);
+    const [customName, setCustomName] = useState("");
+    const [customSided, setCustomSided] = useState(false);
+
+    const selected = variants.find((v) => v.id === value.variantId);
+    const builtIn = variants.filter((v) => v.user_id == null);
+    const custom = variants.filter((v) => v.user_id != null);
+
+    const handleSelect = (id: string) => {
+        if (id === CUSTOM) {
+            setAdding(true);
+            return;
+        }
+        const variant = variants.find((v) => v.id === Number(id));
+        onChange({
+            ...value,
+            variantId: Number(id),
+            side: variant?.is_sided ? value.side ?? "left" : null,
+        });
+    };
+
+    const handleAdd = async () => {
+        if (!customName.trim()) return;
+        const created = await onCreateVariant(customName, customSided);
+        if (!created) {
+            toast.error("Could not create variant.");
+            return;
+        }
+        onChange({ ...value, variantId: created.id, side: created.is_sided ? "left" : null });
+        setAdding(false);
+        setCustomName("");
+        setCustomSided(false);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label className="block text-sm font-medium mb-1">Variant</label>
+                <Select
+                    value={String(value.variantId)}
+                    onValueChange={handleSelect}
+                    disabled={disabled}
+                >
+                    <SelectTrigger>
+                        <SelectValue placeholder="Forearm" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {builtIn.map((v) => (
+                            <SelectItem key={v.id} value={String(v.id)}>
+                                {v.name}
+                            </SelectItem>
+                        ))}
+                        {custom.length > 0 && <SelectSeparator />}
+                        {custom.map((v) => (
+                            <SelectItem key={v.id} value={String(v.id)}>
+                                {v.name}
+                            </SelectItem>
+                        ))}
+                        <SelectSeparator />
+                        <SelectItem value={CUSTOM}>+ Custom variant…</SelectItem>
+                    </SelectContent>
+                </Select>
+            </div>
+
+            {adding && (
+                <div className="space-y-2 rounded border p-2">
+                    <Input
+                        placeholder="Variant name, e.g. Plank jacks"
+                        value={customName}
+                        maxLength={40}
+                        onChange={(e) => setCustomName(e.target.value)}
+                    />
+                    <label className="flex items-center text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            className="h-4 w-4 mr-2"
+                            checked={customSided}
+                            onChange={(e) => setCustomSided(e.target.checked)}
+                        />
+                        Done on one side at a time
+                    </label>
+                    <div className="flex justify-end gap-2">
+                        <Button type="button" variant="ghost" size="sm" onClick={() => setAdding(false)}>
+                            Cancel
+                        </Button>
+                        <Button type="button" size="sm" onClick={handleAdd}>
+                            Add
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex gap-3">
+                {selected?.is_sided && (
+                    <div className="flex-1">
+                        <label className="block text-sm font-medium mb-1">Side</label>
+                        <div className="flex rounded border overflow-hidden">
+                            {(["left", "right"] as const).map((side) => (
+                                <button
+                                    key={side}
+                                    type="button"
+                                    disabled={disabled}
+                                    onClick={() => onChange({ ...value, side })}
+                                    className={`flex-1 py-1 text-sm capitalize ${value.side === side
+                                            ? "bg-plank-blue text-white"
+                                            : "text-gray-600"
+                                        }`}
+                                >
+                                    {side}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                <div className="flex-1">
+                    <label className="block text-sm font-medium mb-1">Added weight (kg)</label>
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        placeholder="none"
+                        disabled={disabled}
+                        value={value.weightKg ?? ""}
+                        onChange={(e) =>
+                            onChange({
+                                ...value,
+                                weightKg: e.target.value === "" ? null : Number(e.target.value),
+                            })
+                        }
+                        className="w-full border rounded px-2 py-1"
+                    />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default VariantPicker;
@@ -0,0 +1,40 @@
+// src/components/VerificationBadge.tsx
+
+import React from "react";
+import { ShieldCheck, ShieldQuestion, ShieldX } from "lucide-react";
+import { VerificationStatus, VERIFICATION_LABELS } from "@/lib/plankVerification";
+
+interface VerificationBadgeProps {
+    status: VerificationStatus | null | undefined;
+    // icon only, with the label as tooltip (for tight rows like the leaderboard)
+    compact?: boolean;
+}
+
+const STYLES: Record<Exclude<VerificationStatus, "unverified">, { icon: typeof ShieldCheck; className: string }> = {
+    verified: { icon: ShieldCheck, className: "text-plank-green bg-green-50" },
+    pending: { icon: ShieldQuestion, className: "text-amber-600 bg-amber-50" },
+    rejected: { icon: ShieldX, className: "text-red-500 bg-red-50" },
+};
+
+// nothing is shown for unverified planks, which are the norm
+const VerificationBadge: React.FC<VerificationBadgeProps> = ({ status, compact }) => {
+    if (!status || status === "unverified") return null;
+    const { icon: Icon, className } = STYLES[status];
+    const label = VERIFICATION_LABELS[status];
+
+    if (compact) {
+        return (
+            <span title={label} aria-label={label} className={`inline-flex rounded-full p-0.5 ${className}`}>
+                <Icon className="h-4 w-4" />
+            </span>
+        );
+    }
+    return (
+        <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${className}`}>
+            <Icon className="mr-1 h-3 w-3" />
+            {label}
+        </span>
+    );
+};
+
+export default VerificationBadge;
@@ -0,0 +1,82 @@
+// src/components/WindowSelect.tsx
+
+import React from "react";
+import {
+    Select,
+    SelectTrigger,
+    SelectValue,
+    SelectContent,
+    SelectItem,
+    SelectSeparator,
+} from "@/components/ui/select";
+import {
+    LeaderboardWindow,
+    WINDOW_PRESETS,
+    toDateString,
+    windowLabel,
+} from "@/lib/leaderboard";
+
+interface WindowSelectProps {
+    value: LeaderboardWindow;
+    onChange: (range: LeaderboardWindow) => void;
+}
+
+const PICK_MONTH = "pick-month";
+const MONTH_RE = /^\d{4}-\d{2}$/;
+
+const WindowSelect: React.FC<WindowSelectProps> = ({ value, onChange }) => {
+    const now = new Date();
+    const thisMonth = toDateString(now).slice(0, 7);
+    const pastYears = [1, 2, 3].map((n) => String(now.getFullYear() - n));
+    const isMonth = MONTH_RE.test(value);
+    const isPreset = WINDOW_PRESETS.some((p) => p.value === value);
+
+    const handleSelect = (v: string) => {
+        // start the month picker on last month, the most common look-back
+        if (v === PICK_MONTH) {
+            const last = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+            onChange(toDateString(last).slice(0, 7));
+        } else {
+            onChange(v);
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            <Select value={isMonth ? PICK_MONTH : value} onValueChange={handleSelect}>
+                <SelectTrigger className="w-40 h-8 text-sm" aria-label="Leaderboard period">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {WINDOW_PRESETS.map((p) => (
+                        <SelectItem key={p.value} value={p.value}>
+                            {p.label}
+                        </SelectItem>
+                    ))}
+                    <SelectSeparator />
+                    <SelectItem value={PICK_MONTH}>{isMonth ? windowLabel(value) : "Pick a month…"}</SelectItem>
+                    {pastYears.map((y) => (
+                        <SelectItem key={y} value={y}>
+                            {y}
+                        </SelectItem>
+                    ))}
+                    {!isPreset && !isMonth && !pastYears.includes(value) && (
+                        <SelectItem value={value}>{windowLabel(value)}</SelectItem>
+                    )}
+                </SelectContent>
+            </Select>
+            {isMonth && (
+                <input
+                    type="month"
+                    value={value}
+                    max={thisMonth}
+                    onChange={(e) => e.target.value && onChange(e.target.value)}
+                    className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                    aria-label="Month"
+                />
+            )}
+        </div>
+    );
+};
+
+export default WindowSelect;
@@ -0,0 +1,137 @@
+// src/components/WorkoutPlanEditor.tsx
+
+import React from "react";
+import {
+    Select,
+    SelectTrigger,
+    SelectValue,
+    SelectContent,
+    SelectItem,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Plus, X } from "lucide-react";
+import { PlankVariant } from "@/lib/plankVariants";
+import { WorkoutSet, MAX_WORKOUT_SETS } from "@/lib/workout";
+
+interface WorkoutPlanEditorProps {
+    plan: WorkoutSet[];
+    onChange: (plan: WorkoutSet[]) => void;
+    variants: PlankVariant[];
+}
+
+const WorkoutPlanEditor: React.FC<WorkoutPlanEditorProps> = ({ plan, onChange, variants }) => {
+    const updateSet = (index: number, patch: Partial<WorkoutSet>) =>
+        onChange(plan.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+
+    const handleVariant = (index: number, id: string) => {
+        const variant = variants.find((v) => v.id === Number(id));
+        const current = plan[index].variant;
+        updateSet(index, {
+            variant: {
+                ...current,
+                variantId: Number(id),
+                side: variant?.is_sided ? current.side ?? "left" : null,
+            },
+        });
+    };
+
+    // a new set repeats the last one, switching sides for sided variants
+    const handleAdd = () => {
+        const last = plan[plan.length - 1];
+        const side = last.variant.side === "left" ? "right" : last.variant.side === "right" ? "left" : null;
+        onChange([...plan, { ...last, variant: { ...last.variant, side } }]);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="grid grid-cols-[2rem_1fr_4rem_4rem_1.5rem] gap-2 text-xs text-gray-500">
+                <span>Set</span>
+                <span>Variant</span>
+                <span>Hold (s)</span>
+                <span>Rest (s)</span>
+                <span />
+            </div>
+            {plan.map((set, i) => {
+                const variant = variants.find((v) => v.id === set.variant.variantId);
+                const isLast = i === plan.length - 1;
+                return (
+                    <div key={i} className="grid grid-cols-[2rem_1fr_4rem_4rem_1.5rem] gap-2 items-center">
+                        <span className="text-sm font-medium">{i + 1}</span>
+                        <div className="flex gap-1">
+                            <Select
+                                value={String(set.variant.variantId)}
+                                onValueChange={(id) => handleVariant(i, id)}
+                            >
+                                <SelectTrigger className="h-8 text-sm">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {variants.map((v) => (
+                                        <SelectItem key={v.id} value={String(v.id)}>
+                                            {v.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {variant?.is_sided && (
+                                <button
+                                    type="button"
+                                    className="px-2 text-xs border rounded uppercase"
+                                    onClick={() =>
+                                        updateSet(i, {
+                                            variant: {
+                                                ...set.variant,
+                                                side: set.variant.side === "left" ? "right" : "left",
+                                            },
+                                        })
+                                    }
+                                    aria-label="Switch side"
+                                >
+                                    {set.variant.side === "right" ? "R" : "L"}
+                                </button>
+                            )}
+                        </div>
+                        <input
+                            type="number"
+                            min={1}
+                            className="w-full p-1 border rounded text-center text-sm"
+                            value={set.holdSeconds}
+                            onChange={(e) => updateSet(i, { holdSeconds: Number(e.target.value) })}
+                            aria-label={`Hold seconds for set ${i + 1}`}
+                        />
+                        <input
+                            type="number"
+                            min={0}
+                            disabled={isLast}
+                            className="w-full p-1 border rounded text-center text-sm disabled:opacity-40"
+                            value={isLast ? "" : set.restSeconds}
+                            onChange={(e) => updateSet(i, { restSeconds: Number(e.target.value) })}
+                            aria-label={`Rest seconds after set ${i + 1}`}
+                        />
+                        <button
+                            type="button"
+                            disabled={plan.length <= 1}
+                            onClick={() => onChange(plan.filter((_, j) => j !== i))}
+                            className="p-0.5 rounded hover:bg-red-100 disabled:opacity-30"
+                            aria-label={`Remove set ${i + 1}`}
+                        >
+                            <X className="h-4 w-4 text-red-500" />
+                        </button>
+                    </div>
+                );
+            })}
+            <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="w-full"
+                disabled={plan.length >= MAX_WORKOUT_SETS}
+                onClick={handleAdd}
+            >
+                <Plus className="mr-1 h-4 w-4" /> Add set
+            </Button>
+        </div>
+    );
+};
+
+export default WorkoutPlanEditor;
@@ -0,0 +1,30 @@
+// src/data/activity.ts
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useSupabase } from "@/integrations/supabase/context";
+import { Database } from "@/integrations/supabase/types";
+import { queryKeys } from "./keys";
+
+export type FeedItem = Database["public"]["Functions"]["activity_feed"]["Returns"][number];
+
+export type FeedKind = "plank" | "personal_best" | "badge" | "challenge_joined" | "challenge_completed";
+
+// What the people the user follows have been up to, newest first. Each page
+// is a single activity_feed() call keyed on the last item already shown.
+export function useActivityFeed(userId: string | undefined, pageSize = 20) {
+    const supabase = useSupabase();
+    return useInfiniteQuery({
+        queryKey: queryKeys.activityFeed(userId ?? "", pageSize),
+        queryFn: async ({ pageParam }) => {
+            const { data, error } = await supabase.rpc("activity_feed", {
+                p_before: pageParam?.occurred_at ?? null,
+                p_before_id: pageParam?.item_id ?? null,
+                p_limit: pageSize,
+            });
+            if (error) throw error;
+            return data || [];
+        },
+        initialPageParam: null as FeedItem | null,
+        getNextPageParam: (last) => (last.length === pageSize ? last[last.length - 1] : undefined),
+        enabled: !!userId,
+    });
+}
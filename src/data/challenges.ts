@@ -0,0 +1,114 @@
+// src/data/challenges.ts
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSupabase } from "@/integrations/supabase/context";
+import { queryKeys } from "./keys";
+
+const CHALLENGE_COLUMNS = "id, title, description, image, start_date, start_time, end_date, participants, is_active, type, meeting_url";
+
+// Challenges open to everyone; group challenges live on their group's page.
+export function useChallenges() {
+    const supabase = useSupabase();
+    return useQuery({
+        queryKey: queryKeys.publicChallenges,
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from("challenges")
+                .select(CHALLENGE_COLUMNS)
+                .is("team_id", null)
+                .order("start_date", { ascending: true });
+            if (error) throw error;
+            return data;
+        },
+        meta: { errorMessage: "Could not load challenges." },
+    });
+}
+
+// A group's active challenges that haven't ended; members only.
+export function useGroupChallenges(teamId: number) {
+    const supabase = useSupabase();
+    return useQuery({
+        queryKey: queryKeys.groupChallenges(teamId),
+        queryFn: async () => {
+            const today = new Date().toISOString().slice(0, 10);
+            const { data, error } = await supabase
+                .from("challenges")
+                .select(CHALLENGE_COLUMNS)
+                .eq("team_id", teamId)
+                .eq("is_active", true)
+                .gte("end_date", today)
+                .order("start_date", { ascending: true });
+            if (error) throw error;
+            return data;
+        },
+        meta: { errorMessage: "Could not load group challenges." },
+    });
+}
+
+// The next public challenge that hasn't finished: starting after today, or
+// today within the last ten minutes. Null when there is none.
+export function useFeaturedChallenge() {
+    const supabase = useSupabase();
+    return useQuery({
+        queryKey: queryKeys.featuredChallenge,
+        queryFn: async () => {
+            const now = new Date();
+            const today = now.toISOString().slice(0, 10);
+            const threshTime = new Date(now.getTime() - 10 * 60_000).toTimeString().slice(0, 8);
+
+            const { data, error } = await supabase
+                .from("challenges")
+                .select(CHALLENGE_COLUMNS)
+                .eq("is_active", true)
+                .is("team_id", null)
+                .or(`and(start_date.gt.${today}),and(start_date.eq.${today},start_time.gt.${threshTime})`)
+                .order("start_date", { ascending: true })
+                .order("start_time", { ascending: true })
+                .limit(1)
+                .maybeSingle();
+            if (error) throw error;
+            return data;
+        },
+    });
+}
+
+// The challenges a user has joined, public or in their groups.
+export function useJoinedChallenges(userId: string | undefined) {
+    const supabase = useSupabase();
+    return useQuery({
+        queryKey: queryKeys.joinedChallenges(userId ?? ""),
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from("challenge_participants")
+                .select("challenge_id, challenges(id, title, description, start_date, end_date)")
+                .eq("user_id", userId!);
+            if (error) throw error;
+            return data.map((row) => row.challenges).filter((c) => c !== null);
+        },
+        enabled: !!userId,
+    });
+}
+
+// Joining and leaving go through the database, which keeps the participant
+// count and refuses challenges that have ended. Both resolve to the new
+// count; every challenge list, and who is in what, is refetched.
+function useChallengeMembership(fn: "join_challenge" | "leave_challenge") {
+    const supabase = useSupabase();
+    const client = useQueryClient();
+    return useMutation({
+        mutationFn: async (challengeId: number) => {
+            const { data, error } = await supabase.rpc(fn, { p_challenge_id: challengeId });
+            if (error) throw error;
+            return data;
+        },
+        onSuccess: () => client.invalidateQueries({ queryKey: queryKeys.challenges }),
+    });
+}
+
+// Joining twice is a no-op.
+export function useJoinChallenge() {
+    return useChallengeMembership("join_challenge");
+}
+
+export function useLeaveChallenge() {
+    return useChallengeMembership("leave_challenge");
+}
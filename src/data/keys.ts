@@ -0,0 +1,31 @@
+// src/data/keys.ts
+import type { LeaderboardFilters } from "@/lib/leaderboard";
+
+// Cache keys for every query in src/data. Each key starts with the kind of
+// data, then whose it is, so a change can invalidate every view of it with
+// one prefix: queryKeys.planks(userId) covers the history list, the full
+// history and the progress graph at once.
+export const queryKeys = {
+    planks: (userId: string) => ["planks", userId] as const,
+    profile: (userId: string) => ["profile", userId] as const,
+    userStats: (userId: string) => ["userStats", userId] as const,
+    variantRecords: (userId: string) => ["variantRecords", userId] as const,
+
+    leaderboards: ["leaderboard"] as const,
+    leaderboard: (filters: LeaderboardFilters, pageSize: number) =>
+        ["leaderboard", "board", filters, pageSize] as const,
+    myRank: (filters: LeaderboardFilters, userId: string) =>
+        ["leaderboard", "myRank", userId, filters] as const,
+
+    challenges: ["challenges"] as const,
+    publicChallenges: ["challenges", "public"] as const,
+    featuredChallenge: ["challenges", "featured"] as const,
+    groupChallenges: (teamId: number) => ["challenges", "group", teamId] as const,
+    joinedChallenges: (userId: string) => ["challenges", "joined", userId] as const,
+
+    activityFeeds: ["activityFeed"] as const,
+    activityFeed: (userId: string, pageSize: number) => ["activityFeed", userId, pageSize] as const,
+
+    allTeamStats: ["teamStats"] as const,
+    teamStats: (teamId: number) => ["teamStats", teamId] as const,
+};
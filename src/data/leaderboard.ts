@@ -0,0 +1,53 @@
+// src/data/leaderboard.ts
+import { queryOptions, useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import type { TypedSupabaseClient } from "@/integrations/supabase/client";
+import { useSupabase } from "@/integrations/supabase/context";
+import { LeaderboardFilters } from "@/lib/leaderboard";
+import { queryKeys } from "./keys";
+
+// A board, one page at a time, ranked in the database. Refetching it (a
+// realtime change, an invalidation) re-ranks every page that is loaded.
+export function useLeaderboard(filters: LeaderboardFilters, pageSize: number) {
+    const supabase = useSupabase();
+    return useInfiniteQuery({
+        queryKey: queryKeys.leaderboard(filters, pageSize),
+        queryFn: async ({ pageParam }) => {
+            const { data, error } = await supabase.rpc("leaderboard", {
+                ...filters,
+                p_limit: pageSize,
+                p_offset: pageParam,
+            });
+            if (error) throw error;
+            return data || [];
+        },
+        initialPageParam: 0,
+        getNextPageParam: (last, pages) => {
+            const loaded = pages.reduce((n, p) => n + p.length, 0);
+            const entrants = pages[0]?.[0]?.entrants ?? 0;
+            return last.length > 0 && loaded < entrants ? loaded : undefined;
+        },
+        meta: { errorMessage: "Could not load leaderboard." },
+    });
+}
+
+// Where one user stands on a board, even if off the loaded pages; null when
+// they have no planks in it.
+export function myRankQuery(supabase: TypedSupabaseClient, filters: LeaderboardFilters, userId: string | undefined) {
+    return queryOptions({
+        queryKey: queryKeys.myRank(filters, userId ?? ""),
+        queryFn: async () => {
+            const { data, error } = await supabase.rpc("leaderboard_my_rank", {
+                ...filters,
+                p_user_id: userId!,
+            });
+            if (error) throw error;
+            return data?.[0] ?? null;
+        },
+        enabled: !!userId,
+    });
+}
+
+export function useMyRank(filters: LeaderboardFilters, userId: string | undefined) {
+    const supabase = useSupabase();
+    return useQuery(myRankQuery(supabase, filters, userId));
+}
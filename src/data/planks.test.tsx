@@ -0,0 +1,58 @@
+// src/data/planks.test.tsx
+import type { ReactNode } from "react";
+import { describe, expect, it } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import SupabaseProvider from "@/integrations/supabase/SupabaseProvider";
+import { createFakeSupabase } from "@/test/fakeSupabase";
+import { invalidatePlankViews, usePlanks } from "./planks";
+import { queryKeys } from "./keys";
+
+const ME = "a11ce000-0000-4000-8000-000000000001";
+const BOB = "b0b00000-0000-4000-8000-000000000002";
+
+describe("invalidatePlankViews", () => {
+    it("refreshes every view built on a user's planks, including feeds and group stats", async () => {
+        const client = new QueryClient();
+        const keys = [
+            queryKeys.planks(ME),
+            queryKeys.userStats(ME),
+            queryKeys.leaderboard({ p_metric: "best" }, 20),
+            queryKeys.activityFeed(BOB, 20),
+            queryKeys.teamStats(7),
+            queryKeys.planks(BOB),
+        ];
+        for (const key of keys) client.setQueryData(key, []);
+
+        await invalidatePlankViews(client, ME);
+
+        const stale = keys.filter((key) => client.getQueryState(key)?.isInvalidated);
+        expect(stale).toEqual(keys.slice(0, 5));
+    });
+});
+
+describe("usePlanks", () => {
+    it("reads the whole history past the server's row limit, newest first", async () => {
+        const planks = Array.from({ length: 2001 }, (_, i) => ({
+            id: i + 1,
+            user_id: ME,
+            plank_date: "2025-05-01",
+            duration_s: 60,
+            inserted_at: new Date(Date.UTC(2025, 4, 1) + i * 60_000).toISOString(),
+        }));
+        const fake = createFakeSupabase({ user: { id: ME }, rows: { planks }, maxRows: 1000 });
+        const client = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+        const wrapper = ({ children }: { children: ReactNode }) => (
+            <SupabaseProvider client={fake.client}>
+                <QueryClientProvider client={client}>{children}</QueryClientProvider>
+            </SupabaseProvider>
+        );
+
+        const { result } = renderHook(() => usePlanks(ME), { wrapper });
+
+        await waitFor(() => expect(result.current.isSuccess).toBe(true));
+        expect(result.current.data).toHaveLength(2001);
+        expect(result.current.data?.[0].id).toBe(2001);
+        expect(result.current.data?.[2000].id).toBe(1);
+    });
+});
@@ -0,0 +1,96 @@
+// src/data/planks.ts
+import { QueryClient, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { TypedSupabaseClient } from "@/integrations/supabase/client";
+import { useSupabase } from "@/integrations/supabase/context";
+import { NewOutboxPlank, NewOutboxWorkout, savePlank, saveWorkout } from "@/lib/plankOutbox";
+import { queryKeys } from "./keys";
+
+// PostgREST returns at most this many rows per request (max_rows)
+const PAGE_SIZE = 1000;
+
+const fetchPlankPage = (supabase: TypedSupabaseClient, userId: string, from: number) =>
+    supabase
+        .from("planks")
+        .select("id, plank_date, duration_s, inserted_at, side, weight_kg, variant_id, workout_session_id, set_index, verification_status, plank_variants(name), plank_kudos(count), plank_comments(count)")
+        .eq("user_id", userId)
+        .order("inserted_at", { ascending: false })
+        .order("id", { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+export type PlankRow = NonNullable<Awaited<ReturnType<typeof fetchPlankPage>>["data"]>[number];
+
+// reads page after page until one comes back short
+async function fetchPlanks(supabase: TypedSupabaseClient, userId: string): Promise<PlankRow[]> {
+    const planks: PlankRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await fetchPlankPage(supabase, userId, from);
+        if (error) throw error;
+        planks.push(...data);
+        if (data.length < PAGE_SIZE) return planks;
+    }
+}
+
+// Every plank of one user, newest first. The latest planks, the full history
+// and the progress graph all read this one query.
+export function usePlanks(userId: string | undefined) {
+    const supabase = useSupabase();
+    return useQuery({
+        queryKey: queryKeys.planks(userId ?? ""),
+        queryFn: () => fetchPlanks(supabase, userId!),
+        enabled: !!userId,
+        meta: { errorMessage: "Could not load plank history." },
+    });
+}
+
+// Everything computed from planks: the lists, stats, records, every
+// leaderboard, activity feeds and group stats. Without a user, all users'
+// plank data is refreshed; feeds and groups are shared, so always are.
+export function invalidatePlankViews(client: QueryClient, userId?: string) {
+    return Promise.all([
+        client.invalidateQueries({ queryKey: userId ? queryKeys.planks(userId) : ["planks"] }),
+        client.invalidateQueries({ queryKey: userId ? queryKeys.userStats(userId) : ["userStats"] }),
+        client.invalidateQueries({ queryKey: userId ? queryKeys.variantRecords(userId) : ["variantRecords"] }),
+        client.invalidateQueries({ queryKey: queryKeys.leaderboards }),
+        client.invalidateQueries({ queryKey: queryKeys.activityFeeds }),
+        client.invalidateQueries({ queryKey: queryKeys.allTeamStats }),
+    ]);
+}
+
+// Saves through the outbox; resolves "queued" when the server couldn't be
+// reached, in which case the outbox sync refreshes the views later.
+export function useSavePlank() {
+    const supabase = useSupabase();
+    const client = useQueryClient();
+    return useMutation({
+        mutationFn: (input: NewOutboxPlank) => savePlank(supabase, input),
+        onSuccess: (result, input) => {
+            if (result === "synced") invalidatePlankViews(client, input.user_id);
+        },
+    });
+}
+
+export function useSaveWorkout() {
+    const supabase = useSupabase();
+    const client = useQueryClient();
+    return useMutation({
+        mutationFn: (input: NewOutboxWorkout) => saveWorkout(supabase, input),
+        onSuccess: (result, input) => {
+            if (result === "synced") invalidatePlankViews(client, input.user_id);
+        },
+    });
+}
+
+// Deletes one plank, or a whole workout session with all of its holds.
+export function useDeletePlank(userId: string) {
+    const supabase = useSupabase();
+    const client = useQueryClient();
+    return useMutation({
+        mutationFn: async ({ id, sessionId }: { id: number; sessionId?: number }) => {
+            const { error } = sessionId
+                ? await supabase.from("workout_sessions").delete().eq("id", sessionId)
+                : await supabase.from("planks").delete().eq("id", id);
+            if (error) throw error;
+        },
+        onSuccess: () => invalidatePlankViews(client, userId),
+    });
+}
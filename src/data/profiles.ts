@@ -0,0 +1,43 @@
+// src/data/profiles.ts
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { TypedSupabaseClient } from "@/integrations/supabase/client";
+import { useSupabase } from "@/integrations/supabase/context";
+import { TablesUpdate } from "@/integrations/supabase/types";
+import { queryKeys } from "./keys";
+
+async function fetchProfile(supabase: TypedSupabaseClient, userId: string) {
+    const { data, error } = await supabase
+        .from("profiles")
+        .select("id, full_name, username, profile_image, bio, join_date, followers_count, following_count, approve_followers")
+        .eq("id", userId)
+        .single();
+    if (error) throw error;
+    return data;
+}
+
+export type ProfileRow = Awaited<ReturnType<typeof fetchProfile>>;
+
+export function useProfile(userId: string | undefined) {
+    const supabase = useSupabase();
+    return useQuery({
+        queryKey: queryKeys.profile(userId ?? ""),
+        queryFn: () => fetchProfile(supabase, userId!),
+        enabled: !!userId,
+        meta: { errorMessage: "Could not load that profile." },
+    });
+}
+
+// the fields a user edits on their own profile
+export type ProfileUpdate = Pick<TablesUpdate<"profiles">, "full_name" | "profile_image" | "bio" | "approve_followers">;
+
+export function useUpdateProfile(userId: string) {
+    const supabase = useSupabase();
+    const client = useQueryClient();
+    return useMutation({
+        mutationFn: async (updates: ProfileUpdate) => {
+            const { error } = await supabase.from("profiles").update(updates).eq("id", userId);
+            if (error) throw error;
+        },
+        onSuccess: () => client.invalidateQueries({ queryKey: queryKeys.profile(userId) }),
+    });
+}
@@ -0,0 +1,27 @@
+// src/data/queryClient.ts
+import { QueryCache, QueryClient } from "@tanstack/react-query";
+import { toast } from "@/components/ui/sonner";
+
+declare module "@tanstack/react-query" {
+    interface Register {
+        queryMeta: { errorMessage?: string };
+    }
+}
+
+// The one cache for the app. It lives outside React so code like the plank
+// outbox sync can invalidate queries too. A query that fails shows the
+// `errorMessage` from its meta, the way components used to after a fetch.
+export const queryClient = new QueryClient({
+    queryCache: new QueryCache({
+        onError: (error, query) => {
+            console.error(error);
+            if (query.meta?.errorMessage) toast.error(query.meta.errorMessage);
+        },
+    }),
+    defaultOptions: {
+        queries: {
+            // components mounted together (profile page, home) share one fetch
+            staleTime: 30_000,
+        },
+    },
+});
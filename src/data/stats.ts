@@ -0,0 +1,41 @@
+// src/data/stats.ts
+import { useQuery } from "@tanstack/react-query";
+import { useSupabase } from "@/integrations/supabase/context";
+import { queryKeys } from "./keys";
+
+// streak, best-ever time and plank count; null before the first plank
+export function useUserStats(userId: string | undefined) {
+    const supabase = useSupabase();
+    return useQuery({
+        queryKey: queryKeys.userStats(userId ?? ""),
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from("user_stats")
+                .select("current_streak, best_time_seconds, best_time_date, total_planks")
+                .eq("user_id", userId!)
+                .maybeSingle();
+            if (error) throw error;
+            return data;
+        },
+        enabled: !!userId,
+        meta: { errorMessage: "Could not load statistics." },
+    });
+}
+
+// the personal record for every variant the user has planked, best first
+export function useVariantRecords(userId: string | undefined) {
+    const supabase = useSupabase();
+    return useQuery({
+        queryKey: queryKeys.variantRecords(userId ?? ""),
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from("plank_variant_records")
+                .select("user_id, variant_id, plank_id, best_duration_s, weight_kg, plank_date")
+                .eq("user_id", userId!)
+                .order("best_duration_s", { ascending: false });
+            if (error) throw error;
+            return data;
+        },
+        enabled: !!userId,
+    });
+}
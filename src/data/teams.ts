@@ -0,0 +1,21 @@
+// src/data/teams.ts
+import { useQuery } from "@tanstack/react-query";
+import { useSupabase } from "@/integrations/supabase/context";
+import { Database } from "@/integrations/supabase/types";
+import { queryKeys } from "./keys";
+
+export type TeamStats = Database["public"]["Functions"]["team_stats"]["Returns"][number];
+
+// a group's totals and this week's participation; null for non-members
+export function useTeamStats(teamId: number) {
+    const supabase = useSupabase();
+    return useQuery({
+        queryKey: queryKeys.teamStats(teamId),
+        queryFn: async () => {
+            const { data, error } = await supabase.rpc("team_stats", { p_team_id: teamId });
+            if (error) throw error;
+            return data?.[0] ?? null;
+        },
+        meta: { errorMessage: "Could not load group stats." },
+    });
+}
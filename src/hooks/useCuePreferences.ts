@@ -0,0 +1,35 @@
+// src/hooks/useCuePreferences.ts
+import { useCallback, useState } from "react";
+import { CuePreferences, DEFAULT_CUE_PREFERENCES } from "@/lib/plankCues";
+
+// Cues are about this device's speaker and vibration motor, so the choice is
+// kept per device rather than on the profile.
+const STORAGE_KEY = "rank-a-plank:cue-preferences";
+
+function readPreferences(): CuePreferences {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        // merge so preferences saved before a new option existed get its default
+        return raw ? { ...DEFAULT_CUE_PREFERENCES, ...JSON.parse(raw) } : DEFAULT_CUE_PREFERENCES;
+    } catch {
+        return DEFAULT_CUE_PREFERENCES;
+    }
+}
+
+export function useCuePreferences() {
+    const [prefs, setPrefs] = useState<CuePreferences>(readPreferences);
+
+    const updatePrefs = useCallback((patch: Partial<CuePreferences>) => {
+        setPrefs((cur) => {
+            const next = { ...cur, ...patch };
+            try {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+            } catch (err) {
+                console.error("Could not save cue preferences:", err);
+            }
+            return next;
+        });
+    }, []);
+
+    return { prefs, updatePrefs };
+}
@@ -0,0 +1,35 @@
+// src/hooks/useFlipAnimation.ts
+import { useLayoutEffect, useRef } from "react";
+
+// Slides children marked with data-flip-key from their old position to the new
+// one whenever `trigger` changes (the FLIP technique), so rows visibly move
+// when a list is re-ordered. Skipped for users who prefer reduced motion.
+export function useFlipAnimation<T extends HTMLElement>(trigger: unknown, durationMs = 600) {
+    const containerRef = useRef<T>(null);
+    const positions = useRef(new Map<string, number>());
+
+    useLayoutEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const reduced = window.matchMedia?.("(prefers-reduced-motion: reduce)").matches;
+
+        const next = new Map<string, number>();
+        container.querySelectorAll<HTMLElement>("[data-flip-key]").forEach((child) => {
+            const key = child.dataset.flipKey!;
+            const top = child.offsetTop;
+            next.set(key, top);
+
+            const prevTop = positions.current.get(key);
+            if (reduced || prevTop == null || prevTop === top) return;
+            child.style.transition = "none";
+            child.style.transform = `translateY(${prevTop - top}px)`;
+            requestAnimationFrame(() => {
+                child.style.transition = `transform ${durationMs}ms ease-out`;
+                child.style.transform = "";
+            });
+        });
+        positions.current = next;
+    }, [trigger, durationMs]);
+
+    return containerRef;
+}
@@ -0,0 +1,79 @@
+// src/hooks/useFollow.ts
+import { useCallback, useEffect, useState } from "react";
+import { useSupabase } from "@/integrations/supabase/context";
+
+export type FollowStatus = "none" | "pending" | "accepted";
+
+// The viewer's follow relationship to one profile. The server decides whether
+// a new follow is accepted or waits for approval, and keeps the counts;
+// `onChange` lets the caller reload them afterwards.
+export function useFollow(targetId: string | undefined, viewerId: string | undefined, onChange?: () => void) {
+    const supabase = useSupabase();
+    const [status, setStatus] = useState<FollowStatus>("none");
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        if (!targetId || !viewerId || targetId === viewerId) {
+            setStatus("none");
+            return;
+        }
+
+        const load = async () => {
+            const { data, error } = await supabase
+                .from("follows")
+                .select("status")
+                .eq("follower_id", viewerId)
+                .eq("following_id", targetId)
+                .maybeSingle();
+
+            if (error) {
+                console.error("Could not load follow status:", error);
+                return;
+            }
+            setStatus((data?.status as FollowStatus) ?? "none");
+        };
+
+        load();
+    }, [supabase, targetId, viewerId]);
+
+    const follow = useCallback(async () => {
+        if (!targetId || !viewerId) return false;
+        setBusy(true);
+        const { data, error } = await supabase
+            .from("follows")
+            .insert({ follower_id: viewerId, following_id: targetId })
+            .select("status")
+            .single();
+        setBusy(false);
+
+        if (error) {
+            console.error("Could not follow:", error);
+            return false;
+        }
+        setStatus(data.status as FollowStatus);
+        onChange?.();
+        return true;
+    }, [supabase, targetId, viewerId, onChange]);
+
+    // also withdraws a pending request
+    const unfollow = useCallback(async () => {
+        if (!targetId || !viewerId) return false;
+        setBusy(true);
+        const { error } = await supabase
+            .from("follows")
+            .delete()
+            .eq("follower_id", viewerId)
+            .eq("following_id", targetId);
+        setBusy(false);
+
+        if (error) {
+            console.error("Could not unfollow:", error);
+            return false;
+        }
+        setStatus("none");
+        onChange?.();
+        return true;
+    }, [supabase, targetId, viewerId, onChange]);
+
+    return { status, busy, follow, unfollow };
+}
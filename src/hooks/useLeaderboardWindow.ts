@@ -0,0 +1,33 @@
+// src/hooks/useLeaderboardWindow.ts
+import { useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+    DEFAULT_WINDOW,
+    LeaderboardWindow,
+    WINDOW_PARAM,
+    parseWindow,
+} from "@/lib/leaderboard";
+
+// The selected leaderboard window lives in ?window= so a board can be shared;
+// every component on the page that reads it stays in sync.
+export function useLeaderboardWindow() {
+    const [params, setParams] = useSearchParams();
+    const range = parseWindow(params.get(WINDOW_PARAM));
+
+    const setRange = useCallback(
+        (next: LeaderboardWindow) => {
+            setParams(
+                (cur) => {
+                    const updated = new URLSearchParams(cur);
+                    if (next === DEFAULT_WINDOW) updated.delete(WINDOW_PARAM);
+                    else updated.set(WINDOW_PARAM, next);
+                    return updated;
+                },
+                { replace: true }
+            );
+        },
+        [setParams]
+    );
+
+    return { range, setRange };
+}
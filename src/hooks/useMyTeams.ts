@@ -0,0 +1,48 @@
+// src/hooks/useMyTeams.ts
+import { useEffect, useState } from "react";
+import { useSupabase } from "@/integrations/supabase/context";
+import { Tables } from "@/integrations/supabase/types";
+
+export type Team = Tables<"teams">;
+
+export interface MyTeam extends Team {
+    role: string;
+}
+
+// Teams the given user belongs to, with their role in each.
+export function useMyTeams(userId: string | undefined) {
+    const supabase = useSupabase();
+    const [teams, setTeams] = useState<MyTeam[]>([]);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        if (!userId) {
+            setTeams([]);
+            return;
+        }
+
+        const load = async () => {
+            setLoading(true);
+            const { data, error } = await supabase
+                .from("team_members")
+                .select("role, teams(id, name, description, invite_code, created_by, created_at)")
+                .eq("user_id", userId);
+
+            if (error) {
+                console.error("Could not load teams:", error);
+            } else {
+                setTeams(
+                    (data || [])
+                        .filter((r) => r.teams !== null)
+                        .map((r) => ({ ...r.teams!, role: r.role }))
+                        .sort((a, b) => a.name.localeCompare(b.name))
+                );
+            }
+            setLoading(false);
+        };
+
+        load();
+    }, [supabase, userId]);
+
+    return { teams, loading };
+}
@@ -0,0 +1,50 @@
+// src/hooks/useNotifications.ts
+import { useCallback, useEffect, useState } from "react";
+import { useSupabase } from "@/integrations/supabase/context";
+import { Tables } from "@/integrations/supabase/types";
+
+export type Notification = Tables<"notifications">;
+
+// The logged-in user's latest notifications (RLS only returns their own).
+export function useNotifications(userId: string | undefined, limit = 20) {
+    const supabase = useSupabase();
+    const [notifications, setNotifications] = useState<Notification[]>([]);
+
+    const load = useCallback(async () => {
+        if (!userId) {
+            setNotifications([]);
+            return;
+        }
+        const { data, error } = await supabase
+            .from("notifications")
+            .select("*")
+            .eq("user_id", userId)
+            .order("created_at", { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            console.error("Could not load notifications:", error);
+        } else {
+            setNotifications(data || []);
+        }
+    }, [supabase, userId, limit]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const markAllRead = useCallback(async () => {
+        if (!userId) return;
+        const { data: readAt, error } = await supabase.rpc("mark_notifications_read");
+
+        if (error) {
+            console.error("Could not mark notifications read:", error);
+            return;
+        }
+        setNotifications((cur) => cur.map((n) => (n.read_at ? n : { ...n, read_at: readAt })));
+    }, [supabase, userId]);
+
+    const unread = notifications.filter((n) => !n.read_at).length;
+
+    return { notifications, unread, reload: load, markAllRead };
+}
@@ -0,0 +1,99 @@
+// src/hooks/usePlankClock.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { usePlankClock } from "./usePlankClock";
+
+// a clock the test moves by hand, apart from the interval timers
+function createFakeClock(start = 1_700_000_000_000) {
+    let now = start;
+    return {
+        clock: () => now,
+        advance: (ms: number) => {
+            now += ms;
+        },
+    };
+}
+
+const setVisibility = (state: DocumentVisibilityState) => {
+    Object.defineProperty(document, "visibilityState", { configurable: true, value: state });
+    document.dispatchEvent(new Event("visibilitychange"));
+};
+
+describe("usePlankClock", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        setVisibility("visible");
+    });
+
+    it("runs, pauses and resumes on the injected clock", () => {
+        const fake = createFakeClock();
+        const { result } = renderHook(() => usePlankClock({ clock: fake.clock }));
+
+        act(() => result.current.start());
+        act(() => {
+            fake.advance(10_000);
+            vi.advanceTimersByTime(250);
+        });
+        expect(result.current.elapsedSeconds).toBe(10);
+
+        act(() => result.current.pause());
+        act(() => {
+            fake.advance(30_000);
+            vi.advanceTimersByTime(250);
+        });
+        expect(result.current.status).toBe("paused");
+        expect(result.current.elapsedSeconds).toBe(10);
+
+        act(() => result.current.resume());
+        act(() => {
+            fake.advance(5_000);
+            vi.advanceTimersByTime(250);
+        });
+        expect(result.current.elapsedSeconds).toBe(15);
+
+        let duration = 0;
+        act(() => {
+            duration = result.current.stop();
+        });
+        expect(duration).toBe(15);
+    });
+
+    it("catches up as soon as a backgrounded tab is visible again", () => {
+        const fake = createFakeClock();
+        const { result } = renderHook(() => usePlankClock({ clock: fake.clock }));
+
+        act(() => result.current.start());
+        setVisibility("hidden");
+
+        // the browser throttles the tab: time passes, no interval fires
+        act(() => {
+            fake.advance(90_000);
+            setVisibility("visible");
+        });
+
+        expect(result.current.elapsedSeconds).toBe(90);
+    });
+
+    it("finishes a countdown exactly at its target, however late the tick", () => {
+        const fake = createFakeClock();
+        const onFinish = vi.fn();
+        const { result } = renderHook(() =>
+            usePlankClock({ clock: fake.clock, targetSeconds: 60, onFinish })
+        );
+
+        act(() => result.current.start());
+        act(() => {
+            fake.advance(75_000);
+            vi.advanceTimersByTime(250);
+        });
+
+        expect(onFinish).toHaveBeenCalledWith(60);
+        expect(result.current.status).toBe("stopped");
+        expect(result.current.elapsedSeconds).toBe(60);
+        expect(result.current.remainingSeconds).toBe(0);
+    });
+});
@@ -0,0 +1,112 @@
+// src/hooks/usePlankClock.ts
+import { useState, useEffect, useRef, useCallback } from "react";
+import {
+    Clock,
+    PlankClockState,
+    systemClock,
+    initialPlankClock,
+    startClock,
+    pauseClock,
+    resumeClock,
+    stopClock,
+    elapsedMs as getElapsedMs,
+} from "@/lib/plankClock";
+
+interface UsePlankClockOptions {
+    // countdown target; the clock stops by itself once it is reached
+    targetSeconds?: number;
+    onFinish?: (durationSeconds: number) => void;
+    clock?: Clock;
+    // how often the displayed time refreshes; does not affect accuracy
+    tickMs?: number;
+}
+
+export function usePlankClock({
+    targetSeconds,
+    onFinish,
+    clock = systemClock,
+    tickMs = 250,
+}: UsePlankClockOptions = {}) {
+    const [state, setState] = useState<PlankClockState>(initialPlankClock);
+    const [now, setNow] = useState(() => clock());
+
+    // refs so the interval and callbacks always see the latest values
+    const stateRef = useRef(state);
+    const onFinishRef = useRef(onFinish);
+    onFinishRef.current = onFinish;
+
+    const commit = useCallback((next: PlankClockState) => {
+        stateRef.current = next;
+        setState(next);
+        setNow(clock());
+    }, [clock]);
+
+    // 1) re-render while running, and immediately when the tab becomes visible again
+    useEffect(() => {
+        if (state.status !== "running") return;
+
+        const tick = () => {
+            const t = clock();
+            const current = stateRef.current;
+            if (
+                targetSeconds &&
+                current.status === "running" &&
+                getElapsedMs(current, t) >= targetSeconds * 1000
+            ) {
+                // stop exactly at the target, however late this tick fired
+                const finishedAt = current.startedAt! + current.pausedMs + targetSeconds * 1000;
+                commit(stopClock(current, finishedAt));
+                onFinishRef.current?.(targetSeconds);
+                return;
+            }
+            setNow(t);
+        };
+
+        const id = window.setInterval(tick, tickMs);
+        const onVisible = () => {
+            if (document.visibilityState === "visible") tick();
+        };
+        document.addEventListener("visibilitychange", onVisible);
+        tick();
+
+        return () => {
+            clearInterval(id);
+            document.removeEventListener("visibilitychange", onVisible);
+        };
+    }, [state.status, targetSeconds, tickMs, clock, commit]);
+
+    const start = useCallback(() => commit(startClock(stateRef.current, clock())), [clock, commit]);
+    const pause = useCallback(() => commit(pauseClock(stateRef.current, clock())), [clock, commit]);
+    const resume = useCallback(() => commit(resumeClock(stateRef.current, clock())), [clock, commit]);
+    const reset = useCallback(() => commit(initialPlankClock), [commit]);
+    // continue from a previously saved clock state (e.g. after a reload)
+    const restore = useCallback((saved: PlankClockState) => commit(saved), [commit]);
+
+    // stops the clock and returns the measured duration in whole seconds
+    const stop = useCallback((): number => {
+        const t = clock();
+        const next = stopClock(stateRef.current, t);
+        commit(next);
+        return Math.floor(getElapsedMs(next, t) / 1000);
+    }, [clock, commit]);
+
+    const elapsedMs = getElapsedMs(state, now);
+    const remainingMs = targetSeconds ? Math.max(0, targetSeconds * 1000 - elapsedMs) : 0;
+
+    return {
+        state,
+        // the time source the state is measured in, for timestamps stored with it
+        now: clock,
+        status: state.status,
+        isRunning: state.status === "running",
+        elapsedMs,
+        elapsedSeconds: Math.floor(elapsedMs / 1000),
+        remainingSeconds: Math.ceil(remainingMs / 1000),
+        start,
+        pause,
+        resume,
+        stop,
+        reset,
+        restore,
+    };
+}
@@ -0,0 +1,57 @@
+// src/hooks/usePlankCues.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { renderHook } from "@testing-library/react";
+import { usePlankCues } from "./usePlankCues";
+import { DEFAULT_CUE_PREFERENCES } from "@/lib/plankCues";
+import type { PlankClockStatus } from "@/lib/plankClock";
+import { playCue } from "@/lib/cuePlayer";
+
+vi.mock("@/lib/cuePlayer", () => ({ playCue: vi.fn() }));
+
+const prefs = { ...DEFAULT_CUE_PREFERENCES, intervalSeconds: 15 as const };
+
+const played = () => vi.mocked(playCue).mock.calls.map(([cue]) => `${cue.kind}@${cue.atSecond}`);
+
+describe("usePlankCues", () => {
+    beforeEach(() => {
+        vi.mocked(playCue).mockClear();
+    });
+
+    const render = () =>
+        renderHook((props: { elapsedMs: number; status: PlankClockStatus }) => usePlankCues({ ...props, prefs }), {
+            initialProps: { elapsedMs: 0, status: "idle" },
+        });
+
+    it("plays each interval once across a pause and resume", () => {
+        const { rerender } = render();
+
+        rerender({ elapsedMs: 0, status: "running" });
+        rerender({ elapsedMs: 15_100, status: "running" });
+        rerender({ elapsedMs: 15_400, status: "paused" });
+        rerender({ elapsedMs: 15_400, status: "paused" });
+        rerender({ elapsedMs: 15_400, status: "running" });
+        rerender({ elapsedMs: 29_900, status: "running" });
+        rerender({ elapsedMs: 30_050, status: "running" });
+
+        expect(played()).toEqual(["interval@15", "interval@30"]);
+    });
+
+    it("doesn't cue time a restored clock skipped while it wasn't running", () => {
+        const { rerender } = render();
+
+        rerender({ elapsedMs: 47_000, status: "paused" });
+        rerender({ elapsedMs: 47_000, status: "running" });
+        rerender({ elapsedMs: 48_000, status: "running" });
+
+        expect(played()).toEqual([]);
+    });
+
+    it("plays only the latest cue after a background tab catches up", () => {
+        const { rerender } = render();
+
+        rerender({ elapsedMs: 0, status: "running" });
+        rerender({ elapsedMs: 61_000, status: "running" });
+
+        expect(played()).toEqual(["interval@60"]);
+    });
+});
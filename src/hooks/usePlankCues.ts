@@ -0,0 +1,75 @@
+// src/hooks/usePlankCues.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { PlankClockStatus } from "@/lib/plankClock";
+import {
+    CuePreferences,
+    cuesBetween,
+    hasAnyOutput,
+    startCountdownCues,
+} from "@/lib/plankCues";
+import { playCue } from "@/lib/cuePlayer";
+
+interface UsePlankCuesOptions {
+    elapsedMs: number;
+    status: PlankClockStatus;
+    targetSeconds?: number;     // countdown target; enables halfway / final cues
+    prefs: CuePreferences;
+}
+
+// Plays the cues that fall due as the plank clock advances, and runs the
+// 3-2-1 countdown before a start.
+export function usePlankCues({ elapsedMs, status, targetSeconds, prefs }: UsePlankCuesOptions) {
+    const lastMsRef = useRef(elapsedMs);
+    const [countdown, setCountdown] = useState<number | null>(null);
+    const timersRef = useRef<number[]>([]);
+
+    useEffect(() => {
+        const from = lastMsRef.current;
+        lastMsRef.current = elapsedMs;
+        // a restored or resumed clock can jump forward while not running; only
+        // cue time that actually passed on a running clock (or the final tick
+        // that stopped it)
+        if (status !== "running" && status !== "stopped") return;
+        if (!hasAnyOutput(prefs)) return;
+
+        const due = cuesBetween(from, elapsedMs, prefs, targetSeconds);
+        // after a background tab catches up only the latest cue is worth playing
+        if (due.length) playCue(due[due.length - 1], prefs);
+    }, [elapsedMs, status, targetSeconds, prefs]);
+
+    const cancelCountdown = useCallback(() => {
+        timersRef.current.forEach((id) => window.clearTimeout(id));
+        timersRef.current = [];
+        setCountdown(null);
+    }, []);
+
+    useEffect(() => cancelCountdown, [cancelCountdown]);
+
+    // calls onGo right away when the countdown is switched off
+    const runStartCountdown = useCallback(
+        (onGo: () => void) => {
+            cancelCountdown();
+            if (!prefs.startCountdown) {
+                onGo();
+                return;
+            }
+            const cues = startCountdownCues();
+            cues.forEach((cue, i) => {
+                const id = window.setTimeout(() => {
+                    if (hasAnyOutput(prefs)) playCue(cue, prefs);
+                    if (cue.kind === "go") {
+                        timersRef.current = [];
+                        setCountdown(null);
+                        onGo();
+                    } else {
+                        setCountdown(-cue.atSecond);
+                    }
+                }, i * 1000);
+                timersRef.current.push(id);
+            });
+        },
+        [prefs, cancelCountdown]
+    );
+
+    return { countdown, runStartCountdown, cancelCountdown };
+}
@@ -0,0 +1,120 @@
+// src/hooks/usePlankInteractions.ts
+import { useCallback, useEffect, useState } from "react";
+import { useSupabase } from "@/integrations/supabase/context";
+import { Tables } from "@/integrations/supabase/types";
+
+export type InteractionPerson = Pick<Tables<"profiles">, "id" | "full_name" | "profile_image">;
+
+export interface PlankComment extends Omit<Tables<"plank_comments">, "plank_id"> {
+    author: InteractionPerson;
+}
+
+// Kudos and comments on one plank. Every change reloads the lot: a plank
+// only ever has a handful of each, and the server decides who may do what.
+export function usePlankInteractions(plankId: number, ownerId: string | undefined, viewerId: string | undefined) {
+    const supabase = useSupabase();
+    const [kudos, setKudos] = useState<InteractionPerson[]>([]);
+    const [comments, setComments] = useState<PlankComment[]>([]);
+    const [isAdmin, setIsAdmin] = useState(false);
+    const [loading, setLoading] = useState(true);
+
+    const load = useCallback(async () => {
+        const [{ data: kudosRows, error: kudosErr }, { data: commentRows, error: commentsErr }] = await Promise.all([
+            supabase
+                .from("plank_kudos")
+                .select("user_id, created_at")
+                .eq("plank_id", plankId)
+                .order("created_at", { ascending: false }),
+            supabase
+                .from("plank_comments")
+                .select("id, user_id, parent_id, body, created_at, edited_at")
+                .eq("plank_id", plankId)
+                .order("created_at", { ascending: true }),
+        ]);
+        if (kudosErr || commentsErr) {
+            console.error("Could not load plank interactions:", kudosErr ?? commentsErr);
+            setLoading(false);
+            return;
+        }
+
+        // profiles for everyone involved, in one query
+        const ids = [...new Set([...(kudosRows || []), ...(commentRows || [])].map((r) => r.user_id))];
+        const { data: profiles, error: profilesErr } = ids.length
+            ? await supabase.from("profiles").select("id, full_name, profile_image").in("id", ids)
+            : { data: [], error: null };
+        if (profilesErr) console.error("Could not load profiles:", profilesErr);
+
+        const person = (id: string): InteractionPerson => {
+            const p = profiles?.find((pr) => pr.id === id);
+            return { id, full_name: p?.full_name ?? "Unknown", profile_image: p?.profile_image ?? "" };
+        };
+
+        setKudos((kudosRows || []).map((k) => person(k.user_id)));
+        setComments((commentRows || []).map((c) => ({ ...c, author: person(c.user_id) })));
+        setLoading(false);
+    }, [supabase, plankId]);
+
+    useEffect(() => {
+        setLoading(true);
+        load();
+    }, [load]);
+
+    useEffect(() => {
+        if (!viewerId) return;
+        supabase.rpc("is_admin").then(({ data }) => setIsAdmin(Boolean(data)));
+    }, [supabase, viewerId]);
+
+    const hasKudos = kudos.some((k) => k.id === viewerId);
+
+    const toggleKudos = useCallback(async () => {
+        if (!viewerId) return false;
+        const { error } = hasKudos
+            ? await supabase.from("plank_kudos").delete().eq("plank_id", plankId).eq("user_id", viewerId)
+            : await supabase.from("plank_kudos").insert({ plank_id: plankId, user_id: viewerId });
+        if (error) {
+            console.error("Could not update kudos:", error);
+            return false;
+        }
+        await load();
+        return true;
+    }, [supabase, plankId, viewerId, hasKudos, load]);
+
+    const addComment = useCallback(async (body: string, parentId: number | null = null) => {
+        if (!viewerId) return false;
+        const { error } = await supabase
+            .from("plank_comments")
+            .insert({ plank_id: plankId, user_id: viewerId, parent_id: parentId, body: body.trim() });
+        if (error) {
+            console.error("Could not add comment:", error);
+            return false;
+        }
+        await load();
+        return true;
+    }, [supabase, plankId, viewerId, load]);
+
+    const editComment = useCallback(async (id: number, body: string) => {
+        const { error } = await supabase.from("plank_comments").update({ body: body.trim() }).eq("id", id);
+        if (error) {
+            console.error("Could not edit comment:", error);
+            return false;
+        }
+        await load();
+        return true;
+    }, [supabase, load]);
+
+    // replies go with their parent
+    const deleteComment = useCallback(async (id: number) => {
+        const { error } = await supabase.from("plank_comments").delete().eq("id", id);
+        if (error) {
+            console.error("Could not delete comment:", error);
+            return false;
+        }
+        await load();
+        return true;
+    }, [supabase, load]);
+
+    const canDelete = (c: PlankComment) =>
+        !!viewerId && (c.user_id === viewerId || ownerId === viewerId || isAdmin);
+
+    return { kudos, comments, loading, hasKudos, toggleKudos, addComment, editComment, deleteComment, canDelete };
+}
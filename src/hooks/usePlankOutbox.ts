@@ -0,0 +1,66 @@
+// src/hooks/usePlankOutbox.ts
+import { useEffect, useState } from "react";
+import {
+    OutboxPlank,
+    listQueuedPlanks,
+    subscribeOutbox,
+    syncOutbox,
+} from "@/lib/plankOutbox";
+import { queryClient } from "@/data/queryClient";
+import { invalidatePlankViews } from "@/data/planks";
+import { useSupabase } from "@/integrations/supabase/context";
+
+const SYNC_INTERVAL_MS = 30_000;
+
+// Planks from this device that haven't reached the server yet.
+export function usePlankOutbox(userId?: string) {
+    const [queued, setQueued] = useState<OutboxPlank[]>([]);
+
+    useEffect(() => {
+        let active = true;
+        const load = () => {
+            listQueuedPlanks(userId)
+                .then((rows) => active && setQueued(rows))
+                .catch((err) => console.error("Could not read plank outbox:", err));
+        };
+        load();
+        const unsubscribe = subscribeOutbox(load);
+        return () => {
+            active = false;
+            unsubscribe();
+        };
+    }, [userId]);
+
+    return queued;
+}
+
+// Keeps the outbox draining: on start, when connectivity returns, when the
+// tab becomes visible and on a timer for entries waiting out their backoff.
+// Planks that get through refresh every view of plank data.
+export function useOutboxSync() {
+    const supabase = useSupabase();
+
+    useEffect(() => {
+        const sync = () => {
+            syncOutbox(supabase)
+                .then((synced) => {
+                    if (synced.length > 0) invalidatePlankViews(queryClient);
+                })
+                .catch((err) => console.error("Plank sync failed:", err));
+        };
+        const onVisible = () => {
+            if (document.visibilityState === "visible") sync();
+        };
+
+        sync();
+        window.addEventListener("online", sync);
+        document.addEventListener("visibilitychange", onVisible);
+        const id = window.setInterval(sync, SYNC_INTERVAL_MS);
+
+        return () => {
+            window.removeEventListener("online", sync);
+            document.removeEventListener("visibilitychange", onVisible);
+            clearInterval(id);
+        };
+    }, [supabase]);
+}
@@ -0,0 +1,56 @@
+// src/hooks/usePlankVariants.ts
+import { useCallback, useEffect, useState } from "react";
+import { useSupabase } from "@/integrations/supabase/context";
+import { PlankVariant } from "@/lib/plankVariants";
+
+// Built-in variants plus the ones the logged-in user created (RLS filters the rest).
+export function usePlankVariants() {
+    const supabase = useSupabase();
+    const [variants, setVariants] = useState<PlankVariant[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const load = useCallback(async () => {
+        setLoading(true);
+        const { data, error } = await supabase
+            .from("plank_variants")
+            .select("id, slug, name, is_sided, user_id, created_at")
+            .order("user_id", { ascending: true, nullsFirst: true })
+            .order("id", { ascending: true });
+
+        if (error) {
+            console.error("Could not load plank variants:", error);
+        } else {
+            setVariants(data || []);
+        }
+        setLoading(false);
+    }, [supabase]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const createVariant = useCallback(
+        async (name: string, isSided: boolean): Promise<PlankVariant | null> => {
+            const {
+                data: { session },
+            } = await supabase.auth.getSession();
+            if (!session?.user) return null;
+
+            const { data, error } = await supabase
+                .from("plank_variants")
+                .insert({ name: name.trim(), is_sided: isSided, user_id: session.user.id })
+                .select("id, slug, name, is_sided, user_id, created_at")
+                .single();
+
+            if (error || !data) {
+                console.error("Could not create variant:", error);
+                return null;
+            }
+            setVariants((cur) => [...cur, data]);
+            return data;
+        },
+        [supabase]
+    );
+
+    return { variants, loading, createVariant };
+}
@@ -0,0 +1,78 @@
+// src/hooks/usePoseDetection.ts
+import { RefObject, useEffect, useState } from "react";
+import { FormAssessment } from "@/lib/poseGeometry";
+import type { PoseWorkerRequest, PoseWorkerResponse } from "@/workers/poseWorker";
+
+interface UsePoseDetectionOptions {
+    videoRef: RefObject<HTMLVideoElement>;
+    enabled: boolean;
+    intervalMs?: number;    // at most one frame in flight, at most this often
+    frameWidth?: number;    // frames are scaled down before going to the worker
+}
+
+export interface PoseDetectionResult {
+    assessment: FormAssessment;
+    timestamp: number;
+}
+
+// Streams camera frames to the pose worker and returns the latest result.
+export function usePoseDetection({
+    videoRef,
+    enabled,
+    intervalMs = 200,
+    frameWidth = 256,
+}: UsePoseDetectionOptions) {
+    const [ready, setReady] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<PoseDetectionResult | null>(null);
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const worker = new Worker(new URL("../workers/poseWorker.ts", import.meta.url), {
+            type: "module",
+        });
+        const canvas = document.createElement("canvas");
+        const ctx = canvas.getContext("2d", { willReadFrequently: true });
+        let busy = true; // until the model has loaded
+
+        const send = (msg: PoseWorkerRequest, transfer: Transferable[] = []) =>
+            worker.postMessage(msg, transfer);
+
+        worker.onmessage = (e: MessageEvent<PoseWorkerResponse>) => {
+            const msg = e.data;
+            if (msg.type === "ready") setReady(true);
+            else if (msg.type === "error") setError(msg.message);
+            else setResult({ assessment: msg.assessment, timestamp: msg.timestamp });
+            busy = false;
+        };
+        worker.onerror = (e) => {
+            console.error("Pose worker error:", e);
+            setError("Form detection is unavailable on this device.");
+        };
+
+        const grabFrame = () => {
+            const video = videoRef.current;
+            if (busy || !ctx || !video || video.readyState < 2 || !video.videoWidth) return;
+            canvas.width = frameWidth;
+            canvas.height = Math.round((video.videoHeight / video.videoWidth) * frameWidth);
+            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+            const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+            busy = true;
+            send({ type: "frame", frame, timestamp: performance.now() }, [frame.data.buffer]);
+        };
+
+        send({ type: "init" });
+        const timerId = window.setInterval(grabFrame, intervalMs);
+
+        return () => {
+            clearInterval(timerId);
+            worker.terminate();
+            setReady(false);
+            setResult(null);
+            setError(null);
+        };
+    }, [enabled, videoRef, intervalMs, frameWidth]);
+
+    return { ready, error, result };
+}
@@ -0,0 +1,77 @@
+// src/hooks/useRealtimeRefresh.ts
+import { useEffect, useId, useRef, useState } from "react";
+import { useSupabase } from "@/integrations/supabase/context";
+
+export type RefreshMode = "connecting" | "realtime" | "polling";
+
+interface RealtimeRefreshOptions {
+    debounceMs?: number;  // bursts of changes trigger one refresh
+    pollMs?: number;      // refresh interval while realtime is unavailable
+    connectMs?: number;   // how long to wait for the channel before polling
+    realtime?: boolean;   // false polls only, e.g. for rows the user can't read
+}
+
+// Calls `onChange` when rows are inserted into or deleted from `table`.
+// Falls back to polling whenever the realtime channel is down, and goes back
+// to realtime once the channel (re)subscribes.
+export function useRealtimeRefresh(
+    table: string,
+    onChange: () => void,
+    { debounceMs = 1_000, pollMs = 30_000, connectMs = 10_000, realtime = true }: RealtimeRefreshOptions = {}
+): RefreshMode {
+    const supabase = useSupabase();
+    const [mode, setMode] = useState<RefreshMode>("connecting");
+    const channelId = useId();
+    const onChangeRef = useRef(onChange);
+    onChangeRef.current = onChange;
+
+    useEffect(() => {
+        let debounceId: number | undefined;
+        let pollId: number | undefined;
+
+        const refresh = () => {
+            window.clearTimeout(debounceId);
+            debounceId = window.setTimeout(() => onChangeRef.current(), debounceMs);
+        };
+        const startPolling = () => {
+            if (pollId != null) return;
+            pollId = window.setInterval(() => onChangeRef.current(), pollMs);
+            setMode("polling");
+        };
+        const stopPolling = () => {
+            window.clearInterval(pollId);
+            pollId = undefined;
+        };
+
+        if (!realtime) {
+            startPolling();
+            return stopPolling;
+        }
+
+        const connectId = window.setTimeout(startPolling, connectMs);
+        const channel = supabase
+            .channel(`${table}-changes-${channelId}`)
+            .on("postgres_changes", { event: "INSERT", schema: "public", table }, refresh)
+            .on("postgres_changes", { event: "DELETE", schema: "public", table }, refresh)
+            .subscribe((status) => {
+                if (status === "SUBSCRIBED") {
+                    window.clearTimeout(connectId);
+                    stopPolling();
+                    setMode("realtime");
+                    // catch up on anything missed while disconnected
+                    refresh();
+                } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+                    startPolling();
+                }
+            });
+
+        return () => {
+            window.clearTimeout(connectId);
+            window.clearTimeout(debounceId);
+            stopPolling();
+            supabase.removeChannel(channel);
+        };
+    }, [supabase, table, channelId, debounceMs, pollMs, connectMs, realtime]);
+
+    return mode;
+}
@@ -0,0 +1,71 @@
+// src/hooks/useTeam.ts
+import { useCallback, useEffect, useState } from "react";
+import { useSupabase } from "@/integrations/supabase/context";
+import { Tables } from "@/integrations/supabase/types";
+import { useTeamStats } from "@/data/teams";
+import { Team } from "./useMyTeams";
+
+export type TeamRole = "owner" | "admin" | "member";
+
+export interface TeamMember extends Pick<Tables<"team_members">, "user_id" | "joined_at">, Pick<Tables<"profiles">, "full_name" | "profile_image"> {
+    role: TeamRole;
+}
+
+const ROLE_ORDER: Record<TeamRole, number> = { owner: 0, admin: 1, member: 2 };
+
+// One group as seen by the logged-in user: the team, its members and the
+// caller's role, plus the totals for the group page. RLS hides all of it
+// from non-members, so `team` stays null for them.
+export function useTeam(teamId: number, userId: string | undefined) {
+    const supabase = useSupabase();
+    const [team, setTeam] = useState<Team | null>(null);
+    const [members, setMembers] = useState<TeamMember[]>([]);
+    const { data: stats = null, refetch: refetchStats } = useTeamStats(teamId);
+    const [loading, setLoading] = useState(true);
+
+    const load = useCallback(async () => {
+        const [{ data: teamRow, error: teamErr }, { data: memberRows, error: membersErr }] = await Promise.all([
+            supabase.from("teams").select("*").eq("id", teamId).maybeSingle(),
+            supabase.from("team_members").select("user_id, role, joined_at").eq("team_id", teamId),
+        ]);
+        if (teamErr || membersErr) {
+            console.error("Could not load group:", teamErr ?? membersErr);
+        }
+
+        // profiles for every member, in one query
+        const ids = (memberRows || []).map((m) => m.user_id);
+        const { data: profiles, error: profilesErr } = ids.length
+            ? await supabase.from("profiles").select("id, full_name, profile_image").in("id", ids)
+            : { data: [], error: null };
+        if (profilesErr) console.error("Could not load member profiles:", profilesErr);
+
+        setTeam(teamRow ?? null);
+        setMembers(
+            (memberRows || [])
+                .map((m) => {
+                    const p = profiles?.find((pr) => pr.id === m.user_id);
+                    return {
+                        user_id: m.user_id,
+                        role: m.role as TeamRole,
+                        joined_at: m.joined_at,
+                        full_name: p?.full_name ?? "Unknown",
+                        profile_image: p?.profile_image ?? "",
+                    };
+                })
+                .sort((a, b) => ROLE_ORDER[a.role] - ROLE_ORDER[b.role] || a.full_name.localeCompare(b.full_name))
+        );
+        setLoading(false);
+    }, [supabase, teamId]);
+
+    useEffect(() => {
+        setLoading(true);
+        load();
+    }, [load]);
+
+    const myRole = members.find((m) => m.user_id === userId)?.role ?? null;
+    const canManage = myRole === "owner" || myRole === "admin";
+
+    const reload = useCallback(() => Promise.all([load(), refetchStats()]), [load, refetchStats]);
+
+    return { team, members, stats, myRole, canManage, loading, reload };
+}
@@ -0,0 +1,48 @@
+// src/hooks/useWakeLock.ts
+import { useEffect } from "react";
+
+// Minimal typing for the Screen Wake Lock API, which older TS DOM libs lack.
+interface WakeLockSentinelLike {
+    released: boolean;
+    release: () => Promise<void>;
+}
+interface WakeLockLike {
+    request: (type: "screen") => Promise<WakeLockSentinelLike>;
+}
+
+// Keeps the screen on while `active` is true. The browser drops the lock
+// whenever the tab is hidden, so it is requested again when the tab returns.
+// Unsupported browsers simply keep their normal screen timeout.
+export function useWakeLock(active: boolean) {
+    useEffect(() => {
+        const wakeLock = (navigator as Navigator & { wakeLock?: WakeLockLike }).wakeLock;
+        if (!active || !wakeLock) return;
+
+        let sentinel: WakeLockSentinelLike | null = null;
+        let cancelled = false;
+
+        const acquire = async () => {
+            if (document.visibilityState !== "visible") return;
+            if (sentinel && !sentinel.released) return;
+            try {
+                const lock = await wakeLock.request("screen");
+                if (cancelled) {
+                    lock.release().catch(() => undefined);
+                    return;
+                }
+                sentinel = lock;
+            } catch (err) {
+                // e.g. battery saver or a permissions policy refused it
+                console.warn("Screen wake lock unavailable:", err);
+            }
+        };
+
+        acquire();
+        document.addEventListener("visibilitychange", acquire);
+        return () => {
+            cancelled = true;
+            document.removeEventListener("visibilitychange", acquire);
+            sentinel?.release().catch(() => undefined);
+        };
+    }, [active]);
+}
@@ -0,0 +1,15 @@
+// src/integrations/supabase/SupabaseProvider.tsx
+import React from "react";
+import type { TypedSupabaseClient } from "./client";
+import { SupabaseContext } from "./context";
+
+interface SupabaseProviderProps {
+    client: TypedSupabaseClient;
+    children: React.ReactNode;
+}
+
+const SupabaseProvider: React.FC<SupabaseProviderProps> = ({ client, children }) => (
+    <SupabaseContext.Provider value={client}>{children}</SupabaseContext.Provider>
+);
+
+export default SupabaseProvider;
@@ -0,0 +1,12 @@
+// src/integrations/supabase/context.ts
+import { createContext, useContext } from "react";
+import type { TypedSupabaseClient } from "./client";
+
+export const SupabaseContext = createContext<TypedSupabaseClient | null>(null);
+
+// The Supabase client of the surrounding <SupabaseProvider>.
+export function useSupabase(): TypedSupabaseClient {
+    const client = useContext(SupabaseContext);
+    if (!client) throw new Error("useSupabase must be used inside a SupabaseProvider");
+    return client;
+}
@@ -0,0 +1,16 @@
+// Storage buckets used by the app. Supabase doesn't generate types for
+// storage, so the bucket names live here and a typo becomes a compile error.
+//
+//   avatars       "<user id>_<timestamp>.<ext>", public URL kept in profiles.profile_image
+//   plank-photos  "<user id>_<plank id>_<n>.png", paths kept in planks.photos and
+//                 plank_verifications.snapshot_paths
+import type { TypedSupabaseClient } from "./client";
+
+export type StorageBucket = "avatars" | "plank-photos";
+
+export const storageBucket = (client: TypedSupabaseClient, bucket: StorageBucket) =>
+    client.storage.from(bucket);
+
+// both buckets are public, so this never fails
+export const publicUrl = (client: TypedSupabaseClient, bucket: StorageBucket, path: string) =>
+    storageBucket(client, bucket).getPublicUrl(path).data.publicUrl;
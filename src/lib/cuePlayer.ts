@@ -0,0 +1,52 @@
+// src/lib/cuePlayer.ts
+//
+// Plays cues from plankCues.ts through Web Audio, speech synthesis and
+// navigator.vibrate. Every output is optional: missing browser support is
+// silently ignored so the timer keeps working everywhere.
+
+import { Cue, CuePreferences, CUE_SIGNALS } from "@/lib/plankCues";
+
+let audioCtx: AudioContext | null = null;
+
+// Browsers only allow audio after a user gesture, so call this from the
+// Start button's click handler before the first cue is due.
+export function unlockCueAudio(): void {
+    const Ctx = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!Ctx) return;
+    if (!audioCtx) audioCtx = new Ctx();
+    if (audioCtx.state === "suspended") audioCtx.resume().catch(console.error);
+}
+
+function playTones(tones: { hz: number; ms: number }[]): void {
+    if (!audioCtx) return;
+    let at = audioCtx.currentTime;
+    for (const tone of tones) {
+        const osc = audioCtx.createOscillator();
+        const gain = audioCtx.createGain();
+        osc.frequency.value = tone.hz;
+        gain.gain.setValueAtTime(0.3, at);
+        gain.gain.exponentialRampToValueAtTime(0.001, at + tone.ms / 1000);
+        osc.connect(gain).connect(audioCtx.destination);
+        osc.start(at);
+        osc.stop(at + tone.ms / 1000);
+        at += tone.ms / 1000 + 0.05;
+    }
+}
+
+function speak(text: string): void {
+    if (!("speechSynthesis" in window)) return;
+    // a new milestone replaces one that is still being read out
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+}
+
+export function playCue(cue: Cue, prefs: CuePreferences): void {
+    const signal = CUE_SIGNALS[cue.kind];
+    try {
+        if (prefs.sound) playTones(signal.tones);
+        if (prefs.speech) speak(cue.text);
+        if (prefs.vibration && "vibrate" in navigator) navigator.vibrate(signal.vibrate);
+    } catch (err) {
+        console.error("Could not play cue:", err);
+    }
+}
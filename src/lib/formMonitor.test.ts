@@ -0,0 +1,120 @@
+// src/lib/formMonitor.test.ts
+import { describe, expect, it } from "vitest";
+import {
+    FormMonitorEvent,
+    FormMonitorState,
+    formScore,
+    initialFormMonitor,
+    resetFormScore,
+    updateFormMonitor,
+} from "./formMonitor";
+import { FormAssessment, FormStatus, assessPlankForm } from "./poseGeometry";
+import { PIKED, SAGGING, STRAIGHT, sidePose } from "@/test/poses";
+
+const frame = (status: FormStatus, score = status === "good" ? 100 : 40): FormAssessment => ({
+    status,
+    bodyLineDeg: null,
+    hipOffset: null,
+    tiltDeg: null,
+    score,
+});
+
+// feeds frames at the given times; the clock runs from the "start" event
+// until the "stop" event, the way PlankTimer drives it
+function run(frames: [at: number, form: FormAssessment][], holding = false) {
+    let state: FormMonitorState = initialFormMonitor;
+    const events: [number, FormMonitorEvent][] = [];
+    for (const [at, form] of frames) {
+        const result = updateFormMonitor(state, form, at, holding);
+        state = result.state;
+        if (result.event) {
+            events.push([at, result.event]);
+            holding = result.event === "start";
+        }
+    }
+    return { state, events };
+}
+
+const every = (fromMs: number, toMs: number, form: FormAssessment, stepMs = 250) => {
+    const frames: [number, FormAssessment][] = [];
+    for (let t = fromMs; t <= toMs; t += stepMs) frames.push([t, form]);
+    return frames;
+};
+
+describe("formMonitor", () => {
+    it("starts once good form has lasted a second", () => {
+        const { events } = run(every(0, 1_500, assessPlankForm(sidePose(STRAIGHT))));
+
+        expect(events).toEqual([[1_000, "start"]]);
+    });
+
+    it("doesn't start on a flicker of good form", () => {
+        const { events } = run([
+            ...every(0, 750, frame("good")),
+            [1_000, frame("sag")],
+            ...every(1_250, 2_000, frame("good")),
+        ]);
+
+        // the count starts over after the bad frame
+        expect(events).toEqual([]);
+    });
+
+    it("rides out broken form shorter than the grace period", () => {
+        const { events } = run(
+            [
+                ...every(0, 1_000, frame("good")),
+                ...every(1_250, 3_750, assessPlankForm(sidePose(SAGGING))),
+                ...every(4_000, 10_000, frame("good")),
+                ...every(10_250, 13_000, assessPlankForm(sidePose(PIKED))),
+                ...every(13_250, 14_000, frame("good")),
+            ],
+            true
+        );
+
+        expect(events).toEqual([]);
+    });
+
+    it("stops once broken form outlasts the grace period", () => {
+        const { events } = run([...every(0, 2_000, frame("good")), ...every(2_250, 6_000, frame("sag"))], true);
+
+        // broken since 2.25 s, stopped on the first frame more than 3 s later
+        expect(events).toEqual([[5_500, "stop"]]);
+    });
+
+    it("needs a longer stretch to stop than to start (hysteresis)", () => {
+        // good for 1 s starts the clock...
+        const started = run(every(0, 1_000, frame("good")));
+        expect(started.events).toEqual([[1_000, "start"]]);
+
+        // ...but 1 s of broken form doesn't stop it again
+        const { events } = run([...every(0, 1_000, frame("good")), ...every(1_250, 2_250, frame("pike"))]);
+        expect(events).toEqual([[1_000, "start"]]);
+    });
+
+    it("treats losing sight of the body as broken form", () => {
+        const { events } = run([...every(0, 1_000, frame("good")), ...every(1_250, 5_000, frame("no-pose"))], true);
+
+        expect(events).toEqual([[4_500, "stop"]]);
+    });
+
+    it("averages the scored frames while holding, skipping frames without a pose", () => {
+        const { state } = run(
+            [
+                [0, frame("good", 90)],
+                [250, frame("no-pose", 0)],
+                [500, frame("sag", 60)],
+            ],
+            true
+        );
+
+        expect(formScore(state)).toBe(75);
+        expect(formScore(resetFormScore(state))).toBeNull();
+        expect(resetFormScore(state).brokenSince).toBe(state.brokenSince);
+    });
+
+    it("has no score before any frame was scored", () => {
+        expect(formScore(initialFormMonitor)).toBeNull();
+        // frames before the start don't count
+        expect(formScore(run(every(0, 750, frame("good", 80))).state)).toBeNull();
+    });
+});
@@ -0,0 +1,79 @@
+// src/lib/formMonitor.ts
+//
+// Turns a stream of per-frame form assessments into auto start / stop
+// decisions and an overall form score. Pure like poseGeometry.ts: the caller
+// passes the time of each frame.
+
+import { FormAssessment } from "@/lib/poseGeometry";
+
+export interface FormMonitorOptions {
+    confirmMs: number;  // good form must last this long before auto-start
+    graceMs: number;    // broken form may last this long before auto-stop
+}
+
+export const DEFAULT_FORM_MONITOR_OPTIONS: FormMonitorOptions = {
+    confirmMs: 1_000,
+    graceMs: 3_000,
+};
+
+export interface FormMonitorState {
+    holding: boolean;
+    goodSince: number | null;
+    brokenSince: number | null;
+    scoreSum: number;
+    scoreCount: number;
+}
+
+export const initialFormMonitor: FormMonitorState = {
+    holding: false,
+    goodSince: null,
+    brokenSince: null,
+    scoreSum: 0,
+    scoreCount: 0,
+};
+
+export type FormMonitorEvent = "start" | "stop" | null;
+
+// `holding` says whether the plank clock is currently running, so a manual
+// start or pause is picked up on the next frame
+export function updateFormMonitor(
+    state: FormMonitorState,
+    assessment: FormAssessment,
+    now: number,
+    holding: boolean,
+    options: FormMonitorOptions = DEFAULT_FORM_MONITOR_OPTIONS
+): { state: FormMonitorState; event: FormMonitorEvent } {
+    const good = assessment.status === "good";
+
+    if (!holding) {
+        const goodSince = good ? state.goodSince ?? now : null;
+        const confirmed = goodSince != null && now - goodSince >= options.confirmMs;
+        return {
+            state: { ...state, holding: false, goodSince, brokenSince: null },
+            event: confirmed ? "start" : null,
+        };
+    }
+
+    // frames where nobody is in view say nothing about form quality
+    const scored = assessment.status !== "no-pose";
+    const next: FormMonitorState = {
+        ...state,
+        holding: true,
+        goodSince: null,
+        brokenSince: good ? null : state.brokenSince ?? now,
+        scoreSum: state.scoreSum + (scored ? assessment.score : 0),
+        scoreCount: state.scoreCount + (scored ? 1 : 0),
+    };
+    const broken = next.brokenSince != null && now - next.brokenSince > options.graceMs;
+    return { state: next, event: broken ? "stop" : null };
+}
+
+// average over the scored frames, or null when the camera never saw a pose
+export function formScore(state: FormMonitorState): number | null {
+    return state.scoreCount ? Math.round(state.scoreSum / state.scoreCount) : null;
+}
+
+// keeps the timing state but starts a fresh score (e.g. for the next set)
+export function resetFormScore(state: FormMonitorState): FormMonitorState {
+    return { ...state, scoreSum: 0, scoreCount: 0 };
+}
@@ -0,0 +1,180 @@
+// src/lib/leaderboard.ts
+import type { Database } from "@/integrations/supabase/types";
+
+type Functions = Database["public"]["Functions"];
+
+export type LeaderboardRow = Functions["leaderboard"]["Returns"][number];
+export type MyRank = Functions["leaderboard_my_rank"]["Returns"][number];
+
+// which board: everything but the page
+export type LeaderboardFilters = Omit<Functions["leaderboard"]["Args"], "p_limit" | "p_offset">;
+
+export const LEADERBOARD_PAGE_SIZE = 10;
+
+// users need this many planks in the window to appear on the average board
+export const AVERAGE_MIN_PLANKS = 3;
+
+export type LeaderboardMetric = "best" | "total" | "consistency" | "streak" | "improvement" | "average";
+
+const formatSeconds = (sec: number) => {
+    const whole = Math.round(sec);
+    const m = Math.floor(whole / 60);
+    const s = whole % 60;
+    return `${m}:${s < 10 ? "0" + s : s}`;
+};
+
+const formatDays = (days: number) => `${days} ${days === 1 ? "day" : "days"}`;
+
+// rules mirror leaderboard_entries() in the leaderboard_metrics migration
+export const LEADERBOARD_METRICS: {
+    value: LeaderboardMetric;
+    label: string;
+    rule: string;
+    format: (value: number) => string;
+}[] = [
+    {
+        value: "best",
+        label: "Best",
+        rule: "Ties go to the verified plank, then to whoever got there first.",
+        format: formatSeconds,
+    },
+    {
+        value: "total",
+        label: "Total",
+        rule: "Ties go to more days planked, then the longer best plank.",
+        format: formatSeconds,
+    },
+    {
+        value: "consistency",
+        label: "Consistency",
+        rule: "Days planked. Ties go to more total time, then the longer best plank.",
+        format: formatDays,
+    },
+    {
+        value: "streak",
+        label: "Streak",
+        rule: "Active streak at the end of the period. Ties go to more days planked, then more total time.",
+        format: formatDays,
+    },
+    {
+        value: "improvement",
+        label: "Improvement",
+        rule: "Best time against the previous period of the same length. Ties go to the longer best plank.",
+        format: (pct) => `${pct > 0 ? "+" : ""}${pct.toFixed(1)}%`,
+    },
+    {
+        value: "average",
+        label: "Average",
+        rule: `Average hold, for at least ${AVERAGE_MIN_PLANKS} planks. Ties go to more planks, then the longer best plank.`,
+        format: formatSeconds,
+    },
+];
+
+export function metricInfo(metric: LeaderboardMetric) {
+    return LEADERBOARD_METRICS.find((m) => m.value === metric) ?? LEADERBOARD_METRICS[0];
+}
+
+// Who is ranked: everyone, the people the viewer follows (plus themselves),
+// or the members of one of the viewer's teams ("team:12").
+export type LeaderboardScope = "global" | "following" | `team:${number}`;
+
+export function scopeArgs(scope: LeaderboardScope): { p_scope: string; p_team_id: number | null } {
+    if (scope.startsWith("team:")) {
+        return { p_scope: "team", p_team_id: Number(scope.slice("team:".length)) };
+    }
+    return { p_scope: scope, p_team_id: null };
+}
+
+// A leaderboard window is either a preset relative to today, a calendar month
+// ("2026-03") or a calendar year ("2025"). It is stored as-is in the URL.
+export type WindowPreset = "today" | "week" | "month" | "30d" | "year" | "all";
+export type LeaderboardWindow = WindowPreset | string;
+
+export const DEFAULT_WINDOW: WindowPreset = "30d";
+export const WINDOW_PARAM = "window";
+
+export const WINDOW_PRESETS: { value: WindowPreset; label: string }[] = [
+    { value: "today", label: "Today" },
+    { value: "week", label: "This Week" },
+    { value: "month", label: "This Month" },
+    { value: "30d", label: "Last 30 Days" },
+    { value: "year", label: "This Year" },
+    { value: "all", label: "All Time" },
+];
+
+const MONTH_RE = /^(\d{4})-(0[1-9]|1[0-2])$/;
+const YEAR_RE = /^\d{4}$/;
+
+// local calendar date as "YYYY-MM-DD"
+export function toDateString(d: Date): string {
+    const m = d.getMonth() + 1;
+    const day = d.getDate();
+    return `${d.getFullYear()}-${m < 10 ? "0" + m : m}-${day < 10 ? "0" + day : day}`;
+}
+
+// anything unrecognised falls back to the default window
+export function parseWindow(value: string | null | undefined): LeaderboardWindow {
+    if (!value) return DEFAULT_WINDOW;
+    if (WINDOW_PRESETS.some((p) => p.value === value)) return value;
+    if (MONTH_RE.test(value) || YEAR_RE.test(value)) return value;
+    return DEFAULT_WINDOW;
+}
+
+// inclusive date range for the p_since / p_until arguments; null is open-ended
+export function windowRange(
+    range: LeaderboardWindow,
+    now = new Date()
+): { since: string | null; until: string | null } {
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+    switch (range) {
+        case "today":
+            return { since: toDateString(today), until: null };
+        case "week": {
+            // weeks start on Monday
+            const monday = new Date(today);
+            monday.setDate(today.getDate() - ((today.getDay() + 6) % 7));
+            return { since: toDateString(monday), until: null };
+        }
+        case "month":
+            return { since: toDateString(new Date(today.getFullYear(), today.getMonth(), 1)), until: null };
+        case "30d": {
+            const cutoff = new Date(today);
+            cutoff.setDate(today.getDate() - 30);
+            return { since: toDateString(cutoff), until: null };
+        }
+        case "year":
+            return { since: `${today.getFullYear()}-01-01`, until: null };
+        case "all":
+            return { since: null, until: null };
+    }
+
+    const month = MONTH_RE.exec(range);
+    if (month) {
+        const year = Number(month[1]);
+        const index = Number(month[2]) - 1;
+        return {
+            since: toDateString(new Date(year, index, 1)),
+            until: toDateString(new Date(year, index + 1, 0)),
+        };
+    }
+    if (YEAR_RE.test(range)) {
+        return { since: `${range}-01-01`, until: `${range}-12-31` };
+    }
+    return windowRange(DEFAULT_WINDOW, now);
+}
+
+// e.g. "This Week", "March 2026", "2025"
+export function windowLabel(range: LeaderboardWindow): string {
+    const preset = WINDOW_PRESETS.find((p) => p.value === range);
+    if (preset) return preset.label;
+
+    const month = MONTH_RE.exec(range);
+    if (month) {
+        return new Date(Number(month[1]), Number(month[2]) - 1, 1).toLocaleDateString("en-US", {
+            month: "long",
+            year: "numeric",
+        });
+    }
+    return range;
+}
@@ -0,0 +1,59 @@
+// src/lib/leaderboardDiff.ts
+//
+// Compares two loads of the same leaderboard to find who moved and who
+// overtook whom. Pure, so live updates can be animated without guessing.
+
+export interface RankedEntry {
+    user_id: string;
+    full_name: string | null;
+    value: number;
+    rank: number;
+}
+
+export interface Overtake {
+    userId: string;
+    name: string;
+    rank: number;
+    value: number;
+    improved: boolean;      // their own value went up (e.g. a new best)
+    passed: string | null;  // the closest user they moved ahead of
+}
+
+export interface LeaderboardDiff {
+    moves: Record<string, number>;  // places gained (negative when dropping)
+    overtakes: Overtake[];
+}
+
+export function diffLeaderboard(prev: RankedEntry[], next: RankedEntry[]): LeaderboardDiff {
+    const before = new Map(prev.map((r) => [r.user_id, r]));
+    const moves: Record<string, number> = {};
+    const overtakes: Overtake[] = [];
+
+    next.forEach((n) => {
+        const p = before.get(n.user_id);
+        if (p && p.rank !== n.rank) moves[n.user_id] = p.rank - n.rank;
+
+        // newcomers count as climbing from below everyone previously loaded
+        const passedBy = next
+            .filter((o) => {
+                const was = before.get(o.user_id);
+                if (o.user_id === n.user_id || !was) return false;
+                const wasAhead = p ? was.rank < p.rank : true;
+                return wasAhead && o.rank > n.rank;
+            })
+            .sort((a, b) => a.rank - b.rank);
+
+        if (passedBy.length > 0) {
+            overtakes.push({
+                userId: n.user_id,
+                name: n.full_name ?? "Someone",
+                rank: n.rank,
+                value: n.value,
+                improved: p ? n.value > p.value : true,
+                passed: passedBy[0].full_name ?? "Someone",
+            });
+        }
+    });
+
+    return { moves, overtakes };
+}
@@ -0,0 +1,71 @@
+// src/lib/localDb.ts
+//
+// Minimal promise wrapper around the browser's IndexedDB. IndexedDB is used
+// instead of localStorage because it can store Blobs (camera snapshots).
+
+const DB_NAME = "rank-a-plank";
+const DB_VERSION = 2;
+
+export type StoreName = "sessions" | "outbox";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isLocalDbAvailable(): boolean {
+    return typeof indexedDB !== "undefined";
+}
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const req = indexedDB.open(DB_NAME, DB_VERSION);
+            req.onupgradeneeded = () => {
+                const db = req.result;
+                if (!db.objectStoreNames.contains("sessions")) {
+                    db.createObjectStore("sessions");
+                }
+                if (!db.objectStoreNames.contains("outbox")) {
+                    db.createObjectStore("outbox");
+                }
+            };
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => {
+                dbPromise = null;
+                reject(req.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+function run<T>(
+    store: StoreName,
+    mode: IDBTransactionMode,
+    fn: (s: IDBObjectStore) => IDBRequest
+): Promise<T> {
+    return openDb().then(
+        (db) =>
+            new Promise<T>((resolve, reject) => {
+                const tx = db.transaction(store, mode);
+                const req = fn(tx.objectStore(store));
+                tx.oncomplete = () => resolve(req.result as T);
+                tx.onerror = () => reject(tx.error);
+                tx.onabort = () => reject(tx.error);
+            })
+    );
+}
+
+export function getItem<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    return run<T | undefined>(store, "readonly", (s) => s.get(key));
+}
+
+export function getAllItems<T>(store: StoreName): Promise<T[]> {
+    return run<T[]>(store, "readonly", (s) => s.getAll());
+}
+
+export function putItem<T>(store: StoreName, key: IDBValidKey, value: T): Promise<void> {
+    return run<IDBValidKey>(store, "readwrite", (s) => s.put(value, key)).then(() => undefined);
+}
+
+export function deleteItem(store: StoreName, key: IDBValidKey): Promise<void> {
+    return run<undefined>(store, "readwrite", (s) => s.delete(key)).then(() => undefined);
+}
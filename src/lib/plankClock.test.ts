@@ -0,0 +1,78 @@
+// src/lib/plankClock.test.ts
+import { describe, expect, it } from "vitest";
+import {
+    initialPlankClock,
+    startClock,
+    pauseClock,
+    resumeClock,
+    stopClock,
+    elapsedMs,
+    elapsedSeconds,
+    pausedMs,
+    remainingMs,
+} from "./plankClock";
+
+const T0 = 1_700_000_000_000;
+
+describe("plankClock", () => {
+    it("measures from the first start", () => {
+        const s = startClock(initialPlankClock, T0);
+
+        expect(s.status).toBe("running");
+        expect(elapsedMs(s, T0 + 1_500)).toBe(1_500);
+        expect(elapsedSeconds(s, T0 + 1_999)).toBe(1);
+        expect(elapsedMs(initialPlankClock, T0 + 1_500)).toBe(0);
+    });
+
+    it("freezes while paused and leaves the pause out after resuming", () => {
+        let s = startClock(initialPlankClock, T0);
+        s = pauseClock(s, T0 + 10_000);
+
+        expect(s.status).toBe("paused");
+        expect(elapsedMs(s, T0 + 25_000)).toBe(10_000);
+        expect(pausedMs(s, T0 + 25_000)).toBe(15_000);
+
+        s = resumeClock(s, T0 + 25_000);
+        expect(s.status).toBe("running");
+        expect(elapsedMs(s, T0 + 30_000)).toBe(15_000);
+    });
+
+    it("adds up several pauses", () => {
+        let s = startClock(initialPlankClock, T0);
+        s = pauseClock(s, T0 + 5_000);
+        s = startClock(s, T0 + 8_000); // start while paused resumes
+        s = pauseClock(s, T0 + 12_000);
+        s = resumeClock(s, T0 + 20_000);
+
+        expect(s.pausedMs).toBe(11_000);
+        expect(elapsedMs(s, T0 + 21_000)).toBe(10_000);
+    });
+
+    it("ignores moves that don't apply to the current status", () => {
+        const running = startClock(initialPlankClock, T0);
+
+        expect(startClock(running, T0 + 1_000)).toBe(running);
+        expect(resumeClock(running, T0 + 1_000)).toBe(running);
+        expect(pauseClock(initialPlankClock, T0)).toBe(initialPlankClock);
+        expect(stopClock(initialPlankClock, T0)).toBe(initialPlankClock);
+    });
+
+    it("stops at the moment of the pause when stopped while paused", () => {
+        let s = startClock(initialPlankClock, T0);
+        s = pauseClock(s, T0 + 42_000);
+        s = stopClock(s, T0 + 90_000);
+
+        expect(s.status).toBe("stopped");
+        expect(elapsedSeconds(s, T0 + 120_000)).toBe(42);
+    });
+
+    it("keeps time while the tab is in the background", () => {
+        // nothing ticks in between: a throttled tab only reads the clock again
+        // when it comes back
+        const s = startClock(initialPlankClock, T0);
+
+        expect(elapsedSeconds(s, T0 + 5 * 60_000 + 300)).toBe(300);
+        expect(remainingMs(s, 60, T0 + 5 * 60_000)).toBe(0);
+        expect(remainingMs(s, 60, T0 + 45_000)).toBe(15_000);
+    });
+});
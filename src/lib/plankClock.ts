@@ -0,0 +1,92 @@
+// src/lib/plankClock.ts
+//
+// Timestamp-based timing engine for planks. Elapsed time is always derived
+// from start/pause/resume timestamps instead of counting interval ticks, so a
+// throttled background tab or a busy main thread can delay a re-render but
+// never changes the measured duration.
+
+export type Clock = () => number; // milliseconds
+
+// performance.now() is monotonic (unaffected by wall-clock adjustments);
+// adding timeOrigin keeps the values comparable to Date.now().
+export const systemClock: Clock = () =>
+    typeof performance !== "undefined" && typeof performance.now === "function"
+        ? performance.timeOrigin + performance.now()
+        : Date.now();
+
+export type PlankClockStatus = "idle" | "running" | "paused" | "stopped";
+
+export interface PlankClockState {
+    status: PlankClockStatus;
+    startedAt: number | null;  // first start
+    pausedAt: number | null;   // start of the current pause
+    stoppedAt: number | null;
+    pausedMs: number;          // total time spent paused, excluding the current pause
+}
+
+export const initialPlankClock: PlankClockState = {
+    status: "idle",
+    startedAt: null,
+    pausedAt: null,
+    stoppedAt: null,
+    pausedMs: 0,
+};
+
+export function startClock(state: PlankClockState, now: number): PlankClockState {
+    if (state.status === "running") return state;
+    if (state.status === "paused") return resumeClock(state, now);
+    return { ...initialPlankClock, status: "running", startedAt: now };
+}
+
+export function pauseClock(state: PlankClockState, now: number): PlankClockState {
+    if (state.status !== "running") return state;
+    return { ...state, status: "paused", pausedAt: now };
+}
+
+export function resumeClock(state: PlankClockState, now: number): PlankClockState {
+    if (state.status !== "paused" || state.pausedAt == null) return state;
+    return {
+        ...state,
+        status: "running",
+        pausedAt: null,
+        pausedMs: state.pausedMs + Math.max(0, now - state.pausedAt),
+    };
+}
+
+export function stopClock(state: PlankClockState, now: number): PlankClockState {
+    if (state.status === "idle" || state.status === "stopped") return state;
+    // stopping while paused ends the clock at the moment of the pause
+    const stoppedAt = state.status === "paused" ? state.pausedAt! : now;
+    return { ...state, status: "stopped", stoppedAt };
+}
+
+// total time spent paused, including a pause that is still in progress
+export function pausedMs(state: PlankClockState, now: number): number {
+    if (state.status === "paused" && state.pausedAt != null) {
+        return state.pausedMs + Math.max(0, now - state.pausedAt);
+    }
+    return state.pausedMs;
+}
+
+// active (non-paused) time since the first start
+export function elapsedMs(state: PlankClockState, now: number): number {
+    if (state.startedAt == null) return 0;
+    let end = now;
+    if (state.status === "stopped" && state.stoppedAt != null) end = state.stoppedAt;
+    else if (state.status === "paused" && state.pausedAt != null) end = state.pausedAt;
+    return Math.max(0, end - state.startedAt - state.pausedMs);
+}
+
+// whole seconds, which is what gets stored as planks.duration_s
+export function elapsedSeconds(state: PlankClockState, now: number): number {
+    return Math.floor(elapsedMs(state, now) / 1000);
+}
+
+// remaining time for a countdown towards targetSeconds
+export function remainingMs(
+    state: PlankClockState,
+    targetSeconds: number,
+    now: number
+): number {
+    return Math.max(0, targetSeconds * 1000 - elapsedMs(state, now));
+}
@@ -0,0 +1,101 @@
+// src/lib/plankCues.test.ts
+import { describe, expect, it } from "vitest";
+import {
+    CuePreferences,
+    DEFAULT_CUE_PREFERENCES,
+    cueAt,
+    cuesBetween,
+    spokenDuration,
+    startCountdownCues,
+} from "./plankCues";
+
+const prefs = (overrides: Partial<CuePreferences> = {}): CuePreferences => ({
+    ...DEFAULT_CUE_PREFERENCES,
+    ...overrides,
+});
+
+const kinds = (fromMs: number, toMs: number, p: CuePreferences, target?: number) =>
+    cuesBetween(fromMs, toMs, p, target).map((c) => `${c.kind}@${c.atSecond}`);
+
+describe("plankCues", () => {
+    describe("intervals", () => {
+        it("cues every interval of elapsed time", () => {
+            expect(kinds(0, 95_000, prefs({ intervalSeconds: 30 }))).toEqual([
+                "interval@30",
+                "interval@60",
+                "interval@90",
+            ]);
+            expect(kinds(0, 95_000, prefs({ intervalSeconds: 60 }))).toEqual(["interval@60"]);
+        });
+
+        it("says how long the plank has lasted", () => {
+            expect(cueAt(60, prefs())?.text).toBe("1 minute");
+            expect(spokenDuration(30)).toBe("30 seconds");
+            expect(spokenDuration(135)).toBe("2 minutes 15");
+        });
+
+        it("stays quiet when intervals are off", () => {
+            expect(kinds(0, 120_000, prefs({ intervalSeconds: 0 }))).toEqual([]);
+        });
+    });
+
+    describe("final countdown", () => {
+        it("counts down the last ten seconds and ends on the finish", () => {
+            const cues = cuesBetween(49_000, 60_000, prefs({ intervalSeconds: 0 }), 60);
+
+            expect(cues.map((c) => c.text)).toEqual(["10", "9", "8", "7", "6", "5", "4", "3", "2", "1", "Time"]);
+            expect(cues.at(-1)?.kind).toBe("finish");
+        });
+
+        it("takes over from the interval and halfway cues it overlaps", () => {
+            // 20 s timer: halfway at 10 falls inside the last ten seconds
+            expect(cueAt(10, prefs(), 20)?.kind).toBe("final");
+            expect(cueAt(30, prefs(), 40)?.kind).toBe("final");
+            expect(cueAt(30, prefs(), 60)?.kind).toBe("halfway");
+        });
+
+        it("is skipped when switched off or when the timer is too short for it", () => {
+            expect(kinds(0, 10_000, prefs({ intervalSeconds: 0 }), 10)).toEqual(["finish@10"]);
+            expect(kinds(49_000, 60_000, prefs({ intervalSeconds: 0, finalCountdown: false }), 60)).toEqual([
+                "finish@60",
+            ]);
+        });
+
+        it("has nothing left to say past the target", () => {
+            expect(kinds(60_000, 90_000, prefs(), 60)).toEqual([]);
+        });
+    });
+
+    describe("no repeats", () => {
+        it("cues each second once however the ticks fall", () => {
+            const p = prefs({ intervalSeconds: 15 });
+            const ticks = [0, 250, 14_900, 15_000, 15_250, 15_999, 29_800, 30_100];
+            const cues = ticks.slice(1).flatMap((t, i) => kinds(ticks[i], t, p));
+
+            expect(cues).toEqual(["interval@15", "interval@30"]);
+        });
+
+        it("doesn't repeat cues when a pause holds the clock and a resume picks it up", () => {
+            const p = prefs({ intervalSeconds: 15 });
+            // the clock stops at 15.2 s while paused, then carries on from there
+            const before = kinds(14_000, 15_200, p);
+            const paused = kinds(15_200, 15_200, p);
+            const after = kinds(15_200, 31_000, p);
+
+            expect([...before, ...paused, ...after]).toEqual(["interval@15", "interval@30"]);
+        });
+
+        it("yields nothing when the clock goes backwards", () => {
+            expect(kinds(45_000, 0, prefs())).toEqual([]);
+        });
+    });
+
+    it("counts 3-2-1 before go", () => {
+        expect(startCountdownCues().map((c) => [c.kind, c.atSecond, c.text])).toEqual([
+            ["count", -3, "3"],
+            ["count", -2, "2"],
+            ["count", -1, "1"],
+            ["go", 0, "Go"],
+        ]);
+    });
+});
@@ -0,0 +1,122 @@
+// src/lib/plankCues.ts
+//
+// Audio / haptic cue scheduling for the plank timer. Everything here is pure:
+// given how far the clock moved since the last tick, cuesBetween() says which
+// cues are due. Playing them (Web Audio, speech, vibration) lives in
+// cuePlayer.ts so this module can be tested without a browser.
+
+export type CueInterval = 0 | 15 | 30 | 60;
+
+export interface CuePreferences {
+    sound: boolean;             // beeps
+    speech: boolean;            // spoken milestones (Web Speech API)
+    vibration: boolean;         // navigator.vibrate patterns
+    startCountdown: boolean;    // 3-2-1 before the clock starts
+    intervalSeconds: CueInterval; // 0 = off
+    halfway: boolean;           // timer mode only
+    finalCountdown: boolean;    // last 10 seconds, timer mode only
+}
+
+export const DEFAULT_CUE_PREFERENCES: CuePreferences = {
+    sound: true,
+    speech: false,
+    vibration: true,
+    startCountdown: true,
+    intervalSeconds: 30,
+    halfway: true,
+    finalCountdown: true,
+};
+
+export const START_COUNTDOWN_SECONDS = 3;
+export const FINAL_COUNTDOWN_SECONDS = 10;
+
+export type CueKind = "count" | "go" | "interval" | "halfway" | "final" | "finish";
+
+export interface Cue {
+    kind: CueKind;
+    atSecond: number;   // elapsed second the cue belongs to (negative for the start countdown)
+    text: string;       // what gets spoken
+}
+
+// how each kind sounds and feels
+export interface CueSignal {
+    tones: { hz: number; ms: number }[];
+    vibrate: number[];
+}
+
+export const CUE_SIGNALS: Record<CueKind, CueSignal> = {
+    count: { tones: [{ hz: 660, ms: 120 }], vibrate: [100] },
+    go: { tones: [{ hz: 880, ms: 400 }], vibrate: [300] },
+    interval: { tones: [{ hz: 660, ms: 150 }], vibrate: [150] },
+    halfway: { tones: [{ hz: 660, ms: 120 }, { hz: 880, ms: 120 }], vibrate: [100, 80, 100] },
+    final: { tones: [{ hz: 740, ms: 80 }], vibrate: [50] },
+    finish: { tones: [{ hz: 880, ms: 250 }, { hz: 1175, ms: 450 }], vibrate: [400, 100, 400] },
+};
+
+// "30 seconds", "1 minute", "2 minutes 15"
+export function spokenDuration(totalSeconds: number): string {
+    const m = Math.floor(totalSeconds / 60);
+    const s = totalSeconds % 60;
+    if (m === 0) return `${s} seconds`;
+    const minutes = m === 1 ? "1 minute" : `${m} minutes`;
+    return s === 0 ? minutes : `${minutes} ${s}`;
+}
+
+// the 3-2-1-go shown before the clock starts
+export function startCountdownCues(seconds = START_COUNTDOWN_SECONDS): Cue[] {
+    const cues: Cue[] = [];
+    for (let n = seconds; n >= 1; n--) {
+        cues.push({ kind: "count", atSecond: -n, text: String(n) });
+    }
+    cues.push({ kind: "go", atSecond: 0, text: "Go" });
+    return cues;
+}
+
+// the cue (if any) that belongs to one elapsed second; with a target the
+// finish wins over the final countdown, which wins over halfway and intervals
+export function cueAt(
+    second: number,
+    prefs: CuePreferences,
+    targetSeconds?: number
+): Cue | null {
+    if (second <= 0) return null;
+
+    if (targetSeconds) {
+        const remaining = targetSeconds - second;
+        if (remaining === 0) return { kind: "finish", atSecond: second, text: "Time" };
+        if (remaining < 0) return null;
+        if (prefs.finalCountdown && remaining <= FINAL_COUNTDOWN_SECONDS && targetSeconds > FINAL_COUNTDOWN_SECONDS) {
+            return { kind: "final", atSecond: second, text: String(remaining) };
+        }
+        if (prefs.halfway && targetSeconds >= 20 && second === Math.floor(targetSeconds / 2)) {
+            return { kind: "halfway", atSecond: second, text: "Halfway" };
+        }
+    }
+
+    if (prefs.intervalSeconds > 0 && second % prefs.intervalSeconds === 0) {
+        return { kind: "interval", atSecond: second, text: spokenDuration(second) };
+    }
+    return null;
+}
+
+// cues for every whole second crossed in (fromMs, toMs]; a clock that jumped
+// backwards (reset) or did not move yields nothing
+export function cuesBetween(
+    fromMs: number,
+    toMs: number,
+    prefs: CuePreferences,
+    targetSeconds?: number
+): Cue[] {
+    const from = Math.floor(fromMs / 1000);
+    const to = Math.floor(toMs / 1000);
+    const cues: Cue[] = [];
+    for (let s = from + 1; s <= to; s++) {
+        const cue = cueAt(s, prefs, targetSeconds);
+        if (cue) cues.push(cue);
+    }
+    return cues;
+}
+
+export function hasAnyOutput(prefs: CuePreferences): boolean {
+    return prefs.sound || prefs.speech || prefs.vibration;
+}
@@ -0,0 +1,88 @@
+// src/lib/plankInput.test.ts
+import { describe, expect, it } from "vitest";
+import { validateApiPlank, validatePlankInput } from "./plankInput";
+
+const TODAY = "2026-10-19";
+
+describe("plankInput", () => {
+    it("reads the form's m:ss and date", () => {
+        expect(validatePlankInput({ plank_date: "2026-10-18", time: "1:30" }, TODAY)).toEqual({
+            ok: true,
+            plank_date: "2026-10-18",
+            duration_s: 90,
+        });
+        expect(validatePlankInput({ plank_date: "18/10/2026", time: "1:30" }, TODAY)).toEqual({ ok: false, error: "Invalid date" });
+        expect(validatePlankInput({ plank_date: TODAY, time: "90" }, TODAY)).toEqual({ ok: false, error: "Invalid time format" });
+    });
+
+    it("only takes m:ss the form's pattern allows, with seconds under a minute", () => {
+        for (const time of ["-1:30", "1:75", "1:30:99", "2e1:00", "1:5", "123:00", " 1:30"]) {
+            expect(validatePlankInput({ plank_date: TODAY, time }, TODAY)).toEqual({ ok: false, error: "Invalid time format" });
+        }
+        expect(validatePlankInput({ plank_date: TODAY, time: "0:00" }, TODAY)).toEqual({
+            ok: false,
+            error: "Time must be longer than 0:00",
+        });
+        expect(validatePlankInput({ plank_date: TODAY, time: "00:01" }, TODAY)).toMatchObject({ ok: true, duration_s: 1 });
+    });
+
+    it("only takes days that exist, up to today", () => {
+        for (const plank_date of ["2026-02-31", "2026-13-01", "2026-00-10"]) {
+            expect(validatePlankInput({ plank_date, time: "1:30" }, TODAY)).toEqual({ ok: false, error: "Invalid date" });
+        }
+        for (const plank_date of ["2026-10-20", "2099-01-01"]) {
+            expect(validatePlankInput({ plank_date, time: "1:30" }, TODAY)).toEqual({
+                ok: false,
+                error: "Date can't be in the future",
+            });
+        }
+        expect(validatePlankInput({ plank_date: "2024-02-29", time: "1:30" }, TODAY)).toMatchObject({ ok: true });
+    });
+
+    it("takes the API's time or whole seconds, dated today unless told otherwise", () => {
+        expect(validateApiPlank({ time: "1:30" }, TODAY)).toEqual({
+            ok: true,
+            plank_date: TODAY,
+            duration_s: 90,
+            variant_id: null,
+            client_id: null,
+        });
+        expect(validateApiPlank({ duration_s: 90, date: "2026-10-18" }, TODAY)).toMatchObject({
+            ok: true,
+            plank_date: "2026-10-18",
+            duration_s: 90,
+        });
+    });
+
+    it("only takes a positive whole number of seconds", () => {
+        for (const duration_s of [0, -30, 90.5, "90", Number.NaN, Number.POSITIVE_INFINITY, null]) {
+            expect(validateApiPlank({ duration_s }, TODAY)).toEqual({
+                ok: false,
+                error: "duration_s must be a positive whole number of seconds",
+            });
+        }
+    });
+
+    it("checks the date, variant and client id the API was sent", () => {
+        expect(validateApiPlank({ duration_s: 90, date: "yesterday" }, TODAY)).toEqual({ ok: false, error: "Invalid date" });
+        expect(validateApiPlank({ duration_s: 90, date: "2026-02-31" }, TODAY)).toEqual({ ok: false, error: "Invalid date" });
+        expect(validateApiPlank({ duration_s: 90, date: "2099-01-01" }, TODAY)).toEqual({
+            ok: false,
+            error: "Date can't be in the future",
+        });
+        expect(validateApiPlank({ time: "1:75" }, TODAY)).toEqual({ ok: false, error: "Invalid time format" });
+        expect(validateApiPlank({ duration_s: 90, variant_id: "1" }, TODAY)).toMatchObject({ ok: false });
+        expect(validateApiPlank({ duration_s: 90, variant_id: 1.5 }, TODAY)).toMatchObject({ ok: false });
+        expect(validateApiPlank({ duration_s: 90, client_id: "abc" }, TODAY)).toEqual({
+            ok: false,
+            error: "client_id must be a UUID",
+        });
+
+        const clientId = "5f0c2a8e-3b1d-4c6e-9a7f-2d8b1e4c6a90";
+        expect(validateApiPlank({ duration_s: 90, variant_id: 2, client_id: clientId }, TODAY)).toMatchObject({
+            ok: true,
+            variant_id: 2,
+            client_id: clientId,
+        });
+    });
+});
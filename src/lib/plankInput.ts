@@ -0,0 +1,5 @@
+// src/lib/plankInput.ts
+//
+// Plank validation is shared with the HTTP API and lives with the Edge
+// Functions, which can't import from src.
+export * from "../../supabase/functions/_shared/plankInput";
@@ -0,0 +1,358 @@
+// src/lib/plankOutbox.ts
+//
+// Outbox for completed planks and workout sessions. Every entry is written to IndexedDB first and
+// then synced to Supabase, so planks logged without connectivity are kept on
+// the device and retried with exponential backoff. Each entry carries a
+// client-generated id that is stored in planks.client_id, which makes a retry
+// after a lost response a no-op instead of a duplicate plank.
+
+import type { TypedSupabaseClient } from "@/integrations/supabase/client";
+import { storageBucket } from "@/integrations/supabase/storage";
+import { getAllItems, getItem, putItem, deleteItem } from "@/lib/localDb";
+
+export type OutboxStatus = "pending" | "syncing" | "failed";
+
+// one hold of a queued workout session
+export interface OutboxSet {
+    client_id: string;
+    set_index: number;
+    duration_s: number;
+    target_s: number;
+    variant_id: number;
+    side: string | null;
+    weight_kg: number | null;
+    form_score?: number | null;
+}
+
+export interface OutboxPlank {
+    id: string;              // idempotency key, saved as planks.client_id (workout_sessions.client_id for workouts)
+    kind?: "plank" | "workout"; // missing on entries queued before workouts existed
+    user_id: string;
+    duration_s: number;      // total hold time for workouts
+    plank_date: string;      // YYYY-MM-DD, fixed when the plank was logged
+    variant_id?: number;
+    side?: string | null;
+    weight_kg?: number | null;
+    form_score?: number | null; // 0..100 from camera form detection
+    sets?: OutboxSet[];
+    rest_s?: number;
+    snapshots: Blob[];
+    snapshot_times?: number[]; // capture time of each snapshot, epoch ms
+    created_at: number;
+    status: OutboxStatus;
+    attempts: number;
+    next_attempt_at: number;
+    last_error?: string;
+}
+
+export interface NewOutboxPlank {
+    user_id: string;
+    duration_s: number;
+    plank_date: string;
+    variant_id?: number;
+    side?: string | null;
+    weight_kg?: number | null;
+    form_score?: number | null;
+    snapshots?: Blob[];
+    snapshot_times?: number[];
+}
+
+export interface NewOutboxWorkout {
+    user_id: string;
+    plank_date: string;
+    sets: Omit<OutboxSet, "client_id">[];
+    rest_s: number;
+    snapshots?: Blob[];
+    snapshot_times?: number[];
+}
+
+const BASE_RETRY_MS = 5_000;
+const MAX_RETRY_MS = 10 * 60_000;
+// after this many failed attempts the entry waits for a manual retry
+const MAX_ATTEMPTS = 8;
+
+// --- change notifications for the UI ---
+const listeners = new Set<() => void>();
+
+export function subscribeOutbox(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+function notify() {
+    listeners.forEach((l) => l());
+}
+
+export function retryDelayMs(attempts: number): number {
+    return Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+export async function listQueuedPlanks(userId?: string): Promise<OutboxPlank[]> {
+    const all = await getAllItems<OutboxPlank>("outbox");
+    return all
+        .filter((p) => !userId || p.user_id === userId)
+        .sort((a, b) => b.created_at - a.created_at);
+}
+
+async function enqueue(entry: OutboxPlank): Promise<OutboxPlank> {
+    await putItem("outbox", entry.id, entry);
+    notify();
+    return entry;
+}
+
+export function queuePlank(input: NewOutboxPlank): Promise<OutboxPlank> {
+    return enqueue({
+        id: crypto.randomUUID(),
+        kind: "plank",
+        user_id: input.user_id,
+        duration_s: input.duration_s,
+        plank_date: input.plank_date,
+        variant_id: input.variant_id,
+        side: input.side ?? null,
+        weight_kg: input.weight_kg ?? null,
+        form_score: input.form_score ?? null,
+        snapshots: input.snapshots ?? [],
+        snapshot_times: input.snapshot_times ?? [],
+        created_at: Date.now(),
+        status: "pending",
+        attempts: 0,
+        next_attempt_at: 0,
+    });
+}
+
+export function queueWorkout(input: NewOutboxWorkout): Promise<OutboxPlank> {
+    return enqueue({
+        id: crypto.randomUUID(),
+        kind: "workout",
+        user_id: input.user_id,
+        duration_s: input.sets.reduce((sum, s) => sum + s.duration_s, 0),
+        plank_date: input.plank_date,
+        sets: input.sets.map((s) => ({ ...s, client_id: crypto.randomUUID() })),
+        rest_s: input.rest_s,
+        snapshots: input.snapshots ?? [],
+        snapshot_times: input.snapshot_times ?? [],
+        created_at: Date.now(),
+        status: "pending",
+        attempts: 0,
+        next_attempt_at: 0,
+    });
+}
+
+export async function retryQueuedPlank(client: TypedSupabaseClient, id: string): Promise<void> {
+    const entry = await getItem<OutboxPlank>("outbox", id);
+    if (!entry) return;
+    await putItem("outbox", id, { ...entry, status: "pending", attempts: 0, next_attempt_at: 0 });
+    notify();
+    await syncOutbox(client);
+}
+
+export async function discardQueuedPlank(id: string): Promise<void> {
+    await deleteItem("outbox", id);
+    notify();
+}
+
+// pushes one entry to Supabase; every step is safe to repeat
+async function pushPlank(client: TypedSupabaseClient, entry: OutboxPlank): Promise<void> {
+    // 1) insert the plank unless this client id already made it
+    const { error: upsertErr } = await client
+        .from("planks")
+        .upsert(
+            {
+                client_id: entry.id,
+                user_id: entry.user_id,
+                duration_s: entry.duration_s,
+                plank_date: entry.plank_date,
+                // entries queued before variants existed fall back to the column default
+                ...(entry.variant_id != null && {
+                    variant_id: entry.variant_id,
+                    side: entry.side ?? null,
+                    weight_kg: entry.weight_kg ?? null,
+                }),
+                ...(entry.form_score != null && { form_score: entry.form_score }),
+            },
+            { onConflict: "client_id", ignoreDuplicates: true }
+        );
+    if (upsertErr) throw upsertErr;
+
+    const { data: plank, error: plankErr } = await client
+        .from("planks")
+        .select("id")
+        .eq("client_id", entry.id)
+        .single();
+    if (plankErr || !plank) throw plankErr || new Error("Plank not found after insert");
+
+    // 2) snapshots, which double as verification evidence
+    const paths = await attachSnapshots(client, entry.user_id, plank.id, entry.snapshots);
+    await submitEvidence(client, entry, plank.id, paths, entry.form_score ?? null);
+}
+
+// pushes a workout session and its holds; every step is safe to repeat
+async function pushWorkout(client: TypedSupabaseClient, entry: OutboxPlank): Promise<void> {
+    const sets = entry.sets ?? [];
+
+    // 1) the session row
+    const { error: upsertErr } = await client
+        .from("workout_sessions")
+        .upsert(
+            {
+                client_id: entry.id,
+                user_id: entry.user_id,
+                plank_date: entry.plank_date,
+                set_count: sets.length,
+                total_hold_s: entry.duration_s,
+                total_rest_s: entry.rest_s ?? 0,
+            },
+            { onConflict: "client_id", ignoreDuplicates: true }
+        );
+    if (upsertErr) throw upsertErr;
+
+    const { data: session, error: sessionErr } = await client
+        .from("workout_sessions")
+        .select("id")
+        .eq("client_id", entry.id)
+        .single();
+    if (sessionErr || !session) throw sessionErr || new Error("Workout session not found after insert");
+
+    // 2) one plank per hold
+    const { error: setsErr } = await client.from("planks").upsert(
+        sets.map((s) => ({
+            client_id: s.client_id,
+            user_id: entry.user_id,
+            plank_date: entry.plank_date,
+            duration_s: s.duration_s,
+            target_s: s.target_s,
+            variant_id: s.variant_id,
+            side: s.side,
+            weight_kg: s.weight_kg,
+            form_score: s.form_score ?? null,
+            workout_session_id: session.id,
+            set_index: s.set_index,
+        })),
+        { onConflict: "client_id", ignoreDuplicates: true }
+    );
+    if (setsErr) throw setsErr;
+
+    // 3) snapshots go on the first hold
+    if (!entry.snapshots.length || !sets.length) return;
+    const { data: first, error: firstErr } = await client
+        .from("planks")
+        .select("id")
+        .eq("client_id", sets[0].client_id)
+        .single();
+    if (firstErr || !first) throw firstErr || new Error("First set not found after insert");
+    const paths = await attachSnapshots(client, entry.user_id, first.id, entry.snapshots);
+    await submitEvidence(client, entry, first.id, paths, sets[0].form_score ?? null);
+}
+
+// uploads snapshots under deterministic names (overwriting partial uploads)
+// and stores their paths on the plank
+async function attachSnapshots(client: TypedSupabaseClient, userId: string, plankId: number, snapshots: Blob[]): Promise<string[]> {
+    if (!snapshots.length) return [];
+
+    const photoPaths: string[] = [];
+    for (let i = 0; i < snapshots.length; i++) {
+        const fileName = `${userId}_${plankId}_${i}.png`;
+        const { data: uploadData, error: uploadErr } = await storageBucket(client, "plank-photos")
+            .upload(fileName, snapshots[i], { cacheControl: "3600", upsert: true });
+        if (uploadErr) throw uploadErr;
+        photoPaths.push(uploadData.path);
+    }
+
+    const { error: updateErr } = await client
+        .from("planks")
+        .update({ photos: photoPaths })
+        .eq("id", plankId);
+    if (updateErr) throw updateErr;
+    return photoPaths;
+}
+
+// records the camera evidence for a plank, which puts it in the review queue
+async function submitEvidence(
+    client: TypedSupabaseClient,
+    entry: OutboxPlank,
+    plankId: number,
+    paths: string[],
+    formScore: number | null
+): Promise<void> {
+    if (!paths.length) return;
+    // entries queued before capture times were kept fall back to the log time
+    const times = paths.map((_, i) => new Date(entry.snapshot_times?.[i] ?? entry.created_at).toISOString());
+    const { error } = await client.from("plank_verifications").upsert(
+        {
+            plank_id: plankId,
+            user_id: entry.user_id,
+            snapshot_paths: paths,
+            captured_at: times,
+            form_score: formScore,
+        },
+        { onConflict: "plank_id", ignoreDuplicates: true }
+    );
+    if (error) throw error;
+}
+
+let running: Promise<string[]> | null = null;
+
+// Syncs every entry that is due. Returns the ids that reached the server.
+// Concurrent calls share the same run.
+export function syncOutbox(client: TypedSupabaseClient): Promise<string[]> {
+    if (!running) {
+        running = runSync(client).finally(() => {
+            running = null;
+        });
+    }
+    return running;
+}
+
+async function runSync(client: TypedSupabaseClient): Promise<string[]> {
+    if (typeof navigator !== "undefined" && navigator.onLine === false) return [];
+
+    const now = Date.now();
+    const due = (await getAllItems<OutboxPlank>("outbox")).filter(
+        (p) => p.status !== "failed" && p.next_attempt_at <= now
+    );
+    const synced: string[] = [];
+
+    for (const entry of due) {
+        await putItem("outbox", entry.id, { ...entry, status: "syncing" });
+        notify();
+        try {
+            if (entry.kind === "workout") await pushWorkout(client, entry);
+            else await pushPlank(client, entry);
+            await deleteItem("outbox", entry.id);
+            synced.push(entry.id);
+        } catch (err) {
+            console.error("Could not sync plank:", err);
+            const attempts = entry.attempts + 1;
+            await putItem("outbox", entry.id, {
+                ...entry,
+                attempts,
+                status: attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+                next_attempt_at: Date.now() + retryDelayMs(attempts),
+                last_error: (err as { message?: string })?.message ?? String(err),
+            });
+        }
+        notify();
+    }
+
+    return synced;
+}
+
+async function submit(client: TypedSupabaseClient, entry: OutboxPlank): Promise<"synced" | "queued"> {
+    // a run that started before the entry was queued would not pick it up
+    if (running) await running;
+    const synced = await syncOutbox(client);
+    return synced.includes(entry.id) ? "synced" : "queued";
+}
+
+// Queues a plank and tries to send it right away.
+// "synced" means it is on the server, "queued" that it will be retried later.
+export async function savePlank(client: TypedSupabaseClient, input: NewOutboxPlank): Promise<"synced" | "queued"> {
+    return submit(client, await queuePlank(input));
+}
+
+// Same as savePlank, for a whole workout session.
+export async function saveWorkout(client: TypedSupabaseClient, input: NewOutboxWorkout): Promise<"synced" | "queued"> {
+    return submit(client, await queueWorkout(input));
+}
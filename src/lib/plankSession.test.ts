@@ -0,0 +1,53 @@
+// src/lib/plankSession.test.ts
+import { describe, expect, it } from "vitest";
+import { startClock, initialPlankClock, pauseClock } from "./plankClock";
+import {
+    StoredPlankSession,
+    restoredClock,
+    sessionDurationSeconds,
+    sessionPlankDate,
+} from "./plankSession";
+
+// wall-clock time at the last heartbeat
+const EPOCH = new Date(2025, 4, 3, 12, 0, 0).getTime();
+// the plank clock's time base, a long way off the wall clock (a device that
+// slept, or a system clock that was changed)
+const CLOCK = 5_000_000;
+
+const session = (overrides: Partial<StoredPlankSession>): StoredPlankSession => ({
+    mode: "stopwatch",
+    targetSeconds: 0,
+    clock: startClock(initialPlankClock, CLOCK - 90_000),
+    vowCheat: true,
+    snapshots: [],
+    lastSeenAt: EPOCH,
+    clockSeenAt: CLOCK,
+    ...overrides,
+});
+
+describe("plankSession", () => {
+    it("restores a running clock paused at the heartbeat, on the clock's own time base", () => {
+        const restored = restoredClock(session({}));
+
+        expect(restored).toMatchObject({ status: "paused", pausedAt: CLOCK });
+        expect(sessionDurationSeconds(session({}))).toBe(90);
+    });
+
+    it("leaves a paused clock as it was", () => {
+        const clock = pauseClock(startClock(initialPlankClock, CLOCK - 90_000), CLOCK - 30_000);
+
+        expect(restoredClock(session({ clock }))).toBe(clock);
+        expect(sessionDurationSeconds(session({ clock }))).toBe(60);
+    });
+
+    it("caps a countdown at its target", () => {
+        expect(sessionDurationSeconds(session({ mode: "timer", targetSeconds: 60 }))).toBe(60);
+    });
+
+    it("dates the plank by when it started on the wall clock", () => {
+        const overnight = session({ clock: startClock(initialPlankClock, CLOCK - 13 * 60 * 60_000) });
+
+        expect(sessionPlankDate(session({}))).toBe("2025-05-03");
+        expect(sessionPlankDate(overnight)).toBe("2025-05-02");
+    });
+});
@@ -0,0 +1,145 @@
+// src/lib/plankSession.ts
+//
+// Persists the in-progress PlankTimer session so a reload or a killed tab
+// doesn't lose the plank. Snapshots are stored as Blobs in IndexedDB; when
+// IndexedDB is unavailable the session falls back to localStorage without
+// snapshots.
+
+import { PlankClockState, elapsedMs } from "@/lib/plankClock";
+import { isLocalDbAvailable, getItem, putItem, deleteItem } from "@/lib/localDb";
+import { toLocalDateString } from "@/lib/utils";
+import { PlankVariantChoice } from "@/lib/plankVariants";
+import { WorkoutSet, WorkoutPhase, WorkoutHold, phaseSeconds } from "@/lib/workout";
+
+// progress through a multi-set workout; the clock times the current phase
+export interface StoredWorkout {
+    plan: WorkoutSet[];
+    phase: WorkoutPhase;
+    holds: WorkoutHold[];
+    restSeconds: number;   // rest taken so far
+}
+
+export interface StoredPlankSession {
+    mode: "stopwatch" | "timer" | "session";
+    targetSeconds: number;  // countdown length, 0 in stopwatch mode
+    clock: PlankClockState;
+    vowCheat: boolean;
+    variant?: PlankVariantChoice;
+    workout?: StoredWorkout;
+    snapshots: Blob[];
+    snapshotTimes?: number[];   // capture time of each snapshot, epoch ms
+    lastSeenAt: number;     // last heartbeat, epoch ms
+    // the same heartbeat read from the clock's own time source, which is what
+    // `clock` is measured in (missing from sessions saved before it existed)
+    clockSeenAt?: number;
+}
+
+export interface SessionLimits {
+    // sessions younger than this can be resumed where they left off
+    resumeWithinMs: number;
+    // older sessions are discarded without asking
+    discardAfterMs: number;
+}
+
+export const DEFAULT_SESSION_LIMITS: SessionLimits = {
+    resumeWithinMs: 30 * 60_000,
+    discardAfterMs: 7 * 24 * 60 * 60_000,
+};
+
+export type SessionFreshness = "resumable" | "stale" | "expired";
+
+const SESSION_KEY = "active";
+const FALLBACK_KEY = "plank-session";
+
+export async function saveActiveSession(session: StoredPlankSession): Promise<void> {
+    if (isLocalDbAvailable()) {
+        await putItem("sessions", SESSION_KEY, session);
+    } else {
+        localStorage.setItem(FALLBACK_KEY, JSON.stringify({ ...session, snapshots: [], snapshotTimes: [] }));
+    }
+}
+
+export async function loadActiveSession(): Promise<StoredPlankSession | null> {
+    if (isLocalDbAvailable()) {
+        return (await getItem<StoredPlankSession>("sessions", SESSION_KEY)) ?? null;
+    }
+    const raw = localStorage.getItem(FALLBACK_KEY);
+    return raw ? (JSON.parse(raw) as StoredPlankSession) : null;
+}
+
+export async function clearActiveSession(): Promise<void> {
+    if (isLocalDbAvailable()) {
+        await deleteItem("sessions", SESSION_KEY);
+    } else {
+        localStorage.removeItem(FALLBACK_KEY);
+    }
+}
+
+export function classifySession(
+    session: StoredPlankSession,
+    now: number,
+    limits: SessionLimits = DEFAULT_SESSION_LIMITS
+): SessionFreshness {
+    const age = now - session.lastSeenAt;
+    if (age > limits.discardAfterMs) return "expired";
+    if (age > limits.resumeWithinMs) return "stale";
+    return "resumable";
+}
+
+// when the last heartbeat happened, on the clock's time source
+function clockSeenAt(session: StoredPlankSession): number {
+    return session.clockSeenAt ?? session.lastSeenAt;
+}
+
+// The page was gone between the last heartbeat and now, so a running clock
+// is restored as paused at the heartbeat instead of counting the gap.
+export function restoredClock(session: StoredPlankSession): PlankClockState {
+    const { clock } = session;
+    if (clock.status === "running") {
+        return { ...clock, status: "paused", pausedAt: clockSeenAt(session) };
+    }
+    return clock;
+}
+
+// whole seconds of the current phase before the session was interrupted
+function interruptedSeconds(session: StoredPlankSession): number {
+    const clock = restoredClock(session);
+    return Math.floor(elapsedMs(clock, clockSeenAt(session)) / 1000);
+}
+
+// the workout's finished holds plus the hold that was interrupted, if any
+export function sessionWorkoutHolds(session: StoredPlankSession): WorkoutHold[] {
+    const workout = session.workout;
+    if (!workout) return [];
+    const { plan, phase, holds } = workout;
+    const partial = phase.kind === "hold" ? interruptedSeconds(session) : 0;
+    if (partial <= 0) return holds;
+    const target = phaseSeconds(plan, phase);
+    return [
+        ...holds,
+        {
+            setIndex: phase.setIndex,
+            durationSeconds: Math.min(partial, target),
+            targetSeconds: target,
+            variant: plan[phase.setIndex].variant,
+        },
+    ];
+}
+
+// whole seconds held before the session was interrupted
+export function sessionDurationSeconds(session: StoredPlankSession): number {
+    if (session.mode === "session") {
+        return sessionWorkoutHolds(session).reduce((sum, h) => sum + h.durationSeconds, 0);
+    }
+    const seconds = interruptedSeconds(session);
+    return session.mode === "timer" ? Math.min(seconds, session.targetSeconds) : seconds;
+}
+
+// local YYYY-MM-DD of the day the session started, for planks.plank_date
+export function sessionPlankDate(session: StoredPlankSession): string {
+    const { startedAt } = session.clock;
+    // carried over to wall-clock time through the heartbeat both were read at
+    const startedAtEpoch =
+        startedAt == null ? session.lastSeenAt : session.lastSeenAt - (clockSeenAt(session) - startedAt);
+    return toLocalDateString(new Date(startedAtEpoch));
+}
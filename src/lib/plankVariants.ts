@@ -0,0 +1,44 @@
+// src/lib/plankVariants.ts
+import type { Tables } from "@/integrations/supabase/types";
+
+export type PlankVariant = Tables<"plank_variants">;
+export type PlankSide = "left" | "right";
+
+// what the user picked for a single plank
+export interface PlankVariantChoice {
+    variantId: number;
+    side: PlankSide | null;     // only for sided variants
+    weightKg: number | null;    // added weight, if any
+}
+
+// the standard forearm plank; planks logged before variants existed use it too
+export const DEFAULT_VARIANT_ID = 1;
+
+export const DEFAULT_VARIANT_CHOICE: PlankVariantChoice = {
+    variantId: DEFAULT_VARIANT_ID,
+    side: null,
+    weightKg: null,
+};
+
+// columns to write on planks for a choice; side is dropped for unsided variants
+export function variantColumns(choice: PlankVariantChoice, variants: PlankVariant[] = []) {
+    const variant = variants.find((v) => v.id === choice.variantId);
+    const sided = variant ? variant.is_sided : choice.side != null;
+    return {
+        variant_id: choice.variantId,
+        side: sided ? choice.side : null,
+        weight_kg: choice.weightKg && choice.weightKg > 0 ? choice.weightKg : null,
+    };
+}
+
+// e.g. "Side (left) · +10 kg"
+export function describeVariant(
+    name: string | undefined,
+    side?: PlankSide | string | null,
+    weightKg?: number | null
+): string {
+    let label = name ?? "Forearm";
+    if (side) label += ` (${side})`;
+    if (weightKg) label += ` · +${weightKg} kg`;
+    return label;
+}
@@ -0,0 +1,15 @@
+// src/lib/plankVerification.ts
+//
+// Verification status of a plank. Camera planks are submitted with evidence
+// (see plankOutbox.ts) and become "pending"; reviewers verify or reject them.
+
+import { Enums } from "@/integrations/supabase/types";
+
+export type VerificationStatus = Enums<"plank_verification_status">;
+
+export const VERIFICATION_LABELS: Record<VerificationStatus, string> = {
+    unverified: "Unverified",
+    pending: "Pending review",
+    verified: "Verified",
+    rejected: "Rejected",
+};
@@ -0,0 +1,90 @@
+// src/lib/poseGeometry.test.ts
+import { describe, expect, it } from "vitest";
+import { assessPlankForm, angleAt, formScoreFromAngle, pickSide, tiltFromHorizontal } from "./poseGeometry";
+import { PIKED, SAGGING, STANDING, STRAIGHT, mirrored, sidePose } from "@/test/poses";
+
+describe("poseGeometry", () => {
+    it("measures angles and tilt", () => {
+        expect(angleAt({ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 })).toBeCloseTo(180);
+        expect(angleAt({ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 })).toBeCloseTo(90);
+        expect(tiltFromHorizontal({ x: 0, y: 0 }, { x: -10, y: 0 })).toBeCloseTo(0);
+        expect(tiltFromHorizontal({ x: 0, y: 0 }, { x: 0, y: 10 })).toBeCloseTo(90);
+        expect(formScoreFromAngle(180)).toBe(100);
+        expect(formScoreFromAngle(170)).toBe(70);
+        expect(formScoreFromAngle(100)).toBe(0);
+    });
+
+    it("passes a straight body", () => {
+        const form = assessPlankForm(sidePose(STRAIGHT));
+
+        expect(form.status).toBe("good");
+        expect(form.bodyLineDeg).toBeCloseTo(180, 0);
+        expect(form.hipOffset).toBeCloseTo(0, 2);
+        expect(form.score).toBe(100);
+    });
+
+    it("calls out sagging hips", () => {
+        const form = assessPlankForm(sidePose(SAGGING));
+
+        expect(form.status).toBe("sag");
+        expect(form.hipOffset).toBeGreaterThan(0);
+        expect(form.score).toBeLessThan(100);
+    });
+
+    it("calls out piked hips", () => {
+        const form = assessPlankForm(sidePose(PIKED));
+
+        expect(form.status).toBe("pike");
+        expect(form.hipOffset).toBeLessThan(0);
+        expect(form.score).toBeLessThan(100);
+    });
+
+    it("reads the same form whichever way the body faces", () => {
+        for (const [joints, status] of [
+            [STRAIGHT, "good"],
+            [SAGGING, "sag"],
+            [PIKED, "pike"],
+        ] as const) {
+            const right = assessPlankForm(sidePose(joints));
+            const left = assessPlankForm(sidePose(mirrored(joints), { side: "right" }));
+
+            expect(left.status).toBe(status);
+            expect(left.hipOffset).toBeCloseTo(right.hipOffset!, 5);
+            expect(left.score).toBe(right.score);
+        }
+    });
+
+    it("doesn't take standing for a plank", () => {
+        const form = assessPlankForm(sidePose(STANDING));
+
+        expect(form.status).toBe("not-plank");
+        expect(form.score).toBe(0);
+    });
+
+    it("ignores keypoints the detector wasn't sure of", () => {
+        expect(assessPlankForm(sidePose(STRAIGHT, { score: 0.2 }))).toMatchObject({
+            status: "no-pose",
+            bodyLineDeg: null,
+            score: 0,
+        });
+        expect(assessPlankForm([])).toMatchObject({ status: "no-pose" });
+
+        // the far side's low scores never beat the side the camera sees
+        expect(pickSide(sidePose(STRAIGHT, { side: "right" }))?.side).toBe("right");
+    });
+
+    it("needs shoulder, hip and ankle seen on the same side", () => {
+        const keypoints = sidePose(SAGGING).map((k) =>
+            k.name === "right_hip" ? { ...k, score: 0.95 } : k.name === "left_hip" ? { ...k, score: 0.2 } : k
+        );
+
+        expect(assessPlankForm(keypoints).status).toBe("no-pose");
+    });
+
+    it("does without a knee it can't see", () => {
+        const keypoints = sidePose(STRAIGHT).map((k) => (k.name === "left_knee" ? { ...k, score: 0.1 } : k));
+
+        expect(pickSide(keypoints)?.knee).toBeNull();
+        expect(assessPlankForm(keypoints).status).toBe("good");
+    });
+});
@@ -0,0 +1,145 @@
+// src/lib/poseGeometry.ts
+//
+// Plank form from 2D pose keypoints. Pure functions only: the pose worker
+// feeds them MoveNet keypoints, and they can be checked against fixture
+// poses without a camera. Image coordinates: x grows right, y grows down.
+
+export interface Keypoint {
+    x: number;
+    y: number;
+    score?: number;     // detector confidence, 0..1
+    name?: string;      // MoveNet name, e.g. "left_hip"
+}
+
+// the joints of whichever side of the body faces the camera
+export interface SideKeypoints {
+    side: "left" | "right";
+    shoulder: Keypoint;
+    hip: Keypoint;
+    knee: Keypoint | null;
+    ankle: Keypoint;
+}
+
+export type FormStatus = "good" | "sag" | "pike" | "not-plank" | "no-pose";
+
+export interface FormAssessment {
+    status: FormStatus;
+    bodyLineDeg: number | null;   // shoulder–hip–ankle angle, 180 = straight
+    hipOffset: number | null;     // hip distance from the shoulder–ankle line / body length; + = sag
+    tiltDeg: number | null;       // shoulder–ankle line vs horizontal
+    score: number;                // 0..100 for this frame
+}
+
+export interface FormThresholds {
+    minKeypointScore: number;
+    maxTiltDeg: number;     // steeper than this is standing or kneeling, not a plank
+    maxSagOffset: number;
+    maxPikeOffset: number;
+}
+
+export const DEFAULT_FORM_THRESHOLDS: FormThresholds = {
+    minKeypointScore: 0.3,
+    maxTiltDeg: 35,
+    maxSagOffset: 0.06,
+    maxPikeOffset: 0.08,
+};
+
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+// angle at b between b→a and b→c, in degrees (0..180)
+export function angleAt(a: Keypoint, b: Keypoint, c: Keypoint): number {
+    const abx = a.x - b.x;
+    const aby = a.y - b.y;
+    const cbx = c.x - b.x;
+    const cby = c.y - b.y;
+    const lengths = Math.hypot(abx, aby) * Math.hypot(cbx, cby);
+    if (lengths === 0) return 0;
+    const cos = Math.min(1, Math.max(-1, (abx * cbx + aby * cby) / lengths));
+    return toDegrees(Math.acos(cos));
+}
+
+// how far the line a→b is from horizontal, ignoring direction (0..90)
+export function tiltFromHorizontal(a: Keypoint, b: Keypoint): number {
+    const deg = Math.abs(toDegrees(Math.atan2(b.y - a.y, b.x - a.x)));
+    return deg > 90 ? 180 - deg : deg;
+}
+
+// signed distance of the hip from the shoulder–ankle line, relative to the
+// line's length: positive when the hip hangs below it (sag), negative when it
+// sticks up (pike)
+export function hipOffset(shoulder: Keypoint, hip: Keypoint, ankle: Keypoint): number {
+    const dx = ankle.x - shoulder.x;
+    const dy = ankle.y - shoulder.y;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) return 0;
+    const cross = dx * (hip.y - shoulder.y) - dy * (hip.x - shoulder.x);
+    // the cross product's sign depends on which way the body points
+    return (Math.sign(dx) || 1) * (cross / (length * length));
+}
+
+// 100 for a straight line, losing 3 points per degree of bend
+export function formScoreFromAngle(bodyLineDeg: number): number {
+    return Math.max(0, Math.min(100, Math.round(100 - (180 - bodyLineDeg) * 3)));
+}
+
+function findKeypoint(keypoints: Keypoint[], name: string): Keypoint | undefined {
+    return keypoints.find((k) => k.name === name);
+}
+
+// the side whose shoulder, hip and ankle were all seen with the higher confidence
+export function pickSide(
+    keypoints: Keypoint[],
+    minScore = DEFAULT_FORM_THRESHOLDS.minKeypointScore
+): SideKeypoints | null {
+    const candidates = (["left", "right"] as const).map((side) => {
+        const shoulder = findKeypoint(keypoints, `${side}_shoulder`);
+        const hip = findKeypoint(keypoints, `${side}_hip`);
+        const ankle = findKeypoint(keypoints, `${side}_ankle`);
+        const knee = findKeypoint(keypoints, `${side}_knee`);
+        if (!shoulder || !hip || !ankle) return null;
+        const core = [shoulder, hip, ankle];
+        if (core.some((k) => (k.score ?? 1) < minScore)) return null;
+        return {
+            side,
+            shoulder,
+            hip,
+            ankle,
+            knee: knee && (knee.score ?? 1) >= minScore ? knee : null,
+            confidence: core.reduce((sum, k) => sum + (k.score ?? 1), 0),
+        };
+    });
+
+    const best = candidates
+        .filter((c): c is NonNullable<typeof c> => c != null)
+        .sort((a, b) => b.confidence - a.confidence)[0];
+    if (!best) return null;
+    const { confidence: _confidence, ...side } = best;
+    return side;
+}
+
+export function assessPlankForm(
+    keypoints: Keypoint[],
+    thresholds: FormThresholds = DEFAULT_FORM_THRESHOLDS
+): FormAssessment {
+    const body = pickSide(keypoints, thresholds.minKeypointScore);
+    if (!body) {
+        return { status: "no-pose", bodyLineDeg: null, hipOffset: null, tiltDeg: null, score: 0 };
+    }
+
+    const tiltDeg = tiltFromHorizontal(body.shoulder, body.ankle);
+    const bodyLineDeg = angleAt(body.shoulder, body.hip, body.ankle);
+    const offset = hipOffset(body.shoulder, body.hip, body.ankle);
+
+    let status: FormStatus = "good";
+    if (tiltDeg > thresholds.maxTiltDeg) status = "not-plank";
+    else if (offset > thresholds.maxSagOffset) status = "sag";
+    else if (offset < -thresholds.maxPikeOffset) status = "pike";
+
+    return {
+        status,
+        bodyLineDeg,
+        hipOffset: offset,
+        tiltDeg,
+        score: status === "not-plank" ? 0 : formScoreFromAngle(bodyLineDeg),
+    };
+}
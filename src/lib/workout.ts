@@ -0,0 +1,69 @@
+// src/lib/workout.ts
+//
+// Multi-set workout sessions: a plan of holds separated by rests. The runner
+// in PlankTimer times one phase at a time with the plank clock and uses these
+// helpers to move through the plan.
+
+import { PlankVariantChoice, DEFAULT_VARIANT_CHOICE } from "@/lib/plankVariants";
+
+export interface WorkoutSet {
+    holdSeconds: number;        // target hold
+    restSeconds: number;        // rest after this set (ignored for the last set)
+    variant: PlankVariantChoice;
+}
+
+export interface WorkoutPhase {
+    kind: "hold" | "rest";
+    setIndex: number;
+}
+
+// a finished (or cut short) hold
+export interface WorkoutHold {
+    setIndex: number;
+    durationSeconds: number;
+    targetSeconds: number;
+    variant: PlankVariantChoice;
+    formScore?: number | null;  // when the camera watched the hold
+}
+
+export const FIRST_PHASE: WorkoutPhase = { kind: "hold", setIndex: 0 };
+
+export const MAX_WORKOUT_SETS = 20;
+
+export function createWorkoutPlan(
+    setCount = 3,
+    holdSeconds = 30,
+    restSeconds = 30,
+    variant: PlankVariantChoice = DEFAULT_VARIANT_CHOICE
+): WorkoutSet[] {
+    return Array.from({ length: setCount }, () => ({ holdSeconds, restSeconds, variant }));
+}
+
+export function phaseSeconds(plan: WorkoutSet[], phase: WorkoutPhase): number {
+    const set = plan[phase.setIndex];
+    if (!set) return 0;
+    return phase.kind === "hold" ? set.holdSeconds : set.restSeconds;
+}
+
+// hold → rest → next hold; rests of 0 seconds and the rest after the last set are skipped
+export function nextPhase(plan: WorkoutSet[], phase: WorkoutPhase): WorkoutPhase | null {
+    const isLast = phase.setIndex >= plan.length - 1;
+    if (phase.kind === "hold") {
+        if (isLast) return null;
+        if (plan[phase.setIndex].restSeconds > 0) return { kind: "rest", setIndex: phase.setIndex };
+        return { kind: "hold", setIndex: phase.setIndex + 1 };
+    }
+    return isLast ? null : { kind: "hold", setIndex: phase.setIndex + 1 };
+}
+
+export function isValidPlan(plan: WorkoutSet[]): boolean {
+    return (
+        plan.length > 0 &&
+        plan.length <= MAX_WORKOUT_SETS &&
+        plan.every((s) => s.holdSeconds > 0 && s.restSeconds >= 0)
+    );
+}
+
+export function totalHoldSeconds(holds: WorkoutHold[]): number {
+    return holds.reduce((sum, h) => sum + h.durationSeconds, 0);
+}
@@ -1,5 +1,11 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import SupabaseProvider from './integrations/supabase/SupabaseProvider'
+import { supabase } from './integrations/supabase/client'
 import './index.css'
 
-createRoot(document.getElementById("root")!).render(<App />);
+createRoot(document.getElementById("root")!).render(
+  <SupabaseProvider client={supabase}>
+    <App />
+  </SupabaseProvider>
+);
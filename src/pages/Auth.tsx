@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from "@/integrations/supabase/client";
+import { useSupabase } from "@/integrations/supabase/context";
 import { toast } from "@/components/ui/sonner";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 
 const Auth: React.FC = () => {
+  const supabase = useSupabase();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -37,24 +38,26 @@ const Auth: React.FC = () => {
           return;
         }
 
-        // Seed profile row
-        if (data.user) {
+        // Seed profile row. Once handle_new_user has run everywhere the row
+        // already exists and this does nothing; without a session (email not
+        // confirmed yet) only the trigger can create it.
+        if (data.user && data.session) {
           const { error: profErr } = await supabase
             .from('profiles')
-            .insert({
-              id: data.user.id,
-              username: email.split('@')[0],
-              full_name: null,
-              profile_image: null,
-              bio: '',
-              join_date: new Date().toISOString().split('T')[0],
-              followers_count: 0,
-              role: 'user' // Ensure role is added to profile too if needed elsewhere
-            });
+            .upsert(
+              {
+                id: data.user.id,
+                username: email.split('@')[0],
+                full_name: null,
+                profile_image: null,
+                bio: '',
+                join_date: new Date().toISOString().split('T')[0],
+              },
+              { onConflict: 'id', ignoreDuplicates: true }
+            );
           if (profErr) {
             console.error('Could not create profile:', profErr);
             toast.error('Could not create profile data.');
-            // Optionally handle this more gracefully, maybe delete the auth user?
           }
         }
 
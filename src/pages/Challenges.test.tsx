@@ -0,0 +1,131 @@
+// src/pages/Challenges.test.tsx
+import { describe, expect, it } from "vitest";
+import { screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import Challenges from "./Challenges";
+import { FakeRows, FakeSupabase, createFakeSupabase } from "@/test/fakeSupabase";
+import { renderWithProviders } from "@/test/render";
+
+const ME = { id: "a11ce000-0000-4000-8000-000000000001", email: "alice@example.com" };
+
+const challenge = (id: number, title: string, extra = {}) => ({
+    id,
+    title,
+    description: `${title} for everyone`,
+    image: "/challenge.png",
+    start_date: "2099-01-01",
+    start_time: null,
+    end_date: "2099-01-31",
+    participants: 0,
+    is_active: true,
+    type: "Endurance",
+    meeting_url: null,
+    team_id: null,
+    ...extra,
+});
+
+// join_challenge / leave_challenge the way the database runs them for ME
+function createChallengesFake(rows: FakeRows) {
+    const count = (id: number) => {
+        const n = fake.rows("challenge_participants").filter((p) => p.challenge_id === id).length;
+        fake.rows("challenges").find((c) => c.id === id)!.participants = n;
+        return n;
+    };
+    const fake: FakeSupabase = createFakeSupabase({
+        user: ME,
+        rows,
+        rpc: {
+            join_challenge: ({ p_challenge_id }) => {
+                const c = fake.rows("challenges").find((c) => c.id === p_challenge_id)!;
+                if (!c.is_active || c.end_date! < new Date().toISOString().slice(0, 10)) {
+                    throw new Error("challenge has ended");
+                }
+                const participants = fake.rows("challenge_participants");
+                if (!participants.some((p) => p.challenge_id === p_challenge_id && p.user_id === ME.id)) {
+                    participants.push({ id: participants.length + 1, challenge_id: p_challenge_id, user_id: ME.id });
+                }
+                return count(p_challenge_id);
+            },
+            leave_challenge: ({ p_challenge_id }) => {
+                const participants = fake.rows("challenge_participants");
+                const i = participants.findIndex((p) => p.challenge_id === p_challenge_id && p.user_id === ME.id);
+                if (i >= 0) participants.splice(i, 1);
+                return count(p_challenge_id);
+            },
+        },
+    });
+    return fake;
+}
+
+describe("Challenges", () => {
+    it("lists only active public challenges that haven't ended", async () => {
+        const fake = createFakeSupabase({
+            user: ME,
+            rows: {
+                challenges: [
+                    challenge(1, "January Hold"),
+                    challenge(2, "Old Hold", { start_date: "2020-01-01", end_date: "2020-01-31" }),
+                    challenge(3, "Paused Hold", { is_active: false }),
+                    challenge(4, "Group Hold", { team_id: 9 }),
+                ],
+            },
+        });
+
+        renderWithProviders(<Challenges />, fake);
+
+        expect(await screen.findByText("January Hold")).toBeInTheDocument();
+        expect(screen.queryByText("Old Hold")).not.toBeInTheDocument();
+        expect(screen.queryByText("Paused Hold")).not.toBeInTheDocument();
+        expect(screen.queryByText("Group Hold")).not.toBeInTheDocument();
+    });
+
+    it("joins a challenge and shows the count the database keeps", async () => {
+        const user = userEvent.setup();
+        const fake = createChallengesFake({ challenges: [challenge(1, "January Hold", { participants: 4 })] });
+        fake.rows("challenge_participants").push(
+            ...[1, 2, 3, 4].map((id) => ({ id, challenge_id: 1, user_id: `someone-${id}` }))
+        );
+
+        renderWithProviders(<Challenges />, fake);
+
+        await user.click(await screen.findByRole("button", { name: "Join Challenge" }));
+
+        expect(await screen.findByText("You Are In")).toBeInTheDocument();
+        expect(screen.getByRole("button", { name: "Leave" })).toBeInTheDocument();
+        expect(await screen.findByText("5 participants")).toBeInTheDocument();
+        expect(screen.getByText("You joined January Hold!")).toBeInTheDocument();
+    });
+
+    it("leaves a challenge already joined", async () => {
+        const user = userEvent.setup();
+        const fake = createChallengesFake({
+            challenges: [challenge(1, "January Hold", { participants: 1 })],
+            challenge_participants: [{ id: 1, challenge_id: 1, user_id: ME.id }],
+        });
+
+        renderWithProviders(<Challenges />, fake);
+
+        expect(await screen.findByText("You Are In")).toBeInTheDocument();
+        await user.click(screen.getByRole("button", { name: "Leave" }));
+
+        expect(await screen.findByRole("button", { name: "Join Challenge" })).toBeInTheDocument();
+        expect(screen.getByText("You left January Hold.")).toBeInTheDocument();
+        expect(await screen.findByText("0 participants")).toBeInTheDocument();
+        expect(fake.rows("challenge_participants")).toEqual([]);
+    });
+
+    it("says so when the database refuses the join", async () => {
+        const user = userEvent.setup();
+        const fake = createChallengesFake({ challenges: [challenge(1, "January Hold")] });
+
+        renderWithProviders(<Challenges />, fake);
+
+        // closed after the page loaded
+        const join = await screen.findByRole("button", { name: "Join Challenge" });
+        fake.rows("challenges")[0].is_active = false;
+        await user.click(join);
+
+        expect(await screen.findByText("Could not join the challenge.")).toBeInTheDocument();
+        expect(fake.rows("challenge_participants")).toEqual([]);
+    });
+});
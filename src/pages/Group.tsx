@@ -0,0 +1,143 @@
+// src/pages/Group.tsx
+
+import React from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useSupabase } from "@/integrations/supabase/context";
+import { toast } from "@/components/ui/sonner";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import Leaderboard from "@/components/Leaderboard";
+import GroupMembers from "@/components/GroupMembers";
+import GroupInvite from "@/components/GroupInvite";
+import GroupChallenges from "@/components/GroupChallenges";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useTeam } from "@/hooks/useTeam";
+
+const Group: React.FC = () => {
+    const supabase = useSupabase();
+    const { id } = useParams<{ id: string }>();
+    const teamId = Number(id);
+    const { user } = useAuth();
+    const navigate = useNavigate();
+    const { team, members, stats, myRole, canManage, loading, reload } = useTeam(teamId, user?.id);
+
+    const handleLeave = async () => {
+        if (!user || !confirm("Leave this group?")) return;
+        const { error } = await supabase
+            .from("team_members")
+            .delete()
+            .eq("team_id", teamId)
+            .eq("user_id", user.id);
+        if (error) {
+            console.error(error);
+            toast.error("Could not leave the group.");
+            return;
+        }
+        navigate("/groups");
+    };
+
+    const handleDelete = async () => {
+        if (!confirm("Delete this group for everyone? Its challenges are deleted too.")) return;
+        const { error } = await supabase.from("teams").delete().eq("id", teamId);
+        if (error) {
+            console.error(error);
+            toast.error("Could not delete the group.");
+            return;
+        }
+        toast.success("Group deleted");
+        navigate("/groups");
+    };
+
+    if (loading) {
+        return <div className="flex items-center justify-center h-screen">Loading…</div>;
+    }
+
+    // 1) the stats cards: minutes planked and how many members planked this week
+    const memberCount = stats?.member_count ?? members.length;
+    const participation = memberCount ? Math.round(((stats?.active_this_week ?? 0) / memberCount) * 100) : 0;
+    const statCards = [
+        { label: "Total team minutes", value: Math.round((stats?.total_seconds ?? 0) / 60).toLocaleString() },
+        { label: "Minutes this week", value: Math.round((stats?.week_seconds ?? 0) / 60).toLocaleString() },
+        {
+            label: "Planked this week",
+            value: `${participation}%`,
+            detail: `${stats?.active_this_week ?? 0} of ${memberCount} members`,
+        },
+    ];
+
+    return (
+        <div className="flex flex-col min-h-screen">
+            <Header />
+
+            <main className="flex-grow py-12 px-6">
+                {!team || !user ? (
+                    <div className="container mx-auto max-w-md text-center">
+                        <p className="text-gray-600 mb-4">This group doesn't exist or you're not a member.</p>
+                        <Link to="/groups">
+                            <Button className="plank-btn-primary">Your groups</Button>
+                        </Link>
+                    </div>
+                ) : (
+                    <div className="container mx-auto space-y-10">
+                        <div className="flex flex-wrap items-start justify-between gap-4">
+                            <div>
+                                <h1 className="text-3xl font-bold font-poppins">{team.name}</h1>
+                                {team.description && <p className="text-gray-600 mt-1">{team.description}</p>}
+                            </div>
+                            <div className="flex gap-2">
+                                {myRole === "owner" ? (
+                                    <Button variant="outline" className="text-red-600" onClick={handleDelete}>
+                                        Delete group
+                                    </Button>
+                                ) : (
+                                    <Button variant="outline" onClick={handleLeave}>
+                                        Leave group
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            {statCards.map((s) => (
+                                <Card key={s.label} className="plank-card">
+                                    <CardContent className="p-4">
+                                        <p className="text-sm text-gray-500">{s.label}</p>
+                                        <p className="text-2xl font-bold text-plank-blue">{s.value}</p>
+                                        {s.detail && <p className="text-xs text-gray-500">{s.detail}</p>}
+                                    </CardContent>
+                                </Card>
+                            ))}
+                        </div>
+
+                        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                            <div className="lg:col-span-2">
+                                <h2 className="text-xl font-semibold mb-4">Group Leaderboard</h2>
+                                <Leaderboard key={teamId} initialScope={`team:${teamId}`} />
+                            </div>
+                            <div className="space-y-6">
+                                {canManage && (
+                                    <GroupInvite teamId={teamId} inviteCode={team.invite_code} onChange={reload} />
+                                )}
+                                <GroupMembers
+                                    teamId={teamId}
+                                    members={members}
+                                    myRole={myRole}
+                                    userId={user.id}
+                                    onChange={reload}
+                                />
+                            </div>
+                        </div>
+
+                        <GroupChallenges teamId={teamId} canManage={canManage} />
+                    </div>
+                )}
+            </main>
+
+            <Footer />
+        </div>
+    );
+};
+
+export default Group;
@@ -0,0 +1,87 @@
+// src/pages/GroupJoin.tsx
+
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useSupabase } from "@/integrations/supabase/context";
+import { toast } from "@/components/ui/sonner";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Database } from "@/integrations/supabase/types";
+
+type TeamPreview = Database["public"]["Functions"]["team_preview"]["Returns"][number];
+
+// Where invite links land: shows the group and joins it on confirmation.
+const GroupJoin: React.FC = () => {
+    const supabase = useSupabase();
+    const { code } = useParams<{ code: string }>();
+    const navigate = useNavigate();
+    const [preview, setPreview] = useState<TeamPreview | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [joining, setJoining] = useState(false);
+
+    useEffect(() => {
+        if (!code) return;
+        (async () => {
+            const { data, error } = await supabase.rpc("team_preview", { p_code: code });
+            if (error) console.error("Could not load invite:", error);
+            setPreview(data?.[0] ?? null);
+            setLoading(false);
+        })();
+    }, [supabase, code]);
+
+    const handleJoin = async () => {
+        if (!code) return;
+        setJoining(true);
+        const { data, error } = await supabase.rpc("join_team", { p_code: code });
+        setJoining(false);
+        if (error) {
+            console.error(error);
+            toast.error("Could not join the group.");
+            return;
+        }
+        toast.success(`Welcome to ${preview?.name ?? "the group"}!`);
+        navigate(`/groups/${data}`);
+    };
+
+    return (
+        <div className="flex flex-col min-h-screen">
+            <Header />
+
+            <main className="flex-grow py-12 px-6">
+                <div className="container mx-auto max-w-md">
+                    {loading ? (
+                        <p className="text-center text-gray-500">Loading…</p>
+                    ) : !preview ? (
+                        <div className="text-center">
+                            <p className="text-gray-600 mb-4">This invite link is no longer valid. Ask for a new one.</p>
+                            <Link to="/groups">
+                                <Button className="plank-btn-primary">Your groups</Button>
+                            </Link>
+                        </div>
+                    ) : (
+                        <Card className="plank-card">
+                            <CardHeader className="pb-2 border-b">
+                                <CardTitle className="text-lg font-poppins">Join {preview.name}</CardTitle>
+                            </CardHeader>
+                            <CardContent className="p-4 space-y-4">
+                                {preview.description && <p className="text-gray-600">{preview.description}</p>}
+                                <p className="text-sm text-gray-500">
+                                    {preview.member_count} {preview.member_count === 1 ? "member" : "members"}
+                                </p>
+                                <Button className="w-full plank-btn-primary" onClick={handleJoin} disabled={joining}>
+                                    Join Group
+                                </Button>
+                            </CardContent>
+                        </Card>
+                    )}
+                </div>
+            </main>
+
+            <Footer />
+        </div>
+    );
+};
+
+export default GroupJoin;
@@ -0,0 +1,170 @@
+// src/pages/Groups.tsx
+
+import React, { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useSupabase } from "@/integrations/supabase/context";
+import { toast } from "@/components/ui/sonner";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Users } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useMyTeams } from "@/hooks/useMyTeams";
+
+const Groups: React.FC = () => {
+    const supabase = useSupabase();
+    const { user } = useAuth();
+    const { teams, loading } = useMyTeams(user?.id);
+    const navigate = useNavigate();
+
+    const [name, setName] = useState("");
+    const [description, setDescription] = useState("");
+    const [code, setCode] = useState("");
+    const [busy, setBusy] = useState(false);
+
+    // 1) create a group; the server makes the creator its owner
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user || !name.trim()) return;
+        setBusy(true);
+        const { data, error } = await supabase
+            .from("teams")
+            .insert({ name: name.trim(), description: description.trim() || null, created_by: user.id })
+            .select("id")
+            .single();
+        setBusy(false);
+        if (error) {
+            console.error(error);
+            toast.error("Could not create the group.");
+            return;
+        }
+        toast.success("Group created!");
+        navigate(`/groups/${data.id}`);
+    };
+
+    // 2) join with a code someone shared; invite links land on /groups/join/:code instead
+    const handleJoin = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!code.trim()) return;
+        setBusy(true);
+        const { data, error } = await supabase.rpc("join_team", { p_code: code.trim() });
+        setBusy(false);
+        if (error) {
+            console.error(error);
+            toast.error("That invite code doesn't match any group.");
+            return;
+        }
+        navigate(`/groups/${data}`);
+    };
+
+    return (
+        <div className="flex flex-col min-h-screen">
+            <Header />
+
+            <main className="flex-grow py-12 px-6">
+                <div className="container mx-auto max-w-4xl space-y-10">
+                    <div>
+                        <h1 className="text-3xl font-bold font-poppins mb-2">Groups</h1>
+                        <p className="text-gray-600">
+                            Plank with your team: shared stats, a group leaderboard and challenges of your own.
+                        </p>
+                    </div>
+
+                    {loading ? (
+                        <p className="text-center text-gray-500">Loading…</p>
+                    ) : teams.length === 0 ? (
+                        <p className="text-gray-500">You're not in any groups yet. Create one or join with an invite code.</p>
+                    ) : (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            {teams.map((t) => (
+                                <Link key={t.id} to={`/groups/${t.id}`}>
+                                    <Card className="plank-card h-full hover:shadow-md transition-shadow">
+                                        <CardContent className="p-4 flex items-start gap-3">
+                                            <div className="h-10 w-10 shrink-0 bg-plank-light-blue rounded-full flex items-center justify-center">
+                                                <Users className="h-5 w-5 text-plank-blue" />
+                                            </div>
+                                            <div className="flex-1 min-w-0">
+                                                <p className="font-semibold truncate">{t.name}</p>
+                                                {t.description && (
+                                                    <p className="text-sm text-gray-500 line-clamp-2">{t.description}</p>
+                                                )}
+                                            </div>
+                                            <Badge variant="outline" className="capitalize">{t.role}</Badge>
+                                        </CardContent>
+                                    </Card>
+                                </Link>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <Card className="plank-card">
+                            <CardHeader className="pb-2 border-b">
+                                <CardTitle className="text-lg font-poppins">Create a Group</CardTitle>
+                            </CardHeader>
+                            <CardContent className="p-4">
+                                <form onSubmit={handleCreate} className="space-y-4">
+                                    <div>
+                                        <Label htmlFor="group-name">Name</Label>
+                                        <Input
+                                            id="group-name"
+                                            value={name}
+                                            onChange={(e) => setName(e.target.value)}
+                                            maxLength={60}
+                                            required
+                                        />
+                                    </div>
+                                    <div>
+                                        <Label htmlFor="group-description">Description</Label>
+                                        <Textarea
+                                            id="group-description"
+                                            value={description}
+                                            onChange={(e) => setDescription(e.target.value)}
+                                            maxLength={280}
+                                            rows={2}
+                                        />
+                                    </div>
+                                    <Button type="submit" className="w-full plank-btn-primary" disabled={busy}>
+                                        Create Group
+                                    </Button>
+                                </form>
+                            </CardContent>
+                        </Card>
+
+                        <Card className="plank-card">
+                            <CardHeader className="pb-2 border-b">
+                                <CardTitle className="text-lg font-poppins">Join a Group</CardTitle>
+                            </CardHeader>
+                            <CardContent className="p-4">
+                                <form onSubmit={handleJoin} className="space-y-4">
+                                    <div>
+                                        <Label htmlFor="group-code">Invite code</Label>
+                                        <Input
+                                            id="group-code"
+                                            value={code}
+                                            onChange={(e) => setCode(e.target.value)}
+                                            placeholder="e.g. 3f9a1c2b7d"
+                                            required
+                                        />
+                                    </div>
+                                    <Button type="submit" variant="outline" className="w-full" disabled={busy}>
+                                        Join Group
+                                    </Button>
+                                </form>
+                            </CardContent>
+                        </Card>
+                    </div>
+                </div>
+            </main>
+
+            <Footer />
+        </div>
+    );
+};
+
+export default Groups;
@@ -0,0 +1,29 @@
+// src/pages/LeaderboardLive.tsx
+
+import React from 'react';
+import { useSearchParams } from 'react-router-dom';
+import Leaderboard from '@/components/Leaderboard';
+import { LEADERBOARD_METRICS, LeaderboardMetric, LeaderboardScope } from '@/lib/leaderboard';
+
+// Leaderboard for a TV in the office: big rows, live updates, screen kept on.
+// The board is picked with ?metric=, ?scope= and ?window=.
+const LeaderboardLive: React.FC = () => {
+    const [params] = useSearchParams();
+    const metricParam = params.get('metric');
+    const metric = LEADERBOARD_METRICS.some((m) => m.value === metricParam)
+        ? (metricParam as LeaderboardMetric)
+        : 'best';
+    const scopeParam = params.get('scope') ?? '';
+    const scope: LeaderboardScope =
+        scopeParam === 'following' || /^team:\d+$/.test(scopeParam)
+            ? (scopeParam as LeaderboardScope)
+            : 'global';
+
+    return (
+        <div className="min-h-screen bg-white p-8 md:p-12">
+            <Leaderboard layout="live" initialMetric={metric} initialScope={scope} />
+        </div>
+    );
+};
+
+export default LeaderboardLive;
@@ -0,0 +1,13 @@
+// src/pages/PlankLive.tsx
+
+import React from 'react';
+import PlankTimer from '@/components/PlankTimer';
+
+// Distraction-free plank: no header or footer, just the timer filling the screen.
+const PlankLive: React.FC = () => (
+    <div className="min-h-screen bg-white">
+        <PlankTimer layout="live" />
+    </div>
+);
+
+export default PlankLive;
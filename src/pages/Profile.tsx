@@ -1,135 +1,79 @@
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect } from "react";
 import { useNavigate, useParams } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { useQueryClient } from "@tanstack/react-query";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import UserStats from "@/components/UserStats";
 import AchievementBadges from "@/components/AchievementBadges";
 import ProfileHeader, { ProfileData } from "@/components/ProfileHeader";
-import PlankHistory, { PlankEntry } from "@/components/PlankHistory";
+import PlankHistory from "@/components/PlankHistory";
+import ApiTokens from "@/components/ApiTokens";
 import ProgressGraph from "@/components/ProfileGraph";
 import { toast } from "@/components/ui/sonner";
-import { useJoinedChallenges } from "@/hooks/useJoinedChallenges"; // Import the custom hook
+import { useAuth } from "@/hooks/useAuth";
+import { useProfile, useUpdateProfile } from "@/data/profiles";
+import { useJoinedChallenges } from "@/data/challenges";
+import { queryKeys } from "@/data/keys";
 
 const ProfilePage: React.FC = () => {
   const { id: profileId } = useParams<{ id: string }>();
-  const [profile, setProfile] = useState<ProfileData | null>(null);
-  const [planks, setPlanks] = useState<PlankEntry[]>([]);
-  const [loggedInId, setLoggedInId] = useState<string>("");
+  const { user, loading: authLoading } = useAuth();
+  const loggedInId = user?.id ?? "";
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
 
-  // Use the custom hook for joined challenges
-  const { joinedChallenges, loading: challengesLoading, error: challengesError } = useJoinedChallenges(profileId);
+  const { data: row } = useProfile(profileId);
+  const updateProfile = useUpdateProfile(profileId);
+  const {
+    data: joinedChallenges = [],
+    isPending: challengesLoading,
+    isError: challengesError,
+  } = useJoinedChallenges(profileId);
 
   useEffect(() => {
-    if (!profileId) {
+    if (authLoading) return;
+    if (!user) {
+      navigate("/auth");
+    } else if (!profileId) {
       // no id in URL → redirect to your own profile
-      navigate("/profile/" + loggedInId);
-      return;
+      navigate("/profile/" + user.id);
     }
+  }, [authLoading, user, profileId, navigate]);
 
-    async function load() {
-      // 1) Get logged-in user
-      const {
-        data: { user },
-        error: userErr,
-      } = await supabase.auth.getUser();
-      if (userErr || !user) {
-        navigate("/auth");
-        return;
-      }
-      setLoggedInId(user.id);
-
-      // 2) Fetch the requested user's profile
-      const { data: row, error } = await supabase
-        .from("profiles")
-        .select("full_name,username,profile_image,bio,join_date,followers_count")
-        .eq("id", profileId)
-        .single();
-
-      if (error || !row) {
-        toast.error("Could not load that profile.");
-        return;
-      }
-
-      setProfile({
+  const profile: ProfileData | null = row
+    ? {
         name: row.full_name,
         username: row.username,
         profileImage: row.profile_image,
         bio: row.bio,
         joinDate: row.join_date,
         followersCount: row.followers_count,
-      });
-
-      // 3) Fetch last 5 planks for that user
-      const { data: rawPlanks, error: plankErr } = await supabase
-        .from<{ id: number; plank_date: string; duration_s: number }>("planks")
-        .select("id, plank_date, duration_s")
-        .eq("user_id", profileId)
-        .order("plank_date", { ascending: false })
-        .limit(5);
-
-      if (plankErr) {
-        console.error(plankErr);
-        return;
+        followingCount: row.following_count,
+        approveFollowers: row.approve_followers,
       }
+    : null;
 
-      // 4) Map into UI shape (day labels in English)
-      const mapped = (rawPlanks || []).map((p) => {
-        const d = new Date(p.plank_date);
-        const today = new Date();
-        const yesterday = new Date();
-        yesterday.setDate(today.getDate() - 1);
-
-        let dayLabel: string;
-        if (d.toDateString() === today.toDateString()) {
-          dayLabel = "Today";
-        } else if (d.toDateString() === yesterday.toDateString()) {
-          dayLabel = "Yesterday";
-        } else {
-          dayLabel =
-            d.toLocaleDateString("en-US", { weekday: "long" }).replace(
-              /^\w/,
-              (c) => c.toUpperCase()
-            );
-        }
-
-        const dateDisplay = d.toLocaleDateString("en-US", {
-          day: "numeric",
-          month: "long",
-        });
-
-        return {
-          id: p.id,
-          date: dateDisplay,
-          day: dayLabel,
-          time: p.duration_s,
-        };
-      });
-      setPlanks(mapped);
-    }
-
-    load();
-  }, [profileId, loggedInId, navigate]);
+  // counts are maintained by the database, so re-read them after a change
+  const reloadFollowCounts = useCallback(() => {
+    if (!profileId) return;
+    queryClient.invalidateQueries({ queryKey: queryKeys.profile(profileId) });
+  }, [queryClient, profileId]);
 
   // Only allow profile editing if it’s **your** profile
   const handleSave = async (updates: Partial<ProfileData>) => {
     if (!profileId || loggedInId !== profileId) return;
 
-    const { error } = await supabase
-      .from("profiles")
-      .update({
+    try {
+      await updateProfile.mutateAsync({
         full_name: updates.name,
         profile_image: updates.profileImage,
         bio: updates.bio,
-      })
-      .eq("id", profileId);
-
-    if (error) {
-      toast.error("Could not save changes.");
-    } else {
-      setProfile((p) => p && { ...p, ...updates });
+        approve_followers: updates.approveFollowers,
+      });
       toast.success("Profile updated!");
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not save changes.");
     }
   };
 
@@ -142,7 +86,14 @@ const ProfilePage: React.FC = () => {
       <Header />
 
       <main className="flex-grow bg-gray-50">
-        <ProfileHeader data={profile} onSave={handleSave} canEdit={loggedInId === profileId} />
+        <ProfileHeader
+          data={profile}
+          onSave={handleSave}
+          canEdit={loggedInId === profileId}
+          profileId={profileId}
+          viewerId={loggedInId}
+          onFollowChange={reloadFollowCounts}
+        />
 
         <div className="container mx-auto py-8 px-6 space-y-12">
           <section>
@@ -176,7 +127,7 @@ const ProfilePage: React.FC = () => {
               </div>
             ) : challengesError ? (
               <div className="bg-white p-4 shadow-lg rounded-lg text-center">
-                <p>{challengesError}</p>
+                <p>Kunde inte hämta utmaningar</p>
               </div>
             ) : (
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -200,6 +151,13 @@ const ProfilePage: React.FC = () => {
               </div>
             )}
           </section>
+
+          {loggedInId === profileId && (
+            <section>
+              <h2 className="text-xl font-semibold mb-4">Developer Access</h2>
+              <ApiTokens userId={profileId} />
+            </section>
+          )}
         </div>
       </main>
 
@@ -12,27 +12,18 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { supabase } from '@/integrations/supabase/client';
+import { useSupabase } from "@/integrations/supabase/context";
+import { Tables } from '@/integrations/supabase/types';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import { useToast } from "@/components/ui/use-toast";
 import ChallengeCard from "@/components/ChallengeCard";
 
-type Challenge = {
-    id: number;
-    title: string;
-    description: string;
-    image: string;
-    start_date: string;
-    start_time: string | null;
-    end_date: string;
-    participants: number;
-    is_active: boolean;
-    type: string;
-    meeting_url: string | null;
-};
+// admin edits the public challenges, which have no group
+type Challenge = Omit<Tables<"challenges">, "team_id">;
 
 const AdminChallenges: React.FC = () => {
+    const supabase = useSupabase();
     const [challenges, setChallenges] = useState<Challenge[]>([]);
     const [loading, setLoading] = useState(true);
     const [editingChallenge, setEditingChallenge] = useState<Challenge | null>(null);
@@ -57,7 +48,7 @@ const AdminChallenges: React.FC = () => {
     const fetchChallenges = async () => {
         setLoading(true);
         const { data, error } = await supabase
-            .from<Challenge>('challenges')
+            .from('challenges')
             .select(`
         id,
         title,
@@ -106,7 +97,7 @@ const AdminChallenges: React.FC = () => {
             // Create new challenge
             const { error } = await supabase
                 .from('challenges')
-                .insert([{ ...formData, participants: 0 }]);
+                .insert([formData]);
 
             if (error) {
                 toast({ title: "Error", description: "Failed to create challenge", variant: "destructive" });
@@ -0,0 +1,401 @@
+// src/pages/admin/Review.tsx
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardContent, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { useSupabase } from "@/integrations/supabase/context";
+import { publicUrl } from '@/integrations/supabase/storage';
+import { Tables } from '@/integrations/supabase/types';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import { useToast } from "@/components/ui/use-toast";
+import { Check, X, Flag, AlertTriangle } from "lucide-react";
+import { describeVariant } from "@/lib/plankVariants";
+
+type Decision = 'approve' | 'reject' | 'flag';
+
+type ReviewItem = Pick<
+    Tables<'plank_verifications'>,
+    'plank_id' | 'user_id' | 'snapshot_paths' | 'captured_at' | 'form_score' | 'submitted_at' | 'flagged_at' | 'flag_reason'
+> & {
+    planks: Pick<Tables<'planks'>, 'duration_s' | 'plank_date' | 'inserted_at' | 'target_s' | 'side' | 'weight_kg'> & {
+        plank_variants: Pick<Tables<'plank_variants'>, 'name'> | null;
+    };
+    owner?: Pick<Tables<'profiles'>, 'full_name' | 'profile_image'>;
+};
+
+const QUICK_REASONS = [
+    "Plank position not visible",
+    "Form broken in photos",
+    "Photos don't match the time",
+    "Different person in photos",
+];
+
+const formatTime = (t: number) => {
+    const m = Math.floor(t / 60);
+    const s = Math.round(t % 60);
+    return `${m}:${s < 10 ? "0" + s : s}`;
+};
+
+const AdminReview: React.FC = () => {
+    const supabase = useSupabase();
+    const [items, setItems] = useState<ReviewItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [tab, setTab] = useState<'pending' | 'flagged'>('pending');
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const [pendingDecision, setPendingDecision] = useState<Exclude<Decision, 'approve'> | null>(null);
+    const [reason, setReason] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const reasonRef = useRef<HTMLTextAreaElement>(null);
+    const { toast } = useToast();
+
+    const visible = items.filter((i) => (tab === 'flagged') === (i.flagged_at != null));
+    const selected = visible[Math.min(selectedIndex, visible.length - 1)] ?? null;
+
+    const fetchQueue = useCallback(async () => {
+        setLoading(true);
+        // 1) evidence for planks still awaiting review, oldest first
+        const { data, error } = await supabase
+            .from('plank_verifications')
+            .select(`
+        plank_id,
+        user_id,
+        snapshot_paths,
+        captured_at,
+        form_score,
+        submitted_at,
+        flagged_at,
+        flag_reason,
+        planks!inner(duration_s, plank_date, inserted_at, target_s, side, weight_kg, verification_status, plank_variants(name))
+      `)
+            .eq('planks.verification_status', 'pending')
+            .order('submitted_at', { ascending: true });
+
+        if (error) {
+            console.error(error);
+            toast({ title: "Error", description: "Failed to load the review queue", variant: "destructive" });
+            setLoading(false);
+            return;
+        }
+        const rows = data || [];
+
+        // 2) owners, in one query
+        const ownerIds = [...new Set(rows.map((r) => r.user_id))];
+        const { data: profiles } = ownerIds.length
+            ? await supabase
+                .from('profiles')
+                .select('id, full_name, profile_image')
+                .in('id', ownerIds)
+            : { data: [] };
+
+        setItems(rows.map((r) => ({ ...r, owner: profiles?.find((p) => p.id === r.user_id) })));
+        setLoading(false);
+    }, [supabase, toast]);
+
+    useEffect(() => {
+        fetchQueue();
+    }, [fetchQueue]);
+
+    const cancelDecision = () => {
+        setPendingDecision(null);
+        setReason('');
+    };
+
+    const review = async (decision: Decision, why?: string) => {
+        if (!selected || submitting) return;
+        if (decision !== 'approve' && !why?.trim()) {
+            toast({ title: "Reason needed", description: `Add a reason to ${decision} this plank.`, variant: "destructive" });
+            return;
+        }
+        setSubmitting(true);
+        const { error } = await supabase.rpc('review_plank', {
+            p_plank_id: selected.plank_id,
+            p_decision: decision,
+            p_reason: why?.trim() || null,
+        });
+        setSubmitting(false);
+
+        if (error) {
+            console.error(error);
+            toast({ title: "Error", description: error.message, variant: "destructive" });
+            return;
+        }
+        toast({
+            title: decision === 'approve' ? "Verified" : decision === 'reject' ? "Rejected" : "Flagged",
+            description: `${selected.owner?.full_name ?? 'The owner'} has been notified.`,
+        });
+        cancelDecision();
+        // flagged planks move to the other tab, decided ones leave the queue
+        setItems((cur) =>
+            decision === 'flag'
+                ? cur.map((i) =>
+                    i.plank_id === selected.plank_id
+                        ? { ...i, flagged_at: new Date().toISOString(), flag_reason: why ?? null }
+                        : i
+                )
+                : cur.filter((i) => i.plank_id !== selected.plank_id)
+        );
+    };
+
+    const startDecision = (decision: Exclude<Decision, 'approve'>) => {
+        setPendingDecision(decision);
+        // focus after the reason box has rendered
+        window.setTimeout(() => reasonRef.current?.focus(), 0);
+    };
+
+    // keyboard triage: j/k move, a approves, r / f ask for a reason
+    const keyRef = useRef<(e: KeyboardEvent) => void>();
+    keyRef.current = (e: KeyboardEvent) => {
+        if (e.ctrlKey || e.metaKey || e.altKey) return;
+        const target = e.target as HTMLElement | null;
+        if (target?.closest("input, textarea, select, [role='dialog']")) return;
+
+        switch (e.key) {
+            case 'j':
+            case 'ArrowDown':
+                e.preventDefault();
+                setSelectedIndex((i) => Math.min(i + 1, visible.length - 1));
+                cancelDecision();
+                break;
+            case 'k':
+            case 'ArrowUp':
+                e.preventDefault();
+                setSelectedIndex((i) => Math.max(i - 1, 0));
+                cancelDecision();
+                break;
+            case 'a':
+                review('approve');
+                break;
+            case 'r':
+                e.preventDefault();
+                startDecision('reject');
+                break;
+            case 'f':
+                e.preventDefault();
+                startDecision('flag');
+                break;
+        }
+    };
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => keyRef.current?.(e);
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, []);
+
+    const handleReasonKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === 'Enter' && !e.shiftKey && pendingDecision) {
+            e.preventDefault();
+            review(pendingDecision, reason);
+        } else if (e.key === 'Escape') {
+            cancelDecision();
+            reasonRef.current?.blur();
+        }
+    };
+
+    // how the snapshot times line up with the logged hold
+    const timing = (item: ReviewItem) => {
+        const times = item.captured_at.map((t) => new Date(t).getTime());
+        const first = times[0];
+        const spanSeconds = times.length > 1 ? (times[times.length - 1] - first) / 1000 : 0;
+        return {
+            offsets: times.map((t) => (t - first) / 1000),
+            spanSeconds,
+            // snapshots are taken every 10 s during the hold, so they can't span more than it
+            suspicious: spanSeconds > item.planks.duration_s + 5,
+        };
+    };
+
+    if (loading) {
+        return <div className="p-8 text-center">Loading…</div>;
+    }
+
+    return (
+        <div className="flex flex-col min-h-screen">
+            <Header />
+            <main className="flex-grow py-12 px-6">
+                <div className="container mx-auto">
+                    <div className="flex flex-wrap items-end justify-between gap-4 mb-8">
+                        <h1 className="text-3xl font-bold">
+                            Review Planks
+                        </h1>
+                        <p className="text-sm text-gray-500">
+                            <kbd>j</kbd>/<kbd>k</kbd> move · <kbd>a</kbd> approve · <kbd>r</kbd> reject ·{" "}
+                            <kbd>f</kbd> flag · <kbd>Enter</kbd> confirm reason · <kbd>Esc</kbd> cancel
+                        </p>
+                    </div>
+
+                    <div className="flex mb-6 border-b">
+                        {(['pending', 'flagged'] as const).map((t) => (
+                            <button
+                                key={t}
+                                onClick={() => { setTab(t); setSelectedIndex(0); cancelDecision(); }}
+                                className={`px-4 py-2 capitalize ${tab === t ? 'border-b-2 border-plank-blue font-semibold' : 'text-gray-500'}`}
+                            >
+                                {t} ({items.filter((i) => (t === 'flagged') === (i.flagged_at != null)).length})
+                            </button>
+                        ))}
+                    </div>
+
+                    {visible.length === 0 ? (
+                        <p className="text-center text-gray-500 py-12">Nothing to review. 🎉</p>
+                    ) : (
+                        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                            {/* Queue */}
+                            <Card>
+                                <CardContent className="p-0">
+                                    <ul className="divide-y">
+                                        {visible.map((item, i) => (
+                                            <li
+                                                key={item.plank_id}
+                                                onClick={() => { setSelectedIndex(i); cancelDecision(); }}
+                                                className={`p-4 cursor-pointer ${item === selected ? 'bg-plank-light-blue' : 'hover:bg-gray-50'}`}
+                                            >
+                                                <p className="font-medium">{item.owner?.full_name ?? 'Unknown'}</p>
+                                                <p className="text-sm text-gray-500">
+                                                    {formatTime(item.planks.duration_s)} · {item.planks.plank_date} ·{" "}
+                                                    {item.snapshot_paths.length} photos
+                                                </p>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </CardContent>
+                            </Card>
+
+                            {/* Selected plank */}
+                            {selected && (() => {
+                                const t = timing(selected);
+                                return (
+                                    <Card className="lg:col-span-2">
+                                        <CardHeader>
+                                            <CardTitle className="flex items-center gap-3">
+                                                {selected.owner?.profile_image && (
+                                                    <img
+                                                        src={selected.owner.profile_image}
+                                                        alt={selected.owner.full_name}
+                                                        className="w-10 h-10 rounded-full object-cover"
+                                                    />
+                                                )}
+                                                {selected.owner?.full_name ?? 'Unknown'}
+                                            </CardTitle>
+                                        </CardHeader>
+                                        <CardContent className="space-y-6">
+                                            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                                                <p><strong>Hold:</strong> {formatTime(selected.planks.duration_s)}</p>
+                                                {selected.planks.target_s && (
+                                                    <p><strong>Target:</strong> {formatTime(selected.planks.target_s)}</p>
+                                                )}
+                                                <p>
+                                                    <strong>Variant:</strong>{" "}
+                                                    {describeVariant(selected.planks.plank_variants?.name, selected.planks.side, selected.planks.weight_kg)}
+                                                </p>
+                                                <p><strong>Plank date:</strong> {selected.planks.plank_date}</p>
+                                                <p><strong>Logged:</strong> {new Date(selected.planks.inserted_at).toLocaleString()}</p>
+                                                <p><strong>Submitted:</strong> {new Date(selected.submitted_at).toLocaleString()}</p>
+                                                <p>
+                                                    <strong>Form score:</strong>{" "}
+                                                    {selected.form_score != null ? `${selected.form_score}/100` : '–'}
+                                                </p>
+                                                <p><strong>Capture span:</strong> {formatTime(t.spanSeconds)}</p>
+                                            </div>
+
+                                            {t.suspicious && (
+                                                <p className="flex items-center text-sm text-amber-600">
+                                                    <AlertTriangle className="mr-2 h-4 w-4" />
+                                                    Photos span more time than the logged hold.
+                                                </p>
+                                            )}
+                                            {selected.flag_reason && (
+                                                <p className="flex items-center text-sm text-amber-600">
+                                                    <Flag className="mr-2 h-4 w-4" />
+                                                    Flagged: {selected.flag_reason}
+                                                </p>
+                                            )}
+
+                                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                                {selected.snapshot_paths.map((path, i) => {
+                                                    const url = publicUrl(supabase, 'plank-photos', path);
+                                                    return (
+                                                        <figure key={path}>
+                                                            <img
+                                                                src={url}
+                                                                alt={`Snapshot ${i + 1}`}
+                                                                className="w-full h-auto rounded border"
+                                                            />
+                                                            <figcaption className="mt-1 text-xs text-gray-500">
+                                                                {selected.captured_at[i] && new Date(selected.captured_at[i]).toLocaleTimeString()}
+                                                                {" · "}+{formatTime(t.offsets[i] ?? 0)}
+                                                            </figcaption>
+                                                        </figure>
+                                                    );
+                                                })}
+                                            </div>
+
+                                            {pendingDecision && (
+                                                <div className="space-y-2">
+                                                    <Textarea
+                                                        ref={reasonRef}
+                                                        value={reason}
+                                                        onChange={(e) => setReason(e.target.value)}
+                                                        onKeyDown={handleReasonKeyDown}
+                                                        placeholder={`Why ${pendingDecision === 'reject' ? 'reject' : 'flag'} this plank? (shown to the owner)`}
+                                                    />
+                                                    <div className="flex flex-wrap gap-2">
+                                                        {QUICK_REASONS.map((r) => (
+                                                            <button
+                                                                key={r}
+                                                                type="button"
+                                                                onClick={() => setReason(r)}
+                                                                className="rounded-full border px-3 py-1 text-xs hover:bg-gray-50"
+                                                            >
+                                                                {r}
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            )}
+
+                                            <div className="flex flex-wrap gap-3">
+                                                <Button
+                                                    className="plank-btn-secondary"
+                                                    disabled={submitting}
+                                                    onClick={() => review('approve')}
+                                                >
+                                                    <Check className="mr-2 h-4 w-4" /> Approve
+                                                </Button>
+                                                <Button
+                                                    variant="destructive"
+                                                    disabled={submitting}
+                                                    onClick={() =>
+                                                        pendingDecision === 'reject' ? review('reject', reason) : startDecision('reject')
+                                                    }
+                                                >
+                                                    <X className="mr-2 h-4 w-4" /> Reject
+                                                </Button>
+                                                {!selected.flagged_at && (
+                                                    <Button
+                                                        variant="outline"
+                                                        disabled={submitting}
+                                                        onClick={() =>
+                                                            pendingDecision === 'flag' ? review('flag', reason) : startDecision('flag')
+                                                        }
+                                                    >
+                                                        <Flag className="mr-2 h-4 w-4" /> Flag
+                                                    </Button>
+                                                )}
+                                            </div>
+                                        </CardContent>
+                                    </Card>
+                                );
+                            })()}
+                        </div>
+                    )}
+                </div>
+            </main>
+            <Footer />
+        </div>
+    );
+};
+
+export default AdminReview;
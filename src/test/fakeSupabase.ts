@@ -0,0 +1,587 @@
+// src/test/fakeSupabase.ts
+//
+// In-memory stand-in for the Supabase client, for tests. It implements the
+// part of the query builder the app uses (select with embeds and counts, the
+// eq/neq/gt/gte/lt/lte/in/is filters, order, limit, range, single,
+// maybeSingle, insert, update, upsert, delete), rpc through handlers the test
+// provides, storage upload/getPublicUrl/remove, password auth and realtime
+// channels that fire on emit(). Anything else is missing on purpose, so a
+// test that reaches it fails loudly instead of passing against made-up data.
+// Database triggers don't run: a test that depends on one seeds its result.
+
+import type { Session, User } from "@supabase/supabase-js";
+import type { TypedSupabaseClient } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+
+type Schema = Database["public"];
+export type FakeTableName = keyof Schema["Tables"] | keyof Schema["Views"];
+type Functions = Schema["Functions"];
+
+type Row = Record<string, unknown>;
+
+export type FakeRows = { [T in FakeTableName]?: Partial<Tables<T>>[] };
+
+export type FakeRpc = {
+    [F in keyof Functions]?: (args: Functions[F]["Args"]) => Functions[F]["Returns"];
+};
+
+export interface FakeUser {
+    id: string;
+    email?: string;
+    password?: string;
+}
+
+export interface FakeSupabaseOptions {
+    rows?: FakeRows;
+    rpc?: FakeRpc;
+    users?: FakeUser[];
+    // signed in from the start
+    user?: FakeUser | null;
+    // most rows one select returns, like PostgREST's max_rows; unlimited if unset
+    maxRows?: number;
+}
+
+export interface FakeError {
+    message: string;
+    code: string;
+    details: string | null;
+    hint: string | null;
+}
+
+export const FAKE_SUPABASE_URL = "http://fake.supabase.test";
+
+// the unique constraints the app relies on
+const UNIQUE: Partial<Record<FakeTableName, string[][]>> = {
+    challenge_participants: [["challenge_id", "user_id"]],
+    planks: [["client_id"]],
+    workout_sessions: [["client_id"]],
+    plank_verifications: [["plank_id"]],
+    plank_kudos: [["plank_id", "user_id"]],
+};
+
+// column defaults that the app reads back
+const DEFAULTS: Partial<Record<FakeTableName, () => Row>> = {
+    planks: () => ({
+        inserted_at: new Date().toISOString(),
+        variant_id: 1,
+        verification_status: "unverified",
+    }),
+    challenge_participants: () => ({ joined_at: new Date().toISOString() }),
+};
+
+// How a select on one table reaches the rows it embeds, keyed "from.embed":
+// `fk` is the column on the embedding table (to one) or on the embedded
+// table pointing back at `id` (to many).
+const EMBEDS: Record<string, { fk: string; many: boolean }> = {
+    "planks.plank_variants": { fk: "variant_id", many: false },
+    "planks.plank_kudos": { fk: "plank_id", many: true },
+    "planks.plank_comments": { fk: "plank_id", many: true },
+    "challenge_participants.challenges": { fk: "challenge_id", many: false },
+    "team_members.teams": { fk: "team_id", many: false },
+};
+
+const pgError = (code: string, message: string): FakeError => ({ message, code, details: null, hint: null });
+
+// splits "a, b(c, d), e" at the top-level commas
+function splitColumns(columns: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = "";
+    for (const ch of columns) {
+        if (ch === "(") depth++;
+        if (ch === ")") depth--;
+        if (ch === "," && depth === 0) {
+            parts.push(current.trim());
+            current = "";
+        } else {
+            current += ch;
+        }
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+}
+
+function compare(a: unknown, b: unknown): number {
+    if (typeof a === "number" && typeof b === "number") return a - b;
+    return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+const same = (a: unknown, b: unknown) => a === b || (a != null && b != null && String(a) === String(b));
+
+type Operation = "select" | "insert" | "update" | "upsert" | "delete";
+
+interface Result {
+    data: unknown;
+    error: FakeError | null;
+    count: number | null;
+    status: number;
+    statusText: string;
+}
+
+class FakeQuery implements PromiseLike<Result> {
+    private operation: Operation = "select";
+    private columns: string | null = null;
+    private countRows = false;
+    private head = false;
+    private payload: Row[] = [];
+    private changes: Row = {};
+    private onConflict: string[] | null = null;
+    private ignoreDuplicates = false;
+    private filters: ((row: Row) => boolean)[] = [];
+    private orders: { column: string; ascending: boolean; nullsFirst: boolean }[] = [];
+    private offset = 0;
+    private max: number | null = null;
+    private expect: "one" | "maybe" | null = null;
+
+    constructor(private db: FakeDb, private table: FakeTableName) {}
+
+    select(columns = "*", options: { count?: "exact" | "planned" | "estimated"; head?: boolean } = {}) {
+        this.columns = columns;
+        this.countRows = !!options.count;
+        this.head = !!options.head;
+        return this;
+    }
+
+    insert(values: Row | Row[]) {
+        this.operation = "insert";
+        this.payload = Array.isArray(values) ? values : [values];
+        return this;
+    }
+
+    upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+        this.operation = "upsert";
+        this.payload = Array.isArray(values) ? values : [values];
+        this.onConflict = (options.onConflict ?? "id").split(",").map((c) => c.trim());
+        this.ignoreDuplicates = !!options.ignoreDuplicates;
+        return this;
+    }
+
+    update(values: Row) {
+        this.operation = "update";
+        this.changes = values;
+        return this;
+    }
+
+    delete() {
+        this.operation = "delete";
+        return this;
+    }
+
+    eq(column: string, value: unknown) {
+        this.filters.push((r) => same(r[column], value));
+        return this;
+    }
+
+    neq(column: string, value: unknown) {
+        this.filters.push((r) => !same(r[column], value));
+        return this;
+    }
+
+    gt(column: string, value: unknown) {
+        this.filters.push((r) => r[column] != null && compare(r[column], value) > 0);
+        return this;
+    }
+
+    gte(column: string, value: unknown) {
+        this.filters.push((r) => r[column] != null && compare(r[column], value) >= 0);
+        return this;
+    }
+
+    lt(column: string, value: unknown) {
+        this.filters.push((r) => r[column] != null && compare(r[column], value) < 0);
+        return this;
+    }
+
+    lte(column: string, value: unknown) {
+        this.filters.push((r) => r[column] != null && compare(r[column], value) <= 0);
+        return this;
+    }
+
+    in(column: string, values: readonly unknown[]) {
+        this.filters.push((r) => values.some((v) => same(r[column], v)));
+        return this;
+    }
+
+    is(column: string, value: null | boolean) {
+        this.filters.push((r) => (value === null ? r[column] == null : r[column] === value));
+        return this;
+    }
+
+    // nulls sort last ascending and first descending, as in Postgres
+    order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}) {
+        const ascending = options.ascending ?? true;
+        this.orders.push({ column, ascending, nullsFirst: options.nullsFirst ?? !ascending });
+        return this;
+    }
+
+    limit(count: number) {
+        this.max = count;
+        return this;
+    }
+
+    range(from: number, to: number) {
+        this.offset = from;
+        this.max = to - from + 1;
+        return this;
+    }
+
+    single() {
+        this.expect = "one";
+        return this;
+    }
+
+    maybeSingle() {
+        this.expect = "maybe";
+        return this;
+    }
+
+    then<A = Result, B = never>(
+        onfulfilled?: ((value: Result) => A | PromiseLike<A>) | null,
+        onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+    ): Promise<A | B> {
+        return Promise.resolve()
+            .then(() => this.execute())
+            .then(onfulfilled, onrejected);
+    }
+
+    private matching(): Row[] {
+        return this.db.table(this.table).filter((r) => this.filters.every((f) => f(r)));
+    }
+
+    private execute(): Result {
+        let rows: Row[];
+        try {
+            rows = this.run();
+        } catch (err) {
+            return this.respond(null, err as FakeError, null);
+        }
+
+        const count = this.countRows ? rows.length : null;
+        if (this.operation === "select") {
+            rows = [...rows].sort((a, b) => {
+                for (const { column, ascending, nullsFirst } of this.orders) {
+                    const x = a[column];
+                    const y = b[column];
+                    if (x == null || y == null) {
+                        if (x == null && y == null) continue;
+                        return (x == null) === nullsFirst ? -1 : 1;
+                    }
+                    const c = compare(x, y);
+                    if (c !== 0) return ascending ? c : -c;
+                }
+                return 0;
+            });
+            const max = Math.min(this.max ?? Infinity, this.db.maxRows ?? Infinity);
+            rows = rows.slice(this.offset, this.offset + max);
+        } else if (this.columns === null) {
+            // writes return nothing unless .select() asks for the rows
+            return this.expect ? this.one(rows) : this.respond(null, null, count);
+        }
+        if (this.head) return this.respond(null, null, count);
+
+        let projected: Row[];
+        try {
+            projected = rows.map((r) => this.project(r, this.columns ?? "*", this.table));
+        } catch (err) {
+            return this.respond(null, err as FakeError, null);
+        }
+        return this.expect ? this.one(projected) : this.respond(projected, null, count);
+    }
+
+    private one(rows: Row[]): Result {
+        if (rows.length === 1) return this.respond(rows[0], null, null);
+        if (rows.length === 0 && this.expect === "maybe") return this.respond(null, null, null);
+        return this.respond(
+            null,
+            pgError("PGRST116", "JSON object requested, multiple (or no) rows returned"),
+            null
+        );
+    }
+
+    private respond(data: unknown, error: FakeError | null, count: number | null): Result {
+        return {
+            data,
+            error,
+            count,
+            status: error ? 400 : this.operation === "insert" ? 201 : 200,
+            statusText: error ? "Bad Request" : "OK",
+        };
+    }
+
+    private run(): Row[] {
+        switch (this.operation) {
+            case "select":
+                return this.matching();
+            case "insert":
+                return this.payload.map((values) => this.db.insert(this.table, values));
+            case "upsert":
+                return this.payload.flatMap((values) => {
+                    const existing = this.db
+                        .table(this.table)
+                        .find((r) => this.onConflict!.every((c) => same(r[c], values[c])));
+                    if (!existing) return [this.db.insert(this.table, values)];
+                    if (this.ignoreDuplicates) return [];
+                    Object.assign(existing, values);
+                    return [existing];
+                });
+            case "update": {
+                const rows = this.matching();
+                rows.forEach((r) => Object.assign(r, this.changes));
+                return rows;
+            }
+            case "delete": {
+                const rows = this.matching();
+                this.db.remove(this.table, rows);
+                return rows;
+            }
+        }
+    }
+
+    private project(row: Row, columns: string, table: string): Row {
+        const parts = splitColumns(columns);
+        if (parts.includes("*")) return { ...row };
+
+        const out: Row = {};
+        for (const part of parts) {
+            const embed = part.match(/^(\w+)(?:!\w+)?\((.*)\)$/s);
+            if (!embed) {
+                out[part] = row[part] ?? null;
+                continue;
+            }
+            const [, name, inner] = embed;
+            const link = EMBEDS[`${table}.${name}`];
+            if (!link) {
+                throw pgError("PGRST200", `Could not find a relationship between '${table}' and '${name}'`);
+            }
+            const target = this.db.table(name as FakeTableName);
+            if (link.many) {
+                const related = target.filter((r) => same(r[link.fk], row.id));
+                out[name] = inner.trim() === "count"
+                    ? [{ count: related.length }]
+                    : related.map((r) => this.project(r, inner, name));
+            } else {
+                const related = target.find((r) => same(r.id, row[link.fk]));
+                out[name] = related ? this.project(related, inner, name) : null;
+            }
+        }
+        return out;
+    }
+}
+
+class FakeDb {
+    private rows = new Map<FakeTableName, Row[]>();
+    private nextIds = new Map<FakeTableName, number>();
+
+    constructor(seed: FakeRows = {}, readonly maxRows?: number) {
+        for (const [table, rows] of Object.entries(seed)) {
+            this.rows.set(table as FakeTableName, rows.map((r) => ({ ...r })));
+        }
+    }
+
+    table(name: FakeTableName): Row[] {
+        if (!this.rows.has(name)) this.rows.set(name, []);
+        return this.rows.get(name)!;
+    }
+
+    insert(name: FakeTableName, values: Row): Row {
+        const rows = this.table(name);
+        const row: Row = { ...DEFAULTS[name]?.(), ...values };
+        if (row.id === undefined) row.id = this.nextId(name);
+
+        for (const key of UNIQUE[name] ?? []) {
+            const taken = rows.some((r) => key.every((c) => row[c] != null && same(r[c], row[c])));
+            if (taken) {
+                throw pgError("23505", `duplicate key value violates unique constraint "${name}_${key.join("_")}_key"`);
+            }
+        }
+        rows.push(row);
+        return row;
+    }
+
+    remove(name: FakeTableName, doomed: Row[]) {
+        this.rows.set(name, this.table(name).filter((r) => !doomed.includes(r)));
+    }
+
+    private nextId(name: FakeTableName): number {
+        const next =
+            this.nextIds.get(name) ??
+            Math.max(0, ...this.table(name).map((r) => (typeof r.id === "number" ? r.id : 0))) + 1;
+        this.nextIds.set(name, next + 1);
+        return next;
+    }
+}
+
+type ChangeEvent = "INSERT" | "UPDATE" | "DELETE";
+
+interface ChannelListener {
+    event: ChangeEvent | "*";
+    table: string;
+    callback: (payload: { eventType: ChangeEvent; table: string; new: Row; old: Row }) => void;
+}
+
+export interface FakeSupabase {
+    client: TypedSupabaseClient;
+    // the live rows of a table, for seeding more and for assertions
+    rows<T extends FakeTableName>(table: T): Partial<Tables<T>>[];
+    // uploaded files, keyed "<bucket>/<path>"
+    files: Map<string, Blob>;
+    signIn(user: FakeUser): void;
+    signOut(): void;
+    // delivers a postgres_changes event to the subscribed channels
+    emit(table: FakeTableName, event: ChangeEvent, record?: Row): void;
+}
+
+export function createFakeSupabase(options: FakeSupabaseOptions = {}): FakeSupabase {
+    const db = new FakeDb(options.rows, options.maxRows);
+    const users: FakeUser[] = [...(options.users ?? [])];
+    if (options.user && !users.some((u) => u.id === options.user!.id)) users.push(options.user);
+
+    const files = new Map<string, Blob>();
+    const channels = new Set<ChannelListener[]>();
+    const authListeners = new Set<(event: string, session: Session | null) => void>();
+
+    const toUser = (u: FakeUser): User =>
+        ({
+            id: u.id,
+            email: u.email,
+            aud: "authenticated",
+            role: "authenticated",
+            app_metadata: {},
+            user_metadata: {},
+            created_at: new Date(0).toISOString(),
+        }) as User;
+
+    const toSession = (u: FakeUser): Session => ({
+        access_token: `fake-token-${u.id}`,
+        refresh_token: `fake-refresh-${u.id}`,
+        token_type: "bearer",
+        expires_in: 3600,
+        user: toUser(u),
+    });
+
+    let session: Session | null = options.user ? toSession(options.user) : null;
+
+    const setSession = (next: Session | null, event: string) => {
+        session = next;
+        authListeners.forEach((listener) => listener(event, session));
+    };
+
+    const noSession = { message: "Auth session missing!", name: "AuthSessionMissingError", status: 400 };
+    const badLogin = { message: "Invalid login credentials", name: "AuthApiError", status: 400 };
+
+    const auth = {
+        getSession: async () => ({ data: { session }, error: null }),
+        getUser: async () =>
+            session
+                ? { data: { user: session.user }, error: null }
+                : { data: { user: null }, error: noSession },
+        onAuthStateChange: (callback: (event: string, session: Session | null) => void) => {
+            authListeners.add(callback);
+            return {
+                data: {
+                    subscription: {
+                        id: crypto.randomUUID(),
+                        callback,
+                        unsubscribe: () => authListeners.delete(callback),
+                    },
+                },
+            };
+        },
+        signInWithPassword: async ({ email, password }: { email: string; password: string }) => {
+            const user = users.find((u) => u.email === email && (u.password ?? "") === password);
+            if (!user) return { data: { user: null, session: null }, error: badLogin };
+            setSession(toSession(user), "SIGNED_IN");
+            return { data: { user: session!.user, session }, error: null };
+        },
+        signUp: async ({ email, password }: { email: string; password: string }) => {
+            const user: FakeUser = { id: crypto.randomUUID(), email, password };
+            users.push(user);
+            setSession(toSession(user), "SIGNED_IN");
+            return { data: { user: session!.user, session }, error: null };
+        },
+        signOut: async () => {
+            setSession(null, "SIGNED_OUT");
+            return { error: null };
+        },
+    };
+
+    const storage = {
+        from: (bucket: string) => ({
+            upload: async (path: string, body: Blob, opts: { upsert?: boolean } = {}) => {
+                const key = `${bucket}/${path}`;
+                if (files.has(key) && !opts.upsert) {
+                    return { data: null, error: { message: "The resource already exists", statusCode: "409" } };
+                }
+                files.set(key, body);
+                return { data: { id: key, path, fullPath: key }, error: null };
+            },
+            getPublicUrl: (path: string) => ({
+                data: { publicUrl: `${FAKE_SUPABASE_URL}/storage/v1/object/public/${bucket}/${path}` },
+            }),
+            remove: async (paths: string[]) => {
+                const removed = paths.filter((p) => files.delete(`${bucket}/${p}`));
+                return { data: removed.map((name) => ({ name })), error: null };
+            },
+        }),
+    };
+
+    const rpc = async (name: string, args: Row = {}) => {
+        const handler = (options.rpc as Record<string, ((args: Row) => unknown) | undefined>)?.[name];
+        if (!handler) {
+            return { data: null, error: pgError("PGRST202", `Could not find the function public.${name}`) };
+        }
+        try {
+            return { data: handler(args), error: null };
+        } catch (err) {
+            return { data: null, error: pgError("P0001", (err as Error).message) };
+        }
+    };
+
+    const channel = () => {
+        const listeners: ChannelListener[] = [];
+        const ch = {
+            on(_type: "postgres_changes", filter: { event: ChangeEvent | "*"; table: string }, callback: ChannelListener["callback"]) {
+                listeners.push({ event: filter.event, table: filter.table, callback });
+                return ch;
+            },
+            subscribe(callback?: (status: string) => void) {
+                channels.add(listeners);
+                Promise.resolve().then(() => callback?.("SUBSCRIBED"));
+                return ch;
+            },
+            unsubscribe: async () => {
+                channels.delete(listeners);
+                return "ok";
+            },
+        };
+        return ch;
+    };
+
+    const client = {
+        from: (table: FakeTableName) => new FakeQuery(db, table),
+        rpc,
+        auth,
+        storage,
+        channel,
+        removeChannel: async (ch: ReturnType<typeof channel>) => ch.unsubscribe(),
+    };
+
+    return {
+        // the fake only has what the app uses, so it can't satisfy the full type
+        client: client as unknown as TypedSupabaseClient,
+        rows: <T extends FakeTableName>(table: T) => db.table(table) as Partial<Tables<T>>[],
+        files,
+        signIn: (user) => {
+            if (!users.some((u) => u.id === user.id)) users.push(user);
+            setSession(toSession(user), "SIGNED_IN");
+        },
+        signOut: () => setSession(null, "SIGNED_OUT"),
+        emit: (table, event, record = {}) => {
+            channels.forEach((listeners) =>
+                listeners
+                    .filter((l) => l.table === table && (l.event === "*" || l.event === event))
+                    .forEach((l) => l.callback({ eventType: event, table, new: record, old: record }))
+            );
+        },
+    };
+}
@@ -0,0 +1,75 @@
+// src/test/poses.ts
+//
+// Fixture poses for the form tests: the 17 MoveNet keypoints of someone seen
+// side-on in a 640×480 frame. The side facing the camera gets the given
+// joints; the far side is mostly hidden and comes back with low confidence.
+
+import type { Keypoint } from "@/lib/poseGeometry";
+
+const FRAME_WIDTH = 640;
+
+type Point = [x: number, y: number];
+
+export interface PoseJoints {
+    shoulder: Point;
+    hip: Point;
+    knee: Point;
+    ankle: Point;
+}
+
+const PARTS = ["shoulder", "hip", "knee", "ankle"] as const;
+
+export function sidePose(
+    joints: PoseJoints,
+    { side = "left", score = 0.9 }: { side?: "left" | "right"; score?: number } = {}
+): Keypoint[] {
+    const far = side === "left" ? "right" : "left";
+    const head = { x: joints.shoulder[0], y: joints.shoulder[1] - 20 };
+    return [
+        { name: "nose", ...head, score },
+        { name: "left_eye", ...head, score },
+        { name: "right_eye", ...head, score },
+        { name: "left_ear", ...head, score },
+        { name: "right_ear", ...head, score },
+        ...PARTS.flatMap((part) => {
+            const [x, y] = joints[part];
+            return [
+                { name: `${side}_${part}`, x, y, score },
+                // the hidden side, a little off and barely seen
+                { name: `${far}_${part}`, x: x + 5, y: y - 5, score: 0.1 },
+            ];
+        }),
+        { name: `${side}_elbow`, x: joints.shoulder[0], y: joints.shoulder[1] + 60, score },
+        { name: `${side}_wrist`, x: joints.shoulder[0] - 40, y: joints.shoulder[1] + 60, score },
+    ];
+}
+
+// the same pose seen from the other side: head on the other end of the frame
+export function mirrored(joints: PoseJoints): PoseJoints {
+    const flip = ([x, y]: Point): Point => [FRAME_WIDTH - x, y];
+    return {
+        shoulder: flip(joints.shoulder),
+        hip: flip(joints.hip),
+        knee: flip(joints.knee),
+        ankle: flip(joints.ankle),
+    };
+}
+
+// head to the right, feet to the left
+export const STRAIGHT: PoseJoints = {
+    shoulder: [480, 300],
+    hip: [330, 310],
+    knee: [255, 315],
+    ankle: [180, 320],
+};
+
+export const SAGGING: PoseJoints = { ...STRAIGHT, hip: [330, 350], knee: [255, 335] };
+
+export const PIKED: PoseJoints = { ...STRAIGHT, hip: [330, 250], knee: [255, 285] };
+
+export const STANDING: PoseJoints = {
+    shoulder: [320, 120],
+    hip: [322, 250],
+    knee: [322, 330],
+    ankle: [324, 410],
+};
@@ -0,0 +1,35 @@
+// src/test/render.tsx
+import React from "react";
+import { render } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { MemoryRouter } from "react-router-dom";
+import { Toaster } from "@/components/ui/sonner";
+import SupabaseProvider from "@/integrations/supabase/SupabaseProvider";
+import type { FakeSupabase } from "./fakeSupabase";
+
+interface RenderOptions {
+    route?: string;
+}
+
+// Renders `ui` the way the app mounts it, against the fake Supabase and a
+// fresh query cache. Toasts render too, so tests can look for them.
+export function renderWithProviders(ui: React.ReactElement, fake: FakeSupabase, { route = "/" }: RenderOptions = {}) {
+    const queryClient = new QueryClient({
+        defaultOptions: {
+            queries: { retry: false },
+            mutations: { retry: false },
+        },
+    });
+
+    const result = render(
+        <SupabaseProvider client={fake.client}>
+            <QueryClientProvider client={queryClient}>
+                <MemoryRouter initialEntries={[route]}>
+                    {ui}
+                    <Toaster />
+                </MemoryRouter>
+            </QueryClientProvider>
+        </SupabaseProvider>
+    );
+    return { ...result, queryClient };
+}
@@ -0,0 +1,56 @@
+// src/workers/poseWorker.ts
+//
+// Runs MoveNet on the TF.js CPU backend off the main thread so the timer and
+// camera preview stay smooth. Frames arrive as ImageData; each one is answered
+// with its keypoints and a form assessment.
+
+import * as tf from "@tensorflow/tfjs-core";
+import "@tensorflow/tfjs-backend-cpu";
+import "@tensorflow/tfjs-converter";
+import * as poseDetection from "@tensorflow-models/pose-detection";
+import { assessPlankForm, Keypoint, FormAssessment } from "@/lib/poseGeometry";
+
+export type PoseWorkerRequest =
+    | { type: "init" }
+    | { type: "frame"; frame: ImageData; timestamp: number };
+
+export type PoseWorkerResponse =
+    | { type: "ready" }
+    | { type: "result"; keypoints: Keypoint[]; assessment: FormAssessment; timestamp: number }
+    | { type: "error"; message: string };
+
+const worker = self as unknown as Worker;
+let detector: poseDetection.PoseDetector | null = null;
+
+const reply = (msg: PoseWorkerResponse) => worker.postMessage(msg);
+
+async function init() {
+    await tf.setBackend("cpu");
+    await tf.ready();
+    detector = await poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, {
+        modelType: poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING,
+        enableSmoothing: true,
+    });
+    reply({ type: "ready" });
+}
+
+async function estimate(frame: ImageData, timestamp: number) {
+    if (!detector) return;
+    const [pose] = await detector.estimatePoses(frame, undefined, timestamp);
+    const keypoints: Keypoint[] = (pose?.keypoints ?? []).map((k) => ({
+        x: k.x,
+        y: k.y,
+        score: k.score,
+        name: k.name,
+    }));
+    reply({ type: "result", keypoints, assessment: assessPlankForm(keypoints), timestamp });
+}
+
+worker.onmessage = (e: MessageEvent<PoseWorkerRequest>) => {
+    const msg = e.data;
+    const run = msg.type === "init" ? init() : estimate(msg.frame, msg.timestamp);
+    run.catch((err) => {
+        console.error("Pose worker failed:", err);
+        reply({ type: "error", message: err instanceof Error ? err.message : String(err) });
+    });
+};
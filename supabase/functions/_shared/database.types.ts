@@ -0,0 +1,921 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      api_tokens: {
+        Row: {
+          id: number
+          user_id: string
+          name: string
+          token_hash: string
+          token_prefix: string
+          scopes: string[]
+          created_at: string
+          last_used_at: string | null
+          revoked_at: string | null
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          name: string
+          token_hash: string
+          token_prefix: string
+          scopes: string[]
+          created_at?: string
+          last_used_at?: string | null
+          revoked_at?: string | null
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          name?: string
+          token_hash?: string
+          token_prefix?: string
+          scopes?: string[]
+          created_at?: string
+          last_used_at?: string | null
+          revoked_at?: string | null
+        }
+        Relationships: []
+      }
+      badges: {
+        Row: {
+          id: number
+          name: string
+          icon_url: string
+          description: string
+          criteria: Json
+        }
+        Insert: {
+          id?: number
+          name: string
+          icon_url: string
+          description: string
+          criteria?: Json
+        }
+        Update: {
+          id?: number
+          name?: string
+          icon_url?: string
+          description?: string
+          criteria?: Json
+        }
+        Relationships: []
+      }
+      challenge_participants: {
+        Row: {
+          id: number
+          user_id: string
+          challenge_id: number
+          joined_at: string | null
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          challenge_id: number
+          joined_at?: string | null
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          challenge_id?: number
+          joined_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "challenge_participants_challenge_id_fkey"
+            columns: ["challenge_id"]
+            isOneToOne: false
+            referencedRelation: "challenges"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      challenges: {
+        Row: {
+          id: number
+          title: string
+          description: string
+          image: string
+          start_date: string
+          start_time: string | null
+          end_date: string
+          participants: number
+          is_active: boolean
+          type: string
+          meeting_url: string | null
+          team_id: number | null
+        }
+        Insert: {
+          id?: number
+          title: string
+          description: string
+          image: string
+          start_date: string
+          start_time?: string | null
+          end_date: string
+          participants?: number
+          is_active?: boolean
+          type: string
+          meeting_url?: string | null
+          team_id?: number | null
+        }
+        Update: {
+          id?: number
+          title?: string
+          description?: string
+          image?: string
+          start_date?: string
+          start_time?: string | null
+          end_date?: string
+          participants?: number
+          is_active?: boolean
+          type?: string
+          meeting_url?: string | null
+          team_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "challenges_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      follows: {
+        Row: {
+          follower_id: string
+          following_id: string
+          status: string
+          created_at: string
+        }
+        Insert: {
+          follower_id: string
+          following_id: string
+          status?: string
+          created_at?: string
+        }
+        Update: {
+          follower_id?: string
+          following_id?: string
+          status?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          id: number
+          user_id: string
+          kind: string
+          body: string
+          plank_id: number | null
+          actor_id: string | null
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          kind: string
+          body: string
+          plank_id?: number | null
+          actor_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          kind?: string
+          body?: string
+          plank_id?: number | null
+          actor_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_plank_id_fkey"
+            columns: ["plank_id"]
+            isOneToOne: false
+            referencedRelation: "planks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plank_comments: {
+        Row: {
+          id: number
+          plank_id: number
+          user_id: string
+          parent_id: number | null
+          body: string
+          created_at: string
+          edited_at: string | null
+        }
+        Insert: {
+          id?: number
+          plank_id: number
+          user_id: string
+          parent_id?: number | null
+          body: string
+          created_at?: string
+          edited_at?: string | null
+        }
+        Update: {
+          id?: number
+          plank_id?: number
+          user_id?: string
+          parent_id?: number | null
+          body?: string
+          created_at?: string
+          edited_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "plank_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "plank_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "plank_comments_plank_id_fkey"
+            columns: ["plank_id"]
+            isOneToOne: false
+            referencedRelation: "planks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plank_kudos: {
+        Row: {
+          plank_id: number
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          plank_id: number
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          plank_id?: number
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "plank_kudos_plank_id_fkey"
+            columns: ["plank_id"]
+            isOneToOne: false
+            referencedRelation: "planks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plank_variants: {
+        Row: {
+          id: number
+          slug: string | null
+          name: string
+          is_sided: boolean
+          user_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          slug?: string | null
+          name: string
+          is_sided?: boolean
+          user_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          slug?: string | null
+          name?: string
+          is_sided?: boolean
+          user_id?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      plank_verifications: {
+        Row: {
+          id: number
+          plank_id: number
+          user_id: string
+          snapshot_paths: string[]
+          captured_at: string[]
+          form_score: number | null
+          submitted_at: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          review_note: string | null
+          flagged_at: string | null
+          flagged_by: string | null
+          flag_reason: string | null
+        }
+        Insert: {
+          id?: number
+          plank_id: number
+          user_id: string
+          snapshot_paths?: string[]
+          captured_at?: string[]
+          form_score?: number | null
+          submitted_at?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          review_note?: string | null
+          flagged_at?: string | null
+          flagged_by?: string | null
+          flag_reason?: string | null
+        }
+        Update: {
+          id?: number
+          plank_id?: number
+          user_id?: string
+          snapshot_paths?: string[]
+          captured_at?: string[]
+          form_score?: number | null
+          submitted_at?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          review_note?: string | null
+          flagged_at?: string | null
+          flagged_by?: string | null
+          flag_reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "plank_verifications_plank_id_fkey"
+            columns: ["plank_id"]
+            isOneToOne: true
+            referencedRelation: "planks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      planks: {
+        Row: {
+          id: number
+          user_id: string
+          plank_date: string
+          duration_s: number
+          inserted_at: string
+          client_id: string | null
+          variant_id: number
+          side: string | null
+          weight_kg: number | null
+          workout_session_id: number | null
+          set_index: number | null
+          target_s: number | null
+          form_score: number | null
+          photos: string[] | null
+          verification_status: Database["public"]["Enums"]["plank_verification_status"]
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          plank_date: string
+          duration_s: number
+          inserted_at?: string
+          client_id?: string | null
+          variant_id?: number
+          side?: string | null
+          weight_kg?: number | null
+          workout_session_id?: number | null
+          set_index?: number | null
+          target_s?: number | null
+          form_score?: number | null
+          photos?: string[] | null
+          verification_status?: Database["public"]["Enums"]["plank_verification_status"]
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          plank_date?: string
+          duration_s?: number
+          inserted_at?: string
+          client_id?: string | null
+          variant_id?: number
+          side?: string | null
+          weight_kg?: number | null
+          workout_session_id?: number | null
+          set_index?: number | null
+          target_s?: number | null
+          form_score?: number | null
+          photos?: string[] | null
+          verification_status?: Database["public"]["Enums"]["plank_verification_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "planks_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "plank_variants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "planks_workout_session_id_fkey"
+            columns: ["workout_session_id"]
+            isOneToOne: false
+            referencedRelation: "workout_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          id: string
+          username: string | null
+          full_name: string | null
+          profile_image: string | null
+          bio: string | null
+          join_date: string
+          followers_count: number
+          following_count: number
+          approve_followers: boolean
+          role: string
+        }
+        Insert: {
+          id: string
+          username?: string | null
+          full_name?: string | null
+          profile_image?: string | null
+          bio?: string | null
+          join_date?: string
+          followers_count?: number
+          following_count?: number
+          approve_followers?: boolean
+          role?: string
+        }
+        Update: {
+          id?: string
+          username?: string | null
+          full_name?: string | null
+          profile_image?: string | null
+          bio?: string | null
+          join_date?: string
+          followers_count?: number
+          following_count?: number
+          approve_followers?: boolean
+          role?: string
+        }
+        Relationships: []
+      }
+      team_members: {
+        Row: {
+          team_id: number
+          user_id: string
+          role: string
+          joined_at: string
+        }
+        Insert: {
+          team_id: number
+          user_id: string
+          role?: string
+          joined_at?: string
+        }
+        Update: {
+          team_id?: number
+          user_id?: string
+          role?: string
+          joined_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          id: number
+          name: string
+          description: string | null
+          invite_code: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          name: string
+          description?: string | null
+          invite_code?: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          name?: string
+          description?: string | null
+          invite_code?: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      user_badges: {
+        Row: {
+          id: number
+          user_id: string
+          badge_id: number
+          progress: number
+          max_progress: number
+          earned_at: string | null
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          badge_id: number
+          progress?: number
+          max_progress?: number
+          earned_at?: string | null
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          badge_id?: number
+          progress?: number
+          max_progress?: number
+          earned_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_badges_badge_id_fkey"
+            columns: ["badge_id"]
+            isOneToOne: false
+            referencedRelation: "badges"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workout_sessions: {
+        Row: {
+          id: number
+          client_id: string | null
+          user_id: string
+          plank_date: string
+          set_count: number
+          total_hold_s: number
+          total_rest_s: number
+          inserted_at: string
+        }
+        Insert: {
+          id?: number
+          client_id?: string | null
+          user_id: string
+          plank_date?: string
+          set_count: number
+          total_hold_s?: number
+          total_rest_s?: number
+          inserted_at?: string
+        }
+        Update: {
+          id?: number
+          client_id?: string | null
+          user_id?: string
+          plank_date?: string
+          set_count?: number
+          total_hold_s?: number
+          total_rest_s?: number
+          inserted_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      plank_variant_records: {
+        Row: {
+          user_id: string | null
+          variant_id: number | null
+          plank_id: number | null
+          best_duration_s: number | null
+          weight_kg: number | null
+          plank_date: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "planks_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "plank_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_stats: {
+        Row: {
+          user_id: string | null
+          current_streak: number | null
+          best_time_seconds: number | null
+          best_time_date: string | null
+          total_planks: number | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      activity_feed: {
+        Args: {
+          p_before?: string | null
+          p_before_id?: string | null
+          p_limit?: number
+        }
+        Returns: {
+          item_id: string
+          kind: string
+          occurred_at: string
+          actor_id: string
+          actor_name: string | null
+          actor_image: string | null
+          plank_id: number | null
+          duration_s: number | null
+          badge_name: string | null
+          badge_icon: string | null
+          challenge_id: number | null
+          challenge_title: string | null
+        }[]
+      }
+      create_api_token: {
+        Args: {
+          p_name: string
+          p_scopes: string[]
+        }
+        Returns: string
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_team_member: {
+        Args: {
+          p_team_id: number
+        }
+        Returns: boolean
+      }
+      join_challenge: {
+        Args: {
+          p_challenge_id: number
+        }
+        Returns: number
+      }
+      join_team: {
+        Args: {
+          p_code: string
+        }
+        Returns: number
+      }
+      leaderboard: {
+        Args: {
+          p_metric: string
+          p_since?: string | null
+          p_until?: string | null
+          p_variant_id?: number | null
+          p_verified_only?: boolean
+          p_min_planks?: number
+          p_limit?: number
+          p_offset?: number
+          p_scope?: string
+          p_team_id?: number | null
+        }
+        Returns: {
+          user_id: string
+          full_name: string | null
+          profile_image: string | null
+          value: number
+          best_status: Database["public"]["Enums"]["plank_verification_status"]
+          plank_count: number
+          rank: number
+          entrants: number
+        }[]
+      }
+      leaderboard_my_rank: {
+        Args: {
+          p_user_id: string
+          p_metric: string
+          p_since?: string | null
+          p_until?: string | null
+          p_variant_id?: number | null
+          p_verified_only?: boolean
+          p_min_planks?: number
+          p_scope?: string
+          p_team_id?: number | null
+        }
+        Returns: {
+          value: number
+          rank: number
+          entrants: number
+        }[]
+      }
+      leave_challenge: {
+        Args: {
+          p_challenge_id: number
+        }
+        Returns: number
+      }
+      mark_notifications_read: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      regenerate_team_invite: {
+        Args: {
+          p_team_id: number
+        }
+        Returns: string
+      }
+      respond_follow_request: {
+        Args: {
+          p_follower_id: string
+          p_accept: boolean
+        }
+        Returns: undefined
+      }
+      revoke_api_token: {
+        Args: {
+          p_token_id: number
+        }
+        Returns: undefined
+      }
+      review_plank: {
+        Args: {
+          p_plank_id: number
+          p_decision: string
+          p_reason?: string | null
+        }
+        Returns: Database["public"]["Enums"]["plank_verification_status"]
+      }
+      set_team_role: {
+        Args: {
+          p_team_id: number
+          p_user_id: string
+          p_role: string
+        }
+        Returns: undefined
+      }
+      team_preview: {
+        Args: {
+          p_code: string
+        }
+        Returns: {
+          id: number
+          name: string
+          description: string | null
+          member_count: number
+        }[]
+      }
+      team_role: {
+        Args: {
+          p_team_id: number
+        }
+        Returns: string | null
+      }
+      team_stats: {
+        Args: {
+          p_team_id: number
+        }
+        Returns: {
+          member_count: number
+          total_seconds: number
+          week_seconds: number
+          active_this_week: number
+        }[]
+      }
+    }
+    Enums: {
+      plank_verification_status: "unverified" | "pending" | "verified" | "rejected"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DefaultSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+  | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+  | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+  ? keyof (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+    Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+  : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+    Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+  ? R
+  : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+    DefaultSchema["Views"])
+  ? (DefaultSchema["Tables"] &
+    DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+      Row: infer R
+    }
+  ? R
+  : never
+  : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+  | keyof DefaultSchema["Tables"]
+  | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+  ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+  : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+    Insert: infer I
+  }
+  ? I
+  : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+  ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+    Insert: infer I
+  }
+  ? I
+  : never
+  : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+  | keyof DefaultSchema["Tables"]
+  | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+  ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+  : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+    Update: infer U
+  }
+  ? U
+  : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+  ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+    Update: infer U
+  }
+  ? U
+  : never
+  : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+  | keyof DefaultSchema["Enums"]
+  | { schema: keyof Database },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof Database
+  }
+  ? keyof Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+  : never = never,
+> = DefaultSchemaEnumNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+  ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+  : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+  | keyof DefaultSchema["CompositeTypes"]
+  | { schema: keyof Database },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof Database
+  }
+  ? keyof Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+  : never = never,
+> = PublicCompositeTypeNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+  ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+  : never
+
+export const Constants = {
+  public: {
+    Enums: {
+      plank_verification_status: ["unverified", "pending", "verified", "rejected"],
+    },
+  },
+} as const
@@ -0,0 +1,101 @@
+// supabase/functions/_shared/plankInput.ts
+//
+// Validation for a plank typed in by hand: the "Log a New Plank" form and the
+// HTTP API share it, so a plank the form rejects is rejected by the API too.
+// Keep this module free of imports; the app and the Edge Functions both load it.
+
+export interface PlankInput {
+    plank_date: string;  // YYYY-MM-DD
+    time: string;        // "m:ss", as typed into the form
+}
+
+export type PlankInputResult =
+    | { ok: true; plank_date: string; duration_s: number }
+    | { ok: false; error: string };
+
+export type ApiPlankResult =
+    | { ok: true; plank_date: string; duration_s: number; variant_id: number | null; client_id: string | null }
+    | { ok: false; error: string };
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// what the form's pattern allows, with the seconds kept under a minute
+const PLANK_TIME = /^\d{1,2}:[0-5]\d$/;
+
+// a day that exists, written YYYY-MM-DD
+const isPlankDate = (value: string) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+// the error for a plank date, or null when it's a real day no later than `today`
+function checkPlankDate(value: string, today: string): string | null {
+    if (!isPlankDate(value)) return "Invalid date";
+    if (value > today) return "Date can't be in the future";
+    return null;
+}
+
+const isPositiveInteger = (value: unknown): value is number =>
+    typeof value === "number" && Number.isInteger(value) && value > 0;
+
+// "m:ss" -> seconds, or null when it isn't written that way
+export function parsePlankTime(value: string): number | null {
+    if (!PLANK_TIME.test(value)) return null;
+    const [m, s] = value.split(":").map((v) => parseInt(v, 10));
+    return m * 60 + s;
+}
+
+// `today` is the latest date accepted, YYYY-MM-DD
+export function validatePlankInput(input: PlankInput, today: string): PlankInputResult {
+    const dateError = checkPlankDate(input.plank_date, today);
+    if (dateError) {
+        return { ok: false, error: dateError };
+    }
+    const duration_s = parsePlankTime(input.time);
+    if (duration_s === null) {
+        return { ok: false, error: "Invalid time format" };
+    }
+    if (duration_s === 0) {
+        return { ok: false, error: "Time must be longer than 0:00" };
+    }
+    return { ok: true, plank_date: input.plank_date, duration_s };
+}
+
+// The body of POST /api/planks: the form's "time" or a whole number of
+// seconds in "duration_s", an optional "date" (defaults to `today`, and no
+// later than it), and optional "variant_id" and "client_id".
+export function validateApiPlank(body: Record<string, unknown>, today: string): ApiPlankResult {
+    const plank_date = body.date === undefined ? today : String(body.date);
+
+    let duration_s: number;
+    if (body.duration_s !== undefined) {
+        if (!isPositiveInteger(body.duration_s)) {
+            return { ok: false, error: "duration_s must be a positive whole number of seconds" };
+        }
+        const dateError = checkPlankDate(plank_date, today);
+        if (dateError) {
+            return { ok: false, error: dateError };
+        }
+        duration_s = body.duration_s;
+    } else {
+        const input = validatePlankInput({ plank_date, time: String(body.time ?? "") }, today);
+        if (input.ok === false) return input;
+        duration_s = input.duration_s;
+    }
+
+    if (body.variant_id != null && !isPositiveInteger(body.variant_id)) {
+        return { ok: false, error: "variant_id must be a plank variant id" };
+    }
+    if (body.client_id != null && (typeof body.client_id !== "string" || !UUID.test(body.client_id))) {
+        return { ok: false, error: "client_id must be a UUID" };
+    }
+
+    return {
+        ok: true,
+        plank_date,
+        duration_s,
+        variant_id: (body.variant_id as number) ?? null,
+        client_id: (body.client_id as string) ?? null,
+    };
+}
@@ -0,0 +1,172 @@
+// supabase/functions/api/index.ts
+//
+// HTTP API for logging planks from scripts, terminals and editor hooks.
+// Requests carry a personal access token from the profile page:
+//
+//   Authorization: Bearer rap_…
+//
+//   POST /api/planks  (scope planks:write)
+//     { "time": "1:30", "date": "2026-10-19" }     or { "duration_s": 90 }
+//     optional "variant_id" (a built-in variant or one of the user's own) and
+//     "client_id" (a UUID; repeating a request with the same client_id
+//     returns the plank it already created)
+//   GET  /api/stats   (scope stats:read)
+//
+// Planks go through the same validation as the "Log a New Plank" form.
+// The function uses the service role, so every query filters on the
+// token's user itself. supabase/functions/tests/api-test.ts exercises it
+// against a local Supabase.
+
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { validateApiPlank } from "../_shared/plankInput.ts";
+import type { Database, Tables } from "../_shared/database.types.ts";
+
+type Scope = "planks:write" | "stats:read";
+
+type ApiToken = Pick<Tables<"api_tokens">, "id" | "user_id" | "scopes">;
+
+const supabase = createClient<Database>(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    { auth: { persistSession: false } }
+);
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    });
+
+const sha256 = async (text: string) => {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+// the token behind the Authorization header, or null when it is unknown or revoked
+async function authenticate(req: Request): Promise<ApiToken | null> {
+    const token = req.headers.get("Authorization")?.match(/^Bearer\s+(rap_[0-9a-f]+)$/)?.[1];
+    if (!token) return null;
+
+    const { data, error } = await supabase
+        .from("api_tokens")
+        .select("id, user_id, scopes")
+        .eq("token_hash", await sha256(token))
+        .is("revoked_at", null)
+        .maybeSingle();
+    if (error) {
+        console.error("Could not look up token:", error);
+        return null;
+    }
+    if (!data) return null;
+
+    await supabase.from("api_tokens").update({ last_used_at: new Date().toISOString() }).eq("id", data.id);
+    return data;
+}
+
+async function createPlank(token: ApiToken, req: Request) {
+    let body: Record<string, unknown>;
+    try {
+        body = await req.json();
+    } catch {
+        return json({ error: "Body must be JSON" }, 400);
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        return json({ error: "Body must be a JSON object" }, 400);
+    }
+
+    // 1) same checks as the form, plus the API's own fields
+    const input = validateApiPlank(body, new Date().toISOString().slice(0, 10));
+    if (input.ok === false) return json({ error: input.error }, 400);
+
+    // 2) built-in variants are anyone's; the rest only their owner's
+    if (input.variant_id !== null) {
+        const { data: variant, error: variantErr } = await supabase
+            .from("plank_variants")
+            .select("id")
+            .eq("id", input.variant_id)
+            .or(`user_id.is.null,user_id.eq.${token.user_id}`)
+            .maybeSingle();
+        if (variantErr) {
+            console.error("Could not look up variant:", variantErr);
+            return json({ error: "Could not save plank" }, 500);
+        }
+        if (!variant) return json({ error: "Unknown variant_id" }, 400);
+    }
+
+    const clientId = input.client_id ?? crypto.randomUUID();
+
+    // 3) insert unless this client id already made the plank
+    const { error: upsertErr } = await supabase
+        .from("planks")
+        .upsert(
+            {
+                client_id: clientId,
+                user_id: token.user_id,
+                plank_date: input.plank_date,
+                duration_s: input.duration_s,
+                ...(input.variant_id !== null && { variant_id: input.variant_id }),
+            },
+            { onConflict: "client_id", ignoreDuplicates: true }
+        );
+    if (upsertErr) {
+        console.error("Could not save plank:", upsertErr);
+        return json({ error: "Could not save plank" }, 400);
+    }
+
+    const { data: plank, error } = await supabase
+        .from("planks")
+        .select("id, plank_date, duration_s, variant_id, client_id")
+        .eq("client_id", clientId)
+        .eq("user_id", token.user_id)
+        .maybeSingle();
+    if (error || !plank) {
+        return json({ error: "client_id belongs to another plank" }, 409);
+    }
+    return json(plank, 201);
+}
+
+async function readStats(token: ApiToken) {
+    const { data, error } = await supabase
+        .from("planks")
+        .select("duration_s, plank_date")
+        .eq("user_id", token.user_id);
+    if (error) {
+        console.error("Could not load stats:", error);
+        return json({ error: "Could not load stats" }, 500);
+    }
+
+    // weeks start on Monday, like the group stats
+    const now = new Date();
+    const monday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - ((now.getUTCDay() + 6) % 7)));
+    const weekStart = monday.toISOString().slice(0, 10);
+
+    const rows = data || [];
+    return json({
+        planks: rows.length,
+        total_s: rows.reduce((sum, r) => sum + r.duration_s, 0),
+        best_s: rows.reduce((best, r) => Math.max(best, r.duration_s), 0),
+        week_s: rows.filter((r) => r.plank_date >= weekStart).reduce((sum, r) => sum + r.duration_s, 0),
+        last_plank_date: rows.reduce<string | null>((last, r) => (!last || r.plank_date > last ? r.plank_date : last), null),
+    });
+}
+
+const ROUTES: Record<string, { method: string; scope: Scope; handle: (token: ApiToken, req: Request) => Promise<Response> }> = {
+    "/planks": { method: "POST", scope: "planks:write", handle: createPlank },
+    "/stats": { method: "GET", scope: "stats:read", handle: readStats },
+};
+
+Deno.serve(async (req) => {
+    // "/functions/v1/api/planks" behind the gateway, "/api/planks" when served directly
+    const path = new URL(req.url).pathname.replace(/^(\/functions\/v1)?\/api/, "");
+    const route = ROUTES[path];
+    if (!route) return json({ error: "Not found" }, 404);
+    if (req.method !== route.method) return json({ error: "Method not allowed" }, 405);
+
+    const token = await authenticate(req);
+    if (!token) return json({ error: "Invalid or revoked token" }, 401);
+    if (!token.scopes.includes(route.scope)) {
+        return json({ error: `Token lacks the ${route.scope} scope` }, 403);
+    }
+
+    return route.handle(token, req);
+});
@@ -0,0 +1,141 @@
+// supabase/functions/tests/api-test.ts
+//
+// The api function over HTTP, against a local Supabase with the function
+// served; the README ("Against a local Supabase instance") has the command.
+// Every run signs up two fresh users, so it can be repeated without a reset.
+
+import { assertEquals, assertObjectMatch } from "jsr:@std/assert@1";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import type { Database } from "../_shared/database.types.ts";
+
+const url = Deno.env.get("SUPABASE_URL")!;
+const anonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+const admin = createClient<Database>(url, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+    auth: { persistSession: false },
+});
+
+// a confirmed user, signed in, with a token for the given scopes
+async function signUp(scopes: string[]) {
+    const email = `api-${crypto.randomUUID()}@test.local`;
+    const password = crypto.randomUUID();
+    const { data: created, error: createErr } = await admin.auth.admin.createUser({
+        email,
+        password,
+        email_confirm: true,
+    });
+    if (createErr) throw createErr;
+
+    const client = createClient<Database>(url, anonKey, { auth: { persistSession: false } });
+    const { error: signInErr } = await client.auth.signInWithPassword({ email, password });
+    if (signInErr) throw signInErr;
+    const { data: token, error: tokenErr } = await client.rpc("create_api_token", { p_name: "tests", p_scopes: scopes });
+    if (tokenErr) throw tokenErr;
+
+    return { id: created.user.id, token };
+}
+
+const call = (path: string, token: string | null, init: RequestInit = {}) =>
+    fetch(`${url}/functions/v1/api${path}`, {
+        ...init,
+        headers: { "Content-Type": "application/json", ...(token && { Authorization: `Bearer ${token}` }) },
+    });
+
+const post = async (token: string, body: unknown) => {
+    const res = await call("/planks", token, { method: "POST", body: JSON.stringify(body) });
+    return { status: res.status, body: await res.json() };
+};
+
+const me = await signUp(["planks:write", "stats:read"]);
+const other = await signUp(["stats:read"]);
+
+Deno.test("rejects requests without a valid token", async () => {
+    const res = await call("/stats", null);
+    assertEquals(res.status, 401);
+    await res.body?.cancel();
+
+    const unknownToken = await call("/stats", "rap_0000");
+    assertEquals(unknownToken.status, 401);
+    await unknownToken.body?.cancel();
+});
+
+Deno.test("needs the route's scope", async () => {
+    const { status } = await post(other.token, { duration_s: 60 });
+    assertEquals(status, 403);
+});
+
+Deno.test("logs a plank from m:ss or whole seconds", async () => {
+    const fromTime = await post(me.token, { time: "1:30", date: "2026-10-18" });
+    assertEquals(fromTime.status, 201);
+    assertObjectMatch(fromTime.body, { plank_date: "2026-10-18", duration_s: 90 });
+
+    const fromSeconds = await post(me.token, { duration_s: 45 });
+    assertEquals(fromSeconds.status, 201);
+    assertObjectMatch(fromSeconds.body, { duration_s: 45 });
+});
+
+Deno.test("only takes a positive whole number of seconds", async () => {
+    for (const duration_s of [0, -30, 90.5, "90"]) {
+        const { status, body } = await post(me.token, { duration_s });
+        assertEquals(status, 400, `duration_s ${JSON.stringify(duration_s)}`);
+        assertEquals(body.error, "duration_s must be a positive whole number of seconds");
+    }
+});
+
+Deno.test("takes m:ss the way the form does", async () => {
+    for (const time of ["-1:30", "1:75", "1:30:99", "2e1:00"]) {
+        const { status, body } = await post(me.token, { time });
+        assertEquals(status, 400, `time ${time}`);
+        assertEquals(body.error, "Invalid time format");
+    }
+    assertEquals(await post(me.token, { time: "0:00" }), {
+        status: 400,
+        body: { error: "Time must be longer than 0:00" },
+    });
+});
+
+Deno.test("only takes days that exist, up to today", async () => {
+    assertEquals(await post(me.token, { duration_s: 60, date: "2026-02-31" }), {
+        status: 400,
+        body: { error: "Invalid date" },
+    });
+    assertEquals(await post(me.token, { time: "1:00", date: "2099-01-01" }), {
+        status: 400,
+        body: { error: "Date can't be in the future" },
+    });
+});
+
+Deno.test("takes built-in and own variants, not someone else's", async () => {
+    const { data: builtIn } = await admin.from("plank_variants").select("id").is("user_id", null).limit(1).single();
+    const { data: mine } = await admin
+        .from("plank_variants")
+        .insert({ name: "Mine", user_id: me.id })
+        .select("id")
+        .single();
+    const { data: theirs } = await admin
+        .from("plank_variants")
+        .insert({ name: "Theirs", user_id: other.id })
+        .select("id")
+        .single();
+
+    assertEquals((await post(me.token, { duration_s: 60, variant_id: builtIn!.id })).status, 201);
+    assertEquals((await post(me.token, { duration_s: 60, variant_id: mine!.id })).status, 201);
+    assertEquals(await post(me.token, { duration_s: 60, variant_id: theirs!.id }), {
+        status: 400,
+        body: { error: "Unknown variant_id" },
+    });
+});
+
+Deno.test("repeating a client_id returns the plank it created", async () => {
+    const client_id = crypto.randomUUID();
+    const first = await post(me.token, { duration_s: 75, client_id });
+    const again = await post(me.token, { duration_s: 75, client_id });
+
+    assertEquals(first.status, 201);
+    assertEquals(again.body.id, first.body.id);
+});
+
+Deno.test("reads the token owner's stats only", async () => {
+    const res = await call("/stats", other.token);
+    assertEquals(res.status, 200);
+    assertObjectMatch(await res.json(), { planks: 0, total_s: 0, best_s: 0 });
+});
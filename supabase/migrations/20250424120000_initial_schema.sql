@@ -0,0 +1,244 @@
+-- The schema the app started with, before migrations were kept in the repo:
+-- profiles, planks, challenges and their participants, badges, the
+-- user_stats view and the avatars / plank-photos storage buckets, with their
+-- row-level security. Everything later builds on this migration.
+--
+-- The hosted project already has these objects. Mark this migration as
+-- applied there instead of running it:
+--   supabase migration repair --status applied 20250424120000
+
+-- profiles ------------------------------------------------------------------
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  username text,
+  full_name text,
+  profile_image text,
+  bio text,
+  join_date date not null default current_date,
+  followers_count integer not null default 0,
+  role text not null default 'user' check (role in ('user', 'admin'))
+);
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles
+    where id = auth.uid() and role = 'admin'
+  );
+$$;
+
+alter table public.profiles enable row level security;
+
+-- the app creates a user's row when they sign up; it is removed with the
+-- auth user
+create policy "Profiles are visible to everyone"
+  on public.profiles for select
+  using (true);
+
+create policy "Users create their own profile"
+  on public.profiles for insert
+  with check (id = auth.uid());
+
+create policy "Users update their own profile"
+  on public.profiles for update
+  using (id = auth.uid())
+  with check (id = auth.uid());
+
+-- planks --------------------------------------------------------------------
+
+create table if not exists public.planks (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  plank_date date not null,
+  duration_s integer not null check (duration_s >= 0),
+  photos text[],
+  inserted_at timestamptz not null default now()
+);
+
+create index if not exists planks_user_date_idx
+  on public.planks (user_id, plank_date);
+
+alter table public.planks enable row level security;
+
+-- profiles, graphs and leaderboards show everyone's planks
+create policy "Planks are visible to everyone"
+  on public.planks for select
+  using (true);
+
+create policy "Users log their own planks"
+  on public.planks for insert
+  with check (user_id = auth.uid());
+
+create policy "Users update their own planks"
+  on public.planks for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users delete their own planks"
+  on public.planks for delete
+  using (user_id = auth.uid());
+
+-- current streak, best time and plank count per user. A streak is still
+-- current if its last day is today or yesterday.
+create or replace view public.user_stats
+with (security_invoker = on)
+as
+with islands as (
+  select d.user_id, d.plank_date,
+    d.plank_date - (row_number() over (partition by d.user_id order by d.plank_date))::integer as grp
+  from (select distinct p.user_id, p.plank_date from public.planks p) d
+),
+streaks as (
+  select i.user_id, count(*) as current_streak
+  from islands i
+  group by i.user_id, i.grp
+  having max(i.plank_date) >= current_date - 1
+),
+per_user as (
+  select
+    p.user_id,
+    max(p.duration_s) as best_time_seconds,
+    (array_agg(p.plank_date order by p.duration_s desc, p.plank_date))[1] as best_time_date,
+    count(*) as total_planks
+  from public.planks p
+  group by p.user_id
+)
+select
+  u.user_id,
+  coalesce(s.current_streak, 0)::integer as current_streak,
+  u.best_time_seconds,
+  u.best_time_date,
+  u.total_planks::integer as total_planks
+from per_user u
+left join streaks s on s.user_id = u.user_id;
+
+-- challenges ----------------------------------------------------------------
+
+create table if not exists public.challenges (
+  id bigint generated by default as identity primary key,
+  title text not null,
+  description text not null,
+  image text not null,
+  start_date date not null,
+  start_time time,
+  end_date date not null,
+  participants integer not null default 0,
+  is_active boolean not null default true,
+  type text not null,
+  meeting_url text,
+  constraint challenges_dates check (end_date >= start_date)
+);
+
+create table if not exists public.challenge_participants (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  challenge_id bigint not null references public.challenges (id) on delete cascade,
+  unique (challenge_id, user_id)
+);
+
+create index if not exists challenge_participants_user_idx
+  on public.challenge_participants (user_id);
+
+alter table public.challenges enable row level security;
+alter table public.challenge_participants enable row level security;
+
+create policy "Challenges are visible to everyone"
+  on public.challenges for select
+  using (true);
+
+create policy "Admins create challenges"
+  on public.challenges for insert
+  with check (public.is_admin());
+
+create policy "Admins delete challenges"
+  on public.challenges for delete
+  using (public.is_admin());
+
+create policy "Participants are visible to everyone"
+  on public.challenge_participants for select
+  using (true);
+
+create policy "Users join challenges as themselves"
+  on public.challenge_participants for insert
+  with check (user_id = auth.uid());
+
+create policy "Users leave challenges as themselves"
+  on public.challenge_participants for delete
+  using (user_id = auth.uid());
+
+-- badges --------------------------------------------------------------------
+
+create table if not exists public.badges (
+  id bigint generated by default as identity primary key,
+  name text not null unique,
+  icon_url text not null,
+  description text not null,
+  criteria jsonb not null default '{}'
+);
+
+create table if not exists public.user_badges (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  badge_id bigint not null references public.badges (id) on delete cascade,
+  progress integer not null default 0,
+  max_progress integer not null default 1,
+  earned_at timestamptz,
+  unique (user_id, badge_id)
+);
+
+alter table public.badges enable row level security;
+alter table public.user_badges enable row level security;
+
+-- badge progress is written with the service role, never by clients
+create policy "Badges are visible to everyone"
+  on public.badges for select
+  using (true);
+
+create policy "Earned badges are visible to everyone"
+  on public.user_badges for select
+  using (true);
+
+-- storage -------------------------------------------------------------------
+
+-- both buckets are public: images are shown through their public URLs.
+-- Objects are named "<user id>_…", which is what the policies check.
+insert into storage.buckets (id, name, public)
+values
+  ('avatars', 'avatars', true),
+  ('plank-photos', 'plank-photos', true)
+on conflict (id) do nothing;
+
+create policy "Avatars and plank photos are visible to everyone"
+  on storage.objects for select
+  using (bucket_id in ('avatars', 'plank-photos'));
+
+create policy "Users upload their own avatars and plank photos"
+  on storage.objects for insert
+  with check (
+    bucket_id in ('avatars', 'plank-photos')
+    and split_part(name, '_', 1) = auth.uid()::text
+  );
+
+create policy "Users replace their own avatars and plank photos"
+  on storage.objects for update
+  using (
+    bucket_id in ('avatars', 'plank-photos')
+    and split_part(name, '_', 1) = auth.uid()::text
+  )
+  with check (
+    bucket_id in ('avatars', 'plank-photos')
+    and split_part(name, '_', 1) = auth.uid()::text
+  );
+
+create policy "Users delete their own avatars and plank photos"
+  on storage.objects for delete
+  using (
+    bucket_id in ('avatars', 'plank-photos')
+    and split_part(name, '_', 1) = auth.uid()::text
+  );
@@ -0,0 +1,8 @@
+-- Client-generated idempotency key for planks synced from the offline outbox.
+-- A retried upload with the same key hits the unique constraint instead of
+-- creating a second plank.
+alter table public.planks
+  add column if not exists client_id uuid;
+
+create unique index if not exists planks_client_id_key
+  on public.planks (client_id);
@@ -0,0 +1,74 @@
+-- Plank variants: built-in ones (user_id is null) plus variants users define
+-- for themselves. Every plank records its variant, an optional added weight
+-- and, for sided variants, which side was held.
+
+create table if not exists public.plank_variants (
+  id bigint generated by default as identity primary key,
+  slug text unique,
+  name text not null,
+  is_sided boolean not null default false,
+  user_id uuid references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  constraint plank_variants_name_length check (char_length(name) between 1 and 40)
+);
+
+create unique index if not exists plank_variants_user_name_key
+  on public.plank_variants (user_id, lower(name));
+
+insert into public.plank_variants (id, slug, name, is_sided)
+overriding system value
+values
+  (1, 'forearm', 'Forearm', false),
+  (2, 'high', 'High', false),
+  (3, 'side', 'Side', true),
+  (4, 'weighted', 'Weighted', false)
+on conflict (id) do nothing;
+
+select setval(
+  pg_get_serial_sequence('public.plank_variants', 'id'),
+  greatest((select max(id) from public.plank_variants), 100)
+);
+
+alter table public.plank_variants enable row level security;
+
+create policy "Built-in and own variants are visible"
+  on public.plank_variants for select
+  using (user_id is null or user_id = auth.uid());
+
+create policy "Users create their own variants"
+  on public.plank_variants for insert
+  with check (user_id = auth.uid());
+
+create policy "Users update their own variants"
+  on public.plank_variants for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users delete their own variants"
+  on public.plank_variants for delete
+  using (user_id = auth.uid());
+
+-- existing planks were all standard forearm planks
+alter table public.planks
+  add column if not exists variant_id bigint not null default 1
+    references public.plank_variants (id) on delete restrict,
+  add column if not exists side text
+    check (side in ('left', 'right')),
+  add column if not exists weight_kg numeric(5, 1)
+    check (weight_kg > 0);
+
+create index if not exists planks_user_variant_idx
+  on public.planks (user_id, variant_id);
+
+-- best plank per user and variant
+create or replace view public.plank_variant_records
+with (security_invoker = true) as
+select distinct on (p.user_id, p.variant_id)
+  p.user_id,
+  p.variant_id,
+  p.id as plank_id,
+  p.duration_s as best_duration_s,
+  p.weight_kg,
+  p.plank_date
+from public.planks p
+order by p.user_id, p.variant_id, p.duration_s desc, p.plank_date asc;
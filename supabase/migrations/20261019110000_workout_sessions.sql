@@ -0,0 +1,42 @@
+-- Multi-set workout sessions. Each hold of a session is still a regular row
+-- in planks (so it counts for stats and leaderboards) and points back to its
+-- session with the position it had in the sequence.
+
+create table if not exists public.workout_sessions (
+  id bigint generated by default as identity primary key,
+  client_id uuid unique,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  plank_date date not null default current_date,
+  set_count smallint not null check (set_count between 1 and 20),
+  total_hold_s integer not null default 0 check (total_hold_s >= 0),
+  total_rest_s integer not null default 0 check (total_rest_s >= 0),
+  inserted_at timestamptz not null default now()
+);
+
+create index if not exists workout_sessions_user_idx
+  on public.workout_sessions (user_id, inserted_at desc);
+
+alter table public.workout_sessions enable row level security;
+
+create policy "Workout sessions are visible to everyone"
+  on public.workout_sessions for select
+  using (true);
+
+create policy "Users create their own workout sessions"
+  on public.workout_sessions for insert
+  with check (user_id = auth.uid());
+
+create policy "Users delete their own workout sessions"
+  on public.workout_sessions for delete
+  using (user_id = auth.uid());
+
+alter table public.planks
+  add column if not exists workout_session_id bigint
+    references public.workout_sessions (id) on delete cascade,
+  add column if not exists set_index smallint,
+  add column if not exists target_s integer check (target_s > 0),
+  add constraint planks_set_index_with_session
+    check ((workout_session_id is null) = (set_index is null));
+
+create index if not exists planks_workout_session_idx
+  on public.planks (workout_session_id, set_index);
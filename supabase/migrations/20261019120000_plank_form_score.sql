@@ -0,0 +1,7 @@
+-- Form quality measured on-device by the camera pose detection in the
+-- timer: the average per-frame score (100 = straight body line) over the
+-- hold. Null when the plank was timed without the camera.
+
+alter table public.planks
+  add column if not exists form_score smallint
+    check (form_score between 0 and 100);
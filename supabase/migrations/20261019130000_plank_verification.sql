@@ -0,0 +1,162 @@
+-- Verified planks. Every plank has a verification status; a plank timed with
+-- the camera gets an evidence record (snapshot paths, when each one was
+-- captured and the on-device form score) and waits for review. Only admins
+-- can move a plank to verified or rejected, and a verdict only covers the
+-- plank as it was reviewed, snapshots included.
+
+do $$
+begin
+  create type public.plank_verification_status as enum
+    ('unverified', 'pending', 'verified', 'rejected');
+exception
+  when duplicate_object then null;
+end
+$$;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles
+    where id = auth.uid() and role = 'admin'
+  );
+$$;
+
+alter table public.planks
+  add column if not exists verification_status public.plank_verification_status
+    not null default 'unverified';
+
+create index if not exists planks_verified_idx
+  on public.planks (plank_date, user_id)
+  where verification_status = 'verified';
+
+create table if not exists public.plank_verifications (
+  id bigint generated by default as identity primary key,
+  plank_id bigint not null unique references public.planks (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  snapshot_paths text[] not null,
+  captured_at timestamptz[] not null,
+  form_score smallint check (form_score between 0 and 100),
+  submitted_at timestamptz not null default now(),
+  reviewed_at timestamptz,
+  reviewed_by uuid references auth.users (id) on delete set null,
+  review_note text,
+  constraint plank_verifications_has_snapshots
+    check (cardinality(snapshot_paths) > 0),
+  constraint plank_verifications_captured_matches_paths
+    check (cardinality(captured_at) = cardinality(snapshot_paths))
+);
+
+alter table public.plank_verifications enable row level security;
+
+create policy "Verification evidence is visible to everyone"
+  on public.plank_verifications for select
+  using (true);
+
+create policy "Users submit evidence for their own planks"
+  on public.plank_verifications for insert
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.planks p
+      where p.id = plank_id and p.user_id = auth.uid()
+    )
+  );
+
+create policy "Admins review evidence"
+  on public.plank_verifications for update
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- submitting evidence puts the plank in the review queue
+create or replace function public.plank_verification_submitted()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.planks
+  set verification_status = 'pending'
+  where id = new.plank_id and verification_status = 'unverified';
+  return new;
+end;
+$$;
+
+drop trigger if exists plank_verification_submitted on public.plank_verifications;
+create trigger plank_verification_submitted
+  after insert on public.plank_verifications
+  for each row execute function public.plank_verification_submitted();
+
+-- users cannot grant themselves a status: new planks start unverified and
+-- only admins (or the trigger above, which runs as the table owner) change it.
+-- What was held (time, day, variant) is frozen while under review, and
+-- changing it afterwards takes a verified plank back to unverified; a
+-- rejection stands.
+create or replace function public.guard_plank_verification_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user in ('postgres', 'service_role', 'supabase_admin') or public.is_admin() then
+    return new;
+  end if;
+  if tg_op = 'INSERT' then
+    new.verification_status := 'unverified';
+    return new;
+  end if;
+  if new.verification_status is distinct from old.verification_status then
+    raise exception 'verification status can only be changed by a reviewer'
+      using errcode = '42501';
+  end if;
+
+  if (new.duration_s, new.plank_date, new.variant_id, new.side, new.weight_kg)
+      is distinct from (old.duration_s, old.plank_date, old.variant_id, old.side, old.weight_kg) then
+    if old.verification_status = 'pending' then
+      raise exception 'a plank cannot be changed while it is under review'
+        using errcode = '42501';
+    elsif old.verification_status = 'verified' then
+      new.verification_status := 'unverified';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_plank_verification_status on public.planks;
+create trigger guard_plank_verification_status
+  before insert or update on public.planks
+  for each row execute function public.guard_plank_verification_status();
+
+-- evidence ------------------------------------------------------------------
+
+-- whether a stored object is a snapshot of a verified plank
+create or replace function public.is_verified_evidence(p_bucket text, p_name text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_bucket = 'plank-photos' and exists (
+    select 1
+    from public.plank_verifications v
+    join public.planks p on p.id = v.plank_id
+    where p.verification_status = 'verified'
+      and p_name = any (v.snapshot_paths)
+  );
+$$;
+
+-- once a plank is verified its snapshots are what was approved: owners can't
+-- upload over them or remove them
+create policy "Verified evidence cannot be replaced"
+  on storage.objects as restrictive for update
+  using (not public.is_verified_evidence(bucket_id, name));
+
+create policy "Verified evidence cannot be deleted"
+  on storage.objects as restrictive for delete
+  using (not public.is_verified_evidence(bucket_id, name));
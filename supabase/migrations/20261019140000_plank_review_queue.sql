@@ -0,0 +1,125 @@
+-- Moderation of plank evidence. Reviewers approve, reject or flag a pending
+-- plank through review_plank(), which updates the plank and its evidence and
+-- notifies the owner in one transaction. Flagging keeps the plank pending but
+-- sets it aside for a second look.
+
+alter table public.plank_verifications
+  add column if not exists flagged_at timestamptz,
+  add column if not exists flagged_by uuid references auth.users (id) on delete set null,
+  add column if not exists flag_reason text;
+
+-- in-app notifications; rows are only created and marked read by security
+-- definer functions
+create table if not exists public.notifications (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null,
+  body text not null,
+  plank_id bigint references public.planks (id) on delete cascade,
+  actor_id uuid references auth.users (id) on delete set null,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_idx
+  on public.notifications (user_id, created_at desc);
+
+alter table public.notifications enable row level security;
+
+create policy "Users see their own notifications"
+  on public.notifications for select
+  using (user_id = auth.uid());
+
+create policy "Users delete their own notifications"
+  on public.notifications for delete
+  using (user_id = auth.uid());
+
+create or replace function public.review_plank(
+  p_plank_id bigint,
+  p_decision text,
+  p_reason text default null
+)
+returns public.plank_verification_status
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_owner uuid;
+  v_status public.plank_verification_status;
+  v_reason text := nullif(btrim(coalesce(p_reason, '')), '');
+begin
+  if not public.is_admin() then
+    raise exception 'only reviewers can review planks' using errcode = '42501';
+  end if;
+  if p_decision not in ('approve', 'reject', 'flag') then
+    raise exception 'unknown review decision: %', p_decision using errcode = '22023';
+  end if;
+  if p_decision <> 'approve' and v_reason is null then
+    raise exception 'a reason is required to % a plank', p_decision using errcode = '22023';
+  end if;
+
+  select user_id, verification_status into v_owner, v_status
+  from public.planks
+  where id = p_plank_id
+  for update;
+
+  if v_owner is null then
+    raise exception 'plank % not found', p_plank_id using errcode = 'P0002';
+  end if;
+  if v_status <> 'pending' then
+    raise exception 'plank % is not awaiting review', p_plank_id using errcode = '22023';
+  end if;
+
+  if p_decision = 'flag' then
+    update public.plank_verifications
+    set flagged_at = now(), flagged_by = auth.uid(), flag_reason = v_reason
+    where plank_id = p_plank_id;
+  else
+    v_status := case p_decision when 'approve' then 'verified' else 'rejected' end;
+
+    update public.planks
+    set verification_status = v_status
+    where id = p_plank_id;
+
+    update public.plank_verifications
+    set reviewed_at = now(), reviewed_by = auth.uid(), review_note = v_reason
+    where plank_id = p_plank_id;
+  end if;
+
+  insert into public.notifications (user_id, kind, body, plank_id, actor_id)
+  values (
+    v_owner,
+    'plank_' || case p_decision when 'approve' then 'verified' when 'reject' then 'rejected' else 'flagged' end,
+    case p_decision
+      when 'approve' then 'Your plank was verified!'
+      when 'reject' then 'Your plank could not be verified: ' || v_reason
+      else 'Your plank needs a second look: ' || v_reason
+    end,
+    p_plank_id,
+    auth.uid()
+  );
+
+  return v_status;
+end;
+$$;
+
+revoke all on function public.review_plank(bigint, text, text) from public;
+grant execute on function public.review_plank(bigint, text, text) to authenticated;
+
+-- the only change users make to their notifications; returns the time they
+-- were marked read
+create or replace function public.mark_notifications_read()
+returns timestamptz
+language sql
+security definer
+set search_path = public
+as $$
+  update public.notifications
+  set read_at = now()
+  where user_id = auth.uid() and read_at is null;
+  select now();
+$$;
+
+revoke all on function public.mark_notifications_read() from public;
+grant execute on function public.mark_notifications_read() to authenticated;
@@ -0,0 +1,153 @@
+-- Leaderboards computed in Postgres. Clients call leaderboard_best(),
+-- leaderboard_total() and leaderboard_my_rank() and only ever receive
+-- per-user aggregates, never the underlying plank rows.
+
+create index if not exists planks_date_user_idx
+  on public.planks (plank_date, user_id);
+
+-- leaderboards no longer need everyone's planks, so raw rows are only for
+-- signed-in users (profiles and plank details still show them)
+drop policy if exists "Planks are visible to everyone" on public.planks;
+create policy "Planks are visible to signed-in users"
+  on public.planks for select
+  to authenticated
+  using (true);
+
+-- one row per user with a plank since p_since, ranked both ways; internal
+-- building block for the functions below
+create or replace function public.leaderboard_standings(
+  p_since date,
+  p_variant_id bigint default null,
+  p_verified_only boolean default false
+)
+returns table (
+  user_id uuid,
+  best_time integer,
+  best_status public.plank_verification_status,
+  total_time bigint,
+  plank_count bigint,
+  best_rank bigint,
+  total_rank bigint,
+  entrants bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with per_user as (
+    select
+      p.user_id,
+      max(p.duration_s)::integer as best_time,
+      -- on a tie the verified plank wins
+      (array_agg(p.verification_status
+        order by p.duration_s desc, (p.verification_status = 'verified') desc))[1] as best_status,
+      sum(p.duration_s)::bigint as total_time,
+      count(*) as plank_count
+    from public.planks p
+    where p.plank_date >= p_since
+      and (p_variant_id is null or p.variant_id = p_variant_id)
+      and (not p_verified_only or p.verification_status = 'verified')
+    group by p.user_id
+  )
+  select
+    u.user_id,
+    u.best_time,
+    u.best_status,
+    u.total_time,
+    u.plank_count,
+    rank() over (order by u.best_time desc),
+    rank() over (order by u.total_time desc),
+    count(*) over ()
+  from per_user u;
+$$;
+
+revoke all on function public.leaderboard_standings(date, bigint, boolean) from public, anon, authenticated;
+
+create or replace function public.leaderboard_best(
+  p_since date,
+  p_variant_id bigint default null,
+  p_verified_only boolean default false,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  user_id uuid,
+  full_name text,
+  profile_image text,
+  best_time integer,
+  best_status public.plank_verification_status,
+  rank bigint,
+  entrants bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.user_id, pr.full_name, pr.profile_image, s.best_time, s.best_status,
+    s.best_rank, s.entrants
+  from public.leaderboard_standings(p_since, p_variant_id, p_verified_only) s
+  left join public.profiles pr on pr.id = s.user_id
+  order by s.best_rank, s.user_id
+  limit least(greatest(p_limit, 1), 100)
+  offset greatest(p_offset, 0);
+$$;
+
+create or replace function public.leaderboard_total(
+  p_since date,
+  p_variant_id bigint default null,
+  p_verified_only boolean default false,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  user_id uuid,
+  full_name text,
+  profile_image text,
+  total_time bigint,
+  plank_count bigint,
+  rank bigint,
+  entrants bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.user_id, pr.full_name, pr.profile_image, s.total_time, s.plank_count,
+    s.total_rank, s.entrants
+  from public.leaderboard_standings(p_since, p_variant_id, p_verified_only) s
+  left join public.profiles pr on pr.id = s.user_id
+  order by s.total_rank, s.user_id
+  limit least(greatest(p_limit, 1), 100)
+  offset greatest(p_offset, 0);
+$$;
+
+-- where one user stands; no row when they have no plank in the window
+create or replace function public.leaderboard_my_rank(
+  p_user_id uuid,
+  p_since date,
+  p_variant_id bigint default null,
+  p_verified_only boolean default false
+)
+returns table (
+  best_time integer,
+  best_rank bigint,
+  total_time bigint,
+  total_rank bigint,
+  entrants bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.best_time, s.best_rank, s.total_time, s.total_rank, s.entrants
+  from public.leaderboard_standings(p_since, p_variant_id, p_verified_only) s
+  where s.user_id = p_user_id;
+$$;
+
+grant execute on function public.leaderboard_best(date, bigint, boolean, integer, integer) to anon, authenticated;
+grant execute on function public.leaderboard_total(date, bigint, boolean, integer, integer) to anon, authenticated;
+grant execute on function public.leaderboard_my_rank(uuid, date, bigint, boolean) to anon, authenticated;
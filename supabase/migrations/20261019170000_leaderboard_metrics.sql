@@ -0,0 +1,272 @@
+-- More leaderboard metrics. leaderboard() and leaderboard_my_rank() take a
+-- metric name and replace the per-metric best / total functions.
+--
+--   metric       ranked by                         ties broken by
+--   best         longest single plank              verified first, then earlier date
+--   total        total seconds                     more days planked, then longer best
+--   consistency  days planked in the window        more total seconds, then longer best
+--   streak       active streak at window end       more days planked, then more total seconds
+--   improvement  % gain in best vs previous window longer best, then more days planked
+--   average      average hold (min. p_min_planks)  more planks, then longer best
+--
+-- Users still tied after that share a rank.
+
+drop function if exists public.leaderboard_my_rank(uuid, date, date, bigint, boolean);
+drop function if exists public.leaderboard_total(date, date, bigint, boolean, integer, integer);
+drop function if exists public.leaderboard_best(date, date, bigint, boolean, integer, integer);
+drop function if exists public.leaderboard_standings(date, date, bigint, boolean);
+
+create index if not exists planks_user_date_idx
+  on public.planks (user_id, plank_date);
+
+-- every metric for every user with a plank in [p_since, p_until]; an open
+-- p_until means today. Internal building block for the functions below.
+create or replace function public.leaderboard_standings(
+  p_since date default null,
+  p_until date default null,
+  p_variant_id bigint default null,
+  p_verified_only boolean default false
+)
+returns table (
+  user_id uuid,
+  best_time integer,
+  best_status public.plank_verification_status,
+  best_date date,
+  total_time bigint,
+  plank_count bigint,
+  days_planked bigint,
+  active_streak bigint,
+  avg_time numeric,
+  improvement_pct numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with bounds as (
+    select p_since as since, coalesce(p_until, current_date) as until
+  ),
+  filtered as (
+    select p.user_id, p.duration_s, p.verification_status, p.plank_date
+    from public.planks p, bounds b
+    where p.plank_date <= b.until
+      and (p_variant_id is null or p.variant_id = p_variant_id)
+      and (not p_verified_only or p.verification_status = 'verified')
+  ),
+  in_window as (
+    select f.*
+    from filtered f, bounds b
+    where b.since is null or f.plank_date >= b.since
+  ),
+  -- the window of the same length right before this one (none for all-time)
+  previous as (
+    select f.user_id, max(f.duration_s) as prev_best
+    from filtered f, bounds b
+    where b.since is not null
+      and f.plank_date < b.since
+      and f.plank_date >= b.since - (b.until - b.since + 1)
+    group by f.user_id
+  ),
+  -- runs of consecutive plank days; a run is still active if it reaches the
+  -- last day of the window or the day before
+  islands as (
+    select d.user_id, d.plank_date,
+      d.plank_date - (row_number() over (partition by d.user_id order by d.plank_date))::integer as grp
+    from (select distinct w.user_id, w.plank_date from in_window w) d
+  ),
+  streaks as (
+    select i.user_id, count(*) as active_streak
+    from islands i, bounds b
+    group by i.user_id, i.grp, b.until
+    having max(i.plank_date) >= b.until - 1
+  ),
+  per_user as (
+    select
+      w.user_id,
+      max(w.duration_s)::integer as best_time,
+      (array_agg(w.verification_status
+        order by w.duration_s desc, (w.verification_status = 'verified') desc, w.plank_date))[1] as best_status,
+      (array_agg(w.plank_date
+        order by w.duration_s desc, (w.verification_status = 'verified') desc, w.plank_date))[1] as best_date,
+      sum(w.duration_s)::bigint as total_time,
+      count(*) as plank_count,
+      count(distinct w.plank_date) as days_planked,
+      round(avg(w.duration_s), 1) as avg_time
+    from in_window w
+    group by w.user_id
+  )
+  select
+    u.user_id,
+    u.best_time,
+    u.best_status,
+    u.best_date,
+    u.total_time,
+    u.plank_count,
+    u.days_planked,
+    coalesce(s.active_streak, 0),
+    u.avg_time,
+    round((u.best_time - pv.prev_best) * 100.0 / nullif(pv.prev_best, 0), 1)
+  from per_user u
+  left join streaks s on s.user_id = u.user_id
+  left join previous pv on pv.user_id = u.user_id;
+$$;
+
+revoke all on function public.leaderboard_standings(date, date, bigint, boolean) from public, anon, authenticated;
+
+-- users eligible for one metric, with its value and tie-breakers. Internal
+-- building block for leaderboard_ranked(), which puts them in order.
+create or replace function public.leaderboard_entries(
+  p_metric text,
+  p_since date default null,
+  p_until date default null,
+  p_variant_id bigint default null,
+  p_verified_only boolean default false,
+  p_min_planks integer default 3
+)
+returns table (
+  user_id uuid,
+  best_status public.plank_verification_status,
+  plank_count bigint,
+  value numeric,
+  tie_1 bigint,
+  tie_2 bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    s.user_id,
+    s.best_status,
+    s.plank_count,
+    case p_metric
+      when 'best' then s.best_time::numeric
+      when 'total' then s.total_time::numeric
+      when 'consistency' then s.days_planked::numeric
+      when 'streak' then s.active_streak::numeric
+      when 'improvement' then s.improvement_pct
+      when 'average' then s.avg_time
+    end as value,
+    case p_metric
+      when 'best' then (s.best_status = 'verified')::integer
+      when 'total' then s.days_planked
+      when 'consistency' then s.total_time
+      when 'streak' then s.days_planked
+      when 'improvement' then s.best_time
+      when 'average' then s.plank_count
+    end as tie_1,
+    case p_metric
+      -- negated so that the earlier date sorts first
+      when 'best' then -(s.best_date - date '1970-01-01')
+      when 'total' then s.best_time
+      when 'consistency' then s.best_time
+      when 'streak' then s.total_time
+      when 'improvement' then s.days_planked
+      when 'average' then s.best_time
+    end as tie_2
+  from public.leaderboard_standings(p_since, p_until, p_variant_id, p_verified_only) s
+  where p_metric in ('best', 'total', 'consistency', 'streak', 'improvement', 'average')
+    and (p_metric <> 'streak' or s.active_streak > 0)
+    and (p_metric <> 'improvement' or s.improvement_pct is not null)
+    and (p_metric <> 'average' or s.plank_count >= p_min_planks);
+$$;
+
+revoke all on function public.leaderboard_entries(text, date, date, bigint, boolean, integer) from public, anon, authenticated;
+
+-- users eligible for one metric, ranked with the tie-breakers above
+create or replace function public.leaderboard_ranked(
+  p_metric text,
+  p_since date default null,
+  p_until date default null,
+  p_variant_id bigint default null,
+  p_verified_only boolean default false,
+  p_min_planks integer default 3
+)
+returns table (
+  user_id uuid,
+  value numeric,
+  best_status public.plank_verification_status,
+  plank_count bigint,
+  rank bigint,
+  entrants bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    e.user_id,
+    e.value,
+    e.best_status,
+    e.plank_count,
+    rank() over (order by e.value desc, e.tie_1 desc, e.tie_2 desc),
+    count(*) over ()
+  from public.leaderboard_entries(p_metric, p_since, p_until, p_variant_id, p_verified_only, p_min_planks) e;
+$$;
+
+revoke all on function public.leaderboard_ranked(text, date, date, bigint, boolean, integer) from public, anon, authenticated;
+
+create or replace function public.leaderboard(
+  p_metric text,
+  p_since date default null,
+  p_until date default null,
+  p_variant_id bigint default null,
+  p_verified_only boolean default false,
+  p_min_planks integer default 3,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  user_id uuid,
+  full_name text,
+  profile_image text,
+  value numeric,
+  best_status public.plank_verification_status,
+  plank_count bigint,
+  rank bigint,
+  entrants bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.user_id, pr.full_name, pr.profile_image, r.value, r.best_status,
+    r.plank_count, r.rank, r.entrants
+  from public.leaderboard_ranked(p_metric, p_since, p_until, p_variant_id, p_verified_only, p_min_planks) r
+  left join public.profiles pr on pr.id = r.user_id
+  order by r.rank, r.user_id
+  limit least(greatest(p_limit, 1), 100)
+  offset greatest(p_offset, 0);
+$$;
+
+-- where one user stands; no row when they are not on that board
+create or replace function public.leaderboard_my_rank(
+  p_user_id uuid,
+  p_metric text,
+  p_since date default null,
+  p_until date default null,
+  p_variant_id bigint default null,
+  p_verified_only boolean default false,
+  p_min_planks integer default 3
+)
+returns table (
+  value numeric,
+  rank bigint,
+  entrants bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.value, r.rank, r.entrants
+  from public.leaderboard_ranked(p_metric, p_since, p_until, p_variant_id, p_verified_only, p_min_planks) r
+  where r.user_id = p_user_id;
+$$;
+
+grant execute on function public.leaderboard(text, date, date, bigint, boolean, integer, integer, integer) to anon, authenticated;
+grant execute on function public.leaderboard_my_rank(uuid, text, date, date, bigint, boolean, integer) to anon, authenticated;
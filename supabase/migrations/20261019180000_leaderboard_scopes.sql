@@ -0,0 +1,139 @@
+-- Scoped leaderboards: rank everyone, only the people the caller follows, or
+-- the members of one of the caller's teams.
+
+-- leaderboard_ranked(), leaderboard() and leaderboard_my_rank() gain
+-- p_scope ('global', 'following' or 'team') and p_team_id. Scopes are seen
+-- from the caller: 'following' is the people they follow plus themselves,
+-- 'team' is empty unless they belong to the team. Follows and teams come
+-- with their own migrations, which fill in those two scopes by redefining
+-- leaderboard_in_scope(); until then only 'global' has anyone in it.
+
+drop function if exists public.leaderboard_my_rank(uuid, text, date, date, bigint, boolean, integer);
+drop function if exists public.leaderboard(text, date, date, bigint, boolean, integer, integer, integer);
+drop function if exists public.leaderboard_ranked(text, date, date, bigint, boolean, integer);
+
+-- whether a user belongs on the caller's leaderboard for a scope. The
+-- migrations that bring follows and teams redefine it to fill in their scope.
+create or replace function public.leaderboard_in_scope(
+  p_user_id uuid,
+  p_scope text,
+  p_team_id bigint default null
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case p_scope
+    when 'global' then true
+    else false
+  end;
+$$;
+
+revoke all on function public.leaderboard_in_scope(uuid, text, bigint) from public, anon, authenticated;
+
+create or replace function public.leaderboard_ranked(
+  p_metric text,
+  p_since date default null,
+  p_until date default null,
+  p_variant_id bigint default null,
+  p_verified_only boolean default false,
+  p_min_planks integer default 3,
+  p_scope text default 'global',
+  p_team_id bigint default null
+)
+returns table (
+  user_id uuid,
+  value numeric,
+  best_status public.plank_verification_status,
+  plank_count bigint,
+  rank bigint,
+  entrants bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    e.user_id,
+    e.value,
+    e.best_status,
+    e.plank_count,
+    rank() over (order by e.value desc, e.tie_1 desc, e.tie_2 desc),
+    count(*) over ()
+  from public.leaderboard_entries(p_metric, p_since, p_until, p_variant_id, p_verified_only, p_min_planks) e
+  where public.leaderboard_in_scope(e.user_id, p_scope, p_team_id);
+$$;
+
+revoke all on function public.leaderboard_ranked(text, date, date, bigint, boolean, integer, text, bigint) from public, anon, authenticated;
+
+create or replace function public.leaderboard(
+  p_metric text,
+  p_since date default null,
+  p_until date default null,
+  p_variant_id bigint default null,
+  p_verified_only boolean default false,
+  p_min_planks integer default 3,
+  p_limit integer default 20,
+  p_offset integer default 0,
+  p_scope text default 'global',
+  p_team_id bigint default null
+)
+returns table (
+  user_id uuid,
+  full_name text,
+  profile_image text,
+  value numeric,
+  best_status public.plank_verification_status,
+  plank_count bigint,
+  rank bigint,
+  entrants bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.user_id, pr.full_name, pr.profile_image, r.value, r.best_status,
+    r.plank_count, r.rank, r.entrants
+  from public.leaderboard_ranked(
+    p_metric, p_since, p_until, p_variant_id, p_verified_only, p_min_planks, p_scope, p_team_id
+  ) r
+  left join public.profiles pr on pr.id = r.user_id
+  order by r.rank, r.user_id
+  limit least(greatest(p_limit, 1), 100)
+  offset greatest(p_offset, 0);
+$$;
+
+create or replace function public.leaderboard_my_rank(
+  p_user_id uuid,
+  p_metric text,
+  p_since date default null,
+  p_until date default null,
+  p_variant_id bigint default null,
+  p_verified_only boolean default false,
+  p_min_planks integer default 3,
+  p_scope text default 'global',
+  p_team_id bigint default null
+)
+returns table (
+  value numeric,
+  rank bigint,
+  entrants bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.value, r.rank, r.entrants
+  from public.leaderboard_ranked(
+    p_metric, p_since, p_until, p_variant_id, p_verified_only, p_min_planks, p_scope, p_team_id
+  ) r
+  where r.user_id = p_user_id;
+$$;
+
+grant execute on function public.leaderboard(text, date, date, bigint, boolean, integer, integer, integer, text, bigint) to anon, authenticated;
+grant execute on function public.leaderboard_my_rank(uuid, text, date, date, bigint, boolean, integer, text, bigint) to anon, authenticated;
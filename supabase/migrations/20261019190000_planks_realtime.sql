@@ -0,0 +1,10 @@
+-- Stream plank inserts and deletes over Supabase Realtime so open
+-- leaderboards can refresh themselves.
+
+do $$
+begin
+  alter publication supabase_realtime add table public.planks;
+exception
+  when duplicate_object then null;
+end
+$$;
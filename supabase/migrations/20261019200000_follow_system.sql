@@ -0,0 +1,230 @@
+-- Following. A follow is 'accepted' straight away unless the followed user
+-- approves followers, in which case it stays 'pending' until they respond.
+-- Follower / following counts on profiles are kept by a trigger and only
+-- count accepted follows; clients never write them.
+
+create table if not exists public.follows (
+  follower_id uuid not null references auth.users (id) on delete cascade,
+  following_id uuid not null references auth.users (id) on delete cascade,
+  status text not null default 'accepted' check (status in ('pending', 'accepted')),
+  created_at timestamptz not null default now(),
+  primary key (follower_id, following_id),
+  constraint follows_not_self check (follower_id <> following_id)
+);
+
+create index if not exists follows_following_idx
+  on public.follows (following_id);
+
+alter table public.profiles
+  add column if not exists following_count integer not null default 0,
+  add column if not exists approve_followers boolean not null default false;
+
+alter table public.follows enable row level security;
+
+-- pending requests are only visible to the two people involved
+create policy "Accepted follows are visible to everyone"
+  on public.follows for select
+  using (status = 'accepted' or follower_id = auth.uid() or following_id = auth.uid());
+
+create policy "Users follow as themselves"
+  on public.follows for insert
+  with check (follower_id = auth.uid());
+
+-- either side can end a follow: unfollowing, removing a follower or
+-- declining a request
+create policy "Either side ends a follow"
+  on public.follows for delete
+  using (follower_id = auth.uid() or following_id = auth.uid());
+
+-- the status is decided here, whatever the client sent
+create or replace function public.follow_requested()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select case when p.approve_followers then 'pending' else 'accepted' end
+  into new.status
+  from public.profiles p
+  where p.id = new.following_id;
+  new.status := coalesce(new.status, 'accepted');
+  return new;
+end;
+$$;
+
+drop trigger if exists follow_requested on public.follows;
+create trigger follow_requested
+  before insert on public.follows
+  for each row execute function public.follow_requested();
+
+create or replace function public.refresh_follow_counts(p_user_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.profiles
+  set
+    followers_count = (
+      select count(*) from public.follows
+      where following_id = p_user_id and status = 'accepted'
+    ),
+    following_count = (
+      select count(*) from public.follows
+      where follower_id = p_user_id and status = 'accepted'
+    )
+  where id = p_user_id;
+$$;
+
+revoke all on function public.refresh_follow_counts(uuid) from public, anon, authenticated;
+
+create or replace function public.follows_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.follows := coalesce(new, old);
+begin
+  perform public.refresh_follow_counts(v_row.follower_id);
+  perform public.refresh_follow_counts(v_row.following_id);
+
+  if tg_op = 'INSERT' then
+    insert into public.notifications (user_id, kind, body, actor_id)
+    select new.following_id,
+      case new.status when 'pending' then 'follow_request' else 'new_follower' end,
+      coalesce(p.full_name, 'Someone') ||
+        case new.status when 'pending' then ' asked to follow you' else ' started following you' end,
+      new.follower_id
+    from public.profiles p
+    where p.id = new.follower_id;
+  elsif tg_op = 'UPDATE' and old.status = 'pending' and new.status = 'accepted' then
+    insert into public.notifications (user_id, kind, body, actor_id)
+    select new.follower_id, 'follow_accepted',
+      coalesce(p.full_name, 'Someone') || ' accepted your follow request',
+      new.following_id
+    from public.profiles p
+    where p.id = new.following_id;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists follows_changed on public.follows;
+create trigger follows_changed
+  after insert or update or delete on public.follows
+  for each row execute function public.follows_changed();
+
+-- accept or decline a pending request made to the caller
+create or replace function public.respond_follow_request(
+  p_follower_id uuid,
+  p_accept boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_accept then
+    update public.follows
+    set status = 'accepted'
+    where follower_id = p_follower_id
+      and following_id = auth.uid()
+      and status = 'pending';
+  else
+    delete from public.follows
+    where follower_id = p_follower_id
+      and following_id = auth.uid()
+      and status = 'pending';
+  end if;
+  if not found then
+    raise exception 'no pending follow request from %', p_follower_id using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+revoke all on function public.respond_follow_request(uuid, boolean) from public;
+grant execute on function public.respond_follow_request(uuid, boolean) to authenticated;
+
+-- turning approval off accepts everyone who was waiting
+create or replace function public.approve_followers_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.approve_followers and not new.approve_followers then
+    update public.follows
+    set status = 'accepted'
+    where following_id = new.id and status = 'pending';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists approve_followers_changed on public.profiles;
+create trigger approve_followers_changed
+  after update of approve_followers on public.profiles
+  for each row execute function public.approve_followers_changed();
+
+-- profile owners can update their profile, but not their counts
+create or replace function public.guard_follow_counts()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('postgres', 'service_role', 'supabase_admin') then
+    new.followers_count := old.followers_count;
+    new.following_count := old.following_count;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_follow_counts on public.profiles;
+create trigger guard_follow_counts
+  before update on public.profiles
+  for each row execute function public.guard_follow_counts();
+
+-- bring existing counts in line
+update public.profiles p
+set
+  followers_count = (
+    select count(*) from public.follows f
+    where f.following_id = p.id and f.status = 'accepted'
+  ),
+  following_count = (
+    select count(*) from public.follows f
+    where f.follower_id = p.id and f.status = 'accepted'
+  );
+
+-- the 'following' leaderboard scope: the caller and everyone they follow,
+-- once the follow is accepted
+create or replace function public.leaderboard_in_scope(
+  p_user_id uuid,
+  p_scope text,
+  p_team_id bigint default null
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case p_scope
+    when 'global' then true
+    when 'following' then
+      p_user_id = auth.uid()
+      or exists (
+        select 1 from public.follows f
+        where f.follower_id = auth.uid() and f.following_id = p_user_id
+          and f.status = 'accepted'
+      )
+    else false
+  end;
+$$;
@@ -0,0 +1,148 @@
+-- Activity feed. activity_feed() returns one page of what the people the
+-- caller follows have been up to, newest first, in a single query: planks,
+-- new personal bests, earned badges and challenge joins / completions.
+-- Pages are keyed on (occurred_at, item_id) of the last item seen.
+
+-- nobody knows when existing participants joined, so they stay null and
+-- never show up as joins; the default only applies from here on
+alter table public.challenge_participants
+  add column if not exists joined_at timestamptz;
+alter table public.challenge_participants
+  alter column joined_at set default now();
+
+create index if not exists planks_user_inserted_idx
+  on public.planks (user_id, inserted_at desc);
+
+create or replace function public.activity_feed(
+  p_before timestamptz default null,
+  p_before_id text default null,
+  p_limit integer default 20
+)
+returns table (
+  item_id text,
+  kind text,
+  occurred_at timestamptz,
+  actor_id uuid,
+  actor_name text,
+  actor_image text,
+  plank_id bigint,
+  duration_s integer,
+  badge_name text,
+  badge_icon text,
+  challenge_id bigint,
+  challenge_title text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with followed as (
+    select f.following_id as user_id
+    from public.follows f
+    where f.follower_id = auth.uid() and f.status = 'accepted'
+  ),
+  -- a plank beating everything its author logged before is a personal best
+  planks_ranked as (
+    select
+      p.id,
+      p.user_id,
+      p.duration_s,
+      p.inserted_at,
+      max(p.duration_s) over (
+        partition by p.user_id
+        order by p.inserted_at, p.id
+        rows between unbounded preceding and 1 preceding
+      ) as previous_best
+    from public.planks p
+    where p.user_id in (select user_id from followed)
+  ),
+  items as (
+    select
+      'plank:' || pr.id as item_id,
+      case when pr.duration_s > pr.previous_best then 'personal_best' else 'plank' end as kind,
+      pr.inserted_at as occurred_at,
+      pr.user_id as actor_id,
+      pr.id::bigint as plank_id,
+      pr.duration_s::integer as duration_s,
+      null::text as badge_name,
+      null::text as badge_icon,
+      null::bigint as challenge_id,
+      null::text as challenge_title
+    from planks_ranked pr
+
+    union all
+
+    select
+      'badge:' || b.id || ':' || ub.user_id,
+      'badge',
+      ub.earned_at,
+      ub.user_id,
+      null, null,
+      b.name,
+      b.icon_url,
+      null, null
+    from public.user_badges ub
+    join public.badges b on b.id = ub.badge_id
+    where ub.earned_at is not null
+      and ub.user_id in (select user_id from followed)
+
+    union all
+
+    select
+      'join:' || c.id || ':' || cp.user_id,
+      'challenge_joined',
+      cp.joined_at,
+      cp.user_id,
+      null, null, null, null,
+      c.id::bigint,
+      c.title
+    from public.challenge_participants cp
+    join public.challenges c on c.id = cp.challenge_id
+    where cp.joined_at is not null
+      and cp.user_id in (select user_id from followed)
+
+    union all
+
+    -- a participant completes a challenge by planking on every one of its
+    -- days, at the moment the last of those planks was logged
+    select
+      'done:' || c.id || ':' || cp.user_id,
+      'challenge_completed',
+      max(p.inserted_at),
+      cp.user_id,
+      null, null, null, null,
+      c.id::bigint,
+      c.title
+    from public.challenge_participants cp
+    join public.challenges c on c.id = cp.challenge_id
+    join public.planks p
+      on p.user_id = cp.user_id
+      and p.plank_date between c.start_date and c.end_date
+    where cp.user_id in (select user_id from followed)
+    group by c.id, c.title, c.start_date, c.end_date, cp.user_id
+    having count(distinct p.plank_date) = c.end_date - c.start_date + 1
+  )
+  select
+    i.item_id,
+    i.kind,
+    i.occurred_at,
+    i.actor_id,
+    pf.full_name,
+    pf.profile_image,
+    i.plank_id,
+    i.duration_s,
+    i.badge_name,
+    i.badge_icon,
+    i.challenge_id,
+    i.challenge_title
+  from items i
+  left join public.profiles pf on pf.id = i.actor_id
+  where p_before is null
+    or (i.occurred_at, i.item_id) < (p_before, coalesce(p_before_id, ''))
+  order by i.occurred_at desc, i.item_id desc
+  limit least(greatest(p_limit, 1), 50);
+$$;
+
+revoke all on function public.activity_feed(timestamptz, text, integer) from public;
+grant execute on function public.activity_feed(timestamptz, text, integer) to authenticated;
@@ -0,0 +1,132 @@
+-- Kudos and comments on planks. A user gives a plank kudos at most once;
+-- comments can reply to another comment on the same plank. Authors edit and
+-- delete their own comments, the plank owner and admins can delete any
+-- comment on it. The plank owner is notified of both.
+
+create table if not exists public.plank_kudos (
+  plank_id bigint not null references public.planks (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (plank_id, user_id)
+);
+
+create index if not exists plank_kudos_user_idx
+  on public.plank_kudos (user_id);
+
+create table if not exists public.plank_comments (
+  id bigint generated by default as identity primary key,
+  plank_id bigint not null references public.planks (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  parent_id bigint references public.plank_comments (id) on delete cascade,
+  body text not null check (char_length(btrim(body)) between 1 and 1000),
+  created_at timestamptz not null default now(),
+  edited_at timestamptz
+);
+
+create index if not exists plank_comments_plank_idx
+  on public.plank_comments (plank_id, created_at);
+
+alter table public.plank_kudos enable row level security;
+alter table public.plank_comments enable row level security;
+
+create policy "Kudos are visible to signed-in users"
+  on public.plank_kudos for select
+  to authenticated
+  using (true);
+
+create policy "Users give kudos as themselves"
+  on public.plank_kudos for insert
+  with check (user_id = auth.uid());
+
+create policy "Users take back their own kudos"
+  on public.plank_kudos for delete
+  using (user_id = auth.uid());
+
+create policy "Comments are visible to signed-in users"
+  on public.plank_comments for select
+  to authenticated
+  using (true);
+
+create policy "Users comment as themselves"
+  on public.plank_comments for insert
+  with check (user_id = auth.uid());
+
+create policy "Authors edit their own comments"
+  on public.plank_comments for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Authors, plank owners and admins delete comments"
+  on public.plank_comments for delete
+  using (
+    user_id = auth.uid()
+    or public.is_admin()
+    or exists (
+      select 1 from public.planks p
+      where p.id = plank_id and p.user_id = auth.uid()
+    )
+  );
+
+-- replies stay on their parent's plank; edits only change the body
+create or replace function public.plank_comment_written()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.parent_id is not null and not exists (
+      select 1 from public.plank_comments c
+      where c.id = new.parent_id and c.plank_id = new.plank_id
+    ) then
+      raise exception 'reply must be on the same plank as its parent';
+    end if;
+    new.edited_at := null;
+  else
+    new.plank_id := old.plank_id;
+    new.user_id := old.user_id;
+    new.parent_id := old.parent_id;
+    new.created_at := old.created_at;
+    if new.body is distinct from old.body then
+      new.edited_at := now();
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists plank_comment_written on public.plank_comments;
+create trigger plank_comment_written
+  before insert or update on public.plank_comments
+  for each row execute function public.plank_comment_written();
+
+create or replace function public.plank_interaction_notify()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.notifications (user_id, kind, body, plank_id, actor_id)
+  select pl.user_id,
+    case tg_table_name when 'plank_kudos' then 'plank_kudos' else 'plank_comment' end,
+    coalesce(pr.full_name, 'Someone') ||
+      case tg_table_name when 'plank_kudos' then ' gave your plank kudos' else ' commented on your plank' end,
+    new.plank_id,
+    new.user_id
+  from public.planks pl
+  left join public.profiles pr on pr.id = new.user_id
+  where pl.id = new.plank_id and pl.user_id <> new.user_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists plank_kudos_notify on public.plank_kudos;
+create trigger plank_kudos_notify
+  after insert on public.plank_kudos
+  for each row execute function public.plank_interaction_notify();
+
+drop trigger if exists plank_comments_notify on public.plank_comments;
+create trigger plank_comments_notify
+  after insert on public.plank_comments
+  for each row execute function public.plank_interaction_notify();
@@ -0,0 +1,425 @@
+-- Groups, stored as teams and team_members. Groups have a description and
+-- an invite code, people join through join_team() with that code, and owners
+-- and admins manage members, the code and the group's own challenges.
+-- Owners also change roles and delete the group.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.teams (
+  id bigint generated by default as identity primary key,
+  name text not null check (char_length(btrim(name)) between 1 and 60),
+  description text check (description is null or char_length(description) <= 280),
+  invite_code text not null unique
+    default encode(extensions.gen_random_bytes(12), 'hex'),
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.team_members (
+  team_id bigint not null references public.teams (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'member' check (role in ('owner', 'admin', 'member')),
+  joined_at timestamptz not null default now(),
+  primary key (team_id, user_id)
+);
+
+create index if not exists team_members_user_idx
+  on public.team_members (user_id);
+
+-- security definer so team_members policies can use it without recursing
+create or replace function public.is_team_member(p_team_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.team_members
+    where team_id = p_team_id and user_id = auth.uid()
+  );
+$$;
+
+-- the caller's role in a team, or null when they are not in it
+create or replace function public.team_role(p_team_id bigint)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.team_members
+  where team_id = p_team_id and user_id = auth.uid();
+$$;
+
+grant execute on function public.team_role(bigint) to authenticated;
+
+alter table public.teams enable row level security;
+alter table public.team_members enable row level security;
+
+create policy "Members see their teams"
+  on public.teams for select
+  using (public.is_team_member(id) or created_by = auth.uid());
+
+create policy "Users create teams"
+  on public.teams for insert
+  with check (created_by = auth.uid());
+
+create policy "Owners and admins edit their teams"
+  on public.teams for update
+  using (public.team_role(id) in ('owner', 'admin'))
+  with check (public.team_role(id) in ('owner', 'admin'));
+
+create policy "Owners delete their teams"
+  on public.teams for delete
+  using (public.team_role(id) = 'owner');
+
+create policy "Members see their teammates"
+  on public.team_members for select
+  using (public.is_team_member(team_id));
+
+-- members leave (owners hand the group over or delete it instead); owners
+-- remove anyone, admins remove plain members
+create policy "Members leave or are removed"
+  on public.team_members for delete
+  using (
+    (user_id = auth.uid() and role <> 'owner')
+    or (public.team_role(team_id) = 'owner' and user_id <> auth.uid())
+    or (public.team_role(team_id) = 'admin' and role = 'member')
+  );
+
+-- whoever creates a team owns it
+create or replace function public.team_created()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.team_members (team_id, user_id, role)
+  values (new.id, new.created_by, 'owner')
+  on conflict do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists team_created on public.teams;
+create trigger team_created
+  after insert on public.teams
+  for each row execute function public.team_created();
+
+-- what an invite link shows before joining
+create or replace function public.team_preview(p_code text)
+returns table (id bigint, name text, description text, member_count bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select t.id, t.name, t.description,
+    (select count(*) from public.team_members m where m.team_id = t.id)
+  from public.teams t
+  where t.invite_code = p_code;
+$$;
+
+create or replace function public.join_team(p_code text)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_team_id bigint;
+begin
+  if auth.uid() is null then
+    raise exception 'not signed in';
+  end if;
+
+  select id into v_team_id from public.teams where invite_code = p_code;
+  if v_team_id is null then
+    raise exception 'invalid invite code';
+  end if;
+
+  insert into public.team_members (team_id, user_id, role)
+  values (v_team_id, auth.uid(), 'member')
+  on conflict do nothing;
+
+  return v_team_id;
+end;
+$$;
+
+-- invalidates old links
+create or replace function public.regenerate_team_invite(p_team_id bigint)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code text;
+begin
+  if coalesce(public.team_role(p_team_id), '') not in ('owner', 'admin') then
+    raise exception 'only owners and admins can change the invite code';
+  end if;
+
+  update public.teams
+  set invite_code = encode(extensions.gen_random_bytes(12), 'hex')
+  where id = p_team_id
+  returning invite_code into v_code;
+  return v_code;
+end;
+$$;
+
+-- making someone else owner hands the group over; the old owner becomes admin
+create or replace function public.set_team_role(p_team_id bigint, p_user_id uuid, p_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.team_role(p_team_id) is distinct from 'owner' then
+    raise exception 'only the owner can change roles';
+  end if;
+  if p_role not in ('owner', 'admin', 'member') then
+    raise exception 'unknown role %', p_role;
+  end if;
+  if p_user_id = auth.uid() then
+    raise exception 'owners cannot change their own role';
+  end if;
+
+  update public.team_members
+  set role = p_role
+  where team_id = p_team_id and user_id = p_user_id;
+  if not found then
+    raise exception 'not a member of this team';
+  end if;
+
+  if p_role = 'owner' then
+    update public.team_members
+    set role = 'admin'
+    where team_id = p_team_id and user_id = auth.uid();
+  end if;
+end;
+$$;
+
+-- totals for the group page; nothing for non-members
+create or replace function public.team_stats(p_team_id bigint)
+returns table (
+  member_count bigint,
+  total_seconds bigint,
+  week_seconds bigint,
+  active_this_week bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    (select count(*) from public.team_members m where m.team_id = p_team_id),
+    coalesce(sum(p.duration_s), 0)::bigint,
+    coalesce(sum(p.duration_s) filter (where p.plank_date >= date_trunc('week', current_date)::date), 0)::bigint,
+    count(distinct p.user_id) filter (where p.plank_date >= date_trunc('week', current_date)::date)
+  from public.team_members m
+  left join public.planks p on p.user_id = m.user_id
+  where m.team_id = p_team_id
+  having public.is_team_member(p_team_id);
+$$;
+
+grant execute on function public.team_preview(text) to authenticated;
+grant execute on function public.join_team(text) to authenticated;
+grant execute on function public.regenerate_team_invite(bigint) to authenticated;
+grant execute on function public.set_team_role(bigint, uuid, text) to authenticated;
+grant execute on function public.team_stats(bigint) to authenticated;
+
+-- group challenges belong to a team and are only shown to its members;
+-- public challenges keep team_id null
+alter table public.challenges
+  add column if not exists team_id bigint references public.teams (id) on delete cascade;
+
+create index if not exists challenges_team_idx
+  on public.challenges (team_id);
+
+create policy "Team challenges are visible to members"
+  on public.challenges as restrictive for select
+  using (team_id is null or public.is_team_member(team_id));
+
+create policy "Team owners and admins create team challenges"
+  on public.challenges for insert
+  with check (team_id is not null and public.team_role(team_id) in ('owner', 'admin'));
+
+create policy "Team owners and admins manage team challenges"
+  on public.challenges for update
+  using (team_id is not null and public.team_role(team_id) in ('owner', 'admin'))
+  with check (team_id is not null and public.team_role(team_id) in ('owner', 'admin'));
+
+create policy "Team owners and admins delete team challenges"
+  on public.challenges for delete
+  using (team_id is not null and public.team_role(team_id) in ('owner', 'admin'));
+
+-- activity_feed() runs as its owner, so the rule above doesn't reach it: joins
+-- and completions of a group challenge only show to the group's members
+create or replace function public.activity_feed(
+  p_before timestamptz default null,
+  p_before_id text default null,
+  p_limit integer default 20
+)
+returns table (
+  item_id text,
+  kind text,
+  occurred_at timestamptz,
+  actor_id uuid,
+  actor_name text,
+  actor_image text,
+  plank_id bigint,
+  duration_s integer,
+  badge_name text,
+  badge_icon text,
+  challenge_id bigint,
+  challenge_title text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with followed as (
+    select f.following_id as user_id
+    from public.follows f
+    where f.follower_id = auth.uid() and f.status = 'accepted'
+  ),
+  -- a plank beating everything its author logged before is a personal best
+  planks_ranked as (
+    select
+      p.id,
+      p.user_id,
+      p.duration_s,
+      p.inserted_at,
+      max(p.duration_s) over (
+        partition by p.user_id
+        order by p.inserted_at, p.id
+        rows between unbounded preceding and 1 preceding
+      ) as previous_best
+    from public.planks p
+    where p.user_id in (select user_id from followed)
+  ),
+  items as (
+    select
+      'plank:' || pr.id as item_id,
+      case when pr.duration_s > pr.previous_best then 'personal_best' else 'plank' end as kind,
+      pr.inserted_at as occurred_at,
+      pr.user_id as actor_id,
+      pr.id::bigint as plank_id,
+      pr.duration_s::integer as duration_s,
+      null::text as badge_name,
+      null::text as badge_icon,
+      null::bigint as challenge_id,
+      null::text as challenge_title
+    from planks_ranked pr
+
+    union all
+
+    select
+      'badge:' || b.id || ':' || ub.user_id,
+      'badge',
+      ub.earned_at,
+      ub.user_id,
+      null, null,
+      b.name,
+      b.icon_url,
+      null, null
+    from public.user_badges ub
+    join public.badges b on b.id = ub.badge_id
+    where ub.earned_at is not null
+      and ub.user_id in (select user_id from followed)
+
+    union all
+
+    select
+      'join:' || c.id || ':' || cp.user_id,
+      'challenge_joined',
+      cp.joined_at,
+      cp.user_id,
+      null, null, null, null,
+      c.id::bigint,
+      c.title
+    from public.challenge_participants cp
+    join public.challenges c on c.id = cp.challenge_id
+    where cp.joined_at is not null
+      and cp.user_id in (select user_id from followed)
+      and (c.team_id is null or public.is_team_member(c.team_id))
+
+    union all
+
+    -- a participant completes a challenge by planking on every one of its
+    -- days, at the moment the last of those planks was logged
+    select
+      'done:' || c.id || ':' || cp.user_id,
+      'challenge_completed',
+      max(p.inserted_at),
+      cp.user_id,
+      null, null, null, null,
+      c.id::bigint,
+      c.title
+    from public.challenge_participants cp
+    join public.challenges c on c.id = cp.challenge_id
+    join public.planks p
+      on p.user_id = cp.user_id
+      and p.plank_date between c.start_date and c.end_date
+    where cp.user_id in (select user_id from followed)
+      and (c.team_id is null or public.is_team_member(c.team_id))
+    group by c.id, c.title, c.start_date, c.end_date, cp.user_id
+    having count(distinct p.plank_date) = c.end_date - c.start_date + 1
+  )
+  select
+    i.item_id,
+    i.kind,
+    i.occurred_at,
+    i.actor_id,
+    pf.full_name,
+    pf.profile_image,
+    i.plank_id,
+    i.duration_s,
+    i.badge_name,
+    i.badge_icon,
+    i.challenge_id,
+    i.challenge_title
+  from items i
+  left join public.profiles pf on pf.id = i.actor_id
+  where p_before is null
+    or (i.occurred_at, i.item_id) < (p_before, coalesce(p_before_id, ''))
+  order by i.occurred_at desc, i.item_id desc
+  limit least(greatest(p_limit, 1), 50);
+$$;
+
+-- the 'team' leaderboard scope: everyone in one of the caller's teams
+create or replace function public.leaderboard_in_scope(
+  p_user_id uuid,
+  p_scope text,
+  p_team_id bigint default null
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case p_scope
+    when 'global' then true
+    when 'following' then
+      p_user_id = auth.uid()
+      or exists (
+        select 1 from public.follows f
+        where f.follower_id = auth.uid() and f.following_id = p_user_id
+          and f.status = 'accepted'
+      )
+    when 'team' then
+      public.is_team_member(p_team_id)
+      and exists (
+        select 1 from public.team_members m
+        where m.team_id = p_team_id and m.user_id = p_user_id
+      )
+    else false
+  end;
+$$;
@@ -0,0 +1,78 @@
+-- Personal access tokens for the HTTP API (supabase/functions/api). Only a
+-- SHA-256 hash of each token is stored; the token itself is shown once, when
+-- create_api_token() returns it. Tokens carry scopes and can be revoked but
+-- not edited. The Edge Function looks tokens up with the service role and
+-- records when each was last used.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.api_tokens (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(btrim(name)) between 1 and 60),
+  token_hash text not null unique,
+  token_prefix text not null,
+  scopes text[] not null
+    check (cardinality(scopes) > 0 and scopes <@ array['planks:write', 'stats:read']),
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists api_tokens_user_idx
+  on public.api_tokens (user_id, created_at desc);
+
+alter table public.api_tokens enable row level security;
+
+-- rows are created and revoked through the functions below
+create policy "Users see their own tokens"
+  on public.api_tokens for select
+  using (user_id = auth.uid());
+
+create policy "Users delete their own tokens"
+  on public.api_tokens for delete
+  using (user_id = auth.uid());
+
+create or replace function public.create_api_token(p_name text, p_scopes text[])
+returns text
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_token text;
+begin
+  if auth.uid() is null then
+    raise exception 'not signed in';
+  end if;
+
+  v_token := 'rap_' || encode(gen_random_bytes(20), 'hex');
+
+  insert into public.api_tokens (user_id, name, token_hash, token_prefix, scopes)
+  values (
+    auth.uid(),
+    btrim(p_name),
+    encode(digest(v_token, 'sha256'), 'hex'),
+    left(v_token, 12),
+    p_scopes
+  );
+
+  return v_token;
+end;
+$$;
+
+create or replace function public.revoke_api_token(p_token_id bigint)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.api_tokens
+  set revoked_at = now()
+  where id = p_token_id and user_id = auth.uid() and revoked_at is null;
+$$;
+
+revoke all on function public.create_api_token(text, text[]) from public;
+revoke all on function public.revoke_api_token(bigint) from public;
+grant execute on function public.create_api_token(text, text[]) to authenticated;
+grant execute on function public.revoke_api_token(bigint) to authenticated;
@@ -0,0 +1,104 @@
+-- Work the app did from the browser, done by the database instead: every
+-- new auth user gets a profile, only admins hand out roles, and
+-- challenges.participants follows the participant rows. Also lets admins
+-- edit challenges. None of this is in the hosted schema the baseline
+-- describes. The app still inserts its own profile row at sign-up, which
+-- does nothing once this has run.
+
+-- profiles ------------------------------------------------------------------
+
+-- every new auth user gets a profile; the role always starts as 'user',
+-- whatever the sign-up metadata says
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, username)
+  values (
+    new.id,
+    coalesce(new.raw_user_meta_data ->> 'username', split_part(new.email, '@', 1))
+  )
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- users whose sign-up never got a profile row
+insert into public.profiles (id, username)
+select u.id, coalesce(u.raw_user_meta_data ->> 'username', split_part(u.email, '@', 1))
+from auth.users u
+on conflict (id) do nothing;
+
+-- the app's own insert can't make anyone an admin either
+drop policy if exists "Users create their own profile" on public.profiles;
+create policy "Users create their own profile"
+  on public.profiles for insert
+  with check (id = auth.uid() and role = 'user');
+
+-- users edit their own profile, but only admins hand out roles
+create or replace function public.guard_profile_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user in ('postgres', 'service_role', 'supabase_admin') or public.is_admin() then
+    return new;
+  end if;
+  if new.role is distinct from old.role then
+    raise exception 'roles can only be changed by an admin'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_profile_role on public.profiles;
+create trigger guard_profile_role
+  before update on public.profiles
+  for each row execute function public.guard_profile_role();
+
+-- challenges ----------------------------------------------------------------
+
+drop policy if exists "Admins update challenges" on public.challenges;
+create policy "Admins update challenges"
+  on public.challenges for update
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- challenges.participants follows the participant rows
+create or replace function public.challenge_participants_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update public.challenges set participants = participants + 1
+    where id = new.challenge_id;
+  else
+    update public.challenges set participants = greatest(participants - 1, 0)
+    where id = old.challenge_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists challenge_participants_count on public.challenge_participants;
+create trigger challenge_participants_count
+  after insert or delete on public.challenge_participants
+  for each row execute function public.challenge_participants_count();
+
+-- start from the rows, not from what clients wrote
+update public.challenges c
+set participants = (
+  select count(*) from public.challenge_participants p where p.challenge_id = c.id
+);
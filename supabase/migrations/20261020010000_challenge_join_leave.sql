@@ -0,0 +1,117 @@
+-- Joining and leaving challenges. People join and leave only through
+-- join_challenge() / leave_challenge(), which refuse challenges that have
+-- ended, been switched off, or belong to a group the caller isn't in.
+-- challenges.participants is kept by the participant trigger alone: writes
+-- to it from anywhere else are ignored.
+
+-- challenges.participants follows the participant rows. The function runs
+-- as its owner, which is what lets its update through the guard below.
+create or replace function public.challenge_participants_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update public.challenges set participants = participants + 1
+    where id = new.challenge_id;
+  else
+    update public.challenges set participants = greatest(participants - 1, 0)
+    where id = old.challenge_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists challenge_participants_count on public.challenge_participants;
+create trigger challenge_participants_count
+  after insert or delete on public.challenge_participants
+  for each row execute function public.challenge_participants_count();
+
+-- counts written by older clients may have drifted
+update public.challenges c
+set participants = (
+  select count(*) from public.challenge_participants p where p.challenge_id = c.id
+);
+
+-- a new challenge starts empty, and users (admins included) can't change the
+-- count afterwards; only the database roles, and so the trigger above, can
+create or replace function public.challenges_keep_participants()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user in ('postgres', 'service_role', 'supabase_admin') then
+    return new;
+  end if;
+  if tg_op = 'INSERT' then
+    new.participants := 0;
+  else
+    new.participants := old.participants;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists challenges_keep_participants on public.challenges;
+create trigger challenges_keep_participants
+  before insert or update of participants on public.challenges
+  for each row execute function public.challenges_keep_participants();
+
+drop policy if exists "Users join challenges as themselves" on public.challenge_participants;
+drop policy if exists "Users leave challenges as themselves" on public.challenge_participants;
+
+-- joining twice is a no-op; returns the challenge's participant count
+create or replace function public.join_challenge(p_challenge_id bigint)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_challenge public.challenges;
+begin
+  if auth.uid() is null then
+    raise exception 'not signed in';
+  end if;
+
+  select * into v_challenge from public.challenges where id = p_challenge_id;
+  if v_challenge.id is null
+    or (v_challenge.team_id is not null and not public.is_team_member(v_challenge.team_id)) then
+    raise exception 'challenge not found';
+  end if;
+  if not v_challenge.is_active or v_challenge.end_date < current_date then
+    raise exception 'challenge has ended';
+  end if;
+
+  insert into public.challenge_participants (challenge_id, user_id)
+  values (p_challenge_id, auth.uid())
+  on conflict (challenge_id, user_id) do nothing;
+
+  return (select participants from public.challenges where id = p_challenge_id);
+end;
+$$;
+
+-- leaving a challenge you aren't in is a no-op; returns the participant count
+create or replace function public.leave_challenge(p_challenge_id bigint)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not signed in';
+  end if;
+
+  delete from public.challenge_participants
+  where challenge_id = p_challenge_id and user_id = auth.uid();
+
+  return (select participants from public.challenges where id = p_challenge_id);
+end;
+$$;
+
+grant execute on function public.join_challenge(bigint) to authenticated;
+grant execute on function public.leave_challenge(bigint) to authenticated;
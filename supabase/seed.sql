@@ -0,0 +1,78 @@
+-- Local development data, loaded by `supabase start` and `supabase db reset`.
+-- Three users, all with the password "password123":
+--   alice@example.com  admin, planks every day for the past two weeks
+--   bob@example.com    follows alice, joined the 30 day challenge
+--   carol@example.com  approves her followers
+
+insert into auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, email_change, email_change_token_new, recovery_token
+)
+select
+  '00000000-0000-0000-0000-000000000000', u.id, 'authenticated', 'authenticated', u.email,
+  extensions.crypt('password123', extensions.gen_salt('bf')), now(),
+  '{"provider": "email", "providers": ["email"]}', jsonb_build_object('username', u.username), now(), now(),
+  '', '', '', ''
+from (values
+  ('a11ce000-0000-4000-8000-000000000001'::uuid, 'alice@example.com', 'alice'),
+  ('b0b00000-0000-4000-8000-000000000002'::uuid, 'bob@example.com', 'bob'),
+  ('ca201000-0000-4000-8000-000000000003'::uuid, 'carol@example.com', 'carol')
+) as u (id, email, username);
+
+insert into auth.identities (id, user_id, provider_id, provider, identity_data, last_sign_in_at, created_at, updated_at)
+select gen_random_uuid(), u.id, u.id::text, 'email',
+  jsonb_build_object('sub', u.id::text, 'email', u.email, 'email_verified', true), now(), now(), now()
+from auth.users u
+where u.email like '%@example.com';
+
+-- profiles were created by handle_new_user()
+update public.profiles set full_name = 'Alice Admin', bio = 'Core of steel.', role = 'admin'
+where id = 'a11ce000-0000-4000-8000-000000000001';
+update public.profiles set full_name = 'Bob Builder', bio = 'Planking between builds.'
+where id = 'b0b00000-0000-4000-8000-000000000002';
+update public.profiles set full_name = 'Carol Core', approve_followers = true
+where id = 'ca201000-0000-4000-8000-000000000003';
+
+insert into public.planks (user_id, plank_date, duration_s, variant_id)
+select 'a11ce000-0000-4000-8000-000000000001', current_date - d, 60 + d * 7, case when d % 3 = 0 then 2 else 1 end
+from generate_series(0, 13) as d;
+
+insert into public.planks (user_id, plank_date, duration_s)
+select 'b0b00000-0000-4000-8000-000000000002', current_date - d, 45 + d * 5
+from generate_series(1, 20, 2) as d;
+
+insert into public.planks (user_id, plank_date, duration_s)
+values ('ca201000-0000-4000-8000-000000000003', current_date, 150);
+
+insert into public.follows (follower_id, following_id)
+values ('b0b00000-0000-4000-8000-000000000002', 'a11ce000-0000-4000-8000-000000000001');
+
+insert into public.challenges (title, description, image, start_date, start_time, end_date, type, meeting_url)
+values
+  ('30 Day Plank', 'Plank every day for a month, a little longer each week.',
+   'https://images.unsplash.com/photo-1566241440091-ec10de8db2e1', current_date - 7, null, current_date + 23, 'Streak', null),
+  ('Friday Live Plank', 'Hold it together on a video call.',
+   'https://images.unsplash.com/photo-1571019613454-1cb2f99b2d8b', current_date + 3, '18:00', current_date + 3, 'Live',
+   'https://meet.example.com/friday-plank');
+
+-- the trigger counts Bob in
+insert into public.challenge_participants (user_id, challenge_id)
+select 'b0b00000-0000-4000-8000-000000000002', id from public.challenges where title = '30 Day Plank';
+
+insert into public.badges (name, icon_url, description, criteria)
+values
+  ('First Plank', '🥇', 'Log your first plank.', '{"planks": 1}'),
+  ('One Minute', '⏱️', 'Hold a plank for a full minute.', '{"duration_s": 60}'),
+  ('Week Streak', '🔥', 'Plank seven days in a row.', '{"streak": 7}');
+
+insert into public.user_badges (user_id, badge_id, progress, max_progress, earned_at)
+select 'a11ce000-0000-4000-8000-000000000001', b.id, b.max_progress, b.max_progress, now()
+from (
+  select id, coalesce((criteria ->> 'planks')::int, (criteria ->> 'streak')::int, 1) as max_progress
+  from public.badges
+) b;
+
+insert into public.user_badges (user_id, badge_id, progress, max_progress, earned_at)
+select 'b0b00000-0000-4000-8000-000000000002', id, 1, 7, null
+from public.badges where name = 'Week Streak';
@@ -0,0 +1,60 @@
+-- The activity feed: joins and completions come from what participants did,
+-- not from the calendar. Run with `supabase test db`; everything happens in a
+-- transaction that is rolled back.
+
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(3);
+
+insert into auth.users (id, email)
+values
+  ('11111111-1111-4111-8111-111111111111', 'reader@test.local'),
+  ('22222222-2222-4222-8222-222222222222', 'finisher@test.local'),
+  ('44444444-4444-4444-8444-444444444444', 'quitter@test.local');
+
+insert into public.follows (follower_id, following_id)
+values
+  ('11111111-1111-4111-8111-111111111111', '22222222-2222-4222-8222-222222222222'),
+  ('11111111-1111-4111-8111-111111111111', '44444444-4444-4444-8444-444444444444');
+
+insert into public.challenges (id, title, description, image, start_date, end_date, type)
+overriding system value
+values (900001, 'Three days', 'For the tests', '', current_date - 5, current_date - 3, 'Streak');
+
+-- both took part; only the finisher planked on all three days
+insert into public.challenge_participants (user_id, challenge_id, joined_at)
+values
+  ('22222222-2222-4222-8222-222222222222', 900001, null),
+  ('44444444-4444-4444-8444-444444444444', 900001, now() - interval '6 days');
+
+insert into public.planks (user_id, plank_date, duration_s, inserted_at)
+values
+  ('22222222-2222-4222-8222-222222222222', current_date - 5, 60, now() - interval '5 days'),
+  ('22222222-2222-4222-8222-222222222222', current_date - 4, 60, now() - interval '4 days'),
+  ('22222222-2222-4222-8222-222222222222', current_date - 3, 60, now() - interval '3 days'),
+  ('44444444-4444-4444-8444-444444444444', current_date - 5, 60, now() - interval '5 days');
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "11111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+select is(
+  (select array_agg(actor_id) from public.activity_feed() where kind = 'challenge_completed'),
+  array['22222222-2222-4222-8222-222222222222']::uuid[],
+  'only someone who planked on every day of a challenge completed it'
+);
+
+select ok(
+  (select occurred_at > now() - interval '4 days'
+   from public.activity_feed() where kind = 'challenge_completed'),
+  'a completion happens when its last plank was logged'
+);
+
+select is(
+  (select array_agg(actor_id) from public.activity_feed() where kind = 'challenge_joined'),
+  array['44444444-4444-4444-8444-444444444444']::uuid[],
+  'participants without a join date never show up as joins'
+);
+
+select * from finish();
+rollback;
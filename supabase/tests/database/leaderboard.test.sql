@@ -0,0 +1,105 @@
+-- Leaderboards hand out per-user aggregates only: the ranking helpers can't be
+-- called directly and raw planks aren't visible to visitors. Scopes are seen
+-- from the caller. Run with `supabase test db`; everything happens in a
+-- transaction that is rolled back.
+
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(10);
+
+insert into auth.users (id, email)
+values
+  ('11111111-1111-4111-8111-111111111111', 'owner@test.local'),
+  ('22222222-2222-4222-8222-222222222222', 'other@test.local');
+
+-- longer than anything in the seed data, so the two lead the board
+insert into public.planks (id, user_id, plank_date, duration_s)
+overriding system value
+values
+  (900001, '11111111-1111-4111-8111-111111111111', current_date, 86000),
+  (900002, '22222222-2222-4222-8222-222222222222', current_date, 86400);
+
+-- visitors ------------------------------------------------------------------------
+
+set local role anon;
+select set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+select is(
+  (select user_id from public.leaderboard('best', current_date, current_date) where rank = 1),
+  '22222222-2222-4222-8222-222222222222'::uuid,
+  'visitors see the ranked leaderboard'
+);
+
+select is(
+  (select count(*) from public.planks where id in (900001, 900002)), 0::bigint,
+  'visitors cannot read raw planks'
+);
+
+select throws_ok(
+  $$ select * from public.leaderboard_standings(current_date, current_date) $$,
+  '42501', null,
+  'visitors cannot call the standings helper'
+);
+
+select throws_ok(
+  $$ select * from public.leaderboard_ranked('best', current_date, current_date) $$,
+  '42501', null,
+  'visitors cannot call the ranking helper'
+);
+
+-- signed in -----------------------------------------------------------------------
+
+reset role;
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "11111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+select is(
+  (select rank from public.leaderboard_my_rank('11111111-1111-4111-8111-111111111111', 'best', current_date, current_date)),
+  2::bigint,
+  'users look up their own rank'
+);
+
+select is(
+  (select count(*) from public.planks where id in (900001, 900002)), 2::bigint,
+  'signed-in users read planks for profiles and plank details'
+);
+
+select throws_ok(
+  $$ select * from public.leaderboard_standings(current_date, current_date) $$,
+  '42501', null,
+  'signed-in users cannot call the standings helper'
+);
+
+select throws_ok(
+  $$ select * from public.leaderboard_ranked('best', current_date, current_date) $$,
+  '42501', null,
+  'signed-in users cannot call the ranking helper'
+);
+
+-- scopes ---------------------------------------------------------------------------
+
+insert into public.follows (follower_id, following_id)
+values ('11111111-1111-4111-8111-111111111111', '22222222-2222-4222-8222-222222222222');
+
+select is(
+  (select array_agg(user_id order by rank)
+   from public.leaderboard('best', current_date, current_date, p_scope => 'following')),
+  array['22222222-2222-4222-8222-222222222222', '11111111-1111-4111-8111-111111111111']::uuid[],
+  'the following scope is the caller and the people they follow'
+);
+
+reset role;
+insert into public.teams (id, name, created_by)
+overriding system value
+values (900001, 'Others', '22222222-2222-4222-8222-222222222222');
+set local role authenticated;
+
+select is(
+  (select count(*) from public.leaderboard('best', p_scope => 'team', p_team_id => 900001)),
+  0::bigint,
+  'a team scope is empty for outsiders'
+);
+
+select * from finish();
+rollback;
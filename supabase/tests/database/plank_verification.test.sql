@@ -0,0 +1,142 @@
+-- Plank verification: evidence needs snapshots, a verdict only covers the
+-- plank as it was reviewed, verified snapshots stay as they were, and owners
+-- can only mark the notifications they get read. Run with `supabase test db`;
+-- everything happens in a transaction that is rolled back.
+
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(13);
+
+insert into auth.users (id, email)
+values
+  ('11111111-1111-4111-8111-111111111111', 'owner@test.local'),
+  ('33333333-3333-4333-8333-333333333333', 'admin@test.local');
+
+update public.profiles set role = 'admin'
+where id = '33333333-3333-4333-8333-333333333333';
+
+insert into public.planks (id, user_id, plank_date, duration_s)
+overriding system value
+values
+  (900001, '11111111-1111-4111-8111-111111111111', current_date, 60),
+  (900002, '11111111-1111-4111-8111-111111111111', current_date, 90),
+  (900003, '11111111-1111-4111-8111-111111111111', current_date, 120);
+
+insert into storage.objects (bucket_id, name, owner)
+values
+  ('plank-photos', '11111111-1111-4111-8111-111111111111_900002_0.png', '11111111-1111-4111-8111-111111111111'),
+  ('plank-photos', '11111111-1111-4111-8111-111111111111_900003_0.png', '11111111-1111-4111-8111-111111111111');
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "11111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+-- evidence ----------------------------------------------------------------------
+
+select throws_ok(
+  $$ insert into public.plank_verifications (plank_id, user_id, snapshot_paths, captured_at)
+     values (900001, '11111111-1111-4111-8111-111111111111', '{}', '{}') $$,
+  '23514', null,
+  'evidence without snapshots is refused'
+);
+
+select is(
+  (select verification_status::text from public.planks where id = 900001), 'unverified',
+  'refused evidence leaves the plank unverified'
+);
+
+insert into public.plank_verifications (plank_id, user_id, snapshot_paths, captured_at)
+values
+  (900001, '11111111-1111-4111-8111-111111111111', '{a.png}', array[now()]),
+  (900002, '11111111-1111-4111-8111-111111111111', '{11111111-1111-4111-8111-111111111111_900002_0.png}', array[now()]),
+  (900003, '11111111-1111-4111-8111-111111111111', '{11111111-1111-4111-8111-111111111111_900003_0.png}', array[now()]);
+
+select is(
+  (select verification_status::text from public.planks where id = 900001), 'pending',
+  'evidence with snapshots puts the plank up for review'
+);
+
+select throws_ok(
+  $$ update public.planks set duration_s = 600 where id = 900001 $$,
+  '42501', null,
+  'a plank under review cannot be changed'
+);
+
+-- the verdicts, as a reviewer --------------------------------------------------------
+
+select set_config('request.jwt.claims', '{"sub": "33333333-3333-4333-8333-333333333333", "role": "authenticated"}', true);
+select public.review_plank(900002, 'approve');
+select public.review_plank(900003, 'reject', 'blurry');
+
+select set_config('request.jwt.claims', '{"sub": "11111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+-- notifications, as the owner ------------------------------------------------------
+
+update public.notifications set body = 'Your plank was verified!', kind = 'plank_verified'
+where plank_id = 900003;
+select is(
+  (select kind from public.notifications where plank_id = 900003), 'plank_rejected',
+  'owners cannot rewrite their notifications'
+);
+
+select public.mark_notifications_read();
+select is(
+  (select count(*) from public.notifications
+   where user_id = '11111111-1111-4111-8111-111111111111' and read_at is null),
+  0::bigint,
+  'owners mark their notifications read'
+);
+
+-- the snapshots, as the owner ---------------------------------------------------------
+
+update storage.objects set owner = null
+where name = '11111111-1111-4111-8111-111111111111_900002_0.png';
+select is(
+  (select owner from storage.objects where name = '11111111-1111-4111-8111-111111111111_900002_0.png'),
+  '11111111-1111-4111-8111-111111111111'::uuid,
+  'snapshots of a verified plank cannot be uploaded over'
+);
+
+delete from storage.objects where name = '11111111-1111-4111-8111-111111111111_900002_0.png';
+select is(
+  (select count(*) from storage.objects where name = '11111111-1111-4111-8111-111111111111_900002_0.png'),
+  1::bigint,
+  'snapshots of a verified plank cannot be deleted'
+);
+
+update storage.objects set owner = null
+where name = '11111111-1111-4111-8111-111111111111_900003_0.png';
+select is(
+  (select owner from storage.objects where name = '11111111-1111-4111-8111-111111111111_900003_0.png'),
+  null,
+  'snapshots of an unverified plank can still be replaced'
+);
+
+-- edits after the verdicts ------------------------------------------------------------
+
+update public.planks set photos = '{b.png}' where id = 900002;
+select is(
+  (select verification_status::text from public.planks where id = 900002), 'verified',
+  'changes to what was not reviewed keep a plank verified'
+);
+
+update public.planks set duration_s = 600 where id = 900002;
+select is(
+  (select verification_status::text from public.planks where id = 900002), 'unverified',
+  'changing the time held takes a verified plank back to unverified'
+);
+
+update public.planks set plank_date = current_date - 1 where id = 900003;
+select is(
+  (select verification_status::text from public.planks where id = 900003), 'rejected',
+  'a rejection stands after an edit'
+);
+
+select throws_ok(
+  $$ update public.planks set verification_status = 'verified' where id = 900002 $$,
+  '42501', null,
+  'owners still cannot verify their own planks'
+);
+
+select * from finish();
+rollback;
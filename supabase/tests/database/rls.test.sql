@@ -0,0 +1,168 @@
+-- Row-level security for planks, profiles and challenges. Run with
+-- `supabase test db`; everything happens in a transaction that is rolled back.
+
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(20);
+
+-- two users and an admin; handle_new_user() gives each a profile
+insert into auth.users (id, email)
+values
+  ('11111111-1111-4111-8111-111111111111', 'owner@test.local'),
+  ('22222222-2222-4222-8222-222222222222', 'other@test.local'),
+  ('33333333-3333-4333-8333-333333333333', 'admin@test.local');
+
+update public.profiles set role = 'admin'
+where id = '33333333-3333-4333-8333-333333333333';
+
+insert into public.planks (id, user_id, plank_date, duration_s)
+overriding system value
+values
+  (900001, '11111111-1111-4111-8111-111111111111', current_date, 60),
+  (900002, '22222222-2222-4222-8222-222222222222', current_date, 90);
+
+insert into public.challenges (id, title, description, image, start_date, end_date, type)
+overriding system value
+values
+  (900001, 'Test challenge', 'For the tests', '', current_date, current_date + 7, 'Streak'),
+  (900002, 'Ended challenge', 'For the tests', '', current_date - 7, current_date - 1, 'Streak');
+
+-- planks, as the owner --------------------------------------------------------
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "11111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+select lives_ok(
+  $$ insert into public.planks (user_id, plank_date, duration_s)
+     values ('11111111-1111-4111-8111-111111111111', current_date, 30) $$,
+  'users log their own planks'
+);
+
+select throws_ok(
+  $$ insert into public.planks (user_id, plank_date, duration_s)
+     values ('22222222-2222-4222-8222-222222222222', current_date, 30) $$,
+  '42501', null,
+  'users cannot log planks for someone else'
+);
+
+update public.planks set duration_s = 61 where id = 900001;
+select is(
+  (select duration_s from public.planks where id = 900001), 61,
+  'users update their own planks'
+);
+
+update public.planks set duration_s = 1 where id = 900002;
+select is(
+  (select duration_s from public.planks where id = 900002), 90,
+  'users cannot update someone else''s planks'
+);
+
+select throws_ok(
+  $$ update public.planks set user_id = '22222222-2222-4222-8222-222222222222' where id = 900001 $$,
+  '42501', null,
+  'users cannot hand their planks to someone else'
+);
+
+delete from public.planks where id = 900002;
+select ok(
+  exists (select 1 from public.planks where id = 900002),
+  'users cannot delete someone else''s planks'
+);
+
+-- profiles --------------------------------------------------------------------
+
+update public.profiles set bio = 'mine' where id = '11111111-1111-4111-8111-111111111111';
+select is(
+  (select bio from public.profiles where id = '11111111-1111-4111-8111-111111111111'), 'mine',
+  'users update their own profile'
+);
+
+update public.profiles set bio = 'not yours' where id = '22222222-2222-4222-8222-222222222222';
+select is(
+  (select bio from public.profiles where id = '22222222-2222-4222-8222-222222222222'), null,
+  'users cannot update someone else''s profile'
+);
+
+select throws_ok(
+  $$ update public.profiles set role = 'admin' where id = '11111111-1111-4111-8111-111111111111' $$,
+  '42501', null,
+  'users cannot make themselves admin'
+);
+
+select throws_ok(
+  $$ insert into public.profiles (id, role)
+     values ('11111111-1111-4111-8111-111111111111', 'admin')
+     on conflict (id) do nothing $$,
+  '42501', null,
+  'users cannot create their profile as an admin'
+);
+
+-- challenges, as a regular user -----------------------------------------------
+
+select throws_ok(
+  $$ insert into public.challenges (title, description, image, start_date, end_date, type)
+     values ('Mine', '', '', current_date, current_date, 'Streak') $$,
+  '42501', null,
+  'users cannot create challenges'
+);
+
+update public.challenges set title = 'Renamed' where id = 900001;
+delete from public.challenges where id = 900001;
+select is(
+  (select title from public.challenges where id = 900001), 'Test challenge',
+  'users cannot update or delete challenges'
+);
+
+select throws_ok(
+  $$ insert into public.challenge_participants (user_id, challenge_id)
+     values ('11111111-1111-4111-8111-111111111111', 900001) $$,
+  '42501', null,
+  'users cannot insert participant rows directly'
+);
+
+select is(
+  public.join_challenge(900001), 1,
+  'joining counts the participant'
+);
+
+select is(
+  public.join_challenge(900001), 1,
+  'joining twice counts once'
+);
+
+select throws_ok(
+  $$ select public.join_challenge(900002) $$,
+  'P0001', 'challenge has ended',
+  'users cannot join a challenge that has ended'
+);
+
+select is(
+  public.leave_challenge(900001), 0,
+  'leaving uncounts the participant'
+);
+
+-- challenges, as an admin -----------------------------------------------------
+
+select set_config('request.jwt.claims', '{"sub": "33333333-3333-4333-8333-333333333333", "role": "authenticated"}', true);
+
+select lives_ok(
+  $$ insert into public.challenges (title, description, image, start_date, end_date, type)
+     values ('Official', '', '', current_date, current_date + 30, 'Streak') $$,
+  'admins create challenges'
+);
+
+update public.challenges set title = 'Renamed' where id = 900001;
+select is(
+  (select title from public.challenges where id = 900001), 'Renamed',
+  'admins update challenges'
+);
+
+update public.challenges set participants = 500 where id = 900001;
+select is(
+  (select participants from public.challenges where id = 900001), 0,
+  'participant counts cannot be written directly'
+);
+
+select * from finish();
+rollback;
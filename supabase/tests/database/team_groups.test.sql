@@ -0,0 +1,110 @@
+-- Group challenges: only the group's owners and admins create, change or
+-- delete them, and only the group sees them, activity feed included. Run with
+-- `supabase test db`; everything happens in a transaction that is rolled back.
+
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(8);
+
+insert into auth.users (id, email)
+values
+  ('11111111-1111-4111-8111-111111111111', 'owner@test.local'),
+  ('22222222-2222-4222-8222-222222222222', 'member@test.local'),
+  ('44444444-4444-4444-8444-444444444444', 'outsider@test.local');
+
+-- team_created() makes the creator the owner
+insert into public.teams (id, name, created_by)
+overriding system value
+values (900001, 'Planners', '11111111-1111-4111-8111-111111111111');
+
+insert into public.team_members (team_id, user_id)
+values (900001, '22222222-2222-4222-8222-222222222222');
+
+insert into public.challenges (id, title, description, image, start_date, end_date, type, team_id)
+overriding system value
+values
+  (900001, 'Group week', 'For the tests', '', current_date, current_date + 7, 'Streak', 900001),
+  (900002, 'Group month', 'For the tests', '', current_date, current_date + 30, 'Streak', 900001),
+  (900003, 'Public day', 'For the tests', '', current_date, current_date, 'Streak', null),
+  (900004, 'Group day', 'For the tests', '', current_date, current_date, 'Streak', 900001);
+
+-- the member joins and completes a public and a group challenge, watched by
+-- an outsider who follows them
+insert into public.follows (follower_id, following_id)
+values ('44444444-4444-4444-8444-444444444444', '22222222-2222-4222-8222-222222222222');
+
+insert into public.challenge_participants (user_id, challenge_id)
+values
+  ('22222222-2222-4222-8222-222222222222', 900003),
+  ('22222222-2222-4222-8222-222222222222', 900004);
+
+insert into public.planks (user_id, plank_date, duration_s)
+values ('22222222-2222-4222-8222-222222222222', current_date, 60);
+
+set local role authenticated;
+
+-- a plain member ------------------------------------------------------------------
+
+select set_config('request.jwt.claims', '{"sub": "22222222-2222-4222-8222-222222222222", "role": "authenticated"}', true);
+
+update public.challenges set title = 'Renamed' where id = 900001;
+delete from public.challenges where id = 900002;
+select is(
+  (select count(*) from public.challenges where id in (900001, 900002) and title <> 'Renamed'),
+  2::bigint,
+  'members cannot change or delete group challenges'
+);
+
+-- someone outside the group -------------------------------------------------------
+
+select set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-8444-444444444444", "role": "authenticated"}', true);
+
+select is(
+  (select count(*) from public.challenges where id in (900001, 900002)), 0::bigint,
+  'outsiders do not see group challenges'
+);
+
+select throws_ok(
+  $$ insert into public.challenges (title, description, image, start_date, end_date, type, team_id)
+     values ('Mine now', '', '', current_date, current_date, 'Streak', 900001) $$,
+  '42501', null,
+  'outsiders cannot create group challenges'
+);
+
+select is(
+  (select array_agg(challenge_id) from public.activity_feed() where kind = 'challenge_joined'),
+  array[900003]::bigint[],
+  'followers outside the group do not see group challenge joins'
+);
+
+select is(
+  (select array_agg(challenge_id) from public.activity_feed() where kind = 'challenge_completed'),
+  array[900003]::bigint[],
+  'followers outside the group do not see group challenge completions'
+);
+
+-- the owner -----------------------------------------------------------------------
+
+select set_config('request.jwt.claims', '{"sub": "11111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+update public.challenges set title = 'Renamed' where id = 900001;
+select is(
+  (select title from public.challenges where id = 900001), 'Renamed',
+  'owners change group challenges'
+);
+
+select throws_ok(
+  $$ update public.challenges set team_id = null where id = 900001 $$,
+  '42501', null,
+  'owners cannot turn a group challenge into a public one'
+);
+
+delete from public.challenges where id = 900002;
+select is(
+  (select count(*) from public.challenges where id = 900002), 0::bigint,
+  'owners delete group challenges'
+);
+
+select * from finish();
+rollback;